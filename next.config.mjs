@@ -9,6 +9,10 @@ const withBundleAnalyzer = bundleAnalyzer({
 
 const nextConfig = {
   reactStrictMode: true,
+  experimental: {
+    // Runs src/instrumentation.ts at startup (checks the server API configuration)
+    instrumentationHook: true,
+  },
   images: {
     domains: ['api.example.com', 'i.pravatar.cc', 'cous-dev.fra1.digitaloceanspaces.com'],
     formats: ['image/avif', 'image/webp'],
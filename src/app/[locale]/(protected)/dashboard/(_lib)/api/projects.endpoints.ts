@@ -0,0 +1,45 @@
+import { z } from 'zod';
+
+import {
+  projectListBodySchema,
+  projectListQuerySchema,
+  projectRequestBodySchema,
+  projectSchema,
+  transformProjectListResponse,
+  updateProjectRequestBodySchema,
+} from '@/app/[locale]/(protected)/dashboard/(_lib)/model/projects.schemas';
+import { API_ROUTES } from '@/shared/config/api';
+import { defineEndpoint } from '@/shared/infra/http/http.endpoint';
+
+// Project backend routes
+export const projectEndpoints = {
+  list: defineEndpoint({
+    method: 'GET',
+    path: API_ROUTES.projects.list,
+    params: projectListQuerySchema,
+    response: projectListBodySchema.transform(transformProjectListResponse),
+    unwrapEnvelope: true,
+    meta: { showErrorNotification: false, cache: 'swr' },
+  }),
+
+  create: defineEndpoint({
+    method: 'POST',
+    path: API_ROUTES.projects.list,
+    body: projectRequestBodySchema,
+    response: projectSchema,
+    unwrapEnvelope: true,
+    // Idempotency-Key lets retries replay the call without creating duplicate projects
+    meta: { showErrorNotification: false, idempotent: true },
+  }),
+
+  update: defineEndpoint({
+    method: 'PUT',
+    path: API_ROUTES.projects.byId(':id'),
+    params: z.object({ id: z.string() }),
+    body: updateProjectRequestBodySchema,
+    response: projectSchema,
+    unwrapEnvelope: true,
+    // Edits made offline are queued and replayed on reconnect (throws OfflineQueuedError)
+    meta: { showErrorNotification: false, queueWhenOffline: true, idempotent: true },
+  }),
+};
@@ -1,112 +1,82 @@
-import type { z } from 'zod';
-
 import type {
   TCreateProjectPayload,
   TProject,
+  TProjectExportFormat,
+  TProjectListQuery,
   TProjectListResponse,
   TUpdateProjectPayload,
 } from '@/app/[locale]/(protected)/dashboard/(_lib)/model/projects.schemas';
-import {
-  apiResponseWrapperSchema,
-  createProjectPayloadSchema,
-  createProjectResponseSchema,
-  transformProjectListResponse,
-  updateProjectPayloadSchema,
-} from '@/app/[locale]/(protected)/dashboard/(_lib)/model/projects.schemas';
+import { createProjectPayloadSchema, updateProjectPayloadSchema } from '@/app/[locale]/(protected)/dashboard/(_lib)/model/projects.schemas';
 import { API_ROUTES } from '@/shared/config/api';
-import { httpGet, httpPost, httpPut } from '@/shared/infra/http/http.client';
+import { invalidateHttpCache } from '@/shared/infra/http/http.cache';
+import { httpDownload } from '@/shared/infra/http/http.client';
+import type { HttpDownloadResult } from '@/shared/infra/http/http.download';
+import { getEnvelopeMessage } from '@/shared/infra/http/http.envelope';
+import type { HttpProgressHandler, HttpRequestFunction } from '@/shared/infra/http/http.types';
+import type { S3TransferOptions } from '@/shared/utils/s3';
 import { uploadFileToS3 } from '@/shared/utils/s3';
 
-type ProjectQueryParams = { page?: number; limit?: number; name?: string };
+import { projectEndpoints } from './projects.endpoints';
+
 type ImageInput = File | string | null | undefined;
 
-const DEFAULT_PAGE = 1;
-const DEFAULT_LIMIT = 100;
 const AVATAR_UPLOAD_PREFIX = 'uploads/avatar';
 
-const buildQueryParams = ({ page = DEFAULT_PAGE, limit = DEFAULT_LIMIT, name }: ProjectQueryParams): Record<string, string> => {
-  const params: Record<string, string> = {
-    page: String(page),
-    limit: String(limit),
-  };
-
-  const trimmedName = name?.trim();
-  if (trimmedName) {
-    params.name = trimmedName;
-  }
-
-  return params;
-};
-
-const resolveProjectImage = async (image: ImageInput): Promise<string | undefined> => {
+const resolveProjectImage = async (image: ImageInput, transferOptions: S3TransferOptions = {}): Promise<string | undefined> => {
   if (!image) return undefined;
   if (typeof image === 'string') return image;
 
   return uploadFileToS3({
     file: image,
     prefix: AVATAR_UPLOAD_PREFIX,
+    ...transferOptions,
   });
 };
 
-const buildCreateBody = (name: string, avatar?: string) => ({
-  name,
-  ...(avatar ? { avatar } : {}),
-});
-
-const buildUpdateBody = (name?: string, avatar?: string) => {
-  const body: { name?: string; avatar?: string } = {};
-
-  if (name !== undefined) {
-    body.name = name;
-  }
-
-  if (avatar !== undefined) {
-    body.avatar = avatar;
-  }
-
-  return body;
-};
-
-export const projectService = {
-  async getAll(params: ProjectQueryParams = {}): Promise<TProjectListResponse> {
-    const rawResponse = await httpGet<z.infer<typeof apiResponseWrapperSchema>>(API_ROUTES.projects.list, {
-      params: buildQueryParams(params),
-      schema: apiResponseWrapperSchema,
-      meta: { showErrorNotification: false },
-    });
-
-    return transformProjectListResponse(rawResponse);
+// Pass a server client (createServerHttpClient) to call the same endpoints from the server
+export const createProjectService = (client?: HttpRequestFunction) => ({
+  async getAll(params: TProjectListQuery = {}): Promise<TProjectListResponse> {
+    return projectEndpoints.list({ params, client });
   },
 
-  async create(payload: TCreateProjectPayload): Promise<{ project: TProject; message: string }> {
+  async create(payload: TCreateProjectPayload, transferOptions?: S3TransferOptions): Promise<{ project: TProject; message: string }> {
     const parsed = createProjectPayloadSchema.parse(payload);
-    const avatarUrl = await resolveProjectImage(parsed.image);
+    const avatarUrl = await resolveProjectImage(parsed.image, transferOptions);
 
-    const response = await httpPost<z.infer<typeof createProjectResponseSchema>>(API_ROUTES.projects.list, {
-      body: buildCreateBody(parsed.name, avatarUrl),
-      schema: createProjectResponseSchema,
-      meta: { showErrorNotification: false },
-    });
+    const project = await projectEndpoints.create({ body: { name: parsed.name, avatar: avatarUrl }, client });
+
+    // Cached project lists no longer reflect the server state
+    invalidateHttpCache(API_ROUTES.projects.list);
 
     return {
-      project: response.body,
-      message: response.message,
+      project,
+      message: getEnvelopeMessage(project) ?? '',
     };
   },
 
-  async update(id: string, payload: TUpdateProjectPayload): Promise<{ project: TProject; message: string }> {
+  async update(id: string, payload: TUpdateProjectPayload, transferOptions?: S3TransferOptions): Promise<{ project: TProject; message: string }> {
     const parsed = updateProjectPayloadSchema.parse(payload);
-    const avatarUrl = await resolveProjectImage(parsed.image);
+    const avatarUrl = await resolveProjectImage(parsed.image, transferOptions);
 
-    const response = await httpPut<z.infer<typeof createProjectResponseSchema>>(API_ROUTES.projects.byId(id), {
-      body: buildUpdateBody(parsed.name, avatarUrl),
-      schema: createProjectResponseSchema,
-      meta: { showErrorNotification: false },
-    });
+    const project = await projectEndpoints.update({ params: { id }, body: { name: parsed.name, avatar: avatarUrl }, client });
+
+    // Cached project lists no longer reflect the server state
+    invalidateHttpCache(API_ROUTES.projects.list);
 
     return {
-      project: response.body,
-      message: response.message,
+      project,
+      message: getEnvelopeMessage(project) ?? '',
     };
   },
-};
+
+  // Download the project list as CSV/XLSX (saved by the browser)
+  async export(format: TProjectExportFormat = 'csv', onDownloadProgress?: HttpProgressHandler): Promise<HttpDownloadResult> {
+    return httpDownload(API_ROUTES.projects.export, {
+      params: { format },
+      filename: `projects.${format}`,
+      meta: { showErrorNotification: false, onDownloadProgress },
+    });
+  },
+});
+
+export const projectService = createProjectService();
@@ -0,0 +1,51 @@
+import { z } from 'zod';
+
+import { API_ROUTES } from '@/shared/config/api';
+import { defineEndpoint } from '@/shared/infra/http/http.endpoint';
+
+import { createUserPayloadSchema, updateUserPayloadSchema, userListQuerySchema, userListResponseSchema, userSchema } from '../model/users.schemas';
+
+const userIdParamsSchema = z.object({ id: z.string() });
+
+// User backend routes
+export const userEndpoints = {
+  list: defineEndpoint({
+    method: 'GET',
+    path: API_ROUTES.users.list,
+    params: userListQuerySchema,
+    response: userListResponseSchema,
+    meta: { showErrorNotification: false },
+  }),
+
+  byId: defineEndpoint({
+    method: 'GET',
+    path: API_ROUTES.users.byId(':id'),
+    params: userIdParamsSchema,
+    response: userSchema,
+    meta: { showErrorNotification: false },
+  }),
+
+  create: defineEndpoint({
+    method: 'POST',
+    path: API_ROUTES.users.list,
+    body: createUserPayloadSchema,
+    response: userSchema,
+    meta: { showErrorNotification: false },
+  }),
+
+  update: defineEndpoint({
+    method: 'PUT',
+    path: API_ROUTES.users.byId(':id'),
+    params: userIdParamsSchema,
+    body: updateUserPayloadSchema,
+    response: userSchema,
+    meta: { showErrorNotification: false },
+  }),
+
+  delete: defineEndpoint({
+    method: 'DELETE',
+    path: API_ROUTES.users.byId(':id'),
+    params: userIdParamsSchema,
+    meta: { showErrorNotification: false },
+  }),
+};
@@ -6,6 +6,7 @@ import { useLocale, useTranslations } from 'next-intl';
 import React, { type ReactNode } from 'react';
 
 import type { TProject } from '@/app/[locale]/(protected)/dashboard/(_lib)/model/projects.schemas';
+import { useCan } from '@/app/[locale]/(public)/auth/(_lib)/hooks/useCan';
 
 interface ProjectCardProps {
   readonly project: TProject;
@@ -17,10 +18,12 @@ interface ProjectCardProps {
 /**
  * Project card component with image, title, and actions
  * Displays project thumbnail, name, creation date, and edit/view actions
+ * The edit action requires the `project:edit` permission
  */
 export const ProjectCard = ({ project, onEdit, onOpen, isNavigating = false }: ProjectCardProps): React.ReactElement => {
   const t = useTranslations('dashboard');
   const locale = useLocale();
+  const can = useCan();
   // Get project image (prefer avatar over imageUrl)
   const imageUrl = project.avatar || project.imageUrl || null;
 
@@ -42,9 +45,9 @@ export const ProjectCard = ({ project, onEdit, onOpen, isNavigating = false }: P
   };
 
   // Render card actions
-  const cardActions: ReactNode[] = [
-    <EditOutlined key="edit" className="text-lg text-slate-600 transition-colors hover:text-indigo-600" onClick={handleEdit} />,
-  ];
+  const cardActions: ReactNode[] = can('project:edit')
+    ? [<EditOutlined key="edit" className="text-lg text-slate-600 transition-colors hover:text-indigo-600" onClick={handleEdit} />]
+    : [];
 
   return (
     <Card
@@ -1,5 +1,6 @@
 'use client';
 
+import { DownloadOutlined } from '@ant-design/icons';
 import { Button, Empty } from 'antd';
 import { useRouter } from 'next/navigation';
 import { useLocale, useTranslations } from 'next-intl';
@@ -7,14 +8,17 @@ import { type ReactElement, useMemo, useState } from 'react';
 import { useRecoilValue, useSetRecoilState } from 'recoil';
 
 import { ProjectCard } from '@/app/[locale]/(protected)/dashboard/(_lib)/components/ProjectCard';
+import { useProjectExport } from '@/app/[locale]/(protected)/dashboard/(_lib)/hooks/useProjectExport';
 import type { TProject } from '@/app/[locale]/(protected)/dashboard/(_lib)/model/projects.schemas';
 import { dashboardModalState, projectsListState, selectedProjectIdState } from '@/app/[locale]/(protected)/dashboard/(_lib)/store/projects.atoms';
+import { Can } from '@/app/[locale]/(public)/auth/(_lib)/component/Can';
 
 /**
  * Responsive projects gallery:
  * - Mobile: horizontal scrollable list (card width ~300px)
  * - Desktop: responsive grid (1/2/3/4 columns)
- * Includes a primary action to create a new project and edit handlers per card.
+ * Includes a primary action to create a new project, a CSV export and edit handlers per card.
+ * Creating a project requires the `project:create` permission.
  */
 export const ProjectsGrid = (): ReactElement => {
   const t = useTranslations('dashboard');
@@ -24,6 +28,7 @@ export const ProjectsGrid = (): ReactElement => {
   const setSelectedId = useSetRecoilState(selectedProjectIdState);
   const setModals = useSetRecoilState(dashboardModalState);
   const [navigating, setNavigating] = useState<string | null>(null);
+  const { exportProjects, exporting, progress } = useProjectExport();
 
   const hasProjects = useMemo(() => projects.length > 0, [projects.length]);
 
@@ -48,12 +53,21 @@ export const ProjectsGrid = (): ReactElement => {
 
   return (
     <section className="w-full">
-      {/* Header: title + create action */}
+      {/* Header: title + export and create actions */}
       <div className="mb-4 flex items-center justify-between gap-3">
         <h2 className="text-lg font-semibold text-slate-900">{t('projects.heading')}</h2>
-        <Button type="primary" className="rounded-md" onClick={handleCreateClick}>
-          {t('projects.createNew')}
-        </Button>
+        <div className="flex items-center gap-2">
+          {hasProjects && (
+            <Button className="rounded-md" icon={<DownloadOutlined />} loading={exporting} onClick={() => void exportProjects('csv')}>
+              {progress === undefined ? t('projects.exportCsv') : t('projects.exportProgress', { percent: Math.round(progress) })}
+            </Button>
+          )}
+          <Can permission="project:create">
+            <Button type="primary" className="rounded-md" onClick={handleCreateClick}>
+              {t('projects.createNew')}
+            </Button>
+          </Can>
+        </div>
       </div>
 
       {hasProjects ? (
@@ -81,11 +95,13 @@ export const ProjectsGrid = (): ReactElement => {
       ) : (
         <div className="rounded-2xl border border-dashed border-slate-200 bg-white py-12 text-center">
           <Empty description={t('projects.empty')} />
-          <div className="mt-4">
-            <Button type="primary" onClick={handleCreateClick}>
-              {t('projects.emptyCta')}
-            </Button>
-          </div>
+          <Can permission="project:create">
+            <div className="mt-4">
+              <Button type="primary" onClick={handleCreateClick}>
+                {t('projects.emptyCta')}
+              </Button>
+            </div>
+          </Can>
         </div>
       )}
     </section>
@@ -1,7 +1,7 @@
 'use client';
 
 import { UploadOutlined } from '@ant-design/icons';
-import { App, Form, Input, Modal, Upload, type UploadFile } from 'antd';
+import { App, Form, Input, Modal, Progress, Upload, type UploadFile } from 'antd';
 import type { RcFile } from 'antd/es/upload';
 import Image from 'next/image';
 import { useTranslations } from 'next-intl';
@@ -28,6 +28,7 @@ export const CreateProjectModal = (): React.ReactElement => {
   const [modals, setModals] = useRecoilState(dashboardModalState);
   const { createProject, creating } = useProjectMutations();
   const [file, setFile] = useState<File | null>(null);
+  const [uploadPercent, setUploadPercent] = useState<number | null>(null);
   const [form] = Form.useForm<FormValues>();
 
   const isOpen = modals.create;
@@ -71,6 +72,7 @@ export const CreateProjectModal = (): React.ReactElement => {
   const handleCancel = useCallback((): void => {
     setModals(prev => ({ ...prev, create: false }));
     setFile(null);
+    setUploadPercent(null);
     form.resetFields();
   }, [setModals, form]);
 
@@ -78,11 +80,12 @@ export const CreateProjectModal = (): React.ReactElement => {
   const handleSubmit = useCallback(async (): Promise<void> => {
     try {
       const values = await form.validateFields();
-      await createProject({ name: values.name, image: file ?? undefined });
+      await createProject({ name: values.name, image: file ?? undefined }, { onUploadProgress: ({ percent }) => setUploadPercent(percent ?? null) });
       handleCancel();
     } catch {
       // Error is handled in useProjectMutations
       // Don't close modal on error
+      setUploadPercent(null);
     }
   }, [form, file, createProject, handleCancel]);
 
@@ -158,6 +161,9 @@ export const CreateProjectModal = (): React.ReactElement => {
                 />
               </div>
             )}
+
+            {/* Image upload progress while the project is being created */}
+            {creating && uploadPercent !== null && <Progress percent={uploadPercent} size="small" />}
           </div>
         </Form.Item>
       </Form>
@@ -0,0 +1,89 @@
+import { act, renderHook } from '@testing-library/react';
+import type { ReactNode } from 'react';
+import type { MutableSnapshot } from 'recoil';
+import { RecoilRoot, useRecoilValue } from 'recoil';
+
+import { OfflineQueuedError } from '@/shared/infra/errors/appError';
+import type { OfflineQueueListener } from '@/shared/infra/http/http.offline';
+
+import type { TProject } from '../../model/projects.schemas';
+import { projectsListState } from '../../store/projects.atoms';
+import { useProjectMutations } from '../useProjectMutations';
+
+const mockUpdate = jest.fn();
+jest.mock('@/app/[locale]/(protected)/dashboard/(_lib)/api/projects.service', () => ({
+  projectService: { update: (...args: unknown[]) => mockUpdate(...args) },
+}));
+
+const mockNotification = { success: jest.fn(), info: jest.fn(), error: jest.fn() };
+jest.mock('antd', () => ({
+  App: { useApp: () => ({ notification: mockNotification }) },
+}));
+
+jest.mock('next-intl', () => ({
+  useTranslations: () => (key: string) => key,
+}));
+
+const queueListeners = new Set<OfflineQueueListener>();
+jest.mock('@/shared/infra/http/http.offline', () => ({
+  subscribeOfflineQueue: (listener: OfflineQueueListener) => {
+    queueListeners.add(listener);
+    return () => queueListeners.delete(listener);
+  },
+}));
+
+const emitQueueEvent: OfflineQueueListener = event => {
+  for (const listener of [...queueListeners]) listener(event);
+};
+
+const project: TProject = { id: 'p1', name: 'Saved name', createdAt: '2024-01-01' };
+const queuedEntry = { id: 'queue-1', path: '/api/v1/projects/p1', method: 'PUT' as const, meta: {}, queuedAt: 0 };
+
+const renderMutations = () => {
+  const initializeState = ({ set }: MutableSnapshot) => {
+    set(projectsListState, [project]);
+  };
+  const wrapper = ({ children }: { children: ReactNode }) => <RecoilRoot initializeState={initializeState}>{children}</RecoilRoot>;
+
+  return renderHook(() => ({ mutations: useProjectMutations(), projects: useRecoilValue(projectsListState) }), { wrapper });
+};
+
+const updateOffline = async (result: ReturnType<typeof renderMutations>['result']) => {
+  mockUpdate.mockRejectedValueOnce(new OfflineQueuedError('queue-1'));
+  await act(async () => {
+    await result.current.mutations.updateProject('p1', { name: 'Offline name' });
+  });
+};
+
+describe('useProjectMutations', () => {
+  afterEach(() => {
+    jest.clearAllMocks();
+    queueListeners.clear();
+  });
+
+  it('shows a queued edit until the replay succeeds', async () => {
+    const { result } = renderMutations();
+
+    await updateOffline(result);
+    expect(result.current.projects[0].name).toBe('Offline name');
+    expect(mockNotification.info).toHaveBeenCalledWith(expect.objectContaining({ message: 'notifications.updateQueued' }));
+
+    act(() => emitQueueEvent({ type: 'synced', entry: { ...queuedEntry, id: 'other' }, data: {} }));
+    act(() => emitQueueEvent({ type: 'synced', entry: queuedEntry, data: {} }));
+
+    expect(result.current.projects[0].name).toBe('Offline name');
+    expect(mockNotification.success).toHaveBeenCalledTimes(1);
+    expect(queueListeners.size).toBe(0);
+  });
+
+  it('reverts the name and reports the error when the server rejects the replayed edit', async () => {
+    const { result } = renderMutations();
+
+    await updateOffline(result);
+    act(() => emitQueueEvent({ type: 'failed', entry: queuedEntry, error: new Error('Name already taken') }));
+
+    expect(result.current.projects[0].name).toBe('Saved name');
+    expect(mockNotification.error).toHaveBeenCalledWith(expect.objectContaining({ message: 'notifications.updateSyncError' }));
+    expect(queueListeners.size).toBe(0);
+  });
+});
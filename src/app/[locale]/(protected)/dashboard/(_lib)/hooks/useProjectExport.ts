@@ -0,0 +1,42 @@
+'use client';
+
+import { App } from 'antd';
+import { useTranslations } from 'next-intl';
+import { useCallback, useState } from 'react';
+
+import { projectService } from '@/app/[locale]/(protected)/dashboard/(_lib)/api/projects.service';
+import type { TProjectExportFormat } from '@/app/[locale]/(protected)/dashboard/(_lib)/model/projects.schemas';
+
+/**
+ * Hook: download the projects list as a file.
+ * - exportProjects: fetch the export and let the browser save it
+ * - exporting / progress: loading flag and download percent (when the size is known)
+ */
+export const useProjectExport = () => {
+  const t = useTranslations('dashboard');
+  const { notification } = App.useApp();
+  const [exporting, setExporting] = useState(false);
+  const [progress, setProgress] = useState<number | undefined>();
+
+  /** Download and save the export in the given format */
+  const exportProjects = useCallback(
+    async (format: TProjectExportFormat = 'csv') => {
+      setExporting(true);
+      setProgress(undefined);
+      try {
+        await projectService.export(format, ({ percent }) => setProgress(percent));
+      } catch {
+        notification.error({
+          message: t('notifications.exportError'),
+          placement: 'topRight',
+        });
+      } finally {
+        setExporting(false);
+        setProgress(undefined);
+      }
+    },
+    [notification, t]
+  );
+
+  return { exportProjects, exporting, progress };
+};
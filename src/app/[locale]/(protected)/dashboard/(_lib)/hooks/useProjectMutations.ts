@@ -3,16 +3,22 @@
 import { App } from 'antd';
 import { useTranslations } from 'next-intl';
 import { useCallback, useState } from 'react';
-import { useSetRecoilState } from 'recoil';
+import { useRecoilCallback, useSetRecoilState } from 'recoil';
 
 import { projectService } from '@/app/[locale]/(protected)/dashboard/(_lib)/api/projects.service';
 import type { TCreateProjectPayload, TUpdateProjectPayload } from '@/app/[locale]/(protected)/dashboard/(_lib)/model/projects.schemas';
 import { projectsListState } from '@/app/[locale]/(protected)/dashboard/(_lib)/store/projects.atoms';
+import { OfflineQueuedError } from '@/shared/infra/errors/appError';
+import { subscribeOfflineQueue } from '@/shared/infra/http/http.offline';
+import type { S3TransferOptions } from '@/shared/utils/s3';
 
 /**
  * Hook: expose project mutations and loading flags.
  * - createProject: call API, prepend new project to list, show toast
  * - updateProject: call API, replace updated project in list, show toast
+ *   (offline edits are queued: the new name is applied locally until the queue syncs,
+ *   and reverted when the server rejects the replayed edit)
+ * Both accept transfer options to report image upload progress.
  */
 export const useProjectMutations = () => {
   const t = useTranslations('dashboard');
@@ -21,12 +27,46 @@ export const useProjectMutations = () => {
   const [creating, setCreating] = useState(false);
   const [updating, setUpdating] = useState(false);
 
+  const readProjects = useRecoilCallback(
+    ({ snapshot }) =>
+      () =>
+        snapshot.getLoadable(projectsListState).getValue(),
+    []
+  );
+
+  /** Apply a queued edit locally and settle it once the queue replays (or drops) it */
+  const applyQueuedUpdate = useCallback(
+    (queueId: string, id: string, name: string | undefined) => {
+      if (!name) return;
+
+      const previousName = readProjects().find(p => p.id === id)?.name;
+      setProjects(prev => prev.map(p => (p.id === id ? { ...p, name } : p)));
+
+      const unsubscribe = subscribeOfflineQueue(event => {
+        if (event.type === 'queued' || (event.type !== 'cleared' && event.entry.id !== queueId)) return;
+        unsubscribe();
+
+        if (event.type === 'synced') {
+          notification.success({ message: t('notifications.updateSuccess'), placement: 'topRight' });
+          return;
+        }
+
+        // The server never applied the edit: show the saved name again, unless it was edited since
+        if (previousName !== undefined) {
+          setProjects(prev => prev.map(p => (p.id === id && p.name === name ? { ...p, name: previousName } : p)));
+        }
+        notification.error({ message: t('notifications.updateSyncError'), placement: 'topRight' });
+      });
+    },
+    [notification, readProjects, setProjects, t]
+  );
+
   /** Create a new project and update local state */
   const createProject = useCallback(
-    async (payload: TCreateProjectPayload) => {
+    async (payload: TCreateProjectPayload, transferOptions?: S3TransferOptions) => {
       setCreating(true);
       try {
-        const { project, message: apiMessage } = await projectService.create(payload);
+        const { project, message: apiMessage } = await projectService.create(payload, transferOptions);
         // Prepend newly created project to the list
         setProjects(prev => [project, ...prev]);
         notification.success({
@@ -49,10 +89,10 @@ export const useProjectMutations = () => {
 
   /** Update an existing project and sync local list */
   const updateProject = useCallback(
-    async (id: string, payload: TUpdateProjectPayload) => {
+    async (id: string, payload: TUpdateProjectPayload, transferOptions?: S3TransferOptions) => {
       setUpdating(true);
       try {
-        const { project, message: apiMessage } = await projectService.update(id, payload);
+        const { project, message: apiMessage } = await projectService.update(id, payload, transferOptions);
         // Replace the updated project in the list by id
         setProjects(prev => prev.map(p => (p.id === id ? project : p)));
         notification.success({
@@ -61,6 +101,16 @@ export const useProjectMutations = () => {
         });
         return { project, message: apiMessage };
       } catch (error) {
+        if (error instanceof OfflineQueuedError) {
+          const queuedMessage = t('notifications.updateQueued');
+          applyQueuedUpdate(error.queueId, id, payload.name);
+          notification.info({
+            message: queuedMessage,
+            placement: 'topRight',
+          });
+          return { project: null, message: queuedMessage };
+        }
+
         notification.error({
           message: t('notifications.updateError'),
           placement: 'topRight',
@@ -70,7 +120,7 @@ export const useProjectMutations = () => {
         setUpdating(false);
       }
     },
-    [setProjects, notification]
+    [applyQueuedUpdate, setProjects, notification]
   );
 
   return { createProject, updateProject, creating, updating };
@@ -21,23 +21,18 @@ export const projectSchema = z.object({
   creator: creatorSchema.optional(),
 });
 
-// API response wrapper schema
-export const apiResponseWrapperSchema = z.object({
-  status_code: z.number(),
-  message: z.string(),
-  success: z.boolean(),
-  body: z.object({
-    docs: z.array(projectSchema),
-    totalDocs: z.number().nonnegative(),
-    limit: z.number().int().positive(),
-    totalPages: z.number().nonnegative(),
-    page: z.number().int().positive(),
-    pagingCounter: z.number().int().nonnegative(),
-    hasPrevPage: z.boolean(),
-    hasNextPage: z.boolean(),
-    prevPage: z.number().int().nullable(),
-    nextPage: z.number().int().nullable(),
-  }),
+// Paginated body of the projects list envelope
+export const projectListBodySchema = z.object({
+  docs: z.array(projectSchema),
+  totalDocs: z.number().nonnegative(),
+  limit: z.number().int().positive(),
+  totalPages: z.number().nonnegative(),
+  page: z.number().int().positive(),
+  pagingCounter: z.number().int().nonnegative(),
+  hasPrevPage: z.boolean(),
+  hasNextPage: z.boolean(),
+  prevPage: z.number().int().nullable(),
+  nextPage: z.number().int().nullable(),
 });
 
 // Internal schema for projects list (transformed from API response)
@@ -53,9 +48,8 @@ export const projectListResponseSchema = z.object({
   nextPage: z.number().int().nullable(),
 });
 
-// Transform API response to internal format
-export function transformProjectListResponse(apiResponse: z.infer<typeof apiResponseWrapperSchema>): z.infer<typeof projectListResponseSchema> {
-  const { body } = apiResponse;
+// Transform the API list body to internal format
+export function transformProjectListResponse(body: z.infer<typeof projectListBodySchema>): z.infer<typeof projectListResponseSchema> {
   return {
     items: body.docs,
     total: body.totalDocs,
@@ -79,16 +73,30 @@ export const createProjectPayloadSchema = z.object({
 
 export const updateProjectPayloadSchema = createProjectPayloadSchema.partial();
 
-// Schema cho response khi create/update project
-export const createProjectResponseSchema = z.object({
-  status_code: z.number(),
-  message: z.string(),
-  success: z.boolean(),
-  body: projectSchema,
+// Query parameters of the projects list endpoint
+export const projectListQuerySchema = z.object({
+  page: z.number().int().positive().default(1),
+  limit: z.number().int().positive().default(100),
+  name: z
+    .string()
+    .optional()
+    .transform(name => name?.trim() || undefined),
 });
 
+// Body sent to the API once the image is uploaded (image -> avatar URL)
+export const projectRequestBodySchema = z.object({
+  name: z.string().min(1, 'Project name is required'),
+  avatar: z.string().min(1).optional(),
+});
+
+export const updateProjectRequestBodySchema = projectRequestBodySchema.partial();
+
+// File formats of the projects export endpoint
+export const projectExportFormatSchema = z.enum(['csv', 'xlsx']);
+
 export type TProject = z.infer<typeof projectSchema>;
 export type TProjectListResponse = z.infer<typeof projectListResponseSchema>;
 export type TCreateProjectPayload = z.infer<typeof createProjectPayloadSchema>;
 export type TUpdateProjectPayload = z.infer<typeof updateProjectPayloadSchema>;
-export type TCreateProjectResponse = z.infer<typeof createProjectResponseSchema>;
+export type TProjectListQuery = z.input<typeof projectListQuerySchema>;
+export type TProjectExportFormat = z.infer<typeof projectExportFormatSchema>;
@@ -1,10 +1,12 @@
 import { z } from 'zod';
 
+export const userStatusSchema = z.enum(['active', 'inactive']);
+
 export const userSchema = z.object({
   id: z.string(),
   name: z.string(),
   email: z.string().email(),
-  status: z.enum(['active', 'inactive']),
+  status: userStatusSchema,
   createdAt: z.string(),
 });
 
@@ -18,12 +20,28 @@ export const userListResponseSchema = z.object({
 export const createUserPayloadSchema = z.object({
   name: z.string().min(2),
   email: z.string().email(),
-  status: z.enum(['active', 'inactive']).default('active'),
+  status: userStatusSchema.default('active'),
 });
 
 export const updateUserPayloadSchema = createUserPayloadSchema.partial();
 
+// Query parameters of the users list endpoint
+export const userListQuerySchema = z.object({
+  page: z.number().int().positive().default(1),
+  pageSize: z.number().int().positive().default(10),
+  keyword: z
+    .string()
+    .optional()
+    .transform(keyword => keyword || undefined),
+  status: z.array(userStatusSchema).optional(),
+});
+
+// File formats of the users export endpoint
+export const userExportFormatSchema = z.enum(['csv', 'xlsx']);
+
 export type TUser = z.infer<typeof userSchema>;
 export type TUserListResponse = z.infer<typeof userListResponseSchema>;
 export type TCreateUserPayload = z.infer<typeof createUserPayloadSchema>;
 export type TUpdateUserPayload = z.infer<typeof updateUserPayloadSchema>;
+export type TUserListQuery = z.input<typeof userListQuerySchema>;
+export type TUserExportFormat = z.infer<typeof userExportFormatSchema>;
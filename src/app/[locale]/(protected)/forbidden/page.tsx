@@ -0,0 +1,11 @@
+/* istanbul ignore file */
+
+'use client';
+
+import { ForbiddenPage } from '@/shared/ui/feedback/errors/ForbiddenPage';
+
+const ForbiddenRoutePage = () => {
+  return <ForbiddenPage />;
+};
+
+export default ForbiddenRoutePage;
@@ -5,6 +5,7 @@ import { useTranslations } from 'next-intl';
 import type { ReactNode } from 'react';
 
 import AuthGuard from '@/app/[locale]/(public)/auth/(_lib)/component/AuthGuard';
+import { TokenRefreshScheduler } from '@/app/[locale]/(public)/auth/(_lib)/component/TokenRefreshScheduler';
 import { ClientOnly } from '@/shared/ui/app-shell/ClientOnly';
 import { ErrorBoundary } from '@/shared/ui/feedback/errors/ErrorBoundary';
 import { Footer } from '@/shared/ui/layout/Footer';
@@ -33,6 +34,9 @@ const ProtectedLayout = ({ children }: Readonly<ProtectedLayoutProps>) => {
     <ClientOnly fallback={renderSsrFallback(t('loading'))}>
       {/* <AuthGuard> */}
       <div className="flex min-h-screen flex-col bg-slate-50">
+        {/* Proactive access token refresh */}
+        <TokenRefreshScheduler />
+
         {/* Header */}
         <Header />
 
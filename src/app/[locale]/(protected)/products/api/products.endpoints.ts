@@ -0,0 +1,25 @@
+import { z } from 'zod';
+
+import { API_ROUTES } from '@/shared/config/api';
+import { defineEndpoint } from '@/shared/infra/http/http.endpoint';
+
+import { productListQuerySchema, productListSchema, productSchema } from '../model/products.schemas';
+
+// Product backend routes
+export const productEndpoints = {
+  list: defineEndpoint({
+    method: 'GET',
+    path: API_ROUTES.products.list,
+    params: productListQuerySchema,
+    response: productListSchema,
+    meta: { showErrorNotification: false },
+  }),
+
+  byId: defineEndpoint({
+    method: 'GET',
+    path: API_ROUTES.products.byId(':id'),
+    params: z.object({ id: z.string() }),
+    response: productSchema,
+    meta: { showErrorNotification: false },
+  }),
+};
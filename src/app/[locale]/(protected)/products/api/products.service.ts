@@ -1,21 +1,18 @@
-import { API_ROUTES } from '@/shared/config/api';
-import { httpGet } from '@/shared/infra/http/http.client';
+import type { HttpRequestFunction } from '@/shared/infra/http/http.types';
 
-import type { TProduct } from '../model/products.schemas';
-import { productListSchema, productSchema } from '../model/products.schemas';
+import type { TProduct, TProductListQuery } from '../model/products.schemas';
 
-export const productService = {
-  async list(): Promise<TProduct[]> {
-    return httpGet<TProduct[]>(API_ROUTES.products.list, {
-      schema: productListSchema,
-      meta: { showErrorNotification: false },
-    });
+import { productEndpoints } from './products.endpoints';
+
+// Pass a server client (createServerHttpClient) to call the same endpoints from the server
+export const createProductService = (client?: HttpRequestFunction) => ({
+  async list(params: TProductListQuery = {}): Promise<TProduct[]> {
+    return productEndpoints.list({ params, client });
   },
 
   async getById(id: string): Promise<TProduct> {
-    return httpGet<TProduct>(API_ROUTES.products.byId(id), {
-      schema: productSchema,
-      meta: { showErrorNotification: false },
-    });
+    return productEndpoints.byId({ params: { id }, client });
   },
-};
+});
+
+export const productService = createProductService();
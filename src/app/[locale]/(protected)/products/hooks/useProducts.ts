@@ -3,27 +3,29 @@
 import { useCallback, useEffect, useMemo, useState } from 'react';
 
 import { productService } from '@/app/[locale]/(protected)/products/api/products.service';
-import type { TProduct } from '@/app/[locale]/(protected)/products/model/products.schemas';
+import type { TProduct, TProductStatus } from '@/app/[locale]/(protected)/products/model/products.schemas';
 import { useToast } from '@/shared/hooks/useToast';
 import { handleError } from '@/shared/infra/errors/error-handler';
 
 export function useProducts() {
   const [products, setProducts] = useState<TProduct[]>([]);
   const [searchTerm, setSearchTerm] = useState('');
+  const [statusFilter, setStatusFilter] = useState<TProductStatus[]>([]);
   const [isLoading, setLoading] = useState(false);
   const { showError } = useToast();
 
   const loadProducts = useCallback(async () => {
     setLoading(true);
     try {
-      const data = await productService.list();
+      // Status is filtered by the backend; the name search stays local
+      const data = await productService.list({ status: statusFilter });
       setProducts(data);
     } catch (error) {
       showError(handleError(error).message);
     } finally {
       setLoading(false);
     }
-  }, [showError]);
+  }, [showError, statusFilter]);
 
   useEffect(() => {
     void loadProducts();
@@ -40,6 +42,8 @@ export function useProducts() {
     filteredProducts,
     searchTerm,
     setSearchTerm,
+    statusFilter,
+    setStatusFilter,
     isLoading,
     refetch: loadProducts,
   };
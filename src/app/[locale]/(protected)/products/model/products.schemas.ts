@@ -1,13 +1,22 @@
 import { z } from 'zod';
 
+export const productStatusSchema = z.enum(['draft', 'published', 'archived']);
+
 export const productSchema = z.object({
   id: z.string(),
   name: z.string(),
   price: z.number().nonnegative(),
   inventory: z.number().int().nonnegative(),
-  status: z.enum(['draft', 'published', 'archived']),
+  status: productStatusSchema,
 });
 
 export const productListSchema = z.array(productSchema);
 
+// Query parameters of the products list endpoint (status is sent as a multi-value filter)
+export const productListQuerySchema = z.object({
+  status: z.array(productStatusSchema).optional(),
+});
+
 export type TProduct = z.infer<typeof productSchema>;
+export type TProductStatus = z.infer<typeof productStatusSchema>;
+export type TProductListQuery = z.input<typeof productListQuerySchema>;
@@ -5,13 +5,18 @@ import { useTranslations } from 'next-intl';
 import { LoadingOverlay } from '@/shared/ui/feedback/loading/LoadingOverlay';
 
 import { useProducts } from '../hooks/useProducts';
+import { productStatusSchema, type TProductStatus } from '../model/products.schemas';
 
 import { ProductCard } from './ProductCard';
 
 export default function ProductList() {
-  const { searchTerm, setSearchTerm, filteredProducts, isLoading } = useProducts();
+  const { searchTerm, setSearchTerm, statusFilter, setStatusFilter, filteredProducts, isLoading } = useProducts();
   const t = useTranslations('products');
 
+  const toggleStatus = (status: TProductStatus) => {
+    setStatusFilter(current => (current.includes(status) ? current.filter(selected => selected !== status) : [...current, status]));
+  };
+
   if (isLoading) {
     return <LoadingOverlay message={t('loadingProducts')} />;
   }
@@ -31,6 +36,21 @@ export default function ProductList() {
           className="rounded-md border border-slate-300 px-3 py-2 text-sm"
         />
       </div>
+      <div role="group" aria-label={t('statusFilterLabel')} className="flex flex-wrap gap-2">
+        {productStatusSchema.options.map(status => (
+          <button
+            key={status}
+            type="button"
+            aria-pressed={statusFilter.includes(status)}
+            onClick={() => toggleStatus(status)}
+            className={`rounded-full border px-3 py-1 text-sm ${
+              statusFilter.includes(status) ? 'border-indigo-600 bg-indigo-50 text-indigo-700' : 'border-slate-300 text-slate-600'
+            }`}
+          >
+            {t(`statusLabels.${status}`)}
+          </button>
+        ))}
+      </div>
       <div className="grid gap-4 md:grid-cols-2 xl:grid-cols-3">
         {filteredProducts.map(product => (
           <ProductCard key={product.id} product={product} />
@@ -0,0 +1,13 @@
+import { profileSchema, updateProfileSchema } from '@/app/[locale]/(protected)/profile/(_lib)/model/profile.schemas';
+import { API_ROUTES } from '@/shared/config/api';
+import { defineEndpoint } from '@/shared/infra/http/http.endpoint';
+
+// Profile backend routes
+export const profileEndpoints = {
+  update: defineEndpoint({
+    method: 'PUT',
+    path: API_ROUTES.users.profile,
+    body: updateProfileSchema,
+    response: profileSchema,
+  }),
+};
@@ -1,7 +1,5 @@
+import { profileEndpoints } from '@/app/[locale]/(protected)/profile/(_lib)/api/profile.endpoints';
 import type { TProfile, TUpdateProfilePayload } from '@/app/[locale]/(protected)/profile/(_lib)/model/profile.schemas';
-import { profileSchema, updateProfileSchema } from '@/app/[locale]/(protected)/profile/(_lib)/model/profile.schemas';
-import { API_ROUTES } from '@/shared/config/api';
-import { httpPut } from '@/shared/infra/http/http.client';
 import type { HttpRequestOptions } from '@/shared/infra/http/http.types';
 
 /**
@@ -15,13 +13,12 @@ export class ProfileService {
    * This will update the auth user data on backend
    */
   static async updateProfile(data: TUpdateProfilePayload, options?: HttpRequestOptions<TProfile, TUpdateProfilePayload>): Promise<TProfile> {
-    // Validate payload
-    const validatedData = updateProfileSchema.parse(data);
-
-    return httpPut<TProfile, TUpdateProfilePayload>(API_ROUTES.users.profile, {
-      ...options,
-      body: validatedData,
-      schema: profileSchema,
+    // Payload is validated by the endpoint before sending
+    return profileEndpoints.update({
+      body: data,
+      headers: options?.headers,
+      meta: options?.meta,
+      signal: options?.signal,
     });
   }
 }
@@ -1,13 +1,16 @@
 'use client';
 
 import { LoadingOutlined, PlusOutlined, UserOutlined } from '@ant-design/icons';
-import { App, Avatar, Form, Input, Modal, Upload } from 'antd';
+import { App, Avatar, Form, Input, Modal, Progress, Upload } from 'antd';
 import type { RcFile, UploadProps } from 'antd/es/upload';
 import { useTranslations } from 'next-intl';
 import { useEffect, useState } from 'react';
 
 import { useProfile } from '@/app/[locale]/(protected)/profile/(_lib)/hooks/useProfile';
 import type { TUpdateProfilePayload } from '@/app/[locale]/(protected)/profile/(_lib)/model/profile.schemas';
+import { uploadFileToS3 } from '@/shared/utils/s3';
+
+const AVATAR_UPLOAD_PREFIX = 'uploads/avatar';
 
 export function EditProfileModal() {
   const t = useTranslations('profile');
@@ -16,6 +19,7 @@ export function EditProfileModal() {
   const [form] = Form.useForm<TUpdateProfilePayload>();
   const [imageUrl, setImageUrl] = useState<string>();
   const [uploading, setUploading] = useState(false);
+  const [uploadPercent, setUploadPercent] = useState<number | null>(null);
 
   const beforeUpload = (file: RcFile) => {
     const isImage = file.type.startsWith('image/');
@@ -60,19 +64,30 @@ export function EditProfileModal() {
     }
   };
 
-  const customUpload: UploadProps['customRequest'] = ({ file, onSuccess }) => {
-    // Simulate upload - replace with actual S3 upload
-    setTimeout(() => {
-      const reader = new FileReader();
-      reader.addEventListener('load', () => {
-        const dataUrl = reader.result as string;
-        setImageUrl(dataUrl);
-        form.setFieldValue('avatarUrl', dataUrl);
+  const customUpload: UploadProps['customRequest'] = ({ file, onProgress, onSuccess, onError }) => {
+    setUploadPercent(0);
+    void (async () => {
+      try {
+        const url = await uploadFileToS3({
+          file: file as RcFile,
+          prefix: AVATAR_UPLOAD_PREFIX,
+          onUploadProgress: ({ percent }) => {
+            setUploadPercent(percent ?? null);
+            onProgress?.({ percent: percent ?? 0 });
+          },
+        });
+        onSuccess?.({ url });
+      } catch (error) {
         setUploading(false);
-        onSuccess?.({ url: dataUrl });
-      });
-      reader.readAsDataURL(file as RcFile);
-    }, 1000);
+        notification.error({
+          message: t('messages.uploadError'),
+          placement: 'topRight',
+        });
+        onError?.(error as Error);
+      } finally {
+        setUploadPercent(null);
+      }
+    })();
   };
 
   const handleSubmit = () => {
@@ -137,6 +152,7 @@ export function EditProfileModal() {
               >
                 {uploadButton}
               </Upload>
+              {uploading && uploadPercent !== null && <Progress percent={uploadPercent} size="small" className="w-48" />}
             </div>
           </Form.Item>
 
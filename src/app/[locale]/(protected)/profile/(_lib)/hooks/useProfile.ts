@@ -6,6 +6,7 @@ import { useRecoilState, useRecoilValue, useSetRecoilState } from 'recoil';
 import type { TProfile, TUpdateProfilePayload } from '@/app/[locale]/(protected)/profile/(_lib)/model/profile.schemas';
 import { profileModalState, profileSelector } from '@/app/[locale]/(protected)/profile/(_lib)/store/profile.atoms';
 import { authUserState } from '@/app/[locale]/(public)/auth/(_lib)/model';
+import { publishSessionEvent } from '@/shared/infra/session/session.bus';
 import { local } from '@/shared/utils/storage/storage';
 
 /**
@@ -64,6 +65,7 @@ export const useProfile = () => {
             avatarUrl: updated.avatarUrl,
           };
           local.set('authUser', nextUser);
+          publishSessionEvent({ type: 'user-updated', user: nextUser });
           return nextUser as typeof prevUser;
         });
 
@@ -0,0 +1,47 @@
+import { render, screen } from '@testing-library/react';
+import type { MutableSnapshot } from 'recoil';
+import { RecoilRoot } from 'recoil';
+
+import { authSessionState, authUserState, type TAuthUser } from '@/app/[locale]/(public)/auth/(_lib)/model';
+
+const mockMessages: Record<string, Record<string, string>> = {
+  settings: { title: 'Settings', subtitle: 'Workspace settings' },
+  forbidden: { title: 'Access denied' },
+};
+
+jest.mock('next-intl', () => ({
+  __esModule: true,
+  useLocale: () => 'en',
+  useTranslations: (namespace: string) => (key: string) => mockMessages[namespace]?.[key] ?? key,
+}));
+
+import SettingsPage from '../page';
+
+const renderAs = (user: TAuthUser) => {
+  const initializeState = ({ set }: MutableSnapshot) => {
+    set(authSessionState, true);
+    set(authUserState, user);
+  };
+
+  return render(
+    <RecoilRoot initializeState={initializeState}>
+      <SettingsPage />
+    </RecoilRoot>
+  );
+};
+
+describe('SettingsPage', () => {
+  it('renders the settings for admins', () => {
+    renderAs({ id: '1', email: 'admin@grow-ps.com', role: 'admin' });
+
+    expect(screen.getByRole('heading', { name: 'Settings' })).toBeInTheDocument();
+  });
+
+  it('shows the 403 page to users without settings:manage', () => {
+    renderAs({ id: '2', email: 'john@grow-ps.com', role: 'user' });
+
+    expect(screen.getByText('403')).toBeInTheDocument();
+    expect(screen.getByText('Access denied')).toBeInTheDocument();
+    expect(screen.queryByRole('heading', { name: 'Settings' })).not.toBeInTheDocument();
+  });
+});
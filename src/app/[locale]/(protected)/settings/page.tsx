@@ -0,0 +1,24 @@
+'use client';
+
+import { useTranslations } from 'next-intl';
+
+import { requirePermission } from '@/app/[locale]/(public)/auth/(_lib)/component/requirePermission';
+
+/**
+ * Settings page component
+ * Workspace settings, limited to roles with the settings:manage permission
+ */
+const SettingsPage = () => {
+  const t = useTranslations('settings');
+
+  return (
+    <div className="mx-auto max-w-7xl space-y-6 px-4 py-6 sm:px-6 lg:px-8">
+      <section className="rounded-2xl bg-white p-4 shadow-sm ring-1 ring-slate-100 sm:p-6">
+        <h1 className="text-2xl font-bold text-slate-900">{t('title')}</h1>
+        <p className="mt-1 text-sm text-gray-600">{t('subtitle')}</p>
+      </section>
+    </div>
+  );
+};
+
+export default requirePermission('settings:manage', SettingsPage);
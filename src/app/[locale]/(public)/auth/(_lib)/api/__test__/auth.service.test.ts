@@ -14,18 +14,21 @@ jest.mock('@/shared/config/api', () => ({
       me: '/auth/me',
       changePassword: '/auth/change-password',
       refresh: '/auth/refresh',
+      logout: '/auth/logout',
+    },
+    session: {
+      current: '/api/session',
+      login: '/api/session/login',
+      refresh: '/api/session/refresh',
+      logout: '/api/session/logout',
     },
   },
 }));
 
-const mockHttpGet = jest.fn();
-const mockHttpPost = jest.fn();
-const mockHttpPostPublic = jest.fn();
+const mockHttp = jest.fn();
 
 jest.mock('@/shared/infra/http/http.client', () => ({
-  httpGet: (...args: unknown[]) => mockHttpGet(...args),
-  httpPost: (...args: unknown[]) => mockHttpPost(...args),
-  httpPostPublic: (...args: unknown[]) => mockHttpPostPublic(...args),
+  http: (...args: unknown[]) => mockHttp(...args),
 }));
 
 import { API_ROUTES } from '@/shared/config/api';
@@ -41,7 +44,7 @@ import type {
   TVerifyOtpPayload,
   TVerifyResetOtpPayload,
 } from '../../model';
-import { OTP_TYPE, SIGN_UP_ALLOWED_EMAIL_DOMAINS, authUserSchema, signInResponseSchema } from '../../model';
+import { OTP_TYPE, SIGN_UP_ALLOWED_EMAIL_DOMAINS, authUserSchema, sessionSchema, signInResponseSchema } from '../../model';
 import { authService } from '../auth.service';
 
 describe('authService', () => {
@@ -57,14 +60,16 @@ describe('authService', () => {
 
     it('should call login API with validated payload', async () => {
       const response = { accessToken: 'token', refreshToken: 'refresh', user: { id: '1' } };
-      mockHttpPostPublic.mockResolvedValueOnce(response);
+      mockHttp.mockResolvedValueOnce(response);
 
       const result = await authService.signIn(validPayload);
 
-      expect(mockHttpPostPublic).toHaveBeenCalledWith(API_ROUTES.auth.login, {
+      expect(mockHttp).toHaveBeenCalledWith(API_ROUTES.auth.login, {
+        method: 'POST',
         body: validPayload,
         schema: signInResponseSchema,
-        meta: { withCredentials: true },
+        unwrapEnvelope: true,
+        meta: { skipAuth: true, withCredentials: true },
       });
       expect(result).toBe(response);
     });
@@ -73,15 +78,15 @@ describe('authService', () => {
       const invalidPayload = { ...validPayload, email: 'not-an-email' };
 
       await expect(authService.signIn(invalidPayload as TSignInPayload)).rejects.toThrow(z.ZodError);
-      expect(mockHttpPostPublic).not.toHaveBeenCalled();
+      expect(mockHttp).not.toHaveBeenCalled();
     });
 
     it('should propagate http errors', async () => {
       const error = new Error('Network');
-      mockHttpPostPublic.mockRejectedValueOnce(error);
+      mockHttp.mockRejectedValueOnce(error);
 
       await expect(authService.signIn(validPayload)).rejects.toThrow(error);
-      expect(mockHttpPostPublic).toHaveBeenCalledTimes(1);
+      expect(mockHttp).toHaveBeenCalledTimes(1);
     });
   });
 
@@ -95,14 +100,16 @@ describe('authService', () => {
 
     it('should call register API with parsed payload', async () => {
       const mockedResponse: TSignUpResponse = { email: validPayload.email, expiresIn: 120 };
-      mockHttpPostPublic.mockResolvedValueOnce(mockedResponse);
+      mockHttp.mockResolvedValueOnce(mockedResponse);
 
       const result = await authService.signUp(validPayload);
 
-      expect(mockHttpPostPublic).toHaveBeenCalledWith(API_ROUTES.auth.register, {
+      expect(mockHttp).toHaveBeenCalledWith(API_ROUTES.auth.register, {
+        method: 'POST',
         body: validPayload,
         schema: expect.any(Object),
-        meta: { withCredentials: true, showErrorNotification: false },
+        unwrapEnvelope: true,
+        meta: { skipAuth: true, withCredentials: true, showErrorNotification: false },
       });
       expect(result).toEqual(mockedResponse);
     });
@@ -111,7 +118,7 @@ describe('authService', () => {
       const invalidPayload = { ...validPayload, confirmPassword: 'Mismatch1!' };
 
       await expect(authService.signUp(invalidPayload as TSignUpPayload)).rejects.toThrow(z.ZodError);
-      expect(mockHttpPostPublic).not.toHaveBeenCalled();
+      expect(mockHttp).not.toHaveBeenCalled();
     });
   });
 
@@ -124,14 +131,16 @@ describe('authService', () => {
 
     it('should transform otp payload and post to verify endpoint', async () => {
       const mockResponse = { id: 'otp-id' };
-      mockHttpPostPublic.mockResolvedValueOnce(mockResponse);
+      mockHttp.mockResolvedValueOnce(mockResponse);
 
       const result = await authService.verifyOtp(payload);
 
-      expect(mockHttpPostPublic).toHaveBeenCalledWith(API_ROUTES.auth.verifyOtp, {
+      expect(mockHttp).toHaveBeenCalledWith(API_ROUTES.auth.verifyOtp, {
+        method: 'POST',
         body: { email: payload.email, code: payload.otp, otp_type: payload.otpType },
         schema: expect.any(Object),
-        meta: { withCredentials: true, showErrorNotification: false },
+        unwrapEnvelope: true,
+        meta: { skipAuth: true, withCredentials: true, showErrorNotification: false },
       });
       expect(result).toEqual(mockResponse);
     });
@@ -140,7 +149,7 @@ describe('authService', () => {
       const invalidPayload = { ...payload, otp: 'xxx' };
 
       await expect(authService.verifyOtp(invalidPayload as TVerifyOtpPayload)).rejects.toThrow(z.ZodError);
-      expect(mockHttpPostPublic).not.toHaveBeenCalled();
+      expect(mockHttp).not.toHaveBeenCalled();
     });
   });
 
@@ -149,14 +158,16 @@ describe('authService', () => {
 
     it('should call resend OTP endpoint with validated payload', async () => {
       const apiResponse: TSignUpResponse = { email: payload.email, expiresIn: 90 };
-      mockHttpPostPublic.mockResolvedValueOnce(apiResponse);
+      mockHttp.mockResolvedValueOnce(apiResponse);
 
       const result = await authService.resendOtp(payload);
 
-      expect(mockHttpPostPublic).toHaveBeenCalledWith(API_ROUTES.auth.resendOtp, {
+      expect(mockHttp).toHaveBeenCalledWith(API_ROUTES.auth.resendOtp, {
+        method: 'POST',
         body: payload,
         schema: expect.any(Object),
-        meta: { withCredentials: true, showErrorNotification: false },
+        unwrapEnvelope: true,
+        meta: { skipAuth: true, withCredentials: true, showErrorNotification: false },
       });
       expect(result).toEqual(apiResponse);
     });
@@ -166,13 +177,15 @@ describe('authService', () => {
     const payload = { email: `user@${SIGN_UP_ALLOWED_EMAIL_DOMAINS[0]}` };
 
     it('should call resend reset OTP endpoint', async () => {
-      mockHttpPostPublic.mockResolvedValueOnce(undefined);
+      mockHttp.mockResolvedValueOnce(undefined);
 
       await authService.resendResetOtp(payload);
 
-      expect(mockHttpPostPublic).toHaveBeenCalledWith(API_ROUTES.auth.resendResetOtp, {
+      expect(mockHttp).toHaveBeenCalledWith(API_ROUTES.auth.resendResetOtp, {
+        method: 'POST',
         body: payload,
-        meta: { withCredentials: true, showErrorNotification: false },
+        unwrapEnvelope: true,
+        meta: { skipAuth: true, withCredentials: true, showErrorNotification: false },
       });
     });
   });
@@ -181,13 +194,15 @@ describe('authService', () => {
     const payload: TForgotPasswordPayload = { email: `user@${SIGN_UP_ALLOWED_EMAIL_DOMAINS[0]}` };
 
     it('should send validated forgot password payload', async () => {
-      mockHttpPostPublic.mockResolvedValueOnce(undefined);
+      mockHttp.mockResolvedValueOnce(undefined);
 
       await authService.requestPasswordReset(payload);
 
-      expect(mockHttpPostPublic).toHaveBeenCalledWith(API_ROUTES.auth.forgotPassword, {
+      expect(mockHttp).toHaveBeenCalledWith(API_ROUTES.auth.forgotPassword, {
+        method: 'POST',
         body: payload,
-        meta: { withCredentials: true, showErrorNotification: false },
+        unwrapEnvelope: true,
+        meta: { skipAuth: true, withCredentials: true, showErrorNotification: false },
       });
     });
 
@@ -195,7 +210,7 @@ describe('authService', () => {
       const invalidPayload = { email: 'user@example.com' };
 
       await expect(authService.requestPasswordReset(invalidPayload as TForgotPasswordPayload)).rejects.toThrow(z.ZodError);
-      expect(mockHttpPostPublic).not.toHaveBeenCalled();
+      expect(mockHttp).not.toHaveBeenCalled();
     });
   });
 
@@ -207,13 +222,15 @@ describe('authService', () => {
     };
 
     it('should transform reset OTP payload before posting', async () => {
-      mockHttpPostPublic.mockResolvedValueOnce(undefined);
+      mockHttp.mockResolvedValueOnce(undefined);
 
       await authService.verifyResetOtp(payload);
 
-      expect(mockHttpPostPublic).toHaveBeenCalledWith(API_ROUTES.auth.verifyResetOtp, {
+      expect(mockHttp).toHaveBeenCalledWith(API_ROUTES.auth.verifyResetOtp, {
+        method: 'POST',
         body: { email: payload.email, code: payload.otp, otp_type: payload.otpType },
-        meta: { withCredentials: true, showErrorNotification: false },
+        unwrapEnvelope: true,
+        meta: { skipAuth: true, withCredentials: true, showErrorNotification: false },
       });
     });
   });
@@ -226,17 +243,19 @@ describe('authService', () => {
     };
 
     it('should send reset password payload with proper meta', async () => {
-      mockHttpPostPublic.mockResolvedValueOnce(undefined);
+      mockHttp.mockResolvedValueOnce(undefined);
 
       await authService.resetPassword(payload);
 
-      expect(mockHttpPostPublic).toHaveBeenCalledWith(API_ROUTES.auth.resetPassword, {
+      expect(mockHttp).toHaveBeenCalledWith(API_ROUTES.auth.resetPassword, {
+        method: 'POST',
         body: {
           email: payload.email,
           password: payload.password,
           confirmPassword: payload.confirmPassword,
         },
-        meta: { withCredentials: true, showErrorNotification: true },
+        unwrapEnvelope: true,
+        meta: { skipAuth: true, withCredentials: true, showErrorNotification: true },
       });
     });
 
@@ -244,20 +263,21 @@ describe('authService', () => {
       const invalidPayload = { ...payload, confirmPassword: 'Mismatch1!' };
 
       await expect(authService.resetPassword(invalidPayload as TResetPasswordPayload)).rejects.toThrow(z.ZodError);
-      expect(mockHttpPostPublic).not.toHaveBeenCalled();
+      expect(mockHttp).not.toHaveBeenCalled();
     });
   });
 
   describe('getMe', () => {
     it('should retrieve current user with schema validation', async () => {
       const user: TAuthUser = { id: '1', email: `user@${SIGN_UP_ALLOWED_EMAIL_DOMAINS[0]}`, role: 'user' };
-      mockHttpGet.mockResolvedValueOnce(user);
+      mockHttp.mockResolvedValueOnce(user);
 
       const result = await authService.getMe();
 
-      expect(mockHttpGet).toHaveBeenCalledWith(API_ROUTES.auth.me, {
+      expect(mockHttp).toHaveBeenCalledWith(API_ROUTES.auth.me, {
+        method: 'GET',
         schema: authUserSchema,
-        meta: { withCredentials: true },
+        meta: { withCredentials: true, priority: 'critical' },
       });
       expect(result).toEqual(user);
     });
@@ -271,17 +291,19 @@ describe('authService', () => {
     };
 
     it('should call change password endpoint with payload', async () => {
-      mockHttpPost.mockResolvedValueOnce(undefined);
+      mockHttp.mockResolvedValueOnce(undefined);
 
       await authService.changePassword(payload);
 
-      expect(mockHttpPost).toHaveBeenCalledWith(API_ROUTES.auth.changePassword, {
+      expect(mockHttp).toHaveBeenCalledWith(API_ROUTES.auth.changePassword, {
+        method: 'POST',
         body: {
           currentPassword: payload.currentPassword,
           password: payload.password,
           confirmPassword: payload.confirmPassword,
         },
-        meta: { withCredentials: true, showErrorNotification: true },
+        unwrapEnvelope: true,
+        meta: { withCredentials: true, showErrorNotification: true, idempotent: true },
       });
     });
 
@@ -293,7 +315,7 @@ describe('authService', () => {
       };
 
       await expect(authService.changePassword(invalidPayload as TChangePasswordPayload)).rejects.toThrow(z.ZodError);
-      expect(mockHttpPost).not.toHaveBeenCalled();
+      expect(mockHttp).not.toHaveBeenCalled();
     });
   });
 
@@ -302,21 +324,57 @@ describe('authService', () => {
 
     it('should call refresh endpoint with credentials meta', async () => {
       const response = { accessToken: 'new-token' };
-      mockHttpPostPublic.mockResolvedValueOnce(response);
+      mockHttp.mockResolvedValueOnce(response);
 
       const result = await authService.refreshToken(payload);
 
-      expect(mockHttpPostPublic).toHaveBeenCalledWith(API_ROUTES.auth.refresh, {
+      expect(mockHttp).toHaveBeenCalledWith(API_ROUTES.auth.refresh, {
+        method: 'POST',
         body: payload,
         schema: signInResponseSchema,
-        meta: { withCredentials: true },
+        unwrapEnvelope: true,
+        meta: { skipAuth: true, withCredentials: true, priority: 'critical' },
       });
       expect(result).toEqual(response);
     });
 
     it('should reject when refresh token too short', async () => {
       await expect(authService.refreshToken({ refreshToken: 'short' } as TRefreshTokenPayload)).rejects.toThrow(z.ZodError);
-      expect(mockHttpPostPublic).not.toHaveBeenCalled();
+      expect(mockHttp).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('cookie session', () => {
+    const sessionMeta = { skipAuth: true, withCredentials: true, skipAuthRefresh: true };
+
+    it('should sign in through the session route', async () => {
+      const payload: TSignInPayload = { email: `user@${SIGN_UP_ALLOWED_EMAIL_DOMAINS[0]}`, password: 'Password!1' };
+      const session = { expiresAt: 1_000, user: null };
+      mockHttp.mockResolvedValueOnce(session);
+
+      await expect(authService.startSession(payload)).resolves.toEqual(session);
+
+      expect(mockHttp).toHaveBeenCalledWith(API_ROUTES.session.login, {
+        method: 'POST',
+        body: payload,
+        schema: sessionSchema,
+        unwrapEnvelope: true,
+        meta: sessionMeta,
+      });
+    });
+
+    it('should refresh, restore and end the session without a token refresh on 401', async () => {
+      mockHttp.mockResolvedValue({ expiresAt: 1_000, user: null });
+
+      await authService.refreshSession();
+      await authService.getSession();
+      await authService.endSession();
+
+      expect(mockHttp.mock.calls.map(([path, options]) => [path, options.method, options.meta.skipAuthRefresh])).toEqual([
+        [API_ROUTES.session.refresh, 'POST', true],
+        [API_ROUTES.session.current, 'GET', true],
+        [API_ROUTES.session.logout, 'POST', true],
+      ]);
     });
   });
 });
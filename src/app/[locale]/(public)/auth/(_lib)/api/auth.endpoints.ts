@@ -0,0 +1,188 @@
+// API route constants and typed endpoint factory
+import { API_ROUTES } from '@/shared/config/api';
+import { defineEndpoint } from '@/shared/infra/http/http.endpoint';
+
+import {
+  authUserSchema,
+  changePasswordPayloadSchema,
+  forgotPasswordPayloadSchema,
+  refreshTokenSchema,
+  resendOtpPayloadSchema,
+  resetPasswordPayloadSchema,
+  sessionSchema,
+  signInPayloadSchema,
+  signInResponseSchema,
+  signUpPayloadSchema,
+  signUpResponseSchema,
+  verifyOtpPayloadSchema,
+  verifyOtpResponseSchema,
+  verifyResetOtpPayloadSchema,
+} from '../model/auth.schemas';
+
+// Public auth endpoints skip the bearer token; all of them send cookies
+const PUBLIC_META = { skipAuth: true, withCredentials: true } as const;
+
+// A 401 from a session route is the answer itself: never start a token refresh for it
+const SESSION_META = { ...PUBLIC_META, skipAuthRefresh: true } as const;
+
+// Transform OTP payloads: otp -> code, otpType -> otp_type for API
+const toApiOtp = ({ email, otp, otpType }: { email: string; otp: string; otpType: string }) => ({
+  email,
+  code: otp,
+  otp_type: otpType,
+});
+
+// Auth backend routes (all but `me` answer with the backend envelope)
+export const authEndpoints = {
+  // Email/password sign in
+  login: defineEndpoint({
+    method: 'POST',
+    path: API_ROUTES.auth.login,
+    body: signInPayloadSchema,
+    response: signInResponseSchema,
+    unwrapEnvelope: true,
+    meta: PUBLIC_META,
+  }),
+
+  // Register new account
+  register: defineEndpoint({
+    method: 'POST',
+    path: API_ROUTES.auth.register,
+    body: signUpPayloadSchema,
+    response: signUpResponseSchema,
+    unwrapEnvelope: true,
+    meta: { ...PUBLIC_META, showErrorNotification: false },
+  }),
+
+  // Verify account creation OTP (6 digits)
+  verifyOtp: defineEndpoint({
+    method: 'POST',
+    path: API_ROUTES.auth.verifyOtp,
+    body: verifyOtpPayloadSchema.transform(toApiOtp),
+    response: verifyOtpResponseSchema,
+    unwrapEnvelope: true,
+    meta: { ...PUBLIC_META, showErrorNotification: false },
+  }),
+
+  // Resend account creation OTP
+  resendOtp: defineEndpoint({
+    method: 'POST',
+    path: API_ROUTES.auth.resendOtp,
+    body: resendOtpPayloadSchema,
+    response: signUpResponseSchema,
+    unwrapEnvelope: true,
+    meta: { ...PUBLIC_META, showErrorNotification: false },
+  }),
+
+  // Resend OTP for forgot password flow
+  resendResetOtp: defineEndpoint({
+    method: 'POST',
+    path: API_ROUTES.auth.resendResetOtp,
+    body: resendOtpPayloadSchema,
+    unwrapEnvelope: true,
+    meta: { ...PUBLIC_META, showErrorNotification: false },
+  }),
+
+  // Forgot password: step 1/3 – request reset (do not leak email existence)
+  forgotPassword: defineEndpoint({
+    method: 'POST',
+    path: API_ROUTES.auth.forgotPassword,
+    body: forgotPasswordPayloadSchema,
+    unwrapEnvelope: true,
+    meta: { ...PUBLIC_META, showErrorNotification: false },
+  }),
+
+  // Forgot password: step 2/3 – verify reset OTP
+  verifyResetOtp: defineEndpoint({
+    method: 'POST',
+    path: API_ROUTES.auth.verifyResetOtp,
+    body: verifyResetOtpPayloadSchema.transform(toApiOtp),
+    unwrapEnvelope: true,
+    meta: { ...PUBLIC_META, showErrorNotification: false },
+  }),
+
+  // Forgot password: step 3/3 – set new password
+  resetPassword: defineEndpoint({
+    method: 'POST',
+    path: API_ROUTES.auth.resetPassword,
+    body: resetPasswordPayloadSchema.transform(({ email, password, confirmPassword }) => ({ email, password, confirmPassword })),
+    unwrapEnvelope: true,
+    meta: { ...PUBLIC_META, showErrorNotification: true },
+  }),
+
+  // Current authenticated user
+  me: defineEndpoint({
+    method: 'GET',
+    path: API_ROUTES.auth.me,
+    response: authUserSchema,
+    // Session checks never wait behind queued page requests
+    meta: { withCredentials: true, priority: 'critical' },
+  }),
+
+  // Change password: the API expects currentPassword, password and confirmPassword
+  changePassword: defineEndpoint({
+    method: 'POST',
+    path: API_ROUTES.auth.changePassword,
+    body: changePasswordPayloadSchema.transform(({ currentPassword, password, confirmPassword }) => ({ currentPassword, password, confirmPassword })),
+    unwrapEnvelope: true,
+    meta: { withCredentials: true, showErrorNotification: true, idempotent: true },
+  }),
+
+  // Refresh access token using refresh token
+  refresh: defineEndpoint({
+    method: 'POST',
+    path: API_ROUTES.auth.refresh,
+    body: refreshTokenSchema,
+    response: signInResponseSchema,
+    unwrapEnvelope: true,
+    meta: { ...PUBLIC_META, priority: 'critical' },
+  }),
+
+  // Revoke the refresh token on the backend
+  logout: defineEndpoint({
+    method: 'POST',
+    path: API_ROUTES.auth.logout,
+    body: refreshTokenSchema,
+    unwrapEnvelope: true,
+    meta: { withCredentials: true, showErrorNotification: false },
+  }),
+};
+
+// Session route handlers of this app: they keep both tokens in httpOnly cookies
+export const sessionEndpoints = {
+  // Sign in and start the cookie session
+  login: defineEndpoint({
+    method: 'POST',
+    path: API_ROUTES.session.login,
+    body: signInPayloadSchema,
+    response: sessionSchema,
+    unwrapEnvelope: true,
+    meta: SESSION_META,
+  }),
+
+  // Session of the current cookies (restores the session after a reload)
+  current: defineEndpoint({
+    method: 'GET',
+    path: API_ROUTES.session.current,
+    response: sessionSchema,
+    unwrapEnvelope: true,
+    meta: { ...SESSION_META, showErrorNotification: false, priority: 'critical' },
+  }),
+
+  // Exchange the refresh cookie for a new access token
+  refresh: defineEndpoint({
+    method: 'POST',
+    path: API_ROUTES.session.refresh,
+    response: sessionSchema,
+    unwrapEnvelope: true,
+    meta: { ...SESSION_META, priority: 'critical' },
+  }),
+
+  // Revoke the session and expire the cookies
+  logout: defineEndpoint({
+    method: 'POST',
+    path: API_ROUTES.session.logout,
+    unwrapEnvelope: true,
+    meta: { ...SESSION_META, showErrorNotification: false },
+  }),
+};
@@ -13,7 +13,7 @@ interface AuthGuardProps {
 }
 
 export const AuthGuard = ({ children }: AuthGuardProps) => {
-  const { isAuthenticated, token, bootstrap, isBootstrapping, hasBootstrapped } = useAuth();
+  const { isAuthenticated, hasSession, bootstrap, isBootstrapping, hasBootstrapped } = useAuth();
   const router = useRouter();
   const locale = useLocale();
   const t = useTranslations('auth');
@@ -23,10 +23,10 @@ export const AuthGuard = ({ children }: AuthGuardProps) => {
   }, [bootstrap]);
 
   useEffect(() => {
-    if (!isBootstrapping && hasBootstrapped && (!isAuthenticated || !token)) {
+    if (!isBootstrapping && hasBootstrapped && (!isAuthenticated || !hasSession)) {
       router.replace(`/${locale}/auth/signin`);
     }
-  }, [isAuthenticated, hasBootstrapped, token, router, isBootstrapping, locale]);
+  }, [isAuthenticated, hasBootstrapped, hasSession, router, isBootstrapping, locale]);
 
   if (isBootstrapping || !hasBootstrapped) {
     return (
@@ -5,19 +5,21 @@ import { useLocale } from 'next-intl';
 import { useEffect } from 'react';
 
 import { useAuth } from '../hooks/useAuth';
+import { resolvePostSignInPath } from '../model';
 
 interface AuthRedirectProps {
+  // Defaults to the `returnTo` of the page, else the dashboard
   redirectTo?: string;
 }
 
-export const AuthRedirect = ({ redirectTo = '/dashboard' }: AuthRedirectProps) => {
+export const AuthRedirect = ({ redirectTo }: AuthRedirectProps) => {
   const { isAuthenticated, hasBootstrapped, isBootstrapping } = useAuth();
   const router = useRouter();
   const locale = useLocale();
 
   useEffect(() => {
     if (!isBootstrapping && hasBootstrapped && isAuthenticated) {
-      router.replace(`/${locale}${redirectTo}`);
+      router.replace(redirectTo ? `/${locale}${redirectTo}` : resolvePostSignInPath(locale));
     }
   }, [isAuthenticated, hasBootstrapped, isBootstrapping, redirectTo, router, locale]);
 
@@ -0,0 +1,20 @@
+'use client';
+
+import type { ReactNode } from 'react';
+
+import { useCan } from '../hooks/useCan';
+import type { TPermission } from '../model';
+
+interface CanProps {
+  permission: TPermission;
+  children: ReactNode;
+  // Rendered instead of the children without the permission
+  fallback?: ReactNode;
+}
+
+// Render children only when the signed-in user has the permission
+export const Can = ({ permission, children, fallback = null }: CanProps) => {
+  const can = useCan();
+
+  return <>{can(permission) ? children : fallback}</>;
+};
@@ -0,0 +1,19 @@
+'use client';
+
+import { useEffect } from 'react';
+
+import { useAuth } from '../hooks/useAuth';
+import { useTokenRefresh } from '../hooks/useTokenRefresh';
+
+// Restores the cookie session after a reload and keeps its access token fresh while a signed-in layout is mounted
+export const TokenRefreshScheduler = () => {
+  const { bootstrap } = useAuth();
+
+  useEffect(() => {
+    void bootstrap();
+  }, [bootstrap]);
+
+  useTokenRefresh();
+
+  return null;
+};
@@ -47,7 +47,7 @@ describe('AuthGuard', () => {
 
     mockUseAuth.mockReturnValue({
       isAuthenticated: false,
-      token: null,
+      hasSession: false,
       bootstrap,
       isBootstrapping: true,
       hasBootstrapped: false,
@@ -68,7 +68,7 @@ describe('AuthGuard', () => {
 
     mockUseAuth.mockReturnValue({
       isAuthenticated: false,
-      token: null,
+      hasSession: false,
       bootstrap,
       isBootstrapping: false,
       hasBootstrapped: true,
@@ -88,7 +88,7 @@ describe('AuthGuard', () => {
 
     mockUseAuth.mockReturnValue({
       isAuthenticated: true,
-      token: 'token',
+      hasSession: true,
       bootstrap,
       isBootstrapping: false,
       hasBootstrapped: true,
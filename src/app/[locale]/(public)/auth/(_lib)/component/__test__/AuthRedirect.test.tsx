@@ -53,6 +53,20 @@ describe('AuthRedirect', () => {
     await waitFor(() => expect(mockReplace).toHaveBeenCalledWith('/en/dashboard'));
   });
 
+  it('redirects to the returnTo path of the page when authenticated', async () => {
+    globalThis.history.pushState({}, '', '/en/auth/signin?returnTo=%2Fen%2Fproducts');
+    mockUseAuth.mockReturnValue({
+      isAuthenticated: true,
+      hasBootstrapped: true,
+      isBootstrapping: false,
+    });
+
+    render(<AuthRedirect />);
+
+    await waitFor(() => expect(mockReplace).toHaveBeenCalledWith('/en/products'));
+    globalThis.history.pushState({}, '', '/');
+  });
+
   it('redirects to provided path when authenticated', async () => {
     mockUseAuth.mockReturnValue({
       isAuthenticated: true,
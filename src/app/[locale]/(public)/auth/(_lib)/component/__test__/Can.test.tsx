@@ -0,0 +1,114 @@
+import { render, screen } from '@testing-library/react';
+import type { MutableSnapshot } from 'recoil';
+import { RecoilRoot } from 'recoil';
+
+import { ErrorBoundary } from '@/shared/ui/feedback/errors/ErrorBoundary';
+
+const replaceMock = jest.fn();
+jest.mock('next/navigation', () => ({
+  useRouter: () => ({ replace: replaceMock }),
+}));
+
+// ForbiddenPage and session loader copy
+jest.mock('next-intl', () => ({
+  useLocale: () => 'en',
+  useTranslations: () => (key: string) =>
+    ({
+      title: 'Access denied',
+      description: 'You do not have permission to perform this action.',
+      backHome: 'Back home',
+      checkingSession: 'Checking session',
+    })[key] ?? key,
+}));
+
+import { authBootstrapState, authSessionState, authUserState, type TAuthUser } from '../../model';
+import { Can } from '../Can';
+import { requirePermission } from '../requirePermission';
+
+const renderWithUser = (ui: React.ReactNode, user: TAuthUser | null, hasBootstrapped = true, hasSession = Boolean(user)) => {
+  const initializeState = ({ set }: MutableSnapshot) => {
+    set(authSessionState, hasSession);
+    set(authUserState, user);
+    set(authBootstrapState, hasBootstrapped);
+  };
+
+  return render(<RecoilRoot initializeState={initializeState}>{ui}</RecoilRoot>);
+};
+
+const admin: TAuthUser = { id: '1', email: 'admin@grow-ps.com', role: 'admin' };
+const member: TAuthUser = { id: '2', email: 'john@grow-ps.com', role: 'user' };
+
+const UsersPage = ({ title }: { title: string }) => <h1>{title}</h1>;
+const ProtectedUsersPage = requirePermission('users:manage', UsersPage);
+
+describe('Can', () => {
+  it('renders children with the permission and the fallback without it', () => {
+    renderWithUser(
+      <>
+        <Can permission="project:create">
+          <button type="button">Create project</button>
+        </Can>
+        <Can permission="users:manage" fallback={<span>Read only</span>}>
+          <button type="button">Manage users</button>
+        </Can>
+      </>,
+      member
+    );
+
+    expect(screen.getByText('Create project')).toBeInTheDocument();
+    expect(screen.getByText('Read only')).toBeInTheDocument();
+    expect(screen.queryByText('Manage users')).not.toBeInTheDocument();
+  });
+});
+
+describe('requirePermission', () => {
+  afterEach(() => {
+    replaceMock.mockClear();
+  });
+
+  it('renders the page for users with the permission', () => {
+    renderWithUser(<ProtectedUsersPage title="Users" />, admin);
+
+    expect(screen.getByRole('heading', { name: 'Users' })).toBeInTheDocument();
+    expect(ProtectedUsersPage.displayName).toBe('requirePermission(UsersPage)');
+  });
+
+  it('shows the 403 page to users without the permission without throwing', () => {
+    renderWithUser(
+      <ErrorBoundary fallback={<span>Crashed</span>}>
+        <ProtectedUsersPage title="Users" />
+      </ErrorBoundary>,
+      member
+    );
+
+    expect(screen.getByText('403')).toBeInTheDocument();
+    expect(screen.getByText('Access denied')).toBeInTheDocument();
+    expect(screen.queryByRole('heading', { name: 'Users' })).not.toBeInTheDocument();
+    expect(screen.queryByText('Crashed')).not.toBeInTheDocument();
+  });
+
+  it('shows a loader until the session is restored', () => {
+    renderWithUser(<ProtectedUsersPage title="Users" />, null, false);
+
+    expect(screen.getByText('Checking session')).toBeInTheDocument();
+    expect(screen.queryByRole('heading', { name: 'Users' })).not.toBeInTheDocument();
+    expect(replaceMock).not.toHaveBeenCalled();
+  });
+
+  it('keeps the loader instead of redirecting when the session has no user yet', () => {
+    renderWithUser(<ProtectedUsersPage title="Users" />, null, true, true);
+
+    expect(screen.getByText('Checking session')).toBeInTheDocument();
+    expect(replaceMock).not.toHaveBeenCalled();
+  });
+
+  it('redirects to signin and back when the session was restored signed out', () => {
+    globalThis.history.pushState({}, '', '/en/users?page=2');
+
+    renderWithUser(<ProtectedUsersPage title="Users" />, null);
+    globalThis.history.pushState({}, '', '/');
+
+    expect(replaceMock).toHaveBeenCalledWith('/en/auth/signin?returnTo=%2Fen%2Fusers%3Fpage%3D2');
+    expect(screen.queryByRole('heading', { name: 'Users' })).not.toBeInTheDocument();
+  });
+});
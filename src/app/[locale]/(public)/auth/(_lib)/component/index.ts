@@ -1,5 +1,8 @@
 export { default as AuthGuard } from './AuthGuard';
 export { AuthRedirect } from './AuthRedirect';
+export { Can } from './Can';
 export { ForgotPasswordForm } from './ForgotPasswordForm';
+export { requirePermission } from './requirePermission';
 export { SignInForm } from './SignInForm';
 export { SignUpForm } from './SignUpForm';
+export { TokenRefreshScheduler } from './TokenRefreshScheduler';
@@ -0,0 +1,68 @@
+'use client';
+
+import { Spin } from 'antd';
+import { useRouter } from 'next/navigation';
+import { useLocale, useTranslations } from 'next-intl';
+import type { ComponentType } from 'react';
+import { useEffect } from 'react';
+import { useRecoilValue } from 'recoil';
+
+import { RETURN_TO_PARAM, ROUTES } from '@/shared/config/routes';
+import { ForbiddenPage } from '@/shared/ui/feedback/errors/ForbiddenPage';
+
+import { useCan } from '../hooks/useCan';
+import { authBootstrapState, authSessionState, authUserState, type TPermission } from '../model';
+
+/**
+ * Restrict a protected page to users with a permission
+ *
+ * Shows a loader until the session and its user are known, and redirects to signin (returning to
+ * the page afterwards) only when the session was restored as signed out; a session whose user is
+ * still unknown keeps the loader, since redirecting would bounce off the middleware. Without the permission it renders the 403 page
+ * in place of the page, so navigating to another route leaves no error behind in the layout.
+ *
+ * @param permission - Capability required to open the page
+ * @param Page - Page component
+ * @returns Page component checking the permission first
+ *
+ * @example
+ * // (protected)/users/page.tsx
+ * export default requirePermission('users:manage', UsersPage);
+ */
+export const requirePermission = <TProps extends object>(permission: TPermission, Page: ComponentType<TProps>) => {
+  const PermissionPage = (props: TProps) => {
+    const hasSession = useRecoilValue(authSessionState);
+    const user = useRecoilValue(authUserState);
+    const hasBootstrapped = useRecoilValue(authBootstrapState);
+    const can = useCan();
+    const router = useRouter();
+    const locale = useLocale();
+    const t = useTranslations('auth');
+
+    const isSignedOut = hasBootstrapped && !hasSession;
+
+    useEffect(() => {
+      if (!isSignedOut) return;
+
+      const returnTo = `${globalThis.location.pathname}${globalThis.location.search}`;
+      router.replace(`/${locale}${ROUTES.public.signin}?${RETURN_TO_PARAM}=${encodeURIComponent(returnTo)}`);
+    }, [isSignedOut, locale, router]);
+
+    if (!hasSession || !user) {
+      return (
+        <div className="flex min-h-[200px] items-center justify-center">
+          <Spin size="large" tip={t('checkingSession')}>
+            <div className="min-h-[100px]" />
+          </Spin>
+        </div>
+      );
+    }
+    if (!can(permission)) return <ForbiddenPage />;
+
+    return <Page {...props} />;
+  };
+
+  PermissionPage.displayName = `requirePermission(${Page.displayName ?? Page.name})`;
+
+  return PermissionPage;
+};
@@ -14,12 +14,16 @@ jest.mock('next-intl', () => ({
   useLocale: () => 'en',
 }));
 
-const signInMock = jest.fn();
-const refreshTokenMock = jest.fn();
+const startSessionMock = jest.fn();
+const getSessionMock = jest.fn();
+const refreshSessionMock = jest.fn();
+const endSessionMock = jest.fn();
 jest.mock('@/app/[locale]/(public)/auth/(_lib)/api', () => ({
   authService: {
-    signIn: (...args: unknown[]) => signInMock(...args),
-    refreshToken: (...args: unknown[]) => refreshTokenMock(...args),
+    startSession: (...args: unknown[]) => startSessionMock(...args),
+    getSession: (...args: unknown[]) => getSessionMock(...args),
+    refreshSession: (...args: unknown[]) => refreshSessionMock(...args),
+    endSession: (...args: unknown[]) => endSessionMock(...args),
   },
 }));
 
@@ -28,6 +32,17 @@ jest.mock('@/shared/infra/http/http.interceptors', () => ({
   configureHttpInterceptors: (...args: unknown[]) => configureHttpInterceptorsMock(...args),
 }));
 
+const publishSessionEventMock = jest.fn();
+let sessionEventListener: ((event: unknown) => void) | undefined;
+jest.mock('@/shared/infra/session/session.bus', () => ({
+  publishSessionEvent: (...args: unknown[]) => publishSessionEventMock(...args),
+  runAsRefreshLeader: (refresh: () => Promise<boolean>) => refresh(),
+  subscribeSessionEvents: (listener: (event: unknown) => void) => {
+    sessionEventListener = listener;
+    return () => undefined;
+  },
+}));
+
 const localGetMock = jest.fn();
 const localSetMock = jest.fn();
 const localRemoveMock = jest.fn();
@@ -80,6 +95,9 @@ beforeAll(() => {
 
 beforeEach(() => {
   jest.clearAllMocks();
+  // Signed out by default: no session cookies
+  getSessionMock.mockRejectedValue(new Error('Unauthorized'));
+  endSessionMock.mockResolvedValue(null);
   // also clear session/local storage shims
   try {
     globalThis.sessionStorage.clear();
@@ -91,7 +109,7 @@ describe('useAuth hook', () => {
     const { result } = renderHook(() => useAuth(), { wrapper: Wrapper });
 
     expect(result.current).toHaveProperty('user', null);
-    expect(result.current).toHaveProperty('token', null);
+    expect(result.current).toHaveProperty('hasSession', false);
     expect(result.current).toHaveProperty('isAuthenticated', false);
     expect(result.current).toHaveProperty('hasBootstrapped', false);
     expect(result.current).toHaveProperty('isBootstrapping', false);
@@ -104,23 +122,24 @@ describe('useAuth hook', () => {
     // Interceptors configured
     expect(configureHttpInterceptorsMock).toHaveBeenCalledTimes(1);
     const [configArg] = configureHttpInterceptorsMock.mock.calls[0] as [any];
+    // No token getter: scripts never hold the access token
+    expect(configArg).not.toHaveProperty('getAccessToken');
     expect(configArg).toEqual(
       expect.objectContaining({
-        getAccessToken: expect.any(Function),
         refreshAccessToken: expect.any(Function),
         onUnauthorized: expect.any(Function),
+        onForbidden: expect.any(Function),
         getLocale: expect.any(Function),
       })
     );
   });
 
-  it('signIn calls authService.signIn, sets session, and navigates to dashboard', async () => {
+  it('signIn starts a cookie session, keeps no token in scripts, and navigates to dashboard', async () => {
     const signInResponse = {
-      accessToken: 'acc',
-      refreshToken: 'ref',
+      expiresAt: Date.now() + 900_000,
       user: { id: '1', email: 'john@grow-ps.com', role: 'user' },
     };
-    signInMock.mockResolvedValueOnce(signInResponse);
+    startSessionMock.mockResolvedValueOnce(signInResponse);
 
     const { result } = renderHook(() => useAuth(), { wrapper: Wrapper });
 
@@ -128,27 +147,57 @@ describe('useAuth hook', () => {
       await result.current.signIn({ email: 'john@grow-ps.com', password: 'Password!1' });
     });
 
-    expect(signInMock).toHaveBeenCalledTimes(1);
+    expect(startSessionMock).toHaveBeenCalledWith({ email: 'john@grow-ps.com', password: 'Password!1' });
     expect(localSetMock).toHaveBeenCalledWith('authUser', signInResponse.user);
-    expect(globalThis.sessionStorage.getItem('authToken')).toBe('acc');
-    expect(result.current.token).toBe('acc');
+    expect(globalThis.sessionStorage.getItem('authToken')).toBeNull();
+    expect(result.current.hasSession).toBe(true);
+    expect(result.current.tokenExpiresAt).toBe(signInResponse.expiresAt);
     expect(result.current.user).toEqual(signInResponse.user);
     expect(pushMock).toHaveBeenCalledWith('/en/dashboard');
   });
 
-  it('logout clears tokens, user, storages and redirects to sign-in', async () => {
+  it('signIn navigates to the returnTo path set by the middleware', async () => {
+    globalThis.history.pushState({}, '', '/en/auth/signin?returnTo=%2Fen%2Fproducts%3Fpage%3D2');
+    startSessionMock.mockResolvedValueOnce({ user: null });
+
+    const { result } = renderHook(() => useAuth(), { wrapper: Wrapper });
+
+    await act(async () => {
+      await result.current.signIn({ email: 'john@grow-ps.com', password: 'Password!1' });
+    });
+    globalThis.history.pushState({}, '', '/');
+
+    expect(pushMock).toHaveBeenCalledWith('/en/products?page=2');
+  });
+
+  it('logout clears the session, user, storages, ends the cookie session and redirects to sign-in', async () => {
     const { result } = renderHook(() => useAuth(), { wrapper: Wrapper });
 
     // Seed session
     await act(async () => {
-      await result.current.setSession({ accessToken: 'a', refreshToken: 'r', user: { id: '1', email: 'e', role: 'user' } } as any);
+      await result.current.setSession({ user: { id: '1', email: 'e', role: 'user' } });
     });
 
+    // The session cookies must be gone before the middleware sees the signin navigation
+    let endSession: (value: null) => void = () => {};
+    endSessionMock.mockReturnValueOnce(
+      new Promise(resolve => {
+        endSession = resolve;
+      })
+    );
+    let loggedOut: Promise<void> = Promise.resolve();
     act(() => {
-      result.current.logout();
+      loggedOut = result.current.logout();
+    });
+    expect(pushMock).not.toHaveBeenCalled();
+
+    await act(async () => {
+      endSession(null);
+      await loggedOut;
     });
 
-    expect(result.current.token).toBeNull();
+    expect(endSessionMock).toHaveBeenCalledTimes(1);
+    expect(result.current.hasSession).toBe(false);
     expect(result.current.user).toBeNull();
     expect(result.current.hasBootstrapped).toBe(false);
     expect(localRemoveMock).toHaveBeenCalledWith('authUser');
@@ -156,9 +205,24 @@ describe('useAuth hook', () => {
     expect(pushMock).toHaveBeenCalledWith('/en/auth/signin');
   });
 
-  it('bootstrap restores from storage when token exists', async () => {
-    // Simulate stored token and user
-    globalThis.sessionStorage.setItem('authToken', 'tok');
+  it('bootstrap restores the cookie session with the user loaded by the session route', async () => {
+    const user = { id: '1', email: 'e', role: 'user' };
+    getSessionMock.mockResolvedValueOnce({ user });
+
+    const { result } = renderHook(() => useAuth(), { wrapper: Wrapper });
+
+    await act(async () => {
+      await result.current.bootstrap();
+    });
+
+    expect(result.current.user).toEqual(user);
+    expect(localSetMock).toHaveBeenCalledWith('authUser', user);
+    expect(localGetMock).not.toHaveBeenCalledWith('authUser');
+  });
+
+  it('bootstrap falls back to the cached user when the session route has none', async () => {
+    // Simulate session cookies and cached user
+    getSessionMock.mockResolvedValueOnce({ user: null });
     localGetMock.mockReturnValueOnce({ id: '1', email: 'e', role: 'user' });
 
     const { result } = renderHook(() => useAuth(), { wrapper: Wrapper });
@@ -167,43 +231,64 @@ describe('useAuth hook', () => {
       await result.current.bootstrap();
     });
 
-    expect(result.current.token).toBe('tok');
+    expect(getSessionMock).toHaveBeenCalledTimes(1);
+    expect(result.current.hasSession).toBe(true);
     expect(result.current.user).toEqual({ id: '1', email: 'e', role: 'user' });
     expect(result.current.hasBootstrapped).toBe(true);
   });
 
-  it('bootstrap handles no token by clearing token and setting bootstrapped', async () => {
+  it('exposes the access token expiry of the session and clears it on logout', async () => {
+    const expiresAt = Date.now() + 900_000;
+    getSessionMock.mockResolvedValueOnce({ expiresAt, user: null });
+
+    const { result } = renderHook(() => useAuth(), { wrapper: Wrapper });
+
+    await act(async () => {
+      await result.current.bootstrap();
+    });
+
+    expect(result.current.tokenExpiresAt).toBe(expiresAt);
+
+    await act(async () => {
+      await result.current.logout();
+    });
+
+    expect(result.current.tokenExpiresAt).toBeNull();
+  });
+
+  it('bootstrap handles no session by clearing it and setting bootstrapped', async () => {
     const { result } = renderHook(() => useAuth(), { wrapper: Wrapper });
 
     await act(async () => {
       await result.current.bootstrap();
     });
 
-    expect(result.current.token).toBeNull();
+    expect(result.current.hasSession).toBe(false);
     expect(result.current.hasBootstrapped).toBe(true);
   });
 
-  it('refreshAccessToken updates token, refresh token and user; updates storage', async () => {
+  it('refreshAccessToken refreshes the cookie session and updates expiry and user; updates storage', async () => {
     const { result } = renderHook(() => useAuth(), { wrapper: Wrapper });
 
-    // Seed refresh token via setSession
+    // Seed session via setSession
     await act(async () => {
-      await result.current.setSession({ accessToken: 'a1', refreshToken: 'r1', user: { id: '1', email: 'e', role: 'user' } } as any);
+      await result.current.setSession({ user: { id: '1', email: 'e', role: 'user' } });
     });
 
     const [configArg] = configureHttpInterceptorsMock.mock.calls[0] as [any];
 
-    refreshTokenMock.mockResolvedValueOnce({ accessToken: 'a2', refreshToken: 'r2', user: { id: '2', email: 'e2', role: 'admin' } });
+    const expiresAt = Date.now() + 900_000;
+    refreshSessionMock.mockResolvedValueOnce({ expiresAt, user: { id: '2', email: 'e2', role: 'admin' } });
 
-    const newToken = await act(async () => {
+    const isRefreshed = await act(async () => {
       return await configArg.refreshAccessToken();
     });
 
-    expect(refreshTokenMock).toHaveBeenCalledWith({ refreshToken: 'r1' });
-    expect(result.current.token).toBe('a2');
+    expect(refreshSessionMock).toHaveBeenCalledTimes(1);
+    expect(result.current.tokenExpiresAt).toBe(expiresAt);
     expect(result.current.user).toEqual({ id: '2', email: 'e2', role: 'admin' });
     expect(localSetMock).toHaveBeenCalledWith('authUser', { id: '2', email: 'e2', role: 'admin' });
-    expect(newToken).toBe('a2');
+    expect(isRefreshed).toBe(true);
   });
 
   // it('refreshAccessToken returns null when no refresh token is present', async () => {
@@ -211,24 +296,23 @@ describe('useAuth hook', () => {
   //   const [configArg] = configureHttpInterceptorsMock.mock.calls[0] as [any];
   //   const rv = await act(async () => await configArg.refreshAccessToken());
   //   expect(rv).toBeNull();
-  //   expect(refreshTokenMock).not.toHaveBeenCalled();
+  //   expect(refreshSessionMock).not.toHaveBeenCalled();
   // });
 
   it('refreshAccessToken logs out and rethrows on failure', async () => {
     const { result } = renderHook(() => useAuth(), { wrapper: Wrapper });
 
     await act(async () => {
-      await result.current.setSession({ accessToken: 'a', refreshToken: 'r', user: { id: '1', email: 'e', role: 'user' } } as any);
+      await result.current.setSession({ user: { id: '1', email: 'e', role: 'user' } });
     });
 
-    refreshTokenMock.mockRejectedValueOnce(new Error('refresh failed'));
+    refreshSessionMock.mockRejectedValueOnce(new Error('refresh failed'));
 
     const [configArg] = configureHttpInterceptorsMock.mock.calls[0] as [any];
-    await expect(
-      act(async () => {
-        await configArg.refreshAccessToken();
-      })
-    ).rejects.toThrow('refresh failed');
+    // act() returns a bare thenable, so the assertion is awaited inside it
+    await act(async () => {
+      await expect(configArg.refreshAccessToken()).rejects.toThrow('refresh failed');
+    });
 
     expect(pushMock).toHaveBeenCalledWith('/en/auth/signin');
   });
@@ -238,7 +322,7 @@ describe('useAuth hook', () => {
 
     // signIn toggles isAuthenticating via deferred resolve
     let resolveSignIn: (v: any) => void = () => {};
-    signInMock.mockImplementationOnce(
+    startSessionMock.mockImplementationOnce(
       () =>
         new Promise(res => {
           resolveSignIn = res;
@@ -251,7 +335,7 @@ describe('useAuth hook', () => {
     // Allow state to flush
     await act(async () => {});
     // Resolve the sign-in now and flush
-    resolveSignIn({ accessToken: 'a', user: { id: '1', email: 'e', role: 'user' } });
+    resolveSignIn({ user: { id: '1', email: 'e', role: 'user' } });
     await act(async () => {});
     expect(result.current.isLoading).toBe(false);
 
@@ -262,18 +346,112 @@ describe('useAuth hook', () => {
     expect(result.current.isBootstrapping).toBe(false);
   });
 
-  it('registers interceptors with onUnauthorized that logs out and replaces route', () => {
+  it('announces sign-in, refresh and logout to the other tabs', async () => {
+    const { result } = renderHook(() => useAuth(), { wrapper: Wrapper });
+    const user = { id: '1', email: 'e', role: 'user' as const };
+
+    await act(async () => {
+      await result.current.setSession({ expiresAt: 1_000, user });
+    });
+    refreshSessionMock.mockResolvedValueOnce({ expiresAt: 2_000, user: null });
+    const [configArg] = configureHttpInterceptorsMock.mock.calls[0] as [any];
+    await act(async () => {
+      await configArg.refreshAccessToken();
+    });
+    await act(async () => {
+      await result.current.logout();
+    });
+
+    expect(publishSessionEventMock.mock.calls.map(([event]) => event)).toEqual([
+      { type: 'login', expiresAt: 1_000, user },
+      { type: 'token-refreshed', expiresAt: 2_000 },
+      { type: 'logout' },
+    ]);
+  });
+
+  it('applies sessions from other tabs and signs out when another tab logs out', () => {
+    const { result } = renderHook(() => useAuth(), { wrapper: Wrapper });
+    const user = { id: '1', email: 'e', role: 'user' };
+
+    act(() => {
+      sessionEventListener?.({ type: 'login', expiresAt: 1_000, user });
+    });
+    expect(result.current.hasSession).toBe(true);
+    expect(result.current.tokenExpiresAt).toBe(1_000);
+    expect(result.current.user).toEqual(user);
+
+    act(() => {
+      sessionEventListener?.({ type: 'token-refreshed', expiresAt: 2_000 });
+      sessionEventListener?.({ type: 'user-updated', user: { ...user, fullName: 'Jane' } });
+    });
+    expect(result.current.tokenExpiresAt).toBe(2_000);
+    expect(result.current.user).toEqual({ ...user, fullName: 'Jane' });
+
+    act(() => {
+      sessionEventListener?.({ type: 'logout' });
+    });
+    expect(result.current.hasSession).toBe(false);
+    expect(result.current.user).toBeNull();
+    expect(replaceMock).toHaveBeenCalledWith('/en/auth/signin');
+    expect(publishSessionEventMock).not.toHaveBeenCalled();
+  });
+
+  it('takes over a session from another tab without reading the cookie session', () => {
+    const { result } = renderHook(() => useAuth(), { wrapper: Wrapper });
+    const user = { id: '1', email: 'e', role: 'user' };
+
+    act(() => {
+      sessionEventListener?.({ type: 'login', user });
+    });
+
+    expect(getSessionMock).not.toHaveBeenCalled();
+    expect(result.current.hasSession).toBe(true);
+    expect(result.current.tokenExpiresAt).toBeNull();
+    expect(result.current.user).toEqual(user);
+  });
+
+  it('registers interceptors with onForbidden that opens the 403 page of the locale', () => {
+    renderHook(() => useAuth(), { wrapper: Wrapper });
+
+    const [configArg] = configureHttpInterceptorsMock.mock.calls[0] as [any];
+    act(() => {
+      configArg.onForbidden();
+    });
+
+    expect(pushMock).toHaveBeenCalledWith('/en/forbidden');
+  });
+
+  it('keys shared and cached requests by the signed-in user', async () => {
+    const { result } = renderHook(() => useAuth(), { wrapper: Wrapper });
+    const latestConfig = () => configureHttpInterceptorsMock.mock.calls.at(-1)?.[0] as any;
+
+    expect(latestConfig().getAuthIdentity()).toBeNull();
+
+    await act(async () => {
+      await result.current.setSession({ user: { id: '1', email: 'e', role: 'user' } });
+    });
+    expect(latestConfig().getAuthIdentity()).toBe('1');
+
+    await act(async () => {
+      await result.current.logout();
+    });
+    expect(latestConfig().getAuthIdentity()).toBeNull();
+  });
+
+  it('registers interceptors with onUnauthorized that logs out and navigates to sign-in once', async () => {
     const { result } = renderHook(() => useAuth(), { wrapper: Wrapper });
 
     const call = configureHttpInterceptorsMock.mock.calls[0];
     expect(call).toBeDefined();
     const configArg = call[0];
 
-    act(() => {
+    await act(async () => {
       configArg.onUnauthorized();
     });
 
-    expect(replaceMock).toHaveBeenCalledWith('/en/auth/signin');
-    expect(result.current.token).toBeNull();
+    expect(pushMock).toHaveBeenCalledTimes(1);
+    expect(pushMock).toHaveBeenCalledWith('/en/auth/signin');
+    expect(replaceMock).not.toHaveBeenCalled();
+    expect(result.current.hasSession).toBe(false);
   });
 });
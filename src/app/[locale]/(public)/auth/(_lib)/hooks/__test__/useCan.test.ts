@@ -0,0 +1,31 @@
+import { renderHook } from '@testing-library/react';
+import React from 'react';
+import type { MutableSnapshot } from 'recoil';
+import { RecoilRoot } from 'recoil';
+
+import { authUserState, type TAuthUser } from '../../model';
+import { useCan } from '../useCan';
+
+const renderWithUser = (user: TAuthUser | null) => {
+  const initializeState = ({ set }: MutableSnapshot) => {
+    set(authUserState, user);
+  };
+  const Wrapper = ({ children }: { children: React.ReactNode }) => React.createElement(RecoilRoot, { initializeState, children });
+
+  return renderHook(() => useCan(), { wrapper: Wrapper });
+};
+
+describe('useCan', () => {
+  it('checks permissions against the role of the signed-in user', () => {
+    const { result } = renderWithUser({ id: '1', email: 'john@grow-ps.com', role: 'user' });
+
+    expect(result.current('project:edit')).toBe(true);
+    expect(result.current('users:manage')).toBe(false);
+  });
+
+  it('denies everything while signed out', () => {
+    const { result } = renderWithUser(null);
+
+    expect(result.current('project:create')).toBe(false);
+  });
+});
@@ -0,0 +1,82 @@
+import { act, renderHook } from '@testing-library/react';
+import React from 'react';
+import type { MutableSnapshot } from 'recoil';
+import { RecoilRoot } from 'recoil';
+
+const attemptTokenRefreshMock = jest.fn(async () => true);
+jest.mock('@/shared/infra/http/http.interceptors', () => ({
+  attemptTokenRefresh: () => attemptTokenRefreshMock(),
+}));
+
+import { authSessionState, authTokenExpiryState, TOKEN_REFRESH_LEAD_MS } from '../../model';
+import { useTokenRefresh } from '../useTokenRefresh';
+
+const NOW = new Date('2025-06-01T10:00:00Z').getTime();
+
+const renderWithSession = (expiresAt: number | null) => {
+  const initializeState = ({ set }: MutableSnapshot) => {
+    set(authSessionState, true);
+    set(authTokenExpiryState, expiresAt);
+  };
+  const Wrapper = ({ children }: { children: React.ReactNode }) => React.createElement(RecoilRoot, { initializeState, children });
+
+  return renderHook(() => useTokenRefresh(), { wrapper: Wrapper });
+};
+
+const setVisibility = (state: DocumentVisibilityState) => {
+  Object.defineProperty(document, 'visibilityState', { configurable: true, get: () => state });
+  document.dispatchEvent(new Event('visibilitychange'));
+};
+
+describe('useTokenRefresh', () => {
+  beforeEach(() => {
+    jest.useFakeTimers({ now: NOW });
+    attemptTokenRefreshMock.mockClear();
+    setVisibility('visible');
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('refreshes the token shortly before it expires', () => {
+    renderWithSession(NOW + 15 * 60_000);
+
+    act(() => {
+      jest.advanceTimersByTime(15 * 60_000 - TOKEN_REFRESH_LEAD_MS - 1);
+    });
+    expect(attemptTokenRefreshMock).not.toHaveBeenCalled();
+
+    act(() => {
+      jest.advanceTimersByTime(1);
+    });
+    expect(attemptTokenRefreshMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('pauses while the tab is hidden and catches up once it is visible again', () => {
+    renderWithSession(NOW + 5 * 60_000);
+
+    act(() => {
+      setVisibility('hidden');
+      jest.advanceTimersByTime(10 * 60_000);
+    });
+    expect(attemptTokenRefreshMock).not.toHaveBeenCalled();
+
+    act(() => {
+      setVisibility('visible');
+      jest.advanceTimersByTime(0);
+    });
+    expect(attemptTokenRefreshMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('leaves tokens without an expiry to the 401 flow', () => {
+    const { unmount } = renderWithSession(null);
+
+    act(() => {
+      jest.advanceTimersByTime(24 * 60 * 60_000);
+    });
+
+    expect(attemptTokenRefreshMock).not.toHaveBeenCalled();
+    unmount();
+  });
+});
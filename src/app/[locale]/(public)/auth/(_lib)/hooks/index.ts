@@ -1,4 +1,6 @@
 /* istanbul ignore file */
 
 export { useAuth } from './useAuth';
+export { useCan } from './useCan';
 export { useSignUpForm } from './useSignUpForm';
+export { useTokenRefresh } from './useTokenRefresh';
@@ -8,41 +8,33 @@ import { useRecoilState, useRecoilValue } from 'recoil';
 import { authService } from '@/app/[locale]/(public)/auth/(_lib)/api';
 import {
   authBootstrapState,
-  authTokenState,
+  authSessionState,
+  authTokenExpiryState,
   authUserState,
   isAuthenticatedSelector,
+  resolvePostSignInPath,
   type TAuthUser,
+  type TSession,
   type TSignInPayload,
-  type TSignInResponse,
 } from '@/app/[locale]/(public)/auth/(_lib)/model';
+import { ROUTES } from '@/shared/config/routes';
+import { clearHttpCache } from '@/shared/infra/http/http.cache';
 import { configureHttpInterceptors } from '@/shared/infra/http/http.interceptors';
+import { clearOfflineQueue } from '@/shared/infra/http/http.offline';
+import { publishSessionEvent, runAsRefreshLeader, subscribeSessionEvents } from '@/shared/infra/session/session.bus';
 import { local, session } from '@/shared/utils/storage/storage';
 
 // ============================================================================
 // Memory Storage (Module-level state)
 // ============================================================================
 
-let memoryToken: string | null = null;
-let memoryRefreshToken: string | null = null;
+// Both tokens live in httpOnly cookies (/api/session) that scripts cannot read; only whether a session is active is mirrored here
+let isSessionActive = false;
 
 // ============================================================================
 // Storage Helpers
 // ============================================================================
 
-const getStoredToken = (): string | null => {
-  if (globalThis.window === undefined) return null;
-  return sessionStorage.getItem('authToken');
-};
-
-const setStoredToken = (token: string | null): void => {
-  if (globalThis.window === undefined) return;
-  if (token) {
-    sessionStorage.setItem('authToken', token);
-  } else {
-    sessionStorage.removeItem('authToken');
-  }
-};
-
 /**
  * Clear all cookies by setting expiry date in the past
  */
@@ -75,10 +67,16 @@ const clearAllCookies = (): void => {
  * Clear all user data from storage and cookies
  */
 const clearAllUserData = (): void => {
-  // Remove only auth-related entries
+  // Remove only auth-related entries (the token was kept in sessionStorage before the cookie session)
   local.remove('authUser');
   session.remove('authToken');
 
+  // Drop cached API responses belonging to the previous user
+  clearHttpCache();
+
+  // Pending offline changes must not be replayed for the next user
+  clearOfflineQueue();
+
   // Clear auth/session cookies
   clearAllCookies();
 };
@@ -90,7 +88,8 @@ const clearAllUserData = (): void => {
 export const useAuth = () => {
   const router = useRouter();
   const locale = useLocale();
-  const [token, setToken] = useRecoilState(authTokenState);
+  const [hasSession, setHasSession] = useRecoilState(authSessionState);
+  const [tokenExpiresAt, setTokenExpiry] = useRecoilState(authTokenExpiryState);
   const [user, setUser] = useRecoilState(authUserState);
   const [hasBootstrapped, setHasBootstrapped] = useRecoilState(authBootstrapState);
   const [isBootstrapping, setBootstrapping] = useState(false);
@@ -98,16 +97,16 @@ export const useAuth = () => {
   const isAuthenticated = useRecoilValue(isAuthenticatedSelector);
 
   // ============================================================================
-  // Token Management
+  // Session State Management
   // ============================================================================
 
-  const setTokenWithSideEffects = useCallback(
-    (nextToken: string | null) => {
-      memoryToken = nextToken;
-      setToken(nextToken);
-      setStoredToken(nextToken);
+  const setSessionWithSideEffects = useCallback(
+    (isActive: boolean, expiresAt?: number) => {
+      isSessionActive = isActive;
+      setHasSession(isActive);
+      setTokenExpiry(isActive ? (expiresAt ?? null) : null);
     },
-    [setToken]
+    [setHasSession, setTokenExpiry]
   );
 
   // ============================================================================
@@ -115,12 +114,9 @@ export const useAuth = () => {
   // ============================================================================
 
   const setSession = useCallback(
-    async (response: TSignInResponse): Promise<TAuthUser | null> => {
-      // Set tokens
-      setTokenWithSideEffects(response.accessToken ?? null);
-      if (response.refreshToken) {
-        memoryRefreshToken = response.refreshToken;
-      }
+    async (response: TSession): Promise<TAuthUser | null> => {
+      // Mark the session active (the session cookies were already written by the session route)
+      setSessionWithSideEffects(true, response.expiresAt);
 
       // Get user profile from sign-in response only (no extra API call)
       const profile: TAuthUser | null = response.user ?? null;
@@ -134,9 +130,12 @@ export const useAuth = () => {
         local.set('authUser', profile);
       }
 
+      // Sign the other tabs in with the same session
+      publishSessionEvent<TAuthUser>({ type: 'login', expiresAt: response.expiresAt, user: profile });
+
       return profile;
     },
-    [setTokenWithSideEffects, setUser, setHasBootstrapped]
+    [setSessionWithSideEffects, setUser, setHasBootstrapped]
   );
 
   // ============================================================================
@@ -147,11 +146,11 @@ export const useAuth = () => {
     async (payload: TSignInPayload): Promise<void> => {
       setAuthenticating(true);
       try {
-        const response = await authService.signIn(payload);
+        const response = await authService.startSession(payload);
         await setSession(response);
 
-        // Navigate to dashboard after successful sign-in
-        router.push(`/${locale}/dashboard`);
+        // Navigate to the page the middleware sent the user away from, else the dashboard
+        router.push(resolvePostSignInPath(locale));
       } finally {
         setAuthenticating(false);
       }
@@ -159,57 +158,66 @@ export const useAuth = () => {
     [setSession, router, locale]
   );
 
-  const logout = useCallback(() => {
-    // Clear memory tokens
-    memoryToken = null;
-    memoryRefreshToken = null;
-
+  const clearSession = useCallback(() => {
     // Clear state
-    setTokenWithSideEffects(null);
+    setSessionWithSideEffects(false);
     setUser(null);
     setHasBootstrapped(false);
 
     // Clear all storage (localStorage, sessionStorage, cookies)
     clearAllUserData();
+  }, [setSessionWithSideEffects, setUser, setHasBootstrapped]);
+
+  const logout = useCallback(async (): Promise<void> => {
+    clearSession();
+
+    // Expire the session cookies before navigating, or the middleware still sees a signed-in user;
+    // the local session is already gone if this fails
+    await authService.endSession().catch(() => undefined);
+
+    // Sign the other tabs out as well
+    publishSessionEvent({ type: 'logout' });
 
     // Navigate to signin page
     router.push(`/${locale}/auth/signin`);
-  }, [setTokenWithSideEffects, setUser, setHasBootstrapped, router, locale]);
+  }, [clearSession, router, locale]);
 
   // ============================================================================
   // Token Refresh
   // ============================================================================
 
-  const refreshAccessToken = useCallback(async (): Promise<string | null> => {
+  const refreshAccessToken = useCallback(async (): Promise<boolean> => {
     try {
-      // Guard: do not attempt refresh without a refresh token
-      if (!memoryRefreshToken) {
-        return null;
+      // Guard: do not attempt refresh without a session
+      if (!isSessionActive) {
+        return false;
       }
 
-      const response = await authService.refreshToken({ refreshToken: memoryRefreshToken });
+      // Only one tab spends the refresh cookie; the others pick up the expiry it broadcasts
+      return await runAsRefreshLeader(async () => {
+        // Another tab may have ended the session while this one waited
+        if (!isSessionActive) return false;
 
-      if (response.accessToken) {
-        setTokenWithSideEffects(response.accessToken);
-      }
+        const response = await authService.refreshSession();
 
-      if (response.refreshToken) {
-        memoryRefreshToken = response.refreshToken;
-      }
+        setSessionWithSideEffects(true, response.expiresAt);
+        publishSessionEvent({ type: 'token-refreshed', expiresAt: response.expiresAt });
 
-      if (response.user) {
-        setUser(response.user);
-        // Update localStorage with refreshed user
-        local.set('authUser', response.user);
-      }
+        if (response.user) {
+          setUser(response.user);
+          // Update localStorage with refreshed user
+          local.set('authUser', response.user);
+          publishSessionEvent<TAuthUser>({ type: 'user-updated', user: response.user });
+        }
 
-      return response.accessToken ?? null;
+        return true;
+      });
     } catch (error) {
       // If refresh fails, logout user
-      logout();
+      void logout();
       throw error;
     }
-  }, [logout, setTokenWithSideEffects, setUser]);
+  }, [logout, setSessionWithSideEffects, setUser]);
 
   // ============================================================================
   // Bootstrap (Restore Session)
@@ -221,48 +229,88 @@ export const useAuth = () => {
 
     setBootstrapping(true);
     try {
-      const storedToken = getStoredToken();
+      // Restore the session from its cookies (401 when signed out)
+      const session = await authService.getSession();
+      setSessionWithSideEffects(true, session.expiresAt);
 
-      if (!storedToken) {
-        setTokenWithSideEffects(null);
-        setHasBootstrapped(true);
-        return;
+      // The session route loads the user from /auth/me; the cached user only covers a backend that could not answer
+      if (session.user) {
+        local.set('authUser', session.user);
       }
-
-      // Restore token
-      setTokenWithSideEffects(storedToken);
-
-      // Restore user from localStorage (no extra API call)
-      const storedUser = local.get<TAuthUser>('authUser');
+      const storedUser = session.user ?? local.get<TAuthUser>('authUser');
       if (storedUser) {
         setUser(storedUser);
       }
-      // Do not call /auth/me; rely solely on cached user
     } catch {
       // If bootstrap fails, clear everything
-      setTokenWithSideEffects(null);
+      setSessionWithSideEffects(false);
       setUser(null);
     } finally {
       setBootstrapping(false);
       setHasBootstrapped(true);
     }
-  }, [isBootstrapping, hasBootstrapped, setHasBootstrapped, setTokenWithSideEffects, setUser]);
+  }, [isBootstrapping, hasBootstrapped, setHasBootstrapped, setSessionWithSideEffects, setUser]);
+
+  // ============================================================================
+  // Cross-tab Session Sync
+  // ============================================================================
+
+  useEffect(() => {
+    // Every mounted instance listens; applying an event is idempotent, and the
+    // module-level session flag keeps a remote logout from being handled twice
+    return subscribeSessionEvents<TAuthUser>(event => {
+      switch (event.type) {
+        case 'login':
+        case 'token-refreshed': {
+          // The cookies are shared by every tab; only the expiry is taken over
+          setSessionWithSideEffects(true, event.expiresAt);
+
+          if (event.type === 'login') {
+            setUser(event.user);
+            setHasBootstrapped(true);
+          }
+          return;
+        }
+        case 'user-updated': {
+          setUser(event.user);
+          return;
+        }
+        case 'logout': {
+          if (!isSessionActive) return;
+
+          clearSession();
+          router.replace(`/${locale}/auth/signin`);
+          return;
+        }
+      }
+    });
+  }, [clearSession, locale, router, setHasBootstrapped, setSessionWithSideEffects, setUser]);
 
   // ============================================================================
   // HTTP Interceptors Setup
   // ============================================================================
 
+  // Keys shared and cached requests per user: there is no token to tell users apart
+  const authIdentity = hasSession && user ? user.id : null;
+
   useEffect(() => {
-    configureHttpInterceptors({
-      getAccessToken: () => memoryToken,
+    // Each mounted instance adds a config layer and removes it again on unmount,
+    // so an unmounted component never leaves stale handlers behind. No token getter:
+    // the middleware sends the access cookie as Bearer token
+    return configureHttpInterceptors({
+      getAuthIdentity: () => authIdentity,
       refreshAccessToken,
+      // logout() navigates to signin
       onUnauthorized: () => {
-        logout();
-        router.replace(`/${locale}/auth/signin`);
+        void logout();
+      },
+      // A 403 from the backend opens the translated 403 page
+      onForbidden: () => {
+        router.push(`/${locale}${ROUTES.protected.forbidden}`);
       },
       getLocale: () => locale,
     });
-  }, [locale, logout, router, refreshAccessToken]);
+  }, [authIdentity, locale, logout, refreshAccessToken, router]);
 
   // ============================================================================
   // Return API
@@ -271,8 +319,9 @@ export const useAuth = () => {
   return useMemo(
     () => ({
       user,
-      token,
-      isAuthenticated: hasBootstrapped ? isAuthenticated : Boolean(token),
+      hasSession,
+      tokenExpiresAt,
+      isAuthenticated: hasBootstrapped ? isAuthenticated : hasSession,
       hasBootstrapped,
       isBootstrapping,
       isLoading: isBootstrapping || isAuthenticating,
@@ -281,6 +330,6 @@ export const useAuth = () => {
       bootstrap,
       setSession,
     }),
-    [user, token, isAuthenticated, hasBootstrapped, isBootstrapping, isAuthenticating, signIn, logout, bootstrap, setSession]
+    [user, hasSession, tokenExpiresAt, isAuthenticated, hasBootstrapped, isBootstrapping, isAuthenticating, signIn, logout, bootstrap, setSession]
   );
 };
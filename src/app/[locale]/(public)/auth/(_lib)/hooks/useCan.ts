@@ -0,0 +1,24 @@
+'use client';
+
+import { useCallback } from 'react';
+import { useRecoilValue } from 'recoil';
+
+import { authPermissionsSelector, type TPermission } from '@/app/[locale]/(public)/auth/(_lib)/model';
+
+/**
+ * Check capabilities of the signed-in user
+ *
+ * Capabilities come from the user's role (ROLE_PERMISSIONS); the backend still answers 403
+ * for anything the UI lets through.
+ *
+ * @returns `can(permission)`, false while signed out
+ *
+ * @example
+ * const can = useCan();
+ * if (can('project:create')) { ... }
+ */
+export const useCan = (): ((permission: TPermission) => boolean) => {
+  const permissions = useRecoilValue(authPermissionsSelector);
+
+  return useCallback((permission: TPermission) => permissions.includes(permission), [permissions]);
+};
@@ -0,0 +1,57 @@
+'use client';
+
+import { useEffect } from 'react';
+import { useRecoilValue } from 'recoil';
+
+import { authSessionState, authTokenExpiryState, resolveTokenRefreshDelay } from '@/app/[locale]/(public)/auth/(_lib)/model';
+import { attemptTokenRefresh } from '@/shared/infra/http/http.interceptors';
+
+// ============================================================================
+// Visibility Helpers
+// ============================================================================
+
+const isDocumentHidden = (): boolean => globalThis.document?.visibilityState === 'hidden';
+
+// ============================================================================
+// Main Hook
+// ============================================================================
+
+/**
+ * Refresh the access token shortly before its JWT `exp`
+ *
+ * The timer is paused while the tab is hidden and re-armed when it becomes visible,
+ * refreshing at once when the token became due in the meantime. Refreshes go through
+ * attemptTokenRefresh(), so they are shared with the refresh triggered by a 401.
+ * Mount it once (TokenRefreshScheduler); tokens without `exp` are left to the 401 flow.
+ */
+export const useTokenRefresh = (): void => {
+  const hasSession = useRecoilValue(authSessionState);
+  const expiresAt = useRecoilValue(authTokenExpiryState);
+
+  useEffect(() => {
+    if (!hasSession || expiresAt === null) return;
+
+    let timer: ReturnType<typeof setTimeout> | undefined;
+
+    const refresh = () => {
+      // A failed refresh already logs the user out (useAuth.refreshAccessToken)
+      attemptTokenRefresh().catch(() => undefined);
+    };
+
+    const schedule = () => {
+      clearTimeout(timer);
+      timer = undefined;
+      if (isDocumentHidden()) return;
+
+      timer = setTimeout(refresh, resolveTokenRefreshDelay(expiresAt));
+    };
+
+    schedule();
+    globalThis.document?.addEventListener('visibilitychange', schedule);
+
+    return () => {
+      clearTimeout(timer);
+      globalThis.document?.removeEventListener('visibilitychange', schedule);
+    };
+  }, [hasSession, expiresAt]);
+};
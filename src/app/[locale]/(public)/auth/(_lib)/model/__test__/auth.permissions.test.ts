@@ -0,0 +1,20 @@
+import { getUserPermissions, hasPermission, PERMISSIONS } from '../auth.permissions';
+
+describe('auth.permissions', () => {
+  it('grants admins every permission', () => {
+    expect(getUserPermissions({ role: 'admin' })).toEqual(PERMISSIONS);
+    expect(hasPermission({ role: 'admin' }, 'users:manage')).toBe(true);
+  });
+
+  it('grants users the project permissions only', () => {
+    expect(hasPermission({ role: 'user' }, 'project:create')).toBe(true);
+    expect(hasPermission({ role: 'user' }, 'project:edit')).toBe(true);
+    expect(hasPermission({ role: 'user' }, 'users:manage')).toBe(false);
+    expect(hasPermission({ role: 'user' }, 'settings:manage')).toBe(false);
+  });
+
+  it('grants nothing while signed out', () => {
+    expect(getUserPermissions(null)).toEqual([]);
+    expect(hasPermission(null, 'project:create')).toBe(false);
+  });
+});
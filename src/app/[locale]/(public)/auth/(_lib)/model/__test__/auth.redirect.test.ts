@@ -0,0 +1,28 @@
+import { resolvePostSignInPath } from '../auth.redirect';
+
+describe('auth.redirect', () => {
+  it('opens the returnTo path after sign-in', () => {
+    expect(resolvePostSignInPath('en', '?returnTo=%2Fen%2Fproducts%3Fpage%3D2')).toBe('/en/products?page=2');
+  });
+
+  it('falls back to the localized dashboard for missing or foreign returnTo values', () => {
+    expect(resolvePostSignInPath('fr', '')).toBe('/fr/dashboard');
+    expect(resolvePostSignInPath('en', '?returnTo=https%3A%2F%2Fevil.example')).toBe('/en/dashboard');
+    expect(resolvePostSignInPath('en', '?returnTo=%2F%2Fevil.example')).toBe('/en/dashboard');
+    expect(resolvePostSignInPath('en', '?returnTo=%2F%5Cevil.example')).toBe('/en/dashboard');
+    // URL parsing strips tabs and newlines, which would turn these into '//evil.example'
+    expect(resolvePostSignInPath('en', '?returnTo=%2F%09%2Fevil.example%2Fx')).toBe('/en/dashboard');
+    expect(resolvePostSignInPath('en', '?returnTo=%2F%0A%2Fevil.example')).toBe('/en/dashboard');
+    expect(resolvePostSignInPath('en', '?returnTo=%2F%0D%0A%2Fevil.example')).toBe('/en/dashboard');
+    // A percent-encoded tab stays a path segment on this origin
+    expect(resolvePostSignInPath('en', '?returnTo=%2F%2509%2Fevil.example')).toBe('/%09/evil.example');
+  });
+
+  it('reads the query of the current location by default', () => {
+    globalThis.history.pushState({}, '', '/en/auth/signin?returnTo=%2Fen%2Fprofile');
+
+    expect(resolvePostSignInPath('en')).toBe('/en/profile');
+
+    globalThis.history.pushState({}, '', '/');
+  });
+});
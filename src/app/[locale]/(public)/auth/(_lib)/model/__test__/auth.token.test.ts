@@ -0,0 +1,33 @@
+import { decodeJwtPayload, getTokenExpiry, resolveTokenRefreshDelay, TOKEN_REFRESH_LEAD_MS } from '../auth.token';
+
+const encodeSegment = (value: unknown) => globalThis.btoa(JSON.stringify(value)).replaceAll('+', '-').replaceAll('/', '_').replace(/=+$/, '');
+
+describe('auth.token', () => {
+  it('decodes base64url JWT claims without verifying the signature', () => {
+    const token = `${encodeSegment({ alg: 'none' })}.${encodeSegment({ sub: 'account-1', exp: 1_750_000_000, name: '??>' })}.unsigned`;
+
+    expect(decodeJwtPayload(token)).toEqual({ sub: 'account-1', exp: 1_750_000_000, name: '??>' });
+    expect(getTokenExpiry(token)).toBe(1_750_000_000_000);
+  });
+
+  it('returns null for opaque tokens and tokens without exp', () => {
+    expect(getTokenExpiry('opaque-token')).toBeNull();
+    expect(getTokenExpiry(`x.${encodeSegment({ sub: 'account-1' })}.y`)).toBeNull();
+    expect(getTokenExpiry('x.not-json.y')).toBeNull();
+    expect(getTokenExpiry(null)).toBeNull();
+  });
+
+  it('refreshes ahead of expiry but never before half of the remaining lifetime', () => {
+    const now = 1_000_000;
+
+    expect(resolveTokenRefreshDelay(now + 15 * 60_000, now)).toBe(15 * 60_000 - TOKEN_REFRESH_LEAD_MS);
+    expect(resolveTokenRefreshDelay(now + 30_000, now)).toBe(15_000);
+    expect(resolveTokenRefreshDelay(now - 5_000, now)).toBe(0);
+  });
+
+  it('caps the delay at the setTimeout limit for long-lived tokens', () => {
+    const now = 1_000_000;
+
+    expect(resolveTokenRefreshDelay(now + 365 * 24 * 60 * 60_000, now)).toBe(2_147_483_647);
+  });
+});
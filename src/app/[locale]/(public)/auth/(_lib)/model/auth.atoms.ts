@@ -2,8 +2,15 @@ import { atom } from 'recoil';
 
 import type { TAuthUser } from './auth.schemas';
 
-export const authTokenState = atom<string | null>({
-  key: 'auth/token',
+// Whether a cookie session is active (the tokens themselves stay in httpOnly cookies)
+export const authSessionState = atom<boolean>({
+  key: 'auth/session',
+  default: false,
+});
+
+// Access token expiry (epoch milliseconds), null for opaque tokens
+export const authTokenExpiryState = atom<number | null>({
+  key: 'auth/tokenExpiry',
   default: null,
 });
 
@@ -0,0 +1,37 @@
+import type { TAuthUser } from './auth.schemas';
+
+// Role-based access control: roles map to capabilities, the UI only ever checks capabilities
+
+/** Capabilities checked by the UI (`resource:action`) */
+export const PERMISSIONS = ['project:create', 'project:edit', 'users:manage', 'settings:manage'] as const;
+
+export type TPermission = (typeof PERMISSIONS)[number];
+
+export type TRole = TAuthUser['role'];
+
+/** Capabilities granted to each role; the backend still enforces them (403) */
+export const ROLE_PERMISSIONS: Readonly<Record<TRole, readonly TPermission[]>> = {
+  admin: PERMISSIONS,
+  user: ['project:create', 'project:edit'],
+};
+
+/**
+ * Capabilities of a user
+ *
+ * @param user - Signed-in user, or null
+ * @returns Capabilities of the user's role (none when signed out)
+ */
+export const getUserPermissions = (user: Pick<TAuthUser, 'role'> | null): readonly TPermission[] => (user ? ROLE_PERMISSIONS[user.role] : []);
+
+/**
+ * Check a capability of a user
+ *
+ * @param user - Signed-in user, or null
+ * @param permission - Capability to check
+ * @returns True when the user's role grants the capability
+ *
+ * @example
+ * hasPermission({ role: 'user' }, 'users:manage'); // false
+ */
+export const hasPermission = (user: Pick<TAuthUser, 'role'> | null, permission: TPermission): boolean =>
+  getUserPermissions(user).includes(permission);
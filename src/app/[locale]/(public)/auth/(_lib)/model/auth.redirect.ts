@@ -0,0 +1,18 @@
+import { RETURN_TO_PARAM, ROUTES, sanitizeReturnTo } from '@/shared/config/routes';
+
+// Page opened after sign-in: the `returnTo` set by the middleware, else the dashboard
+
+/**
+ * Resolve the page to open after sign-in
+ *
+ * @param locale - Active locale
+ * @param search - Query string of the auth page (current location by default)
+ * @returns Same-origin `returnTo` path, or the localized dashboard
+ *
+ * @example
+ * resolvePostSignInPath('en', '?returnTo=%2Fen%2Fproducts'); // '/en/products'
+ */
+export const resolvePostSignInPath = (locale: string, search: string = globalThis.location?.search ?? ''): string => {
+  const returnTo = sanitizeReturnTo(new URLSearchParams(search).get(RETURN_TO_PARAM));
+  return returnTo ?? `/${locale}${ROUTES.protected.dashboard}`;
+};
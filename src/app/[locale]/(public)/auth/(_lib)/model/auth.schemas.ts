@@ -2,6 +2,8 @@ import { z } from 'zod';
 
 import { emailSchema, passwordSchema } from '@/shared/infra/validation/schemas';
 
+import { getTokenExpiry } from './auth.token';
+
 export const signInPayloadSchema = z.object({
   email: emailSchema,
   password: passwordSchema,
@@ -37,15 +39,6 @@ export const authUserSchema = rawAuthUserSchema.transform(({ password: _, role,
   };
 });
 
-// Backend response wrapper schema
-const apiResponseWrapperSchema = <T extends z.ZodTypeAny>(dataSchema: T) =>
-  z.object({
-    status_code: z.number(),
-    message: z.string(),
-    success: z.boolean(),
-    body: dataSchema,
-  });
-
 // Raw response body from backend (includes password)
 const signInResponseBodySchema = z.object({
   user: rawAuthUserSchema,
@@ -53,19 +46,20 @@ const signInResponseBodySchema = z.object({
   refreshToken: z.string().optional(),
 });
 
-// Wrapped response from backend
-const signInWrappedResponseSchema = apiResponseWrapperSchema(signInResponseBodySchema);
-
-// Transform to our expected format (exclude password from user)
-export const signInResponseSchema = signInWrappedResponseSchema.transform(({ body }) => {
+// Transform the envelope body to our expected format (exclude password from user)
+export const signInResponseSchema = signInResponseBodySchema.transform(body => {
   // Transform user to exclude password
   const { password: _, ...userWithoutPassword } = body.user;
   const normalizedUser = authUserSchema.parse(userWithoutPassword);
 
+  // Expiry comes from the access token's `exp` claim (absent for opaque tokens)
+  const expiresAt = getTokenExpiry(body.accessToken) ?? undefined;
+
   return {
     accessToken: body.accessToken,
     refreshToken: body.refreshToken,
-    expiresIn: undefined, // Extract from JWT if needed
+    expiresIn: expiresAt === undefined ? undefined : Math.max(0, Math.round((expiresAt - Date.now()) / 1000)),
+    expiresAt,
     user: normalizedUser,
   };
 });
@@ -74,6 +68,14 @@ export const refreshTokenSchema = z.object({
   refreshToken: z.string().min(10).optional(),
 });
 
+// Session returned by the app's /api/session route handlers (both tokens stay in their httpOnly cookies)
+export const sessionSchema = z.object({
+  // Access token expiry (epoch milliseconds), absent for opaque tokens
+  expiresAt: z.number().optional(),
+  // Null when the backend could not return the user of a restored session
+  user: authUserSchema.nullable(),
+});
+
 // Shared email domain whitelist for both signup and forgot password
 export const ALLOWED_EMAIL_DOMAINS = ['grow-ps.com', 'horizonfactory.fr', 'yopmail.com'] as const;
 
@@ -140,11 +142,8 @@ const verifyOtpResponseBodySchema = z.object({
   createdAt: z.string(),
 });
 
-// Wrapped response from backend for verify-otp
-const verifyOtpWrappedResponseSchema = apiResponseWrapperSchema(verifyOtpResponseBodySchema);
-
-// Transform verify-otp response to our expected format
-export const verifyOtpResponseSchema = verifyOtpWrappedResponseSchema.transform(({ body }) => ({
+// Transform the verify-otp envelope body to our expected format
+export const verifyOtpResponseSchema = verifyOtpResponseBodySchema.transform(body => ({
   id: body.id,
   code: body.code,
   email: body.email,
@@ -216,6 +215,7 @@ export type TSignInPayload = z.infer<typeof signInPayloadSchema>;
 export type TSignInResponse = z.infer<typeof signInResponseSchema>;
 export type TAuthUser = z.infer<typeof authUserSchema>;
 export type TRefreshTokenPayload = z.infer<typeof refreshTokenSchema>;
+export type TSession = z.infer<typeof sessionSchema>;
 export type TSignUpPayload = z.infer<typeof signUpPayloadSchema>;
 export type TSignUpResponse = z.infer<typeof signUpResponseSchema>;
 export type TVerifyOtpPayload = z.infer<typeof verifyOtpPayloadSchema>;
@@ -1,8 +1,15 @@
 import { selector } from 'recoil';
 
-import { authTokenState, authUserState } from './auth.atoms';
+import { authSessionState, authUserState } from './auth.atoms';
+import { getUserPermissions, type TPermission } from './auth.permissions';
 
 export const isAuthenticatedSelector = selector<boolean>({
   key: 'auth/isAuthenticated',
-  get: ({ get }) => Boolean(get(authTokenState) && get(authUserState)),
+  get: ({ get }) => Boolean(get(authSessionState) && get(authUserState)),
+});
+
+// Capabilities of the signed-in user (empty when signed out)
+export const authPermissionsSelector = selector<readonly TPermission[]>({
+  key: 'auth/permissions',
+  get: ({ get }) => getUserPermissions(get(authUserState)),
 });
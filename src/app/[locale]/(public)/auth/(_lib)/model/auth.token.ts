@@ -0,0 +1,55 @@
+// Access token expiry: JWT claims are decoded without verification (the backend verifies them)
+
+/** Refresh this long before the access token expires */
+export const TOKEN_REFRESH_LEAD_MS = 60_000;
+
+/** Longest delay setTimeout accepts (2^31 - 1 ms, about 24.8 days); longer delays fire at once */
+const MAX_TIMER_DELAY_MS = 2_147_483_647;
+
+/**
+ * Decode the payload of a JWT without verifying its signature
+ *
+ * @param token - JWT (`header.payload.signature`)
+ * @returns Claims, or null when the token is not a JWT
+ */
+export const decodeJwtPayload = (token: string): Record<string, unknown> | null => {
+  const segment = token.split('.')[1];
+  if (!segment) return null;
+
+  try {
+    const base64 = segment.replaceAll('-', '+').replaceAll('_', '/');
+    // Only numeric claims are read, so the binary string does not need UTF-8 decoding
+    const claims: unknown = JSON.parse(globalThis.atob(base64.padEnd(Math.ceil(base64.length / 4) * 4, '=')));
+    return claims !== null && typeof claims === 'object' ? (claims as Record<string, unknown>) : null;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Read the expiry of an access token
+ *
+ * @param token - Access token
+ * @returns Expiry (epoch milliseconds), or null without a numeric `exp` claim
+ */
+export const getTokenExpiry = (token: string | null | undefined): number | null => {
+  const exp = token ? decodeJwtPayload(token)?.exp : undefined;
+  return typeof exp === 'number' && Number.isFinite(exp) ? exp * 1000 : null;
+};
+
+/**
+ * Delay before refreshing a token
+ *
+ * Refreshes TOKEN_REFRESH_LEAD_MS before expiry, but never before half of the remaining
+ * lifetime, so short-lived tokens are not refreshed in a loop. Capped at the setTimeout
+ * limit, so long-lived tokens are not refreshed in a loop either.
+ *
+ * @param expiresAt - Expiry (epoch milliseconds)
+ * @param now - Current time (epoch milliseconds)
+ * @param leadMs - How long before expiry to refresh
+ * @returns Delay in milliseconds (0 when the token is already due, at most MAX_TIMER_DELAY_MS)
+ */
+export const resolveTokenRefreshDelay = (expiresAt: number, now: number = Date.now(), leadMs: number = TOKEN_REFRESH_LEAD_MS): number => {
+  const remaining = expiresAt - now;
+  return Math.min(Math.max(remaining - leadMs, remaining / 2, 0), MAX_TIMER_DELAY_MS);
+};
@@ -1,6 +1,9 @@
 /* istanbul ignore file */
 
-export { authBootstrapState, authTokenState, authUserState } from './auth.atoms';
+export { authBootstrapState, authSessionState, authTokenExpiryState, authUserState } from './auth.atoms';
+export type { TPermission, TRole } from './auth.permissions';
+export { getUserPermissions, hasPermission, PERMISSIONS, ROLE_PERMISSIONS } from './auth.permissions';
+export { resolvePostSignInPath } from './auth.redirect';
 export type {
   TAuthUser,
   TChangePasswordPayload,
@@ -8,6 +11,7 @@ export type {
   TRefreshTokenPayload,
   TResendOtpPayload,
   TResetPasswordPayload,
+  TSession,
   TSignInPayload,
   TSignInResponse,
   TSignUpPayload,
@@ -26,6 +30,7 @@ export {
   refreshTokenSchema,
   resendOtpPayloadSchema,
   resetPasswordPayloadSchema,
+  sessionSchema,
   SIGN_UP_ALLOWED_EMAIL_DOMAINS,
   signInPayloadSchema,
   signInResponseSchema,
@@ -35,7 +40,8 @@ export {
   verifyOtpResponseSchema,
   verifyResetOtpPayloadSchema,
 } from './auth.schemas';
-export { isAuthenticatedSelector } from './auth.selectors';
+export { authPermissionsSelector, isAuthenticatedSelector } from './auth.selectors';
+export { decodeJwtPayload, getTokenExpiry, resolveTokenRefreshDelay, TOKEN_REFRESH_LEAD_MS } from './auth.token';
 export type { TAuthUserViewModel } from './auth.types';
 export type { SignUpFieldErrors, SignUpStep } from './signUpForm.model';
 export { INITIAL_SIGN_UP_VALUES } from './signUpForm.model';
@@ -3,6 +3,7 @@ import { getMessages, getTranslations } from 'next-intl/server';
 import type { ReactNode } from 'react';
 
 import { defaultLocale, type Locale, locales } from '@/i18n';
+import { NetworkInspector } from '@/shared/ui/devtools';
 
 interface LocaleLayoutProps {
   children: ReactNode;
@@ -17,6 +18,7 @@ export default async function LocaleLayout({ children, params }: Readonly<Locale
   return (
     <NextIntlClientProvider locale={locale} messages={messages}>
       {children}
+      {process.env.NODE_ENV === 'development' && <NetworkInspector />}
     </NextIntlClientProvider>
   );
 }
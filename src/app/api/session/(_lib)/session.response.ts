@@ -0,0 +1,94 @@
+/**
+ * Session Route Helpers
+ *
+ * Shared by the /api/session route handlers:
+ * - Responses use the backend envelope, so the browser reads them like any other endpoint
+ * - Tokens are written to httpOnly cookies; only the access token expiry and the user reach the browser
+ * - A rejected refresh token expires the cookies
+ */
+
+import type { NextRequest } from 'next/server';
+import { NextResponse } from 'next/server';
+import { ZodError } from 'zod';
+
+import { authEndpoints } from '@/app/[locale]/(public)/auth/(_lib)/api/auth.endpoints';
+import type { TSession, TSignInResponse } from '@/app/[locale]/(public)/auth/(_lib)/model/auth.schemas';
+import { AppError } from '@/shared/infra/errors/appError';
+import { ErrorCode } from '@/shared/infra/errors/error-codes';
+import { getEnvelopeMessage } from '@/shared/infra/http/http.envelope';
+import { createServerHttpClient } from '@/shared/infra/http/http.server';
+import type { SetSessionCookiesOptions } from '@/shared/infra/session/session.cookies';
+import { clearSessionCookies, SESSION_REFRESH_TOKEN_COOKIE, setSessionCookies } from '@/shared/infra/session/session.cookies';
+
+// ================================================================================================
+// Responses
+// ================================================================================================
+
+/**
+ * Build an enveloped JSON response
+ *
+ * @param body - Response body
+ * @param message - Envelope message
+ * @param status - HTTP status
+ * @returns Response in the backend envelope format
+ */
+export function sessionEnvelope(body: TSession | null, message: string, status: number = 200): NextResponse {
+  return NextResponse.json({ status_code: status, message, success: status < 400, body }, { status });
+}
+
+/**
+ * Answer with a session and store its tokens in cookies
+ *
+ * @param response - Sign-in or refresh response of the backend
+ * @param cookieOptions - Cookie options (isSignIn for a new session)
+ * @returns Response carrying the access token expiry and the user
+ */
+export function respondWithSession(response: TSignInResponse, cookieOptions?: SetSessionCookiesOptions): NextResponse {
+  const session: TSession = { expiresAt: response.expiresAt, user: response.user };
+  const nextResponse = sessionEnvelope(session, getEnvelopeMessage(response) ?? '');
+  setSessionCookies(nextResponse.cookies, response, cookieOptions);
+
+  return nextResponse;
+}
+
+/**
+ * Answer with the status of a failed backend call
+ *
+ * @param error - Error thrown by the backend call
+ * @returns Enveloped error; a 401 also expires the session cookies
+ */
+export function respondWithError(error: unknown): NextResponse {
+  let status = 500;
+  if (error instanceof ZodError) status = 400;
+  else if (error instanceof AppError && error.statusCode && error.statusCode >= 400) status = error.statusCode;
+
+  const message = error instanceof AppError || error instanceof ZodError ? error.message : 'Internal server error';
+  const nextResponse = sessionEnvelope(null, message, status);
+  if (status === 401) clearSessionCookies(nextResponse.cookies);
+
+  return nextResponse;
+}
+
+// ================================================================================================
+// Refresh
+// ================================================================================================
+
+/**
+ * Exchange the refresh cookie for new tokens
+ *
+ * @param request - Incoming request
+ * @returns Session response, or 401 when there is no refresh cookie or the backend rejects it
+ */
+export async function refreshSession(request: NextRequest): Promise<NextResponse> {
+  const refreshToken = request.cookies.get(SESSION_REFRESH_TOKEN_COOKIE)?.value;
+  if (!refreshToken) {
+    return respondWithError(new AppError(ErrorCode.UNAUTHORIZED, undefined, 401));
+  }
+
+  try {
+    const response = await authEndpoints.refresh({ body: { refreshToken }, client: createServerHttpClient() });
+    return respondWithSession(response);
+  } catch (error) {
+    return respondWithError(error);
+  }
+}
@@ -0,0 +1,20 @@
+import type { NextRequest } from 'next/server';
+
+import { authEndpoints } from '@/app/[locale]/(public)/auth/(_lib)/api/auth.endpoints';
+import type { TSignInPayload } from '@/app/[locale]/(public)/auth/(_lib)/model/auth.schemas';
+import { createServerHttpClient } from '@/shared/infra/http/http.server';
+
+import { respondWithError, respondWithSession } from '../(_lib)/session.response';
+
+// Sign in on the backend and keep both tokens in httpOnly cookies
+export async function POST(request: NextRequest) {
+  try {
+    // The endpoint validates the payload (400 on invalid input)
+    const payload = (await request.json().catch(() => ({}))) as TSignInPayload;
+    const response = await authEndpoints.login({ body: payload, client: createServerHttpClient() });
+
+    return respondWithSession(response, { isSignIn: true });
+  } catch (error) {
+    return respondWithError(error);
+  }
+}
@@ -0,0 +1,22 @@
+import type { NextRequest } from 'next/server';
+
+import { authEndpoints } from '@/app/[locale]/(public)/auth/(_lib)/api/auth.endpoints';
+import { createServerHttpClient } from '@/shared/infra/http/http.server';
+import { clearSessionCookies, SESSION_REFRESH_TOKEN_COOKIE } from '@/shared/infra/session/session.cookies';
+
+import { sessionEnvelope } from '../(_lib)/session.response';
+
+// Revoke the refresh token on the backend and expire the session cookies
+export async function POST(request: NextRequest) {
+  const refreshToken = request.cookies.get(SESSION_REFRESH_TOKEN_COOKIE)?.value;
+
+  if (refreshToken) {
+    // Sign out locally even when the backend cannot be reached
+    await authEndpoints.logout({ body: { refreshToken }, client: createServerHttpClient() }).catch(() => undefined);
+  }
+
+  const response = sessionEnvelope(null, 'Logged out');
+  clearSessionCookies(response.cookies);
+
+  return response;
+}
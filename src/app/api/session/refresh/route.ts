@@ -0,0 +1,8 @@
+import type { NextRequest } from 'next/server';
+
+import { refreshSession } from '../(_lib)/session.response';
+
+// New access token for the refresh cookie
+export async function POST(request: NextRequest) {
+  return refreshSession(request);
+}
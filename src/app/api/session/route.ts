@@ -0,0 +1,27 @@
+import type { NextRequest } from 'next/server';
+
+import { authEndpoints } from '@/app/[locale]/(public)/auth/(_lib)/api/auth.endpoints';
+import { getTokenExpiry } from '@/app/[locale]/(public)/auth/(_lib)/model/auth.token';
+import { AppError } from '@/shared/infra/errors/appError';
+import { createServerHttpClient } from '@/shared/infra/http/http.server';
+import { SESSION_ACCESS_TOKEN_COOKIE } from '@/shared/infra/session/session.cookies';
+
+import { refreshSession, sessionEnvelope } from './(_lib)/session.response';
+
+// Session of the current cookies with its user: the access cookie and /auth/me, else a refresh with the refresh cookie
+export async function GET(request: NextRequest) {
+  const accessToken = request.cookies.get(SESSION_ACCESS_TOKEN_COOKIE)?.value;
+  if (!accessToken) return refreshSession(request);
+
+  const expiresAt = getTokenExpiry(accessToken) ?? undefined;
+  try {
+    const user = await authEndpoints.me({ client: createServerHttpClient() });
+    return sessionEnvelope({ expiresAt, user }, 'Session restored');
+  } catch (error) {
+    // A rejected access token falls back to the refresh cookie
+    if (error instanceof AppError && error.statusCode === 401) return refreshSession(request);
+
+    // The session stays valid while the backend cannot answer; the browser keeps its cached user
+    return sessionEnvelope({ expiresAt, user: null }, 'Session restored');
+  }
+}
@@ -0,0 +1,15 @@
+// Runs once when the Next.js server starts (experimental.instrumentationHook in next.config.mjs)
+export async function register() {
+  // Route handlers and Server Components run in the Node.js runtime; the edge middleware never calls the server client
+  if (process.env.NEXT_RUNTIME !== 'nodejs') return;
+
+  const { assertServerApiOrigin } = await import('@/shared/infra/http/http.server');
+
+  // Next.js only logs errors thrown here and keeps serving: stop instead of answering every /api/session request with a 500
+  try {
+    assertServerApiOrigin();
+  } catch (error) {
+    console.error(error instanceof Error ? error.message : error);
+    process.exit(1);
+  }
+}
@@ -1,8 +1,15 @@
+import type { NextRequest } from 'next/server';
+import { NextResponse } from 'next/server';
 import createMiddleware from 'next-intl/middleware';
 
+import { createAuthMiddleware } from '@/shared/infra/middleware/middleware.auth';
+import { chainMiddleware } from '@/shared/infra/middleware/middleware.chain';
+import { securityHeadersMiddleware } from '@/shared/infra/middleware/middleware.security';
+import { resolveSessionAuthorizationHeaders } from '@/shared/infra/session/session.cookies';
+
 import { defaultLocale, locales } from './i18n';
 
-export default createMiddleware({
+const intlMiddleware = createMiddleware({
   // A list of all locales that are supported
   locales,
 
@@ -10,7 +17,20 @@ export default createMiddleware({
   defaultLocale,
 });
 
+// Pages: locale routing, then route protection on the session cookie, then security headers
+const pageMiddleware = chainMiddleware(intlMiddleware, createAuthMiddleware({ locales, defaultLocale }), securityHeadersMiddleware);
+
+// Backend requests (/api/v1 rewrite): send the httpOnly access cookie as Bearer token
+const apiMiddleware = chainMiddleware(request => {
+  const headers = resolveSessionAuthorizationHeaders(request);
+  return headers ? NextResponse.next({ request: { headers } }) : NextResponse.next();
+}, securityHeadersMiddleware);
+
+export default function middleware(request: NextRequest) {
+  return request.nextUrl.pathname.startsWith('/api/') ? apiMiddleware(request) : pageMiddleware(request);
+}
+
 export const config = {
-  // Match only internationalized pathnames
-  matcher: ['/', '/(en|fr)/:path*'],
+  // Match internationalized pathnames and backend requests
+  matcher: ['/', '/(en|fr)/:path*', '/api/v1/:path*'],
 };
@@ -15,6 +15,15 @@ export const API_ROUTES = {
     resendResetOtp: `${API_BASE}/auth/resend-otp`,
     me: `${API_BASE}/auth/me`,
     refresh: `${API_BASE}/auth/refresh`,
+    logout: `${API_BASE}/auth/logout`,
+  },
+
+  // Session route handlers of this app (tokens are kept in httpOnly cookies)
+  session: {
+    current: '/api/session',
+    login: '/api/session/login',
+    refresh: '/api/session/refresh',
+    logout: '/api/session/logout',
   },
 
   // Profile
@@ -23,6 +32,7 @@ export const API_ROUTES = {
   // Users
   users: {
     list: `${API_BASE}/users`,
+    export: `${API_BASE}/users/export`,
     byId: (id: string | number) => `${API_BASE}/users/${id}`,
     profile: `${API_BASE}/users/profile`,
   },
@@ -36,6 +46,7 @@ export const API_ROUTES = {
   // Projects
   projects: {
     list: `${API_BASE}/projects`,
+    export: `${API_BASE}/projects/export`,
     byId: (id: string | number) => `${API_BASE}/projects/${id}`,
   },
 
@@ -8,5 +8,39 @@ export const ROUTES = {
   protected: {
     dashboard: '/dashboard',
     products: '/products',
+    profile: '/profile',
+    settings: '/settings',
+    forbidden: '/forbidden',
   },
 } as const;
+
+/** Pages only meant for signed-out users (signed-in users are sent on) */
+export const AUTH_ROUTE_PREFIX = '/auth';
+
+/** Query parameter carrying the page to open after sign-in */
+export const RETURN_TO_PARAM = 'returnTo';
+
+/** Placeholder origin to resolve `returnTo` against (only the origin comparison matters) */
+const RETURN_TO_BASE = 'http://return-to.invalid';
+
+/**
+ * Accept a `returnTo` value only when it stays on this origin
+ *
+ * @param value - Raw `returnTo` query value
+ * @returns The normalized path, or null for missing, absolute or protocol-relative URLs
+ *
+ * @example
+ * sanitizeReturnTo('/en/products?page=2'); // '/en/products?page=2'
+ * sanitizeReturnTo('//evil.example'); // null
+ */
+export const sanitizeReturnTo = (value: string | null | undefined): string | null => {
+  if (!value?.startsWith('/')) return null;
+  // URL parsing drops tabs and newlines ('/\t/host' becomes '//host'), so any control or whitespace character is refused
+  if ([...value].some(char => char <= ' ' || char === '\u007F' || /\s/.test(char))) return null;
+
+  // '//host' and '/\host' resolve to other origins
+  const url = new URL(value, RETURN_TO_BASE);
+  if (url.origin !== RETURN_TO_BASE) return null;
+
+  return `${url.pathname}${url.search}${url.hash}`;
+};
@@ -3,7 +3,7 @@
  * Ensuring 100% coverage for error hierarchy
  */
 
-import { AppError, NetworkError, ValidationError } from '../appError';
+import { AppError, ForbiddenError, isForbiddenError, NetworkError, ValidationError } from '../appError';
 import { ErrorCode } from '../error-codes';
 
 describe('AppError Classes', () => {
@@ -119,4 +119,23 @@ describe('AppError Classes', () => {
       expect(error).toBeInstanceOf(NetworkError);
     });
   });
+
+  describe('ForbiddenError', () => {
+    it('should create forbidden error with the missing permission', () => {
+      const error = new ForbiddenError('users:manage');
+
+      expect(error).toBeInstanceOf(AppError);
+      expect(error.name).toBe('ForbiddenError');
+      expect(error.code).toBe(ErrorCode.FORBIDDEN);
+      expect(error.statusCode).toBe(403);
+      expect(error.details).toEqual({ permission: 'users:manage' });
+    });
+
+    it('should recognize forbidden AppErrors only', () => {
+      expect(isForbiddenError(new ForbiddenError())).toBe(true);
+      expect(isForbiddenError(new AppError(ErrorCode.FORBIDDEN, undefined, 403))).toBe(true);
+      expect(isForbiddenError(new NetworkError())).toBe(false);
+      expect(isForbiddenError(new Error('Forbidden'))).toBe(false);
+    });
+  });
 });
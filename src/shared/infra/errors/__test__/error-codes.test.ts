@@ -16,8 +16,12 @@ describe('Error Codes Module', () => {
         'FORBIDDEN',
         'NOT_FOUND',
         'BAD_REQUEST',
+        'CONFLICT',
+        'PAYLOAD_TOO_LARGE',
+        'RATE_LIMITED',
         'SERVER_ERROR',
         'SERVICE_UNAVAILABLE',
+        'CANCELLED',
         'UNKNOWN_ERROR',
       ];
 
@@ -156,7 +160,7 @@ describe('Error Codes Module', () => {
       const messageCount = Object.keys(ERROR_MESSAGES).length;
 
       expect(codeCount).toBe(messageCount);
-      expect(codeCount).toBe(10); // Update this if you add more error codes
+      expect(codeCount).toBe(14); // Update this if you add more error codes
     });
   });
 });
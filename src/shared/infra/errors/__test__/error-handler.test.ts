@@ -2,9 +2,9 @@ import { notification } from 'antd';
 
 import { logError } from '@/shared/infra/monitoring/logger';
 
-import { AppError, NetworkError, ValidationError } from '../appError';
+import { AppError, CancelledError, NetworkError, TimeoutError, ValidationError } from '../appError';
 import { ErrorCode } from '../error-codes';
-import { handleError, isRetryableError, setNotificationApi } from '../error-handler';
+import { handleError, isRetryableError, normalizeAbortError, setNotificationApi } from '../error-handler';
 
 jest.mock('@/shared/infra/monitoring/logger', () => ({
   logError: jest.fn(),
@@ -213,6 +213,43 @@ describe('Error Handler - Extended Coverage', () => {
     });
   });
 
+  describe('Abort and timeout detection', () => {
+    it('maps AbortSignal.timeout() rejections to a retryable TIMEOUT_ERROR', () => {
+      const result = handleError(new DOMException('The operation timed out.', 'TimeoutError'), { meta: { timeout: 3000 } });
+
+      expect(result).toBeInstanceOf(TimeoutError);
+      expect(result.code).toBe(ErrorCode.TIMEOUT_ERROR);
+      expect(result.details).toEqual({ timeoutMs: 3000 });
+      expect(isRetryableError(result)).toBe(true);
+    });
+
+    it('maps aborts to CANCELLED without logging or notifying', () => {
+      const result = handleError(new DOMException('The operation was aborted.', 'AbortError'), { showNotification: true });
+
+      expect(result).toBeInstanceOf(CancelledError);
+      expect(result.code).toBe(ErrorCode.CANCELLED);
+      expect(isRetryableError(result)).toBe(false);
+      expect(mockedLogError).not.toHaveBeenCalled();
+      expect(mockedNotificationError).not.toHaveBeenCalled();
+    });
+
+    it('treats any error as cancelled once the caller signal is aborted', () => {
+      const controller = new AbortController();
+      controller.abort('unmounted');
+
+      const result = handleError('unmounted', { meta: { signal: controller.signal, showErrorNotification: true } });
+
+      expect(result.code).toBe(ErrorCode.CANCELLED);
+      expect(result.details).toEqual({ reason: 'unmounted' });
+      expect(mockedNotificationError).not.toHaveBeenCalled();
+    });
+
+    it('leaves AppError and unrelated errors alone', () => {
+      expect(normalizeAbortError(new AppError(ErrorCode.NOT_FOUND))).toBeUndefined();
+      expect(normalizeAbortError(new Error('boom'))).toBeUndefined();
+    });
+  });
+
   describe('Description derivation', () => {
     it('should extract string details as description', () => {
       const error = new AppError(ErrorCode.BAD_REQUEST, 'Main message', 400, 'Detail message');
@@ -250,6 +287,18 @@ describe('Error Handler - Extended Coverage', () => {
         placement: 'topRight',
       });
     });
+
+    it('should redact secrets echoed in the message and description', () => {
+      const error = new AppError(ErrorCode.BAD_REQUEST, 'Rejected Bearer abc.def', 400, { message: 'Token eyJhbGci.eyJzdWIi.c2ln expired' });
+      handleError(error, { showNotification: true });
+
+      expect(mockedNotificationError).toHaveBeenCalledWith({
+        message: 'Rejected Bearer [REDACTED]',
+        description: 'Token [REDACTED] expired',
+        key: 'BAD_REQUEST:Rejected Bearer [REDACTED]',
+        placement: 'topRight',
+      });
+    });
   });
 
   describe('Dynamic antd import fallback', () => {
@@ -266,7 +315,13 @@ describe('Error Handler - Extended Coverage', () => {
 
   describe('isRetryableError', () => {
     it('should identify retryable errors', () => {
-      const retryableErrors = [ErrorCode.NETWORK_ERROR, ErrorCode.TIMEOUT_ERROR, ErrorCode.SERVICE_UNAVAILABLE, ErrorCode.SERVER_ERROR];
+      const retryableErrors = [
+        ErrorCode.NETWORK_ERROR,
+        ErrorCode.TIMEOUT_ERROR,
+        ErrorCode.SERVICE_UNAVAILABLE,
+        ErrorCode.SERVER_ERROR,
+        ErrorCode.RATE_LIMITED,
+      ];
 
       for (const code of retryableErrors) {
         const error = new AppError(code);
@@ -281,6 +336,9 @@ describe('Error Handler - Extended Coverage', () => {
         ErrorCode.FORBIDDEN,
         ErrorCode.NOT_FOUND,
         ErrorCode.BAD_REQUEST,
+        ErrorCode.CONFLICT,
+        ErrorCode.PAYLOAD_TOO_LARGE,
+        ErrorCode.CANCELLED,
         ErrorCode.UNKNOWN_ERROR,
       ];
 
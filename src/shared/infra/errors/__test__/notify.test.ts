@@ -168,6 +168,14 @@ describe('Notify Module', () => {
           placement: 'topRight',
         });
       });
+
+      it('should not notify about CANCELLED requests', () => {
+        const error = new AppError(ErrorCode.CANCELLED);
+
+        notifyApiError(mockNotification, mockT, error, 'fallback.error.message');
+
+        expect(mockNotification.error).not.toHaveBeenCalled();
+      });
     });
 
     describe('Non-AppError handling', () => {
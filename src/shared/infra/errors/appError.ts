@@ -43,3 +43,45 @@ export class NetworkError extends AppError {
     this.name = 'NetworkError';
   }
 }
+
+export class TimeoutError extends AppError {
+  constructor(timeoutMs?: number) {
+    super(ErrorCode.TIMEOUT_ERROR, undefined, undefined, { timeoutMs });
+    this.name = 'TimeoutError';
+  }
+}
+
+export class CancelledError extends AppError {
+  constructor(reason?: unknown) {
+    super(ErrorCode.CANCELLED, undefined, undefined, { reason });
+    this.name = 'CancelledError';
+  }
+}
+
+export class CircuitOpenError extends AppError {
+  constructor(circuit: string, retryAfterMs: number) {
+    super(ErrorCode.SERVICE_UNAVAILABLE, undefined, 503, { circuit, retryAfterMs });
+    this.name = 'CircuitOpenError';
+  }
+}
+
+export class OfflineQueuedError extends AppError {
+  /** ID of the queue entry, matching the entry of later offline queue events */
+  public readonly queueId: string;
+
+  constructor(queueId: string) {
+    super(ErrorCode.NETWORK_ERROR, 'You are offline. The change will be sent when the connection returns.', 0, { queueId });
+    this.name = 'OfflineQueuedError';
+    this.queueId = queueId;
+  }
+}
+
+export class ForbiddenError extends AppError {
+  constructor(permission?: string) {
+    super(ErrorCode.FORBIDDEN, undefined, 403, { permission });
+    this.name = 'ForbiddenError';
+  }
+}
+
+/** Whether an error means the user may not access the resource (403 page) */
+export const isForbiddenError = (error: unknown): error is AppError => error instanceof AppError && error.code === ErrorCode.FORBIDDEN;
@@ -6,8 +6,12 @@ export enum ErrorCode {
   FORBIDDEN = 'FORBIDDEN',
   NOT_FOUND = 'NOT_FOUND',
   BAD_REQUEST = 'BAD_REQUEST',
+  CONFLICT = 'CONFLICT',
+  PAYLOAD_TOO_LARGE = 'PAYLOAD_TOO_LARGE',
+  RATE_LIMITED = 'RATE_LIMITED',
   SERVER_ERROR = 'SERVER_ERROR',
   SERVICE_UNAVAILABLE = 'SERVICE_UNAVAILABLE',
+  CANCELLED = 'CANCELLED',
   UNKNOWN_ERROR = 'UNKNOWN_ERROR',
 }
 
@@ -19,7 +23,11 @@ export const ERROR_MESSAGES: Record<ErrorCode, string> = {
   [ErrorCode.FORBIDDEN]: 'You do not have permission to perform this action.',
   [ErrorCode.NOT_FOUND]: 'The requested resource was not found.',
   [ErrorCode.BAD_REQUEST]: 'The request cannot be processed.',
+  [ErrorCode.CONFLICT]: 'The data was changed by someone else. Reload and try again.',
+  [ErrorCode.PAYLOAD_TOO_LARGE]: 'The file or data you sent is too large.',
+  [ErrorCode.RATE_LIMITED]: 'Too many requests. Please wait a moment and try again.',
   [ErrorCode.SERVER_ERROR]: 'The server responded with an error.',
   [ErrorCode.SERVICE_UNAVAILABLE]: 'The service is temporarily unavailable.',
+  [ErrorCode.CANCELLED]: 'The request was cancelled.',
   [ErrorCode.UNKNOWN_ERROR]: 'An unknown error occurred.',
 };
@@ -2,8 +2,9 @@
 
 import type { HttpMeta } from '@/shared/infra/http/http.types';
 import { logError } from '@/shared/infra/monitoring/logger';
+import { redactText } from '@/shared/infra/monitoring/redaction';
 
-import { AppError, NetworkError, ValidationError } from './appError';
+import { AppError, CancelledError, NetworkError, TimeoutError, ValidationError } from './appError';
 import { ERROR_MESSAGES, ErrorCode } from './error-codes';
 
 // ============================================================================
@@ -22,13 +23,14 @@ type NotificationApi = {
   error: (config: { message: string; description?: string; key?: string; placement?: 'topRight' | 'topLeft' | 'bottomRight' | 'bottomLeft' }) => void;
 };
 
-const NOTIFICATION_SUPPRESSED_CODES = new Set<ErrorCode>([ErrorCode.UNAUTHORIZED]);
+const NOTIFICATION_SUPPRESSED_CODES = new Set<ErrorCode>([ErrorCode.UNAUTHORIZED, ErrorCode.CANCELLED]);
 
 const RETRYABLE_ERROR_CODES: readonly ErrorCode[] = [
   ErrorCode.NETWORK_ERROR,
   ErrorCode.TIMEOUT_ERROR,
   ErrorCode.SERVICE_UNAVAILABLE,
   ErrorCode.SERVER_ERROR,
+  ErrorCode.RATE_LIMITED,
 ] as const;
 
 // ============================================================================
@@ -49,15 +51,61 @@ export function setNotificationApi(api: NotificationApi) {
 // Error Normalization
 // ============================================================================
 
+/**
+ * Reads the name of an Error or DOMException (DOMException is not an Error in every environment)
+ */
+function getErrorName(error: unknown): string | undefined {
+  if (error && typeof error === 'object' && 'name' in error && typeof error.name === 'string') {
+    return error.name;
+  }
+  return undefined;
+}
+
+/**
+ * Maps an aborted request to CANCELLED or TIMEOUT_ERROR
+ *
+ * The caller's own signal wins: once it is aborted the request counts as cancelled,
+ * whatever abort reason fetch() rejected with. Otherwise `AbortSignal.timeout()`
+ * rejects with a `TimeoutError` and any other abort with an `AbortError`.
+ *
+ * @param error - Error thrown by fetch() or the abort reason
+ * @param meta - Request metadata (signal and timeout)
+ * @returns CancelledError or TimeoutError, or undefined when the error is not an abort
+ */
+export function normalizeAbortError(error: unknown, meta?: Pick<HttpMeta, 'signal' | 'timeout'>): AppError | undefined {
+  if (error instanceof AppError) {
+    return undefined;
+  }
+
+  if (meta?.signal?.aborted) {
+    return new CancelledError(meta.signal.reason);
+  }
+
+  switch (getErrorName(error)) {
+    case 'TimeoutError':
+      return new TimeoutError(meta?.timeout);
+    case 'AbortError':
+      return new CancelledError(error);
+    default:
+      return undefined;
+  }
+}
+
 /**
  * Normalizes unknown error to AppError instance
  */
-function normalizeError(error: unknown): AppError {
+function normalizeError(error: unknown, meta?: HttpMeta): AppError {
   // Already an AppError
   if (error instanceof AppError) {
     return error;
   }
 
+  // Cancelled by the caller or timed out
+  const abortError = normalizeAbortError(error, meta);
+  if (abortError) {
+    return abortError;
+  }
+
   // Network/fetch errors
   if (error instanceof TypeError && error.message.includes('fetch')) {
     return new NetworkError('Failed to reach the API');
@@ -145,8 +193,11 @@ function deriveDescription(appError: AppError, message: string): string | undefi
  * Shows error notification using appropriate API
  */
 function showErrorNotification(appError: AppError): void {
-  const message = appError.message ?? ERROR_MESSAGES[appError.code] ?? 'An unexpected error occurred';
-  const description = deriveDescription(appError, message);
+  const rawMessage = appError.message ?? ERROR_MESSAGES[appError.code] ?? 'An unexpected error occurred';
+  const rawDescription = deriveDescription(appError, rawMessage);
+  // Backend messages may echo submitted values (tokens, codes) back
+  const message = redactText(rawMessage);
+  const description = rawDescription === undefined ? undefined : redactText(rawDescription);
   const notificationConfig = {
     message,
     description,
@@ -200,7 +251,7 @@ function notifyAppError(appError: AppError): void {
  * @returns Normalized AppError instance
  */
 export function handleError(error: unknown, options: HandleErrorOptions = {}): AppError {
-  const appError = normalizeError(error);
+  const appError = normalizeError(error, options.meta);
 
   if (shouldShowNotification(appError, options)) {
     notifyAppError(appError);
@@ -210,7 +261,7 @@ export function handleError(error: unknown, options: HandleErrorOptions = {}): A
 }
 
 /**
- * Checks if error is retryable (network, timeout, server errors)
+ * Checks if error is retryable (network, timeout, rate limit, server errors)
  */
 export function isRetryableError(error: AppError): boolean {
   return RETRYABLE_ERROR_CODES.includes(error.code);
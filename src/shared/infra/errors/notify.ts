@@ -30,6 +30,9 @@ function resolveErrorMessage(t: TFunction, error: unknown, fallbackKey: string):
 }
 
 export function notifyApiError(notification: NotificationInstance, t: TFunction, error: unknown, fallbackKey: string): void {
+  // The user (or a navigation) cancelled the request on purpose
+  if (error instanceof AppError && error.code === ErrorCode.CANCELLED) return;
+
   const message = resolveErrorMessage(t, error, fallbackKey);
   notification.error({ message, placement: 'topRight' });
 }
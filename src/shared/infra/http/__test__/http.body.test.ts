@@ -0,0 +1,115 @@
+import { containsBinaryData, flattenFormEntries, resolveBodyType, serializeRequestBody, toFormData, toUrlSearchParams } from '../http.body';
+
+const createImage = () => new File(['image-bytes'], 'cover.png', { type: 'image/png' });
+
+describe('http.body', () => {
+  describe('resolveBodyType', () => {
+    it('picks multipart when a File or Blob is nested anywhere in the body', () => {
+      expect(resolveBodyType({ name: 'Website', image: createImage() })).toBe('multipart');
+      expect(resolveBodyType({ attachments: [{ file: new Blob(['x']) }] })).toBe('multipart');
+      expect(resolveBodyType({ name: 'Website', createdAt: new Date() })).toBe('json');
+    });
+
+    it('honours an explicit body type', () => {
+      expect(resolveBodyType({ name: 'Website' }, 'urlencoded')).toBe('urlencoded');
+      expect(resolveBodyType({ image: createImage() }, 'json')).toBe('json');
+    });
+  });
+
+  describe('flattenFormEntries', () => {
+    const body = {
+      name: 'Website',
+      owner: { name: 'Alice', roles: ['admin'] },
+      tags: ['a', 'b'],
+      members: [{ id: 1 }],
+      archived: false,
+      skipped: undefined,
+      cleared: null,
+    };
+
+    it('uses bracket keys with the brackets notation', () => {
+      expect(flattenFormEntries(body, 'brackets')).toEqual([
+        ['name', 'Website'],
+        ['owner[name]', 'Alice'],
+        ['owner[roles][]', 'admin'],
+        ['tags[]', 'a'],
+        ['tags[]', 'b'],
+        ['members[0][id]', '1'],
+        ['archived', 'false'],
+      ]);
+    });
+
+    it('indexes arrays with the indices notation', () => {
+      expect(flattenFormEntries(body, 'indices')).toEqual(
+        expect.arrayContaining([
+          ['tags[1]', 'b'],
+          ['owner[roles][0]', 'admin'],
+        ])
+      );
+    });
+
+    it('joins object keys with dots', () => {
+      expect(flattenFormEntries(body, 'dots')).toEqual(
+        expect.arrayContaining([
+          ['owner.name', 'Alice'],
+          ['members[0].id', '1'],
+          ['tags[0]', 'a'],
+        ])
+      );
+    });
+
+    it('rejects bodies that are not objects', () => {
+      expect(() => flattenFormEntries('text', 'brackets')).toThrow(TypeError);
+    });
+  });
+
+  describe('toFormData', () => {
+    it('keeps files with their names next to the other fields', () => {
+      const image = createImage();
+
+      const formData = toFormData({ name: 'Website', image, dueAt: new Date('2025-01-02T00:00:00.000Z') });
+
+      expect(formData.get('name')).toBe('Website');
+      expect((formData.get('image') as File).name).toBe('cover.png');
+      expect(formData.get('dueAt')).toBe('2025-01-02T00:00:00.000Z');
+    });
+  });
+
+  describe('toUrlSearchParams', () => {
+    it('encodes nested fields', () => {
+      expect(toUrlSearchParams({ grant_type: 'password', scope: ['read', 'write'] }).toString()).toBe(
+        'grant_type=password&scope%5B%5D=read&scope%5B%5D=write'
+      );
+    });
+
+    it('refuses files', () => {
+      expect(() => toUrlSearchParams({ image: createImage() })).toThrow('Field "image" contains a file; send it with bodyType \'multipart\'');
+    });
+  });
+
+  describe('serializeRequestBody', () => {
+    it('passes BodyInit values through and JSON-encodes plain data', () => {
+      const formData = new FormData();
+
+      expect(serializeRequestBody(formData)).toBe(formData);
+      expect(serializeRequestBody('raw')).toBe('raw');
+      expect(serializeRequestBody({ name: 'Website' })).toBe('{"name":"Website"}');
+      expect(serializeRequestBody(undefined)).toBeUndefined();
+    });
+
+    it('encodes bodies with files as multipart and honours meta', () => {
+      expect(serializeRequestBody({ project: { image: createImage() } })).toBeInstanceOf(FormData);
+      expect(
+        (serializeRequestBody({ project: { name: 'x' } }, { bodyType: 'multipart', formKeyNotation: 'dots' }) as FormData).get('project.name')
+      ).toBe('x');
+      expect(serializeRequestBody({ name: 'x' }, { bodyType: 'urlencoded' })).toBeInstanceOf(URLSearchParams);
+    });
+  });
+
+  describe('containsBinaryData', () => {
+    it('detects files in arrays and ignores primitives', () => {
+      expect(containsBinaryData('text')).toBe(false);
+      expect(containsBinaryData([createImage()])).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,124 @@
+import {
+  applyConditionalHeaders,
+  clearHttpCache,
+  getHttpCacheGeneration,
+  invalidateHttpCache,
+  isCacheEntryFresh,
+  readCachedResponse,
+  refreshCachedResponse,
+  resolveCacheMode,
+  storeCachedResponse,
+} from '../http.cache';
+
+const createContext = (key: string, url: string, ttlMs = 1_000) => ({ key, url, ttlMs, generation: getHttpCacheGeneration() });
+
+describe('http.cache', () => {
+  beforeEach(() => {
+    clearHttpCache();
+    jest.useRealTimers();
+  });
+
+  describe('resolveCacheMode', () => {
+    it('defaults to no-store and only caches GET requests', () => {
+      expect(resolveCacheMode('GET', {})).toBe('no-store');
+      expect(resolveCacheMode('GET', { cache: 'swr' })).toBe('swr');
+      expect(resolveCacheMode('POST', { cache: 'swr' })).toBe('no-store');
+    });
+  });
+
+  describe('storeCachedResponse', () => {
+    it('stores payload and validators from response headers', () => {
+      const headers = new Headers({ ETag: '"v1"', 'Last-Modified': 'Wed, 21 Oct 2025 07:28:00 GMT' });
+
+      storeCachedResponse(createContext('k1', 'http://localhost/api/v1/projects?page=1'), { total: 1 }, headers);
+
+      expect(readCachedResponse('k1')).toMatchObject({
+        path: '/api/v1/projects?page=1',
+        data: { total: 1 },
+        etag: '"v1"',
+        lastModified: 'Wed, 21 Oct 2025 07:28:00 GMT',
+      });
+    });
+
+    it('marks entries stale once the TTL has elapsed', () => {
+      jest.useFakeTimers().setSystemTime(new Date('2025-01-01T00:00:00Z'));
+      storeCachedResponse(createContext('k1', '/api/v1/projects', 1_000), {});
+      const entry = readCachedResponse('k1')!;
+
+      expect(isCacheEntryFresh(entry)).toBe(true);
+
+      jest.setSystemTime(new Date('2025-01-01T00:00:02Z'));
+      expect(isCacheEntryFresh(entry)).toBe(false);
+    });
+  });
+
+  describe('applyConditionalHeaders', () => {
+    it('returns caller headers untouched without validators', () => {
+      const headers = { 'X-Custom': '1' };
+
+      expect(applyConditionalHeaders(headers)).toBe(headers);
+      expect(applyConditionalHeaders(headers, { path: '/', data: {}, expiresAt: 0 })).toBe(headers);
+    });
+
+    it('adds If-None-Match and If-Modified-Since', () => {
+      const result = applyConditionalHeaders(
+        { 'X-Custom': '1' },
+        { path: '/', data: {}, etag: '"v1"', lastModified: 'Wed, 21 Oct 2025 07:28:00 GMT', expiresAt: 0 }
+      );
+
+      expect(result).toEqual({
+        'X-Custom': '1',
+        'If-None-Match': '"v1"',
+        'If-Modified-Since': 'Wed, 21 Oct 2025 07:28:00 GMT',
+      });
+    });
+  });
+
+  describe('refreshCachedResponse', () => {
+    it('extends the entry and returns the cached payload', () => {
+      const entry = { path: '/api/v1/projects', data: { total: 2 }, etag: '"v2"', expiresAt: 0 };
+
+      const data = refreshCachedResponse({ ...createContext('k1', '/api/v1/projects', 5_000), entry });
+
+      expect(data).toEqual({ total: 2 });
+      expect(isCacheEntryFresh(readCachedResponse('k1')!)).toBe(true);
+    });
+  });
+
+  describe('invalidateHttpCache', () => {
+    it('removes entries matching the path prefix only', () => {
+      storeCachedResponse(createContext('projects', 'http://localhost/api/v1/projects?page=1'), {});
+      storeCachedResponse(createContext('project', 'http://localhost/api/v1/projects/42'), {});
+      storeCachedResponse(createContext('products', 'http://localhost/api/v1/products'), {});
+
+      expect(invalidateHttpCache('/api/v1/projects')).toBe(2);
+      expect(readCachedResponse('projects')).toBeUndefined();
+      expect(readCachedResponse('project')).toBeUndefined();
+      expect(readCachedResponse('products')).toBeDefined();
+    });
+
+    it('does not store responses of requests started before a matching invalidation', () => {
+      const staleContext = createContext('projects', 'http://localhost/api/v1/projects?page=1');
+      const unrelatedContext = createContext('products', 'http://localhost/api/v1/products');
+
+      invalidateHttpCache('/api/v1/projects');
+      storeCachedResponse(staleContext, { total: 1 });
+      storeCachedResponse(unrelatedContext, { total: 2 });
+      storeCachedResponse(createContext('project', 'http://localhost/api/v1/projects/42'), { id: 42 });
+
+      expect(readCachedResponse('projects')).toBeUndefined();
+      expect(readCachedResponse('products')).toBeDefined();
+      expect(readCachedResponse('project')).toBeDefined();
+    });
+
+    it('does not restore an entry invalidated during its revalidation', () => {
+      const entry = { path: '/api/v1/projects', data: { total: 2 }, expiresAt: 0 };
+      const context = { ...createContext('k1', '/api/v1/projects'), entry };
+
+      clearHttpCache();
+
+      expect(refreshCachedResponse(context)).toEqual({ total: 2 });
+      expect(readCachedResponse('k1')).toBeUndefined();
+    });
+  });
+});
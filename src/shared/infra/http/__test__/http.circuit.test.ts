@@ -0,0 +1,170 @@
+import { AppError, CircuitOpenError } from '@/shared/infra/errors/appError';
+import { ErrorCode } from '@/shared/infra/errors/error-codes';
+
+import { getHttpCircuitState, resetHttpCircuits, resolveCircuitKey, resolveCircuitPolicy, runWithCircuitBreaker } from '../http.circuit';
+import { logHttpEvent } from '../http.interceptors';
+
+jest.mock('../http.interceptors', () => ({
+  logHttpEvent: jest.fn(),
+}));
+
+const logHttpEventMock = logHttpEvent as jest.Mock;
+
+const PROJECT_URL = 'http://localhost/api/v1/projects/42';
+const PROJECT_CIRCUIT = '/api/v1/projects/:id';
+const policyMeta = { circuitBreaker: { failureThreshold: 2, cooldownMs: 1000 } };
+
+const serverError = () => new AppError(ErrorCode.SERVER_ERROR, undefined, 503);
+const fail = (error: unknown = serverError()) => runWithCircuitBreaker(PROJECT_URL, policyMeta, () => Promise.reject(error)).catch(() => undefined);
+
+describe('http.circuit', () => {
+  beforeEach(() => {
+    jest.useFakeTimers({ now: 0 });
+    resetHttpCircuits();
+    logHttpEventMock.mockClear();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  describe('resolveCircuitKey', () => {
+    it('maps URLs onto API_ROUTES templates', () => {
+      expect(resolveCircuitKey(PROJECT_URL)).toBe(PROJECT_CIRCUIT);
+      expect(resolveCircuitKey('/api/v1/projects?page=2')).toBe('/api/v1/projects');
+      expect(resolveCircuitKey('/api/v1/scraping/get-scraping/abc')).toBe('/api/v1/scraping/get-scraping/:id');
+    });
+
+    it('prefers static routes over parameterised ones', () => {
+      expect(resolveCircuitKey('/api/v1/users/profile')).toBe('/api/v1/users/profile');
+      expect(resolveCircuitKey('/api/v1/users/7')).toBe('/api/v1/users/:id');
+    });
+
+    it('replaces ID-like segments of unknown paths', () => {
+      expect(resolveCircuitKey('/reports/123/files/3b241101-e2bb-4255-8caf-4136c566a962')).toBe('/reports/:id/files/:id');
+      expect(resolveCircuitKey('/reports/summary')).toBe('/reports/summary');
+    });
+  });
+
+  describe('resolveCircuitPolicy', () => {
+    it('merges overrides over the default and supports opting out', () => {
+      expect(resolveCircuitPolicy({ circuitBreaker: { cooldownMs: 5 } })).toEqual({ failureThreshold: 5, cooldownMs: 5 });
+      expect(resolveCircuitPolicy({ circuitBreaker: false })).toBeUndefined();
+    });
+  });
+
+  describe('runWithCircuitBreaker', () => {
+    it('opens after consecutive failures and fails fast without sending', async () => {
+      await fail();
+      expect(getHttpCircuitState(PROJECT_CIRCUIT)).toBe('closed');
+      await fail();
+      expect(getHttpCircuitState(PROJECT_CIRCUIT)).toBe('open');
+
+      const send = jest.fn();
+      const pending = runWithCircuitBreaker(PROJECT_URL, policyMeta, send);
+
+      await expect(pending).rejects.toBeInstanceOf(CircuitOpenError);
+      await expect(pending).rejects.toMatchObject({ code: ErrorCode.SERVICE_UNAVAILABLE, details: { circuit: PROJECT_CIRCUIT, retryAfterMs: 1000 } });
+      expect(send).not.toHaveBeenCalled();
+      expect(logHttpEventMock).toHaveBeenCalledWith({
+        type: 'circuit',
+        circuit: PROJECT_CIRCUIT,
+        state: 'open',
+        previousState: 'closed',
+        failureCount: 2,
+      });
+    });
+
+    it('resets the failure count after a success', async () => {
+      await fail();
+      await runWithCircuitBreaker(PROJECT_URL, policyMeta, async () => 'ok');
+      await fail();
+
+      expect(getHttpCircuitState(PROJECT_CIRCUIT)).toBe('closed');
+    });
+
+    it('only counts 5xx, network errors and timeouts as failures', async () => {
+      await fail(new AppError(ErrorCode.NOT_FOUND, undefined, 404));
+      await fail(new AppError(ErrorCode.BAD_REQUEST, undefined, 400));
+      expect(getHttpCircuitState(PROJECT_CIRCUIT)).toBe('closed');
+
+      await fail(new TypeError('Failed to fetch'));
+      await fail(new DOMException('The operation timed out.', 'TimeoutError'));
+      expect(getHttpCircuitState(PROJECT_CIRCUIT)).toBe('open');
+    });
+
+    it('ignores requests cancelled by the caller', async () => {
+      const controller = new AbortController();
+      controller.abort();
+      const meta = { ...policyMeta, signal: controller.signal };
+
+      await runWithCircuitBreaker(PROJECT_URL, meta, () => Promise.reject(new TypeError('Failed to fetch'))).catch(() => undefined);
+      await runWithCircuitBreaker(PROJECT_URL, meta, () => Promise.reject(new TypeError('Failed to fetch'))).catch(() => undefined);
+
+      expect(getHttpCircuitState(PROJECT_CIRCUIT)).toBe('closed');
+    });
+
+    it('lets a single probe through after the cool-down and closes on success', async () => {
+      await fail();
+      await fail();
+      jest.advanceTimersByTime(1000);
+
+      let resolveProbe: (value: string) => void = () => undefined;
+      const probe = runWithCircuitBreaker(PROJECT_URL, policyMeta, () => new Promise<string>(resolve => (resolveProbe = resolve)));
+      expect(getHttpCircuitState(PROJECT_CIRCUIT)).toBe('half-open');
+
+      const concurrentSend = jest.fn();
+      await expect(runWithCircuitBreaker(PROJECT_URL, policyMeta, concurrentSend)).rejects.toBeInstanceOf(CircuitOpenError);
+      expect(concurrentSend).not.toHaveBeenCalled();
+
+      resolveProbe('ok');
+      await expect(probe).resolves.toBe('ok');
+      expect(getHttpCircuitState(PROJECT_CIRCUIT)).toBe('closed');
+      expect(logHttpEventMock.mock.calls.map(([event]) => event.state)).toEqual(['open', 'half-open', 'closed']);
+    });
+
+    it('keeps the probe running when an older request is cancelled', async () => {
+      const controller = new AbortController();
+      let rejectOlder: (error: Error) => void = () => undefined;
+      const older = runWithCircuitBreaker(
+        PROJECT_URL,
+        { ...policyMeta, signal: controller.signal },
+        () => new Promise<string>((_resolve, reject) => (rejectOlder = reject))
+      );
+      await fail();
+      await fail();
+      jest.advanceTimersByTime(1000);
+
+      // Probe that stays in flight
+      void runWithCircuitBreaker(PROJECT_URL, policyMeta, () => new Promise<string>(() => undefined));
+      controller.abort();
+      rejectOlder(new AppError(ErrorCode.CANCELLED));
+      await expect(older).rejects.toBeInstanceOf(AppError);
+
+      const concurrentSend = jest.fn();
+      await expect(runWithCircuitBreaker(PROJECT_URL, policyMeta, concurrentSend)).rejects.toBeInstanceOf(CircuitOpenError);
+      expect(concurrentSend).not.toHaveBeenCalled();
+      expect(getHttpCircuitState(PROJECT_CIRCUIT)).toBe('half-open');
+    });
+
+    it('re-opens when the probe fails', async () => {
+      await fail();
+      await fail();
+      jest.advanceTimersByTime(1000);
+
+      await fail();
+
+      expect(getHttpCircuitState(PROJECT_CIRCUIT)).toBe('open');
+      await expect(runWithCircuitBreaker(PROJECT_URL, policyMeta, jest.fn())).rejects.toMatchObject({ details: { retryAfterMs: 1000 } });
+    });
+
+    it('bypasses the breaker when the request opts out', async () => {
+      await fail();
+      await fail();
+      const send = jest.fn(async () => 'sent');
+
+      await expect(runWithCircuitBreaker(PROJECT_URL, { circuitBreaker: false }, send)).resolves.toBe('sent');
+      expect(send).toHaveBeenCalled();
+    });
+  });
+});
@@ -1,6 +1,8 @@
 import { z } from 'zod';
 
 import { ErrorCode } from '@/shared/infra/errors/error-codes';
+import { clearHttpCache } from '@/shared/infra/http/http.cache';
+import { getEnvelopeMessage } from '@/shared/infra/http/http.envelope';
 
 import type * as HttpModule from '../http.client';
 
@@ -18,16 +20,37 @@ const interceptHttpErrorMock = jest.fn((error: unknown, _meta?: unknown) => {
   throw error;
 });
 
+const attemptTokenRefreshMock = jest.fn(async () => true);
+const notifyForbiddenMock = jest.fn();
+const generateCorrelationIdMock = jest.fn(() => 'test-correlation');
+const logHttpEventMock = jest.fn();
+const resolveAuthIdentityMock = jest.fn(() => 'user-1');
+
 jest.mock('../http.interceptors', () => ({
   applyRequestInterceptors: applyRequestInterceptorsMock,
+  attemptTokenRefresh: attemptTokenRefreshMock,
+  notifyForbidden: notifyForbiddenMock,
+  notifyUnauthorized: jest.fn(),
   applyResponseInterceptors: applyResponseInterceptorsMock,
   interceptHttpError: interceptHttpErrorMock,
-  generateCorrelationId: jest.fn(() => 'test-correlation'),
-  logHttpEvent: jest.fn(),
+  generateCorrelationId: generateCorrelationIdMock,
+  logHttpEvent: logHttpEventMock,
+  resolveAuthIdentity: resolveAuthIdentityMock,
+  resolveLocale: jest.fn(() => 'en-US'),
+}));
+
+const sendWithProgressMock = jest.fn();
+
+jest.mock('../http.progress', () => ({
+  ...jest.requireActual('../http.progress'),
+  sendWithProgress: sendWithProgressMock,
 }));
 
 describe('http client', () => {
   let http: typeof HttpModule.http;
+  let httpStream: typeof HttpModule.httpStream;
+  let httpDownload: typeof HttpModule.httpDownload;
+  let resetHttpCircuits: () => void;
 
   beforeEach(() => {
     startGlobalLoadingMock.mockClear();
@@ -35,13 +58,20 @@ describe('http client', () => {
     applyRequestInterceptorsMock.mockClear();
     applyResponseInterceptorsMock.mockClear();
     interceptHttpErrorMock.mockClear();
+    notifyForbiddenMock.mockClear();
     (globalThis.fetch as unknown as jest.Mock)?.mockClear();
+    logHttpEventMock.mockClear();
+    clearHttpCache();
+    resetHttpCircuits?.();
   });
 
   beforeAll(async () => {
     globalThis.fetch = jest.fn() as unknown as typeof fetch;
     const clientModule = await import('../http.client');
     http = clientModule.http;
+    httpStream = clientModule.httpStream;
+    httpDownload = clientModule.httpDownload;
+    ({ resetHttpCircuits } = await import('../http.circuit'));
   });
 
   afterAll(() => {
@@ -88,6 +118,39 @@ describe('http client', () => {
     expect(parsed.searchParams.get('search')).toBe('alice');
   });
 
+  it('encodes array and nested query parameters with meta.queryFormat', async () => {
+    (globalThis.fetch as jest.Mock).mockResolvedValue({
+      ok: true,
+      status: 200,
+      json: async () => ({}),
+    } satisfies Partial<Response>);
+
+    await http('/products', { params: { status: ['draft', 'published'], filter: { name: 'plan' } } });
+    await http('/products', { params: { status: ['draft', 'published'] }, meta: { queryFormat: 'comma' } });
+
+    const [[repeatUrl], [commaUrl]] = (globalThis.fetch as jest.Mock).mock.calls;
+    expect(new URL(repeatUrl as string).searchParams.getAll('status')).toEqual(['draft', 'published']);
+    expect(new URL(repeatUrl as string).searchParams.get('filter[name]')).toBe('plan');
+    expect(new URL(commaUrl as string).searchParams.get('status')).toBe('draft,published');
+    (globalThis.fetch as jest.Mock).mockReset();
+  });
+
+  it('sends bodies containing files as multipart form data', async () => {
+    (globalThis.fetch as jest.Mock).mockResolvedValueOnce({
+      ok: true,
+      status: 201,
+      json: async () => ({}),
+    } satisfies Partial<Response>);
+    const image = new File(['image-bytes'], 'cover.png', { type: 'image/png' });
+
+    await http('/projects', { method: 'POST', body: { name: 'Website', image } });
+
+    const [, init] = (globalThis.fetch as jest.Mock).mock.calls[0] as [string, RequestInit];
+    expect(init.body).toBeInstanceOf(FormData);
+    expect((init.body as FormData).get('name')).toBe('Website');
+    expect((init.body as FormData).get('image')).toBeInstanceOf(File);
+  });
+
   it('skips global loading when meta.showGlobalLoading is false', async () => {
     (globalThis.fetch as jest.Mock).mockResolvedValueOnce({
       ok: true,
@@ -179,6 +242,153 @@ describe('http client', () => {
     expect(globalThis.fetch as jest.Mock).toHaveBeenCalledTimes(2);
   });
 
+  it('does not retry mutations without an Idempotency-Key', async () => {
+    const failedResponse = {
+      ok: false,
+      status: 503,
+      clone: () => failedResponse,
+      headers: new Headers({ 'content-type': 'application/json' }),
+      json: async () => ({ message: 'service unavailable' }),
+    };
+    (globalThis.fetch as jest.Mock).mockResolvedValueOnce(failedResponse);
+
+    await expect(http('/projects', { method: 'POST', body: { name: 'x' }, meta: { retry: 2, retryDelayMs: 0 } })).rejects.toMatchObject({
+      code: ErrorCode.SERVER_ERROR,
+    });
+    expect(globalThis.fetch as jest.Mock).toHaveBeenCalledTimes(1);
+  });
+
+  it('retries mutations carrying an Idempotency-Key', async () => {
+    const failedResponse = {
+      ok: false,
+      status: 503,
+      clone: () => failedResponse,
+      headers: new Headers({ 'content-type': 'application/json' }),
+      json: async () => ({ message: 'service unavailable' }),
+    };
+    (globalThis.fetch as jest.Mock).mockResolvedValueOnce(failedResponse).mockResolvedValueOnce({
+      ok: true,
+      status: 200,
+      json: async () => ({ id: 'p1' }),
+    });
+
+    const result = await http('/projects', {
+      method: 'POST',
+      body: { name: 'x' },
+      headers: { 'Idempotency-Key': 'create-1' },
+      meta: { retry: 1, retryDelayMs: 0 },
+    });
+
+    expect(result).toEqual({ id: 'p1' });
+    expect(globalThis.fetch as jest.Mock).toHaveBeenCalledTimes(2);
+  });
+
+  it('reuses one generated Idempotency-Key across retries and the token refresh replay', async () => {
+    const createFailure = (status: number) => {
+      const response = {
+        ok: false,
+        status,
+        clone: () => response,
+        headers: new Headers({ 'content-type': 'application/json' }),
+        json: async () => ({ message: 'failed' }),
+      };
+      return response;
+    };
+    (globalThis.fetch as jest.Mock)
+      .mockResolvedValueOnce(createFailure(503))
+      .mockResolvedValueOnce(createFailure(401))
+      .mockResolvedValueOnce({ ok: true, status: 200, json: async () => ({ id: 'p1' }) });
+
+    let generatedCount = 0;
+    generateCorrelationIdMock.mockImplementation(() => `generated-${++generatedCount}`);
+
+    const result = await http('/projects', { method: 'POST', body: { name: 'x' }, meta: { retry: 1, retryDelayMs: 0, idempotent: true } });
+
+    generateCorrelationIdMock.mockImplementation(() => 'test-correlation');
+    expect(result).toEqual({ id: 'p1' });
+    expect(attemptTokenRefreshMock).toHaveBeenCalledTimes(1);
+    const sentKeys = (globalThis.fetch as jest.Mock).mock.calls.map(
+      ([, init]) => ((init as RequestInit).headers as Record<string, string>)['Idempotency-Key']
+    );
+    expect(sentKeys).toHaveLength(3);
+    expect(new Set(sentKeys)).toEqual(new Set([sentKeys[0]]));
+    expect(sentKeys[0]).toMatch(/^generated-/);
+  });
+
+  it('waits for Retry-After before retrying a rate-limited request', async () => {
+    jest.useFakeTimers();
+    const rateLimitedResponse = {
+      ok: false,
+      status: 429,
+      clone: () => rateLimitedResponse,
+      headers: new Headers({ 'content-type': 'application/json', 'retry-after': '2' }),
+      json: async () => ({ message: 'slow down' }),
+    };
+    (globalThis.fetch as jest.Mock).mockResolvedValueOnce(rateLimitedResponse).mockResolvedValueOnce({
+      ok: true,
+      status: 200,
+      json: async () => ({ ok: true }),
+    });
+
+    const pending = http('/limited', { meta: { retry: 1, retryDelayMs: 0 } });
+
+    await jest.advanceTimersByTimeAsync(1999);
+    expect(globalThis.fetch as jest.Mock).toHaveBeenCalledTimes(1);
+
+    await jest.advanceTimersByTimeAsync(1);
+    await expect(pending).resolves.toEqual({ ok: true });
+    expect(globalThis.fetch as jest.Mock).toHaveBeenCalledTimes(2);
+    jest.useRealTimers();
+  });
+
+  it('waits for Retry-After before retrying a 503 rejected by the response interceptors', async () => {
+    jest.useFakeTimers();
+    // Run the built-in response interceptors: the status interceptor throws for 5xx before the client reads the body
+    const { applyResponseInterceptors } = jest.requireActual<typeof import('../http.interceptors')>('../http.interceptors');
+    applyResponseInterceptorsMock.mockImplementation((response: Response, ...args: unknown[]) =>
+      (applyResponseInterceptors as (...params: unknown[]) => Promise<Response>)(response, ...args)
+    );
+    const unavailableResponse = {
+      ok: false,
+      status: 503,
+      url: '/unavailable',
+      clone: () => unavailableResponse,
+      headers: new Headers({ 'content-type': 'application/json', 'retry-after': '3' }),
+      json: async () => ({ message: 'maintenance' }),
+    };
+    (globalThis.fetch as jest.Mock).mockResolvedValueOnce(unavailableResponse).mockResolvedValueOnce({
+      ok: true,
+      status: 200,
+      headers: new Headers({ 'content-type': 'application/json' }),
+      json: async () => ({ ok: true }),
+    });
+
+    const pending = http('/unavailable', { meta: { retry: 1, retryDelayMs: 0 } });
+
+    await jest.advanceTimersByTimeAsync(2999);
+    expect(globalThis.fetch as jest.Mock).toHaveBeenCalledTimes(1);
+
+    await jest.advanceTimersByTimeAsync(1);
+    await expect(pending).resolves.toEqual({ ok: true });
+    expect(globalThis.fetch as jest.Mock).toHaveBeenCalledTimes(2);
+    applyResponseInterceptorsMock.mockImplementation(async (response: Response) => response);
+    jest.useRealTimers();
+  });
+
+  it('fails fast when Retry-After exceeds the total wait budget', async () => {
+    const rateLimitedResponse = {
+      ok: false,
+      status: 429,
+      clone: () => rateLimitedResponse,
+      headers: new Headers({ 'content-type': 'application/json', 'retry-after': '120' }),
+      json: async () => ({ message: 'slow down' }),
+    };
+    (globalThis.fetch as jest.Mock).mockResolvedValueOnce(rateLimitedResponse);
+
+    await expect(http('/limited', { meta: { retry: 3, retryPolicy: { maxTotalDelayMs: 10_000 } } })).rejects.toMatchObject({ statusCode: 429 });
+    expect(globalThis.fetch as jest.Mock).toHaveBeenCalledTimes(1);
+  });
+
   it('throws AppError with mapped code and stops loading on failure', async () => {
     const errorResponse = {
       ok: false,
@@ -206,4 +416,667 @@ describe('http client', () => {
     expect(startGlobalLoadingMock).toHaveBeenCalledTimes(1);
     expect(stopGlobalLoadingMock).toHaveBeenCalledTimes(1);
   });
+
+  it('maps 409, 413 and 429 responses to dedicated error codes', async () => {
+    const createErrorResponse = (status: number) => {
+      const response = { ok: false, status, clone: () => response, headers: new Headers(), text: async () => '' };
+      return response;
+    };
+    (globalThis.fetch as jest.Mock)
+      .mockResolvedValueOnce(createErrorResponse(409))
+      .mockResolvedValueOnce(createErrorResponse(413))
+      .mockResolvedValueOnce(createErrorResponse(429));
+
+    await expect(http('/projects/1', { method: 'PUT', body: {} })).rejects.toMatchObject({ code: ErrorCode.CONFLICT, statusCode: 409 });
+    await expect(http('/files', { method: 'POST', body: {} })).rejects.toMatchObject({ code: ErrorCode.PAYLOAD_TOO_LARGE, statusCode: 413 });
+    await expect(http('/projects', { meta: { retry: 0 } })).rejects.toMatchObject({ code: ErrorCode.RATE_LIMITED, statusCode: 429 });
+  });
+
+  it('opens the 403 page when the backend forbids an authenticated request', async () => {
+    const createForbiddenResponse = () => {
+      const response = { ok: false, status: 403, clone: () => response, headers: new Headers(), text: async () => '' };
+      return response;
+    };
+    (globalThis.fetch as jest.Mock).mockResolvedValue(createForbiddenResponse());
+
+    await expect(http('/projects/1', { method: 'DELETE', meta: { retry: 0 } })).rejects.toMatchObject({ code: ErrorCode.FORBIDDEN, statusCode: 403 });
+    expect(notifyForbiddenMock).toHaveBeenCalledTimes(1);
+
+    // Public requests and requests opting out stay on the page
+    await expect(http('/auth/login', { method: 'POST', body: {}, meta: { skipAuth: true } })).rejects.toMatchObject({ code: ErrorCode.FORBIDDEN });
+    await expect(http('/projects/1', { meta: { skipForbiddenRedirect: true } })).rejects.toMatchObject({ code: ErrorCode.FORBIDDEN });
+    expect(notifyForbiddenMock).toHaveBeenCalledTimes(1);
+    (globalThis.fetch as jest.Mock).mockReset();
+  });
+
+  it('retries timed out requests as TIMEOUT_ERROR', async () => {
+    (globalThis.fetch as jest.Mock)
+      .mockRejectedValueOnce(new DOMException('The operation timed out.', 'TimeoutError'))
+      .mockResolvedValueOnce({ ok: true, status: 200, json: async () => ({ ok: true }) });
+
+    await expect(http('/reports', { meta: { retry: 1, retryDelayMs: 0 } })).resolves.toEqual({ ok: true });
+    expect(globalThis.fetch as jest.Mock).toHaveBeenCalledTimes(2);
+
+    (globalThis.fetch as jest.Mock).mockRejectedValueOnce(new DOMException('The operation timed out.', 'TimeoutError'));
+    await expect(http('/reports', { meta: { retry: 0, timeout: 5000 } })).rejects.toMatchObject({
+      code: ErrorCode.TIMEOUT_ERROR,
+      details: { timeoutMs: 5000 },
+    });
+  });
+
+  it('reports a caller abort as CANCELLED without retrying', async () => {
+    const controller = new AbortController();
+    (globalThis.fetch as jest.Mock).mockImplementationOnce(async () => {
+      controller.abort('navigation');
+      throw new DOMException('The operation was aborted.', 'AbortError');
+    });
+
+    await expect(http('/reports', { meta: { retry: 2, retryDelayMs: 0, dedupe: false, signal: controller.signal } })).rejects.toMatchObject({
+      name: 'CancelledError',
+      code: ErrorCode.CANCELLED,
+      details: { reason: 'navigation' },
+    });
+    expect(globalThis.fetch as jest.Mock).toHaveBeenCalledTimes(1);
+  });
+
+  it('cancels endpoint mutations through their top-level signal', async () => {
+    // Run the real request interceptors: they set RequestInit.signal from the request metadata
+    const { applyRequestInterceptors } = jest.requireActual<typeof import('../http.interceptors')>('../http.interceptors');
+    applyRequestInterceptorsMock.mockImplementationOnce((url: string, options: RequestInit, meta: unknown) =>
+      (applyRequestInterceptors as (...params: unknown[]) => Promise<[string, RequestInit]>)(url, options, meta)
+    );
+    const { defineEndpoint } = await import('../http.endpoint');
+    const updateProject = defineEndpoint({
+      method: 'PUT',
+      path: '/projects/:id',
+      params: z.object({ id: z.string() }),
+      body: z.object({ name: z.string() }),
+    });
+    const controller = new AbortController();
+    (globalThis.fetch as jest.Mock).mockImplementationOnce(async (_url: string, init: RequestInit) => {
+      controller.abort('navigation');
+      if (init.signal?.aborted) throw new DOMException('The operation was aborted.', 'AbortError');
+      return { ok: true, status: 200, headers: new Headers(), json: async () => ({}) };
+    });
+
+    await expect(
+      updateProject({ params: { id: '1' }, body: { name: 'Renamed' }, signal: controller.signal, meta: { retry: 0 } })
+    ).rejects.toMatchObject({
+      code: ErrorCode.CANCELLED,
+      details: { reason: 'navigation' },
+    });
+  });
+
+  describe('concurrency limit', () => {
+    let restoreLimit: () => void;
+
+    beforeEach(async () => {
+      const { setHttpConcurrencyLimit } = await import('../http.scheduler');
+      restoreLimit = setHttpConcurrencyLimit(1);
+    });
+
+    afterEach(() => {
+      restoreLimit();
+    });
+
+    const okResponse = (body: unknown) => ({ ok: true, status: 200, json: async () => body });
+    const sentPaths = () => (globalThis.fetch as jest.Mock).mock.calls.map(([url]) => new URL(url as string).pathname);
+    const flushPromises = () => new Promise(resolve => setTimeout(resolve, 0));
+
+    it('drops queued requests aborted before a slot frees up', async () => {
+      let releaseFirst: (response: unknown) => void = () => undefined;
+      const controller = new AbortController();
+      (globalThis.fetch as jest.Mock)
+        .mockImplementationOnce(() => new Promise(resolve => (releaseFirst = resolve)))
+        .mockResolvedValueOnce(okResponse({ third: true }));
+
+      const first = http('/slow', { meta: { dedupe: false } });
+      const queued = http('/queued', { meta: { dedupe: false, signal: controller.signal } });
+      const third = http('/third', { meta: { dedupe: false } });
+      await flushPromises();
+
+      controller.abort('navigation');
+      await expect(queued).rejects.toMatchObject({ code: ErrorCode.CANCELLED });
+      releaseFirst(okResponse({ first: true }));
+
+      await expect(first).resolves.toEqual({ first: true });
+      await expect(third).resolves.toEqual({ third: true });
+      expect(sentPaths()).toEqual(['/slow', '/third']);
+    });
+
+    it('sends user-triggered mutations before queued background requests', async () => {
+      let releaseFirst: (response: unknown) => void = () => undefined;
+      (globalThis.fetch as jest.Mock)
+        .mockImplementationOnce(() => new Promise(resolve => (releaseFirst = resolve)))
+        .mockResolvedValueOnce(okResponse({}))
+        .mockResolvedValueOnce(okResponse({}))
+        .mockResolvedValueOnce(okResponse({}));
+
+      const requests = [
+        http('/busy', { meta: { dedupe: false } }),
+        http('/prefetch', { meta: { dedupe: false, priority: 'low' } }),
+        http('/list', { meta: { dedupe: false } }),
+        http('/save', { method: 'PUT', body: {} }),
+      ];
+      await flushPromises();
+      releaseFirst(okResponse({}));
+      await Promise.all(requests);
+
+      expect(sentPaths()).toEqual(['/busy', '/save', '/list', '/prefetch']);
+    });
+  });
+
+  it('sends requests with progress callbacks through the progress transport', async () => {
+    const onUploadProgress = jest.fn();
+    sendWithProgressMock.mockResolvedValueOnce({ ok: true, status: 200, json: async () => ({ uploaded: true }) });
+
+    const result = await http('/files', { method: 'POST', body: { name: 'a' }, meta: { onUploadProgress } });
+
+    expect(result).toEqual({ uploaded: true });
+    expect(globalThis.fetch as jest.Mock).not.toHaveBeenCalled();
+    expect(sendWithProgressMock).toHaveBeenCalledWith(expect.stringContaining('/files'), expect.objectContaining({ method: 'POST' }), {
+      onUploadProgress,
+      onDownloadProgress: undefined,
+    });
+  });
+
+  it('shares identical in-flight GET requests between callers', async () => {
+    let resolveFetch: (value: unknown) => void = () => undefined;
+    (globalThis.fetch as jest.Mock).mockReturnValueOnce(
+      new Promise(resolve => {
+        resolveFetch = resolve;
+      })
+    );
+
+    const first = http('/projects', { params: { page: 1 } });
+    const second = http('/projects', {
+      params: { page: 1 },
+      schema: z.object({ total: z.number() }),
+    });
+
+    resolveFetch({
+      ok: true,
+      status: 200,
+      json: async () => ({ total: 3 }),
+    });
+
+    await expect(Promise.all([first, second])).resolves.toEqual([{ total: 3 }, { total: 3 }]);
+    expect(globalThis.fetch as jest.Mock).toHaveBeenCalledTimes(1);
+    expect(startGlobalLoadingMock).toHaveBeenCalledTimes(1);
+    expect(stopGlobalLoadingMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('sends separate requests when meta.dedupe is false', async () => {
+    (globalThis.fetch as jest.Mock).mockResolvedValue({
+      ok: true,
+      status: 200,
+      json: async () => ({}),
+    } satisfies Partial<Response>);
+
+    await Promise.all([http('/projects', { meta: { dedupe: false } }), http('/projects', { meta: { dedupe: false } })]);
+
+    expect(globalThis.fetch as jest.Mock).toHaveBeenCalledTimes(2);
+    (globalThis.fetch as jest.Mock).mockReset();
+  });
+
+  it('sends separate requests for callers with a different retry or timeout policy', async () => {
+    (globalThis.fetch as jest.Mock).mockResolvedValue({
+      ok: true,
+      status: 200,
+      json: async () => ({}),
+    } satisfies Partial<Response>);
+
+    await Promise.all([http('/projects'), http('/projects', { meta: { retry: 2 } }), http('/projects', { meta: { timeout: 60_000 } })]);
+
+    expect(globalThis.fetch as jest.Mock).toHaveBeenCalledTimes(3);
+    (globalThis.fetch as jest.Mock).mockReset();
+  });
+
+  it('keeps the shared request alive when one caller aborts', async () => {
+    let resolveFetch: (value: unknown) => void = () => undefined;
+    (globalThis.fetch as jest.Mock).mockReturnValueOnce(
+      new Promise(resolve => {
+        resolveFetch = resolve;
+      })
+    );
+
+    const controller = new AbortController();
+    const aborted = http('/projects', { meta: { signal: controller.signal } });
+    const remaining = http('/projects');
+
+    controller.abort();
+    await expect(aborted).rejects.toBeDefined();
+
+    resolveFetch({
+      ok: true,
+      status: 200,
+      json: async () => ({ ok: true }),
+    });
+
+    await expect(remaining).resolves.toEqual({ ok: true });
+    const sharedMeta = applyRequestInterceptorsMock.mock.calls[0]?.[2] as { signal: AbortSignal };
+    expect(sharedMeta.signal.aborted).toBe(false);
+  });
+
+  it('keeps cached responses of one user away from the next one', async () => {
+    (globalThis.fetch as jest.Mock)
+      .mockResolvedValueOnce({ ok: true, status: 200, headers: new Headers(), json: async () => ({ owner: 'user-1' }) })
+      .mockResolvedValueOnce({ ok: true, status: 200, headers: new Headers(), json: async () => ({ owner: 'user-2' }) });
+
+    await http('/me/projects', { meta: { cache: 'cache-first' } });
+    resolveAuthIdentityMock.mockReturnValueOnce('user-2');
+    const nextUserData = await http('/me/projects', { meta: { cache: 'cache-first' } });
+
+    expect(nextUserData).toEqual({ owner: 'user-2' });
+    expect(globalThis.fetch as jest.Mock).toHaveBeenCalledTimes(2);
+  });
+
+  it('serves cache-first responses from cache while fresh', async () => {
+    (globalThis.fetch as jest.Mock).mockResolvedValueOnce({
+      ok: true,
+      status: 200,
+      headers: new Headers(),
+      json: async () => ({ total: 1 }),
+    });
+
+    await http('/projects', { meta: { cache: 'cache-first' } });
+    const cached = await http('/projects', { meta: { cache: 'cache-first' } });
+
+    expect(cached).toEqual({ total: 1 });
+    expect(globalThis.fetch as jest.Mock).toHaveBeenCalledTimes(1);
+  });
+
+  it('revalidates with If-None-Match and treats 304 as a cache hit', async () => {
+    const jsonSpy = jest.fn();
+    (globalThis.fetch as jest.Mock)
+      .mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        headers: new Headers({ ETag: '"v1"' }),
+        json: async () => ({ total: 1 }),
+      })
+      .mockResolvedValueOnce({
+        ok: false,
+        status: 304,
+        headers: new Headers(),
+        json: jsonSpy,
+      });
+
+    await http('/projects', { meta: { cache: 'cache-first', cacheTtlMs: 0 } });
+    const revalidated = await http('/projects', {
+      meta: { cache: 'cache-first', cacheTtlMs: 0 },
+      schema: z.object({ total: z.number() }),
+    });
+
+    expect(revalidated).toEqual({ total: 1 });
+    expect(jsonSpy).not.toHaveBeenCalled();
+    const [, revalidationInit] = applyRequestInterceptorsMock.mock.calls[1];
+    expect((revalidationInit as RequestInit).headers).toMatchObject({ 'If-None-Match': '"v1"' });
+  });
+
+  it('returns stale swr data immediately and refreshes it in the background', async () => {
+    (globalThis.fetch as jest.Mock)
+      .mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        headers: new Headers(),
+        json: async () => ({ version: 1 }),
+      })
+      .mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        headers: new Headers(),
+        json: async () => ({ version: 2 }),
+      });
+
+    await http('/projects', { meta: { cache: 'swr', cacheTtlMs: 0 } });
+    const stale = await http('/projects', { meta: { cache: 'swr', cacheTtlMs: 0 } });
+    await new Promise(resolve => setTimeout(resolve, 0));
+    const refreshed = await http('/projects', { meta: { cache: 'swr', cacheTtlMs: 0 } });
+
+    expect(stale).toEqual({ version: 1 });
+    expect(refreshed).toEqual({ version: 2 });
+    expect(globalThis.fetch as jest.Mock).toHaveBeenCalledTimes(3);
+  });
+
+  it('fails fast without sending or retrying while the endpoint circuit is open', async () => {
+    const failedResponse = {
+      ok: false,
+      status: 502,
+      clone: () => failedResponse,
+      headers: new Headers({ 'content-type': 'application/json' }),
+      json: async () => ({ message: 'bad gateway' }),
+    };
+    (globalThis.fetch as jest.Mock).mockResolvedValue(failedResponse);
+    const meta = { retry: 1, retryDelayMs: 0, circuitBreaker: { failureThreshold: 2, cooldownMs: 60_000 } };
+
+    await expect(http('/reports/1', { meta })).rejects.toMatchObject({ code: ErrorCode.SERVER_ERROR });
+    await expect(http('/reports/2', { meta })).rejects.toMatchObject({
+      name: 'CircuitOpenError',
+      code: ErrorCode.SERVICE_UNAVAILABLE,
+      details: { circuit: '/reports/:id' },
+    });
+
+    expect(globalThis.fetch as jest.Mock).toHaveBeenCalledTimes(2);
+    expect(interceptHttpErrorMock).toHaveBeenCalledTimes(2);
+    expect(logHttpEventMock).toHaveBeenCalledWith({
+      type: 'circuit',
+      circuit: '/reports/:id',
+      state: 'open',
+      previousState: 'closed',
+      failureCount: 2,
+    });
+    (globalThis.fetch as jest.Mock).mockReset();
+  });
+
+  it('sends requests through an installed transport instead of fetch', async () => {
+    const { setHttpTransport } = await import('../http.transport');
+    const transport = jest.fn(async () => ({ ok: true, status: 200, json: async () => ({ mocked: true }) }) as unknown as Response);
+    const restoreTransport = setHttpTransport(transport);
+
+    try {
+      const result = await http('/projects', { method: 'POST', body: { name: 'Demo' }, meta: { retry: 0 } });
+
+      expect(result).toEqual({ mocked: true });
+      expect(transport).toHaveBeenCalledWith(
+        expect.stringContaining('/projects'),
+        expect.objectContaining({ method: 'POST', body: JSON.stringify({ name: 'Demo' }) }),
+        expect.objectContaining({ retry: 0 })
+      );
+      expect(globalThis.fetch as jest.Mock).not.toHaveBeenCalled();
+    } finally {
+      restoreTransport();
+    }
+  });
+
+  describe('backend envelope', () => {
+    const projectSchema = z.object({ id: z.string(), name: z.string() });
+
+    const envelopeResponse = (payload: unknown) =>
+      ({ ok: true, status: 200, headers: new Headers(), json: async () => payload }) satisfies Partial<Response>;
+
+    it('resolves with the validated body and keeps the server message', async () => {
+      (globalThis.fetch as jest.Mock).mockResolvedValueOnce(
+        envelopeResponse({ status_code: 201, message: 'Project created', success: true, body: { id: 'p1', name: 'Apollo', extra: true } })
+      );
+
+      const project = await http('/projects', { method: 'POST', body: { name: 'Apollo' }, schema: projectSchema, unwrapEnvelope: true });
+
+      expect(project).toEqual({ id: 'p1', name: 'Apollo' });
+      expect(getEnvelopeMessage(project)).toBe('Project created');
+    });
+
+    it('rejects success: false envelopes with the backend message', async () => {
+      (globalThis.fetch as jest.Mock)
+        .mockResolvedValueOnce(envelopeResponse({ status_code: 409, message: 'Name already taken', success: false, body: null }))
+        .mockResolvedValueOnce(envelopeResponse({ status_code: 200, message: 'Quota reached', success: false, body: null }));
+
+      await expect(http('/projects', { method: 'POST', schema: projectSchema, unwrapEnvelope: true })).rejects.toMatchObject({
+        code: ErrorCode.CONFLICT,
+        message: 'Name already taken',
+        statusCode: 409,
+      });
+      await expect(http('/projects', { method: 'POST', unwrapEnvelope: true })).rejects.toMatchObject({
+        code: ErrorCode.BAD_REQUEST,
+        message: 'Quota reached',
+      });
+    });
+
+    it('never caches failed envelopes of shared GET requests', async () => {
+      (globalThis.fetch as jest.Mock)
+        .mockResolvedValueOnce(envelopeResponse({ status_code: 503, message: 'Maintenance', success: false, body: null }))
+        .mockResolvedValueOnce(envelopeResponse({ status_code: 200, message: 'OK', success: true, body: [{ id: 'p1', name: 'Apollo' }] }));
+      const options = { schema: z.array(projectSchema), unwrapEnvelope: true, meta: { cache: 'swr' as const, retry: 0 } };
+
+      await expect(http('/projects', options)).rejects.toMatchObject({ code: ErrorCode.SERVER_ERROR, message: 'Maintenance' });
+      const projects = await http('/projects', options);
+
+      expect(projects).toEqual([{ id: 'p1', name: 'Apollo' }]);
+      expect(getEnvelopeMessage(projects)).toBe('OK');
+      expect(globalThis.fetch as jest.Mock).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('response types', () => {
+    it('reads text and blob bodies without JSON parsing or caching', async () => {
+      const csvBlob = new Blob(['id,name']);
+      const json = jest.fn();
+      (globalThis.fetch as jest.Mock)
+        .mockResolvedValueOnce({ ok: true, status: 200, json, text: async () => 'plain text' } satisfies Partial<Response>)
+        .mockResolvedValueOnce({ ok: true, status: 200, json, blob: async () => csvBlob } satisfies Partial<Response>);
+
+      await expect(http('/reports/summary', { responseType: 'text', meta: { cache: 'swr' } })).resolves.toBe('plain text');
+      await expect(http('/reports/summary', { responseType: 'blob', meta: { cache: 'swr' } })).resolves.toBe(csvBlob);
+
+      expect(json).not.toHaveBeenCalled();
+      expect(globalThis.fetch as jest.Mock).toHaveBeenCalledTimes(2);
+    });
+
+    it('downloads files with the Content-Disposition filename', async () => {
+      const pdf = new Blob(['%PDF']);
+      (globalThis.fetch as jest.Mock).mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        headers: new Headers({ 'Content-Disposition': 'attachment; filename="report-2025.pdf"', 'Content-Type': 'application/pdf' }),
+        blob: async () => pdf,
+      } satisfies Partial<Response>);
+
+      const result = await httpDownload('/reports/2025', { params: { format: 'pdf' }, filename: 'report.pdf', save: false });
+
+      expect(result).toEqual({ blob: pdf, filename: 'report-2025.pdf', contentType: 'application/pdf' });
+      const [calledUrl, init] = (globalThis.fetch as jest.Mock).mock.calls[0] as [string, RequestInit];
+      expect(new URL(calledUrl).searchParams.get('format')).toBe('pdf');
+      expect(init.headers).toEqual(expect.objectContaining({ Accept: '*/*' }));
+    });
+
+    it('cancels downloads through the top-level signal', async () => {
+      const { applyRequestInterceptors } = jest.requireActual<typeof import('../http.interceptors')>('../http.interceptors');
+      applyRequestInterceptorsMock.mockImplementationOnce((url: string, options: RequestInit, meta: unknown) =>
+        (applyRequestInterceptors as (...params: unknown[]) => Promise<[string, RequestInit]>)(url, options, meta)
+      );
+      const controller = new AbortController();
+      (globalThis.fetch as jest.Mock).mockImplementationOnce(async (_url: string, init: RequestInit) => {
+        controller.abort('navigation');
+        if (init.signal?.aborted) throw new DOMException('The operation was aborted.', 'AbortError');
+        return { ok: true, status: 200, headers: new Headers(), blob: async () => new Blob(['id,name']) };
+      });
+
+      await expect(
+        httpDownload('/projects/export', { filename: 'projects.csv', save: false, signal: controller.signal, meta: { retry: 0 } })
+      ).rejects.toMatchObject({
+        code: ErrorCode.CANCELLED,
+      });
+    });
+
+    it('turns failed downloads into AppErrors', async () => {
+      (globalThis.fetch as jest.Mock).mockResolvedValueOnce({
+        ok: false,
+        status: 404,
+        headers: new Headers(),
+        clone() {
+          return this as unknown as Response;
+        },
+        text: async () => 'missing',
+      } satisfies Partial<Response>);
+
+      await expect(httpDownload('/reports/missing', { filename: 'report.pdf', meta: { showErrorNotification: false } })).rejects.toMatchObject({
+        code: ErrorCode.NOT_FOUND,
+      });
+    });
+  });
+
+  describe('offline queue', () => {
+    afterEach(() => {
+      jest.restoreAllMocks();
+      localStorage.clear();
+    });
+
+    it('queues opted-in mutations without sending them while the browser is offline', async () => {
+      jest.spyOn(navigator, 'onLine', 'get').mockReturnValue(false);
+      const { getOfflineQueue } = await import('../http.offline');
+
+      const pending = http('/projects/1', { method: 'PUT', body: { name: 'Offline' }, meta: { queueWhenOffline: true } });
+
+      await expect(pending).rejects.toMatchObject({
+        name: 'OfflineQueuedError',
+        code: ErrorCode.NETWORK_ERROR,
+        details: { queueId: 'test-correlation' },
+      });
+      expect(globalThis.fetch as jest.Mock).not.toHaveBeenCalled();
+      expect(getOfflineQueue()).toEqual([expect.objectContaining({ path: '/projects/1', method: 'PUT', body: { name: 'Offline' } })]);
+    });
+
+    it('queues opted-in mutations that fail with a network error', async () => {
+      const { NetworkError } = await import('@/shared/infra/errors/appError');
+      const { getOfflineQueue } = await import('../http.offline');
+      (globalThis.fetch as jest.Mock).mockRejectedValueOnce(new NetworkError());
+
+      await expect(http('/projects', { method: 'POST', body: { name: 'Demo' }, meta: { queueWhenOffline: true, retry: 0 } })).rejects.toMatchObject({
+        name: 'OfflineQueuedError',
+      });
+      expect(interceptHttpErrorMock).toHaveBeenCalledWith(
+        expect.anything(),
+        expect.objectContaining({ showErrorNotification: false }),
+        expect.anything()
+      );
+      expect(getOfflineQueue()).toHaveLength(1);
+    });
+
+    it('replays queued envelope calls with unwrapEnvelope and reports success: false as failed', async () => {
+      const onLine = jest.spyOn(navigator, 'onLine', 'get').mockReturnValue(false);
+      const { replayOfflineQueue, subscribeOfflineQueue } = await import('../http.offline');
+      await expect(
+        http('/projects/1', { method: 'PUT', body: { name: 'Offline' }, unwrapEnvelope: true, meta: { queueWhenOffline: true } })
+      ).rejects.toMatchObject({
+        name: 'OfflineQueuedError',
+      });
+
+      onLine.mockReturnValue(true);
+      (globalThis.fetch as jest.Mock).mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        headers: new Headers(),
+        json: async () => ({ status_code: 409, message: 'Name already taken', success: false, body: null }),
+      });
+      const listener = jest.fn();
+      const unsubscribe = subscribeOfflineQueue(listener);
+      await replayOfflineQueue();
+      unsubscribe();
+
+      expect(listener).toHaveBeenCalledTimes(1);
+      expect(listener).toHaveBeenCalledWith(
+        expect.objectContaining({ type: 'failed', error: expect.objectContaining({ message: 'Name already taken' }) })
+      );
+    });
+
+    it('rethrows other failures without queueing', async () => {
+      const { getOfflineQueue } = await import('../http.offline');
+      (globalThis.fetch as jest.Mock).mockResolvedValueOnce({
+        ok: false,
+        status: 400,
+        headers: new Headers(),
+        clone: () => ({ headers: new Headers(), text: async () => '' }),
+      });
+
+      await expect(
+        http('/projects', { method: 'POST', body: { name: 'Demo' }, meta: { queueWhenOffline: true, retry: 0, showErrorNotification: false } })
+      ).rejects.toMatchObject({
+        code: ErrorCode.BAD_REQUEST,
+      });
+      expect(getOfflineQueue()).toEqual([]);
+    });
+  });
+
+  describe('httpStream', () => {
+    const originalTextDecoder = globalThis.TextDecoder;
+
+    const createStreamBody = (chunks: string[]) => {
+      const encoder = new (jest.requireActual('node:util').TextEncoder)();
+      const queue = [...chunks];
+      return {
+        getReader: () => ({
+          read: async () => {
+            const next = queue.shift();
+            return next === undefined ? { done: true, value: undefined } : { done: false, value: encoder.encode(next) };
+          },
+          cancel: async () => undefined,
+          releaseLock: () => undefined,
+        }),
+      };
+    };
+
+    beforeAll(() => {
+      globalThis.TextDecoder = jest.requireActual('node:util').TextDecoder;
+    });
+
+    afterAll(() => {
+      globalThis.TextDecoder = originalTextDecoder;
+    });
+
+    it('yields validated NDJSON lines and asks for the stream format', async () => {
+      (globalThis.fetch as jest.Mock).mockResolvedValueOnce({ ok: true, status: 200, body: createStreamBody(['{"step":1}\n{"step":2}\n']) });
+
+      const lines: unknown[] = [];
+      for await (const line of httpStream('/jobs/1/logs', { schema: z.object({ step: z.number() }) })) {
+        lines.push(line);
+      }
+
+      expect(lines).toEqual([{ step: 1 }, { step: 2 }]);
+      const [, init] = (globalThis.fetch as jest.Mock).mock.calls[0];
+      expect((init as RequestInit).headers).toEqual({ Accept: 'application/x-ndjson' });
+      expect(applyRequestInterceptorsMock.mock.calls[0][2]).toMatchObject({ correlationId: 'test-correlation', timeout: undefined });
+    });
+
+    it('yields Server-Sent Events', async () => {
+      (globalThis.fetch as jest.Mock).mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        body: createStreamBody(['event: done\ndata: {"ok":true}\n\n']),
+      });
+
+      const events: unknown[] = [];
+      for await (const event of httpStream('/jobs/1/progress', { format: 'sse' })) {
+        events.push(event);
+      }
+
+      expect(events).toEqual([{ event: 'done', data: { ok: true } }]);
+      const [, init] = (globalThis.fetch as jest.Mock).mock.calls[0];
+      expect((init as RequestInit).headers).toEqual({ Accept: 'text/event-stream' });
+    });
+
+    it('refreshes the token and replays the request before streaming', async () => {
+      const unauthorized = {
+        ok: false,
+        status: 401,
+        clone: () => unauthorized,
+        headers: new Headers({ 'content-type': 'application/json' }),
+        json: async () => ({ message: 'expired' }),
+      };
+      (globalThis.fetch as jest.Mock)
+        .mockResolvedValueOnce(unauthorized)
+        .mockResolvedValueOnce({ ok: true, status: 200, body: createStreamBody(['{"n":1}\n']) });
+
+      const lines: unknown[] = [];
+      for await (const line of httpStream('/jobs/1/logs')) {
+        lines.push(line);
+      }
+
+      expect(attemptTokenRefreshMock).toHaveBeenCalledTimes(1);
+      expect(lines).toEqual([{ n: 1 }]);
+    });
+
+    it('routes errors raised while reading through the error pipeline', async () => {
+      (globalThis.fetch as jest.Mock).mockResolvedValueOnce({ ok: true, status: 200, body: createStreamBody(['not-json\n']) });
+
+      await expect(async () => {
+        for await (const line of httpStream('/jobs/1/logs')) {
+          expect(line).toBeUndefined();
+        }
+      }).rejects.toThrow(SyntaxError);
+      expect(interceptHttpErrorMock).toHaveBeenCalledWith(expect.any(SyntaxError), expect.any(Object), {
+        url: expect.stringContaining('/jobs/1/logs'),
+        method: 'GET',
+      });
+    });
+  });
 });
@@ -202,6 +202,32 @@ describe('HTTP Config Module', () => {
     });
   });
 
+  describe('HTTP_CONFIG retry policy configuration', () => {
+    it('should retry only idempotent methods and honour Retry-After by default', async () => {
+      // Setup: Clean environment
+      delete process.env.NEXT_PUBLIC_HTTP_RETRY_MAX_WAIT_MS;
+
+      const { HTTP_CONFIG } = await import('../http.config');
+
+      // Assert: Should use default policy
+      expect(HTTP_CONFIG.defaultRetryPolicy).toEqual({
+        retryMethods: ['GET', 'PUT', 'DELETE'],
+        respectRetryAfter: true,
+        maxTotalDelayMs: 30_000,
+      });
+    });
+
+    it('should use custom maximum retry wait from environment variable', async () => {
+      // Setup: Custom wait budget
+      process.env.NEXT_PUBLIC_HTTP_RETRY_MAX_WAIT_MS = '5000';
+
+      const { HTTP_CONFIG } = await import('../http.config');
+
+      // Assert: Should use custom value
+      expect(HTTP_CONFIG.defaultRetryPolicy.maxTotalDelayMs).toBe(5000);
+    });
+  });
+
   describe('HTTP_CONFIG locale configuration', () => {
     it('should use default locale when no environment variable is set', async () => {
       // Setup: Clean environment
@@ -312,9 +338,98 @@ describe('HTTP Config Module', () => {
       expect(configKeys).toContain('defaultTimeoutMs');
       expect(configKeys).toContain('defaultRetryAttempts');
       expect(configKeys).toContain('defaultRetryDelayMs');
+      expect(configKeys).toContain('defaultRetryPolicy');
+      expect(configKeys).toContain('defaultCircuitBreaker');
+      expect(configKeys).toContain('maxConcurrentRequests');
+      expect(configKeys).toContain('defaultCacheTtlMs');
+      expect(configKeys).toContain('defaultQueryFormat');
+      expect(configKeys).toContain('defaultFormKeyNotation');
+      expect(configKeys).toContain('apiMocking');
       expect(configKeys).toContain('defaultLocale');
       expect(configKeys).toContain('clientHeader');
-      expect(configKeys).toHaveLength(5);
+      expect(configKeys).toHaveLength(12);
+    });
+  });
+
+  describe('HTTP_CONFIG circuit breaker configuration', () => {
+    it('should open after 5 failures for 30 seconds by default', async () => {
+      delete process.env.NEXT_PUBLIC_HTTP_CIRCUIT_FAILURE_THRESHOLD;
+      delete process.env.NEXT_PUBLIC_HTTP_CIRCUIT_COOLDOWN_MS;
+
+      const { HTTP_CONFIG } = await import('../http.config');
+
+      expect(HTTP_CONFIG.defaultCircuitBreaker).toEqual({ failureThreshold: 5, cooldownMs: 30_000 });
+    });
+
+    it('should read the threshold and cool-down from environment variables', async () => {
+      process.env.NEXT_PUBLIC_HTTP_CIRCUIT_FAILURE_THRESHOLD = '3';
+      process.env.NEXT_PUBLIC_HTTP_CIRCUIT_COOLDOWN_MS = '10000';
+
+      const { HTTP_CONFIG } = await import('../http.config');
+
+      expect(HTTP_CONFIG.defaultCircuitBreaker).toEqual({ failureThreshold: 3, cooldownMs: 10_000 });
+    });
+  });
+
+  describe('HTTP_CONFIG concurrency configuration', () => {
+    it('should allow 6 concurrent requests by default', async () => {
+      delete process.env.NEXT_PUBLIC_HTTP_MAX_CONCURRENCY;
+
+      const { HTTP_CONFIG } = await import('../http.config');
+
+      expect(HTTP_CONFIG.maxConcurrentRequests).toBe(6);
+    });
+
+    it('should read the limit from an environment variable', async () => {
+      process.env.NEXT_PUBLIC_HTTP_MAX_CONCURRENCY = '2';
+
+      const { HTTP_CONFIG } = await import('../http.config');
+
+      expect(HTTP_CONFIG.maxConcurrentRequests).toBe(2);
+    });
+  });
+
+  describe('HTTP_CONFIG API mocking configuration', () => {
+    it('should be disabled by default', async () => {
+      delete process.env.NEXT_PUBLIC_API_MOCKING;
+
+      const { HTTP_CONFIG } = await import('../http.config');
+
+      expect(HTTP_CONFIG.apiMocking).toBe(false);
+    });
+
+    it('should only be enabled by the exact "enabled" value', async () => {
+      process.env.NEXT_PUBLIC_API_MOCKING = 'enabled';
+      const { HTTP_CONFIG: enabledConfig } = await import('../http.config');
+
+      jest.resetModules();
+      process.env.NEXT_PUBLIC_API_MOCKING = 'true';
+      const { HTTP_CONFIG: otherConfig } = await import('../http.config');
+
+      expect(enabledConfig.apiMocking).toBe(true);
+      expect(otherConfig.apiMocking).toBe(false);
+    });
+  });
+
+  describe('HTTP_CONFIG query format configuration', () => {
+    it('should repeat array keys by default', async () => {
+      delete process.env.NEXT_PUBLIC_HTTP_QUERY_FORMAT;
+
+      const { HTTP_CONFIG } = await import('../http.config');
+
+      expect(HTTP_CONFIG.defaultQueryFormat).toBe('repeat');
+    });
+
+    it('should read a supported encoding and ignore unknown ones', async () => {
+      process.env.NEXT_PUBLIC_HTTP_QUERY_FORMAT = 'brackets';
+      const { HTTP_CONFIG: bracketsConfig } = await import('../http.config');
+
+      jest.resetModules();
+      process.env.NEXT_PUBLIC_HTTP_QUERY_FORMAT = 'pipes';
+      const { HTTP_CONFIG: unknownConfig } = await import('../http.config');
+
+      expect(bracketsConfig.defaultQueryFormat).toBe('brackets');
+      expect(unknownConfig.defaultQueryFormat).toBe('repeat');
     });
   });
 });
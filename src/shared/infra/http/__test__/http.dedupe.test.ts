@@ -0,0 +1,133 @@
+import { buildDedupeKey, getInFlightRequestCount, shareInFlightRequest, shouldDedupeRequest, withDedupePolicy } from '../http.dedupe';
+
+const deferred = <T>() => {
+  let resolve: (value: T) => void = () => undefined;
+  let reject: (reason: unknown) => void = () => undefined;
+  const promise = new Promise<T>((res, rej) => {
+    resolve = res;
+    reject = rej;
+  });
+  return { promise, resolve, reject };
+};
+
+describe('http.dedupe', () => {
+  describe('shouldDedupeRequest', () => {
+    it('only shares GET requests', () => {
+      expect(shouldDedupeRequest('GET', {})).toBe(true);
+      expect(shouldDedupeRequest('get', {})).toBe(true);
+      expect(shouldDedupeRequest('POST', {})).toBe(false);
+    });
+
+    it('honours the meta opt-out', () => {
+      expect(shouldDedupeRequest('GET', { dedupe: false })).toBe(false);
+    });
+
+    it('never shares requests reporting download progress', () => {
+      expect(shouldDedupeRequest('GET', { onDownloadProgress: jest.fn() })).toBe(false);
+    });
+  });
+
+  describe('buildDedupeKey', () => {
+    it('includes method, url, auth identity and locale', () => {
+      const key = buildDedupeKey('get', 'http://localhost/a?b=1', 'token-1', 'en');
+
+      expect(key).toBe('GET http://localhost/a?b=1 token-1 en');
+      expect(buildDedupeKey('GET', 'http://localhost/a?b=1', 'token-2', 'en')).not.toBe(key);
+      expect(buildDedupeKey('GET', 'http://localhost/a?b=1', 'token-1', 'fr')).not.toBe(key);
+    });
+  });
+
+  describe('withDedupePolicy', () => {
+    it('separates callers with a different request policy', () => {
+      const key = withDedupePolicy('GET /a', { retry: 1, timeout: 1000, correlationId: 'first' });
+
+      expect(withDedupePolicy('GET /a', { retry: 1, timeout: 1000, correlationId: 'second' })).toBe(key);
+      expect(withDedupePolicy('GET /a', { retry: 3, timeout: 1000 })).not.toBe(key);
+      expect(withDedupePolicy('GET /a', { retry: 1, timeout: 5000 })).not.toBe(key);
+      expect(withDedupePolicy('GET /a', { retry: 1, timeout: 1000, showErrorNotification: false })).not.toBe(key);
+    });
+  });
+
+  describe('shareInFlightRequest', () => {
+    it('runs the executor once for concurrent callers and clears the entry afterwards', async () => {
+      const { promise, resolve } = deferred<string>();
+      const execute = jest.fn(() => promise);
+
+      const first = shareInFlightRequest('key', undefined, execute);
+      const second = shareInFlightRequest('key', undefined, execute);
+
+      expect(execute).toHaveBeenCalledTimes(1);
+      expect(getInFlightRequestCount()).toBe(1);
+
+      resolve('value');
+
+      await expect(Promise.all([first, second])).resolves.toEqual(['value', 'value']);
+      expect(getInFlightRequestCount()).toBe(0);
+    });
+
+    it('propagates failures to every subscriber', async () => {
+      const { promise, reject } = deferred<string>();
+      const execute = jest.fn(() => promise);
+
+      const first = shareInFlightRequest('failing', new AbortController().signal, execute);
+      const second = shareInFlightRequest('failing', undefined, execute);
+
+      reject(new Error('boom'));
+
+      await expect(first).rejects.toThrow('boom');
+      await expect(second).rejects.toThrow('boom');
+    });
+
+    it('does not abort the shared request while other callers are waiting', async () => {
+      const { promise, resolve } = deferred<string>();
+      let sharedSignal: AbortSignal | undefined;
+      const execute = jest.fn((signal: AbortSignal) => {
+        sharedSignal = signal;
+        return promise;
+      });
+
+      const controller = new AbortController();
+      const aborted = shareInFlightRequest('abort', controller.signal, execute);
+      const remaining = shareInFlightRequest('abort', new AbortController().signal, execute);
+
+      controller.abort();
+
+      await expect(aborted).rejects.toBeDefined();
+      expect(sharedSignal?.aborted).toBe(false);
+
+      resolve('still here');
+      await expect(remaining).resolves.toBe('still here');
+    });
+
+    it('aborts the shared request once every caller has aborted', async () => {
+      const { promise } = deferred<string>();
+      let sharedSignal: AbortSignal | undefined;
+      const execute = jest.fn((signal: AbortSignal) => {
+        sharedSignal = signal;
+        return promise;
+      });
+
+      const firstController = new AbortController();
+      const secondController = new AbortController();
+      const first = shareInFlightRequest('all-aborted', firstController.signal, execute);
+      const second = shareInFlightRequest('all-aborted', secondController.signal, execute);
+
+      firstController.abort();
+      secondController.abort();
+
+      await expect(first).rejects.toBeDefined();
+      await expect(second).rejects.toBeDefined();
+      expect(sharedSignal?.aborted).toBe(true);
+      expect(getInFlightRequestCount()).toBe(0);
+    });
+
+    it('rejects immediately for an already aborted signal', async () => {
+      const controller = new AbortController();
+      controller.abort();
+      const execute = jest.fn(() => new Promise<string>(() => undefined));
+
+      await expect(shareInFlightRequest('pre-aborted', controller.signal, execute)).rejects.toBeDefined();
+      expect(getInFlightRequestCount()).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,51 @@
+import { parseContentDispositionFilename, saveBlob } from '../http.download';
+
+describe('http.download', () => {
+  describe('parseContentDispositionFilename', () => {
+    it('reads quoted and unquoted filenames', () => {
+      expect(parseContentDispositionFilename('attachment; filename="projects.csv"')).toBe('projects.csv');
+      expect(parseContentDispositionFilename('attachment; filename=report.pdf; size=42')).toBe('report.pdf');
+      expect(parseContentDispositionFilename('attachment; filename="say \\"hi\\".txt"')).toBe('say _hi_.txt');
+    });
+
+    it('prefers the UTF-8 filename* parameter', () => {
+      expect(parseContentDispositionFilename(`attachment; filename="resume.pdf"; filename*=UTF-8''r%C3%A9sum%C3%A9.pdf`)).toBe('résumé.pdf');
+      expect(parseContentDispositionFilename(`attachment; filename="fallback.pdf"; filename*=UTF-8''%E0%A4%A.pdf`)).toBe('fallback.pdf');
+    });
+
+    it('strips path separators and returns undefined without a filename', () => {
+      expect(parseContentDispositionFilename('attachment; filename="../../etc/passwd"')).toBe('.._.._etc_passwd');
+      expect(parseContentDispositionFilename('inline')).toBeUndefined();
+      expect(parseContentDispositionFilename(null)).toBeUndefined();
+    });
+  });
+
+  describe('saveBlob', () => {
+    const originalCreateObjectURL = URL.createObjectURL;
+    const originalRevokeObjectURL = URL.revokeObjectURL;
+
+    afterEach(() => {
+      URL.createObjectURL = originalCreateObjectURL;
+      URL.revokeObjectURL = originalRevokeObjectURL;
+      jest.useRealTimers();
+    });
+
+    it('clicks a temporary link to the object URL and revokes it afterwards', () => {
+      jest.useFakeTimers();
+      URL.createObjectURL = jest.fn(() => 'blob:http://localhost/export');
+      URL.revokeObjectURL = jest.fn();
+      const click = jest.spyOn(HTMLAnchorElement.prototype, 'click').mockImplementation(function (this: HTMLAnchorElement) {
+        expect(this.download).toBe('projects.csv');
+        expect(this.href).toBe('blob:http://localhost/export');
+      });
+
+      saveBlob(new Blob(['id,name']), 'projects.csv');
+
+      expect(click).toHaveBeenCalledTimes(1);
+      expect(document.querySelector('a[download]')).toBeNull();
+      jest.runAllTimers();
+      expect(URL.revokeObjectURL).toHaveBeenCalledWith('blob:http://localhost/export');
+      click.mockRestore();
+    });
+  });
+});
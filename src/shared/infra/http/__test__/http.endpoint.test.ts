@@ -0,0 +1,108 @@
+import { z } from 'zod';
+
+import { http } from '../http.client';
+import { defineEndpoint, resolveEndpointPath } from '../http.endpoint';
+
+jest.mock('../http.client', () => ({
+  http: jest.fn(),
+}));
+
+const httpMock = http as jest.Mock;
+
+const projectSchema = z.object({ id: z.string(), name: z.string() });
+
+describe('http.endpoint', () => {
+  beforeEach(() => {
+    httpMock.mockReset();
+  });
+
+  describe('resolveEndpointPath', () => {
+    it('fills path placeholders and keeps the other params as query', () => {
+      expect(resolveEndpointPath('/api/v1/projects/:id/members/:memberId', { id: 'a b', memberId: 7, page: 2 })).toEqual({
+        path: '/api/v1/projects/a%20b/members/7',
+        query: { page: 2 },
+      });
+      expect(resolveEndpointPath('/api/v1/projects', undefined)).toEqual({ path: '/api/v1/projects', query: undefined });
+    });
+
+    it('throws when a placeholder has no value', () => {
+      expect(() => resolveEndpointPath('/api/v1/projects/:id', {})).toThrow('Missing path parameter "id" for /api/v1/projects/:id');
+    });
+
+    it('rejects arrays and objects as path values', () => {
+      expect(() => resolveEndpointPath('/api/v1/projects/:id', { id: ['1', '2'] })).toThrow(TypeError);
+    });
+  });
+
+  describe('defineEndpoint', () => {
+    const updateProject = defineEndpoint({
+      method: 'PUT',
+      path: '/api/v1/projects/:id',
+      params: z.object({ id: z.string(), notify: z.boolean().default(false) }),
+      body: z.object({ name: z.string().trim().min(1) }),
+      response: projectSchema,
+      meta: { idempotent: true, showErrorNotification: false },
+    });
+
+    it('sends validated params and body through http()', async () => {
+      httpMock.mockResolvedValueOnce({ id: '1', name: 'Renamed' });
+      const controller = new AbortController();
+
+      const project = await updateProject({
+        params: { id: '1' },
+        body: { name: '  Renamed ' },
+        headers: { 'X-Trace': 'trace' },
+        meta: { showErrorNotification: true },
+        signal: controller.signal,
+      });
+
+      expect(project).toEqual({ id: '1', name: 'Renamed' });
+      expect(httpMock).toHaveBeenCalledWith('/api/v1/projects/1', {
+        method: 'PUT',
+        params: { notify: false },
+        body: { name: 'Renamed' },
+        headers: { 'X-Trace': 'trace' },
+        signal: controller.signal,
+        schema: projectSchema,
+        meta: { idempotent: true, showErrorNotification: true },
+      });
+    });
+
+    it('rejects invalid input without sending the request', async () => {
+      await expect(updateProject({ params: { id: '1' }, body: { name: ' ' } })).rejects.toThrow(z.ZodError);
+      expect(httpMock).not.toHaveBeenCalled();
+    });
+
+    it('sends bodies transformed by their schema', async () => {
+      const verifyOtp = defineEndpoint({
+        method: 'POST',
+        path: '/auth/verify-otp',
+        body: z.object({ email: z.string(), otp: z.string() }).transform(({ email, otp }) => ({ email, code: otp })),
+      });
+
+      await verifyOtp({ body: { email: 'user@grow-ps.com', otp: '123456' } });
+
+      expect(httpMock).toHaveBeenCalledWith('/auth/verify-otp', expect.objectContaining({ body: { email: 'user@grow-ps.com', code: '123456' } }));
+    });
+
+    it('can be called without input when nothing is required', async () => {
+      const listProjects = defineEndpoint({ method: 'GET', path: '/api/v1/projects', response: z.array(projectSchema) });
+      httpMock.mockResolvedValueOnce([]);
+
+      await expect(listProjects()).resolves.toEqual([]);
+      expect(httpMock).toHaveBeenCalledWith(
+        '/api/v1/projects',
+        expect.objectContaining({ method: 'GET', params: undefined, body: undefined, meta: {} })
+      );
+      expect(listProjects.definition.path).toBe('/api/v1/projects');
+    });
+
+    it('sends the request through the given client instead of http()', async () => {
+      const client = jest.fn().mockResolvedValueOnce({ id: '1', name: 'Website' });
+
+      await expect(updateProject({ params: { id: '1' }, body: { name: 'Website' }, client })).resolves.toEqual({ id: '1', name: 'Website' });
+      expect(client).toHaveBeenCalledWith('/api/v1/projects/1', expect.objectContaining({ method: 'PUT', body: { name: 'Website' } }));
+      expect(httpMock).not.toHaveBeenCalled();
+    });
+  });
+});
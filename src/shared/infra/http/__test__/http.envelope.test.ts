@@ -0,0 +1,42 @@
+import { z } from 'zod';
+
+import { ErrorCode } from '@/shared/infra/errors/error-codes';
+
+import { envelope, getEnvelopeMessage, readEnvelope, readEnvelopeBody } from '../http.envelope';
+
+describe('http.envelope', () => {
+  const projectSchema = z.object({ id: z.string(), name: z.string() });
+
+  it('builds the schema of an envelope around a body schema', () => {
+    const schema = envelope(projectSchema);
+
+    expect(schema.parse({ status_code: 200, message: 'OK', success: true, body: { id: 'p1', name: 'Apollo' } }).body).toEqual({
+      id: 'p1',
+      name: 'Apollo',
+    });
+    expect(schema.safeParse({ status_code: 200, message: 'OK', success: true, body: { id: 'p1' } }).success).toBe(false);
+  });
+
+  it('validates the wrapper without the body and rejects other payloads', () => {
+    expect(readEnvelope({ status_code: 404, message: 'Not found', success: false, body: null })).toEqual({
+      status_code: 404,
+      message: 'Not found',
+      success: false,
+      body: null,
+    });
+    expect(() => readEnvelope({ id: 'p1', name: 'Apollo' })).toThrow(expect.objectContaining({ code: ErrorCode.VALIDATION_ERROR }));
+  });
+
+  it('keeps the server message of object bodies only', () => {
+    const project = readEnvelopeBody(
+      readEnvelope({ status_code: 200, message: 'Loaded', success: true, body: { id: 'p1', name: 'Apollo' } }),
+      projectSchema
+    );
+    const count = readEnvelopeBody(readEnvelope({ status_code: 200, message: 'Counted', success: true, body: 3 }));
+
+    expect(getEnvelopeMessage(project)).toBe('Loaded');
+    expect(count).toBe(3);
+    expect(getEnvelopeMessage(count)).toBeUndefined();
+    expect(getEnvelopeMessage({ id: 'p1', name: 'Apollo' })).toBeUndefined();
+  });
+});
@@ -0,0 +1,124 @@
+import { CancelledError, NetworkError } from '@/shared/infra/errors/appError';
+
+import { applyRequestInterceptors, applyResponseInterceptors } from '../http.interceptors';
+import { createHttpInspector, previewRequestBody } from '../http.inspector';
+import { getHttpInterceptors } from '../http.pipeline';
+import type { HttpResponseType } from '../http.types';
+
+const createTextResponse = (status: number, contentType: string, text: string) => {
+  const response = {
+    status,
+    headers: new Headers({ 'content-type': contentType }),
+    text: async () => text,
+    clone: () => response,
+  };
+  return response as unknown as Response;
+};
+
+describe('http.inspector', () => {
+  describe('previewRequestBody', () => {
+    it('redacts sensitive fields of JSON, form and URL-encoded bodies', () => {
+      const formData = new FormData();
+      formData.append('name', 'Report');
+      formData.append('apiKey', 'k-123');
+      formData.append('file', new File(['abc'], 'report.csv'));
+
+      expect(previewRequestBody(JSON.stringify({ email: 'a@b.c', password: 'secret', nested: [{ refreshToken: 'r' }] }))).toEqual({
+        email: 'a@b.c',
+        password: '[REDACTED]',
+        nested: [{ refreshToken: '[REDACTED]' }],
+      });
+      expect(previewRequestBody(formData)).toEqual({ name: 'Report', apiKey: '[REDACTED]', file: '[File report.csv · 3 B]' });
+      expect(previewRequestBody(new URLSearchParams({ otp: '123456', q: 'x' }))).toEqual({ otp: '[REDACTED]', q: 'x' });
+      expect(previewRequestBody('plain text')).toBe('plain text');
+      expect(previewRequestBody(undefined)).toBeUndefined();
+    });
+  });
+
+  describe('createHttpInspector', () => {
+    it('keeps one entry per correlation ID, newest first and capped', () => {
+      const inspector = createHttpInspector({ maxEntries: 2 });
+
+      inspector.record({ type: 'request', method: 'GET', url: '/api/v1/products', correlationId: 'a', attempt: 0 });
+      inspector.record({ type: 'request', method: 'GET', url: '/api/v1/products', correlationId: 'a', attempt: 1 });
+      inspector.record({ type: 'response', method: 'GET', url: '/api/v1/products', correlationId: 'a', status: 200, durationMs: 25 });
+      inspector.record({ type: 'request', method: 'DELETE', url: '/api/v1/projects/7', correlationId: 'b', attempt: 0 });
+      inspector.record({ type: 'error', method: 'DELETE', url: '/api/v1/projects/7', correlationId: 'b', error: new NetworkError() });
+      inspector.record({ type: 'request', method: 'GET', url: '/api/v1/users', correlationId: 'c', attempt: 0 });
+      inspector.record({ type: 'error', method: 'GET', url: '/api/v1/users', correlationId: 'c', error: new CancelledError() });
+
+      expect(inspector.getEntries()).toEqual([
+        expect.objectContaining({ correlationId: 'c', state: 'cancelled', errorCode: 'CANCELLED' }),
+        expect.objectContaining({ correlationId: 'b', route: '/api/v1/projects/:id', state: 'error', errorCode: 'NETWORK_ERROR', attempts: 1 }),
+      ]);
+    });
+
+    it('notifies subscribers with a new snapshot and clears entries', () => {
+      const inspector = createHttpInspector();
+      const listener = jest.fn();
+      const unsubscribe = inspector.subscribe(listener);
+      const initial = inspector.getEntries();
+
+      inspector.record({ type: 'request', method: 'GET', url: '/api/v1/products', correlationId: 'a', attempt: 0 });
+      expect(inspector.getEntries()).not.toBe(initial);
+      expect(inspector.getEntries()).toBe(inspector.getEntries());
+
+      inspector.clear();
+      unsubscribe();
+      inspector.record({ type: 'request', method: 'GET', url: '/api/v1/products', correlationId: 'b', attempt: 0 });
+
+      expect(listener).toHaveBeenCalledTimes(2);
+    });
+
+    it('captures redacted bodies through its interceptor while started', async () => {
+      const inspector = createHttpInspector();
+      const stop = inspector.start();
+      const meta = { correlationId: 'login-1' };
+
+      await applyRequestInterceptors('/api/v1/auth/login', { method: 'POST', body: JSON.stringify({ email: 'a@b.c', password: 'pw' }) }, meta);
+      await applyResponseInterceptors(createTextResponse(200, 'application/json', '{"accessToken":"t","user":{"id":"1"}}'), meta, 0, {
+        url: '/api/v1/auth/login',
+        method: 'POST',
+        durationMs: 30,
+      });
+      await Promise.resolve();
+      await Promise.resolve();
+
+      expect(inspector.getEntries()[0]).toMatchObject({
+        correlationId: 'login-1',
+        state: 'success',
+        status: 200,
+        durationMs: 30,
+        attempts: 1,
+        requestBody: { email: 'a@b.c', password: '[REDACTED]' },
+        responseBody: { accessToken: '[REDACTED]', user: { id: '1' } },
+      });
+
+      stop();
+      expect(getHttpInterceptors().map(interceptor => interceptor.name)).not.toContain('inspector');
+    });
+
+    it('does not copy streamed or downloaded response bodies', async () => {
+      const inspector = createHttpInspector();
+      const stop = inspector.start();
+      const respond = async (correlationId: string, contentType: string, responseType?: HttpResponseType) => {
+        const response = createTextResponse(200, contentType, '{"line":1}');
+        const clone = jest.spyOn(response, 'clone');
+        await applyResponseInterceptors(response, { correlationId, responseType }, 0, { url: '/api/v1/jobs', method: 'GET', durationMs: 5 });
+        return clone;
+      };
+
+      const clones = [
+        await respond('ndjson-1', 'application/x-ndjson'),
+        await respond('stream-1', 'application/json', 'stream'),
+        await respond('download-1', 'text/csv', 'blob'),
+        await respond('buffer-1', 'application/json', 'arrayBuffer'),
+      ];
+      await Promise.resolve();
+
+      for (const clone of clones) expect(clone).not.toHaveBeenCalled();
+      expect(inspector.getEntries().every(entry => entry.responseBody === undefined)).toBe(true);
+      stop();
+    });
+  });
+});
@@ -10,6 +10,7 @@
  */
 
 import { AppError } from '@/shared/infra/errors/appError';
+import { ErrorCode } from '@/shared/infra/errors/error-codes';
 
 import type { HttpLogEvent } from '../http.interceptors';
 
@@ -24,7 +25,10 @@ let logHttpEvent: typeof import('../http.interceptors').logHttpEvent;
 let notifyUnauthorized: typeof import('../http.interceptors').notifyUnauthorized;
 let registerTokenGetter: typeof import('../http.interceptors').registerTokenGetter;
 let resolveAccessToken: typeof import('../http.interceptors').resolveAccessToken;
+let resolveAuthIdentity: typeof import('../http.interceptors').resolveAuthIdentity;
 let resolveLocale: typeof import('../http.interceptors').resolveLocale;
+let subscribeHttpEvents: typeof import('../http.interceptors').subscribeHttpEvents;
+let registerHttpInterceptor: typeof import('../http.pipeline').registerHttpInterceptor;
 
 // Mock external dependencies
 const mockTrackPerformance = jest.fn();
@@ -67,7 +71,8 @@ describe('HTTP Interceptors Module', () => {
     // Reset interceptor config to defaults (after module is loaded)
     configureHttpInterceptors({
       getAccessToken: () => null,
-      refreshAccessToken: async () => null,
+      getAuthIdentity: () => null,
+      refreshAccessToken: async () => false,
       onUnauthorized: () => {
         const mockRouter = { replace: mockRouterReplace };
         mockRouter.replace('/auth/signin');
@@ -90,7 +95,10 @@ describe('HTTP Interceptors Module', () => {
     notifyUnauthorized = mod.notifyUnauthorized;
     registerTokenGetter = mod.registerTokenGetter;
     resolveAccessToken = mod.resolveAccessToken;
+    resolveAuthIdentity = mod.resolveAuthIdentity;
     resolveLocale = mod.resolveLocale;
+    subscribeHttpEvents = mod.subscribeHttpEvents;
+    registerHttpInterceptor = (await import('../http.pipeline')).registerHttpInterceptor;
   });
 
   afterEach(() => {
@@ -138,6 +146,28 @@ describe('HTTP Interceptors Module', () => {
     });
   });
 
+  describe('configureHttpInterceptors disposer', () => {
+    it('restores the previous layer when a layer is disposed', () => {
+      configureHttpInterceptors({ getLocale: () => 'fr-FR' });
+      const dispose = configureHttpInterceptors({ getLocale: () => 'de-DE' });
+
+      expect(resolveLocale()).toBe('de-DE');
+
+      dispose();
+
+      expect(resolveLocale()).toBe('fr-FR');
+    });
+
+    it('keeps the latest layer when an earlier layer is disposed', () => {
+      const disposeEarlier = configureHttpInterceptors({ getAccessToken: () => 'earlier-token' });
+      configureHttpInterceptors({ getAccessToken: () => 'later-token' });
+
+      disposeEarlier();
+
+      expect(resolveAccessToken()).toBe('later-token');
+    });
+  });
+
   describe('registerTokenGetter', () => {
     it('should register token getter function', () => {
       const mockGetToken = jest.fn().mockReturnValue('registered-token');
@@ -205,35 +235,18 @@ describe('HTTP Interceptors Module', () => {
       expect(token).toBe('memory-token');
     });
 
-    // it('should fallback to sessionStorage when memory store returns null', () => {
-    //   const mockSessionStorage = {
-    //     getItem: jest.fn().mockReturnValue('session-token'),
-    //   };
-    //   globalThis.sessionStorage = mockSessionStorage as any;
-    //   globalThis.window = {} as any;
-
-    //   configureHttpInterceptors({ getAccessToken: () => null });
-
-    //   const token = resolveAccessToken();
-
-    //   expect(mockSessionStorage.getItem).toHaveBeenCalledWith('authToken');
-    //   expect(token).toBe('session-token');
-    // });
-
-    it('should return null when sessionStorage throws error', () => {
+    it('should not read tokens from sessionStorage', () => {
       const mockSessionStorage = {
-        getItem: jest.fn().mockImplementation(() => {
-          throw new Error('SessionStorage error');
-        }),
+        getItem: jest.fn().mockReturnValue('session-token'),
       };
       globalThis.sessionStorage = mockSessionStorage as any;
-      globalThis.window = {} as any;
 
       configureHttpInterceptors({ getAccessToken: () => null });
 
       const token = resolveAccessToken();
 
       expect(token).toBeNull();
+      expect(mockSessionStorage.getItem).not.toHaveBeenCalled();
     });
 
     it('should return null when window is undefined (SSR)', () => {
@@ -261,6 +274,23 @@ describe('HTTP Interceptors Module', () => {
     });
   });
 
+  describe('resolveAuthIdentity', () => {
+    it('prefers the configured user or session ID over the access token', () => {
+      configureHttpInterceptors({ getAccessToken: () => 'token-1' });
+      expect(resolveAuthIdentity()).toBe('token-1');
+
+      const dispose = configureHttpInterceptors({ getAuthIdentity: () => 'user-1' });
+      expect(resolveAuthIdentity()).toBe('user-1');
+
+      dispose();
+      expect(resolveAuthIdentity()).toBe('token-1');
+    });
+
+    it('returns null when signed out', () => {
+      expect(resolveAuthIdentity()).toBeNull();
+    });
+  });
+
   describe('resolveLocale', () => {
     it('should return locale from configured getter', () => {
       configureHttpInterceptors({ getLocale: () => 'ja-JP' });
@@ -344,36 +374,36 @@ describe('HTTP Interceptors Module', () => {
   });
 
   describe('attemptTokenRefresh', () => {
-    it('should return null when no refresh function configured', async () => {
+    it('should return false when no refresh function configured', async () => {
       configureHttpInterceptors({ refreshAccessToken: undefined });
 
       const result = await attemptTokenRefresh();
 
-      expect(result).toBeNull();
+      expect(result).toBe(false);
     });
 
-    it('should call refresh function and return new token', async () => {
-      const mockRefresh = jest.fn().mockResolvedValue('new-token');
+    it('should call refresh function and report the refreshed session', async () => {
+      const mockRefresh = jest.fn().mockResolvedValue(true);
       configureHttpInterceptors({ refreshAccessToken: mockRefresh });
 
       const result = await attemptTokenRefresh();
 
       expect(mockRefresh).toHaveBeenCalled();
-      expect(result).toBe('new-token');
+      expect(result).toBe(true);
     });
 
-    it('should return null when refresh function returns null', async () => {
-      const mockRefresh = jest.fn().mockResolvedValue(null);
+    it('should return false when refresh function finds no session', async () => {
+      const mockRefresh = jest.fn().mockResolvedValue(false);
       configureHttpInterceptors({ refreshAccessToken: mockRefresh });
 
       const result = await attemptTokenRefresh();
 
-      expect(result).toBeNull();
+      expect(result).toBe(false);
     });
 
     it('should deduplicate concurrent refresh calls', async () => {
-      let resolveRefresh: (value: string) => void;
-      const refreshPromise = new Promise<string>(resolve => {
+      let resolveRefresh: (value: boolean) => void;
+      const refreshPromise = new Promise<boolean>(resolve => {
         resolveRefresh = resolve;
       });
 
@@ -384,14 +414,14 @@ describe('HTTP Interceptors Module', () => {
       const refreshPromises = Promise.all([attemptTokenRefresh(), attemptTokenRefresh(), attemptTokenRefresh()]);
 
       // Resolve the refresh after starting all calls
-      resolveRefresh!('refreshed-token');
+      resolveRefresh!(true);
       const [result1, result2, result3] = await refreshPromises;
 
       // Should only call refresh function once
       expect(mockRefresh).toHaveBeenCalledTimes(1);
-      expect(result1).toBe('refreshed-token');
-      expect(result2).toBe('refreshed-token');
-      expect(result3).toBe('refreshed-token');
+      expect(result1).toBe(true);
+      expect(result2).toBe(true);
+      expect(result3).toBe(true);
     });
 
     it('should handle refresh function errors', async () => {
@@ -552,6 +582,87 @@ describe('HTTP Interceptors Module', () => {
     });
   });
 
+  describe('pipeline integration', () => {
+    it('runs feature interceptors alongside the built-in ones', async () => {
+      const dispose = registerHttpInterceptor({
+        name: 'tenant',
+        priority: 250,
+        onRequest: ({ headers }) => headers.set('X-Tenant', 'acme'),
+      });
+
+      const [, options] = await applyRequestInterceptors('/api/test', { method: 'GET' }, {});
+      dispose();
+      const [, withoutTenant] = await applyRequestInterceptors('/api/test', { method: 'GET' }, {});
+
+      expect((options.headers as Headers).get('X-Tenant')).toBe('acme');
+      expect((options.headers as Headers).get('X-Client')).toBe('web');
+      expect((withoutTenant.headers as Headers).get('X-Tenant')).toBeNull();
+    });
+
+    it('logs request, response and error events through the logging interceptor', async () => {
+      const mockLogger = jest.fn();
+      configureHttpInterceptors({ logger: mockLogger });
+      mockHandleError.mockImplementation(error => error);
+
+      await applyRequestInterceptors('/api/logged', { method: 'POST' }, { correlationId: 'log-1' }, 2);
+      await applyResponseInterceptors({ status: 200, headers: new Headers({ 'content-length': '42' }) } as Response, { correlationId: 'log-1' }, 2, {
+        url: '/api/logged',
+        method: 'POST',
+        durationMs: 12,
+      });
+      const failure = new Error('boom');
+      expect(() => interceptHttpError(failure, { correlationId: 'log-1' }, { url: '/api/logged', method: 'POST' })).toThrow();
+
+      expect(mockLogger).toHaveBeenCalledWith({ type: 'request', method: 'POST', url: '/api/logged', correlationId: 'log-1', attempt: 2 });
+      expect(mockLogger).toHaveBeenCalledWith({
+        type: 'response',
+        method: 'POST',
+        url: '/api/logged',
+        status: 200,
+        correlationId: 'log-1',
+        durationMs: 12,
+        attempt: 2,
+        size: 42,
+      });
+      expect(mockLogger).toHaveBeenCalledWith({ type: 'error', method: 'POST', url: '/api/logged', correlationId: 'log-1', error: failure });
+    });
+
+    it('redacts events before they reach the logger and subscribers', () => {
+      const mockLogger = jest.fn();
+      const listener = jest.fn();
+      configureHttpInterceptors({ logger: mockLogger });
+      const unsubscribe = subscribeHttpEvents(listener);
+      const error = new AppError(ErrorCode.BAD_REQUEST, 'Invalid OTP', 400, { code: '123456', email: 'a@b.c' });
+
+      logHttpEvent({ type: 'error', method: 'POST', url: '/api/v1/auth/verify-otp?token=abc', correlationId: 'otp-1', error });
+      unsubscribe();
+
+      const [[logged]] = mockLogger.mock.calls as [[Extract<HttpLogEvent, { type: 'error' }>]];
+      expect(logged.url).toBe('/api/v1/auth/verify-otp?token=[REDACTED]');
+      expect(logged.error).toMatchObject({ code: ErrorCode.BAD_REQUEST, details: { code: '[REDACTED]', email: 'a@b.c' } });
+      expect(listener).toHaveBeenCalledWith(logged);
+      expect(error.details).toEqual({ code: '123456', email: 'a@b.c' });
+    });
+
+    it('forwards events to subscribers until they unsubscribe', async () => {
+      const listener = jest.fn();
+      const failingListener = jest.fn(() => {
+        throw new Error('listener failure');
+      });
+      const unsubscribe = subscribeHttpEvents(listener);
+      const unsubscribeFailing = subscribeHttpEvents(failingListener);
+
+      await applyRequestInterceptors('/api/subscribed', { method: 'POST', body: '{"a":1}' }, { correlationId: 'sub-1' });
+      unsubscribe();
+      unsubscribeFailing();
+      logHttpEvent({ type: 'request', method: 'GET', url: '/api/ignored', attempt: 0 });
+
+      expect(listener).toHaveBeenCalledTimes(1);
+      expect(listener).toHaveBeenCalledWith({ type: 'request', method: 'POST', url: '/api/subscribed', correlationId: 'sub-1', attempt: 0, size: 7 });
+      expect(failingListener).toHaveBeenCalledTimes(1);
+    });
+  });
+
   describe('applyResponseInterceptors', () => {
     const createResponse = (status: number): Response => ({ status }) as Response;
 
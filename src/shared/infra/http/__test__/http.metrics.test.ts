@@ -0,0 +1,73 @@
+import { CancelledError, NetworkError } from '@/shared/infra/errors/appError';
+
+import { logHttpEvent } from '../http.interceptors';
+import { computePercentile, createHttpMetricsCollector } from '../http.metrics';
+
+describe('http.metrics', () => {
+  describe('computePercentile', () => {
+    it('returns the nearest-rank percentile', () => {
+      const samples = [50, 10, 40, 20, 30];
+
+      expect(computePercentile(samples, 50)).toBe(30);
+      expect(computePercentile(samples, 95)).toBe(50);
+      expect(computePercentile(samples, 0)).toBe(10);
+      expect(computePercentile([], 95)).toBe(0);
+    });
+  });
+
+  describe('createHttpMetricsCollector', () => {
+    it('aggregates requests, retries, errors and sizes per route template', () => {
+      const metrics = createHttpMetricsCollector();
+
+      metrics.record({ type: 'request', method: 'get', url: '/api/v1/projects/1', attempt: 0, size: 100 });
+      metrics.record({ type: 'request', method: 'GET', url: '/api/v1/projects/1', attempt: 1, size: 100 });
+      metrics.record({ type: 'response', method: 'GET', url: '/api/v1/projects/1', status: 200, durationMs: 40, size: 1000 });
+      metrics.record({ type: 'request', method: 'GET', url: '/api/v1/projects/2', attempt: 0 });
+      metrics.record({ type: 'response', method: 'GET', url: '/api/v1/projects/2', status: 500, durationMs: 80 });
+      metrics.record({ type: 'error', method: 'GET', url: '/api/v1/projects/2', error: new NetworkError() });
+
+      expect(metrics.getSnapshot()).toEqual([
+        {
+          route: 'GET /api/v1/projects/:id',
+          requests: 2,
+          attempts: 3,
+          retries: 1,
+          errors: 1,
+          errorRate: 0.5,
+          latency: { p50: 40, p90: 80, p95: 80, p99: 80, max: 80 },
+          averageRequestBytes: 100,
+          averageResponseBytes: 1000,
+        },
+      ]);
+    });
+
+    it('does not count cancellations as errors and keeps a sliding latency window', () => {
+      const metrics = createHttpMetricsCollector({ maxSamples: 2 });
+
+      metrics.record({ type: 'request', method: 'GET', url: '/api/v1/products', attempt: 0 });
+      metrics.record({ type: 'error', method: 'GET', url: '/api/v1/products', error: new CancelledError() });
+      for (const durationMs of [500, 20, 30]) {
+        metrics.record({ type: 'response', method: 'GET', url: '/api/v1/products', status: 200, durationMs });
+      }
+
+      const [route] = metrics.getSnapshot();
+      expect(route.errors).toBe(0);
+      expect(route.latency?.max).toBe(30);
+    });
+
+    it('sorts routes by p95 and records the event stream between start and stop', () => {
+      const metrics = createHttpMetricsCollector();
+      const stop = metrics.start();
+
+      logHttpEvent({ type: 'response', method: 'GET', url: '/api/v1/products', status: 200, durationMs: 10 });
+      logHttpEvent({ type: 'response', method: 'POST', url: '/api/v1/projects', status: 201, durationMs: 90 });
+      stop();
+      logHttpEvent({ type: 'response', method: 'GET', url: '/api/v1/users', status: 200, durationMs: 500 });
+
+      expect(metrics.getSnapshot().map(route => route.route)).toEqual(['POST /api/v1/projects', 'GET /api/v1/products']);
+
+      metrics.reset();
+      expect(metrics.getSnapshot()).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,259 @@
+import { TextDecoder, TextEncoder } from 'node:util';
+
+import { productListSchema } from '@/app/[locale]/(protected)/products/model/products.schemas';
+import { profileSchema } from '@/app/[locale]/(protected)/profile/(_lib)/model/profile.schemas';
+import { projectListBodySchema, projectSchema } from '@/app/[locale]/(protected)/dashboard/(_lib)/model/projects.schemas';
+import { userListResponseSchema } from '@/app/[locale]/(protected)/dashboard/(_lib)/model/users.schemas';
+import { signInResponseSchema } from '@/app/[locale]/(public)/auth/(_lib)/model/auth.schemas';
+import { API_ROUTES } from '@/shared/config/api';
+import { envelope as envelopeSchema } from '@/shared/infra/http/http.envelope';
+
+import { createMockTransport, envelope, errorEnvelope, MOCK_PASSWORD, mockDb, mockHandlers, resetMockDb } from '../mocks';
+
+// jsdom does not provide Response, so expose just what the tests read
+class FakeResponse {
+  readonly status: number;
+  readonly headers: Headers;
+
+  constructor(
+    private readonly body: string | null,
+    init: { status: number; headers?: HeadersInit }
+  ) {
+    this.status = init.status;
+    this.headers = new Headers(init.headers);
+  }
+
+  async json(): Promise<unknown> {
+    return JSON.parse(this.body ?? 'null') as unknown;
+  }
+
+  async text(): Promise<string> {
+    return this.body ?? '';
+  }
+}
+
+const transport = createMockTransport(mockHandlers, { latencyMs: 0 });
+
+const send = async (method: string, url: string, { body, token }: { body?: unknown; token?: string } = {}) => {
+  const response = (await transport(
+    url,
+    {
+      method,
+      headers: token ? { Authorization: `Bearer ${token}` } : {},
+      body: body === undefined ? undefined : JSON.stringify(body),
+    },
+    {}
+  )) as unknown as FakeResponse;
+
+  return { status: response.status, body: response.status === 204 ? undefined : ((await response.json()) as Record<string, any>) };
+};
+
+const signIn = async (email = 'admin@grow-ps.com') => {
+  const { body } = await send('POST', API_ROUTES.auth.login, { body: { email, password: MOCK_PASSWORD } });
+  return body!.body as { accessToken: string; refreshToken: string };
+};
+
+describe('mock backend', () => {
+  const originalResponse = globalThis.Response;
+  const originalTextEncoder = globalThis.TextEncoder;
+  const originalTextDecoder = globalThis.TextDecoder;
+
+  beforeAll(() => {
+    // jsdom does not provide Response, TextEncoder or TextDecoder
+    globalThis.Response = FakeResponse as unknown as typeof Response;
+    globalThis.TextEncoder = TextEncoder as unknown as typeof globalThis.TextEncoder;
+    globalThis.TextDecoder = TextDecoder as unknown as typeof globalThis.TextDecoder;
+  });
+
+  afterAll(() => {
+    globalThis.Response = originalResponse;
+    globalThis.TextEncoder = originalTextEncoder;
+    globalThis.TextDecoder = originalTextDecoder;
+  });
+
+  beforeEach(() => {
+    resetMockDb();
+  });
+
+  describe('createMockTransport', () => {
+    it('passes path params, query and JSON body to the matching handler', async () => {
+      const handler = jest.fn(() => ({ body: { ok: true } }));
+      const routes = { 'PUT /api/v1/items/:id': handler };
+
+      const response = await createMockTransport(routes, { latencyMs: 0 })(
+        'http://localhost/api/v1/items/42?draft=true',
+        { method: 'put', body: '{"name":"Item"}' },
+        {}
+      );
+
+      expect(response.status).toBe(200);
+      expect(handler).toHaveBeenCalledWith(expect.objectContaining({ method: 'PUT', params: { id: '42' }, body: { name: 'Item' } }));
+      const [[request]] = handler.mock.calls as unknown as [[{ query: URLSearchParams }]];
+      expect(request.query.get('draft')).toBe('true');
+    });
+
+    it('captures the trailing wildcard', async () => {
+      const handler = jest.fn(() => ({ status: 200 }));
+
+      await createMockTransport({ 'PUT /files/*': handler }, { latencyMs: 0 })('/files/uploads/avatar/a.png', { method: 'PUT' }, {});
+
+      expect(handler).toHaveBeenCalledWith(expect.objectContaining({ params: { '*': 'uploads/avatar/a.png' } }));
+    });
+
+    it('answers 404 for unmatched routes and 500 when a handler throws', async () => {
+      const failingTransport = createMockTransport(
+        {
+          'GET /broken': () => {
+            throw new Error('boom');
+          },
+        },
+        { latencyMs: 0 }
+      );
+
+      const notFound = (await failingTransport('/missing', {}, {})) as unknown as FakeResponse;
+      const failed = (await failingTransport('/broken', {}, {})) as unknown as FakeResponse;
+
+      expect(notFound.status).toBe(404);
+      expect(await notFound.json()).toEqual(expect.objectContaining({ success: false, status_code: 404 }));
+      expect(failed.status).toBe(500);
+      expect(await failed.json()).toEqual({ status_code: 500, message: 'boom', success: false, body: null });
+    });
+
+    it('rejects with the abort reason during the simulated latency', async () => {
+      const controller = new AbortController();
+      const pending = createMockTransport({}, { latencyMs: 1000 })('/slow', { signal: controller.signal }, {});
+
+      controller.abort(new Error('cancelled'));
+
+      await expect(pending).rejects.toThrow('cancelled');
+    });
+
+    it('builds backend envelopes', () => {
+      expect(envelope({ id: '1' }, 'Created', 201)).toEqual({
+        status: 201,
+        body: { status_code: 201, message: 'Created', success: true, body: { id: '1' } },
+      });
+      expect(errorEnvelope(409, 'Conflict').body).toEqual({ status_code: 409, message: 'Conflict', success: false, body: null });
+    });
+  });
+
+  describe('handlers', () => {
+    it('signs in seeded accounts with the sign-in envelope', async () => {
+      const { status, body } = await send('POST', API_ROUTES.auth.login, { body: { email: 'ADMIN@grow-ps.com', password: MOCK_PASSWORD } });
+
+      expect(status).toBe(200);
+      const session = envelopeSchema(signInResponseSchema).parse(body).body;
+      expect(session.user).toEqual(expect.objectContaining({ email: 'admin@grow-ps.com', role: 'admin' }));
+      expect(session.user).not.toHaveProperty('password');
+      expect(session.expiresAt).toBeGreaterThan(Date.now());
+    });
+
+    it('rejects wrong credentials', async () => {
+      const { status, body } = await send('POST', API_ROUTES.auth.login, { body: { email: 'admin@grow-ps.com', password: 'wrong-password' } });
+
+      expect(status).toBe(401);
+      expect(body).toEqual(expect.objectContaining({ success: false, message: 'Invalid email or password' }));
+    });
+
+    it('requires a valid access token on protected routes', async () => {
+      const anonymous = await send('GET', API_ROUTES.auth.me);
+      const { accessToken, refreshToken } = await signIn();
+      const withRefreshToken = await send('GET', API_ROUTES.auth.me, { token: refreshToken });
+      const signedIn = await send('GET', API_ROUTES.auth.me, { token: accessToken });
+
+      expect(anonymous.status).toBe(401);
+      expect(withRefreshToken.status).toBe(401);
+      expect(signedIn.body).toEqual(expect.objectContaining({ id: 'account-1', email: 'admin@grow-ps.com' }));
+    });
+
+    it('issues new tokens for a valid refresh token', async () => {
+      const { refreshToken } = await signIn();
+
+      const refreshed = await send('POST', API_ROUTES.auth.refresh, { body: { refreshToken } });
+      const rejected = await send('POST', API_ROUTES.auth.refresh, { body: { refreshToken: 'not-a-token' } });
+
+      expect(envelopeSchema(signInResponseSchema).parse(refreshed.body).body.accessToken).toEqual(expect.any(String));
+      expect(rejected.status).toBe(401);
+    });
+
+    it('lists, filters and creates projects in the backend envelope', async () => {
+      const { accessToken } = await signIn();
+
+      const firstPage = await send('GET', `${API_ROUTES.projects.list}?page=1&limit=2`, { token: accessToken });
+      const created = await send('POST', API_ROUTES.projects.list, { token: accessToken, body: { name: 'Mock project' } });
+      const filtered = await send('GET', `${API_ROUTES.projects.list}?name=mock`, { token: accessToken });
+
+      const list = envelopeSchema(projectListBodySchema).parse(firstPage.body);
+      expect(list.body).toEqual(expect.objectContaining({ totalDocs: 4, totalPages: 2, hasNextPage: true, nextPage: 2 }));
+      expect(list.body.docs).toHaveLength(2);
+
+      expect(created.status).toBe(201);
+      expect(envelopeSchema(projectSchema).parse(created.body).body).toEqual(
+        expect.objectContaining({ name: 'Mock project', creatorId: 'account-1', creator: expect.objectContaining({ email: 'admin@grow-ps.com' }) })
+      );
+      expect(
+        envelopeSchema(projectListBodySchema)
+          .parse(filtered.body)
+          .body.docs.map(project => project.name)
+      ).toEqual(['Mock project']);
+    });
+
+    it('updates projects and answers 404 for unknown ones', async () => {
+      const { accessToken } = await signIn();
+
+      const updated = await send('PUT', API_ROUTES.projects.byId('project-1'), { token: accessToken, body: { name: 'Renamed' } });
+      const missing = await send('PUT', API_ROUTES.projects.byId('unknown'), { token: accessToken, body: { name: 'Renamed' } });
+
+      expect(envelopeSchema(projectSchema).parse(updated.body).body.name).toBe('Renamed');
+      expect(missing.status).toBe(404);
+    });
+
+    it('serves products and profile updates in their service shapes', async () => {
+      const { accessToken } = await signIn('user@grow-ps.com');
+
+      const products = await send('GET', API_ROUTES.products.list, { token: accessToken });
+      const profile = await send('PUT', API_ROUTES.users.profile, { token: accessToken, body: { fullName: 'Updated Name' } });
+
+      expect(productListSchema.parse(products.body)).toHaveLength(mockDb.products.length);
+      expect(profileSchema.parse(profile.body)).toEqual(expect.objectContaining({ fullName: 'Updated Name', role: 'user' }));
+    });
+
+    it('filters products and users by multi-value status parameters', async () => {
+      const { accessToken } = await signIn();
+
+      const products = await send('GET', `${API_ROUTES.products.list}?status=draft&status=archived`, { token: accessToken });
+      const users = await send('GET', `${API_ROUTES.users.list}?status=inactive&pageSize=50`, { token: accessToken });
+
+      expect(productListSchema.parse(products.body).map(product => product.status)).toEqual(['draft', 'archived']);
+      const { items } = userListResponseSchema.parse(users.body);
+      expect(items.length).toBeGreaterThan(0);
+      expect(items.every(user => user.status === 'inactive')).toBe(true);
+    });
+
+    it('exports projects as a CSV attachment', async () => {
+      const { accessToken } = await signIn();
+      const headers = { Authorization: `Bearer ${accessToken}` };
+
+      const response = (await transport(`${API_ROUTES.projects.export}?format=csv`, { method: 'GET', headers }, {})) as unknown as FakeResponse;
+      const unsupported = await send('GET', `${API_ROUTES.users.export}?format=xlsx`, { token: accessToken });
+
+      expect(response.headers.get('content-disposition')).toBe('attachment; filename="projects.csv"');
+      expect((await response.text()).split('\r\n')).toHaveLength(mockDb.projects.length + 1);
+      expect(unsupported.status).toBe(400);
+    });
+
+    it('hands out presigned URLs that the mock S3 upload accepts', async () => {
+      const { accessToken } = await signIn();
+
+      const presigned = await send('GET', `${API_ROUTES.s3.presignedUrl}?prefix=uploads/avatar&file_type=png&content_type=image/png`, {
+        token: accessToken,
+      });
+      const presignedUrl = presigned.body!.data.presigned_url as string;
+      const upload = await transport(presignedUrl, { method: 'PUT', body: 'binary' }, {});
+
+      expect(presigned.body).toEqual(expect.objectContaining({ success: true }));
+      expect(presignedUrl).toMatch(/\/mock-s3\/uploads\/avatar\/file-\d+\.png\?/);
+      expect(upload.status).toBe(200);
+    });
+  });
+});
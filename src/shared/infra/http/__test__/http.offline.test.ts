@@ -0,0 +1,221 @@
+import { AppError, CircuitOpenError, NetworkError, TimeoutError } from '@/shared/infra/errors/appError';
+import { ErrorCode } from '@/shared/infra/errors/error-codes';
+
+import { getHttpCacheGeneration, readCachedResponse, storeCachedResponse } from '../http.cache';
+import { http } from '../http.client';
+import {
+  clearOfflineQueue,
+  enqueueOfflineRequest,
+  getOfflineQueue,
+  OFFLINE_QUEUE_STORAGE_KEY,
+  replayOfflineQueue,
+  shouldQueueWhenOffline,
+  startOfflineQueueSync,
+  subscribeOfflineQueue,
+} from '../http.offline';
+
+jest.mock('../http.client', () => ({
+  http: jest.fn(),
+}));
+
+const httpMock = http as jest.Mock;
+
+let nextId = 0;
+const generateId = () => `queued-${++nextId}`;
+
+const enqueue = (path: string, body: unknown = { name: path }) =>
+  enqueueOfflineRequest(
+    path,
+    { method: 'PUT', body, headers: { 'Idempotency-Key': `key-${path}` } },
+    { idempotent: true, signal: new AbortController().signal },
+    generateId
+  );
+
+describe('http.offline', () => {
+  let onLine: jest.SpyInstance;
+
+  beforeEach(() => {
+    localStorage.clear();
+    httpMock.mockReset();
+    onLine = jest.spyOn(navigator, 'onLine', 'get').mockReturnValue(true);
+  });
+
+  afterEach(() => {
+    onLine.mockRestore();
+  });
+
+  describe('shouldQueueWhenOffline', () => {
+    it('only queues opted-in mutations with a JSON body', () => {
+      expect(shouldQueueWhenOffline('PUT', { queueWhenOffline: true }, { name: 'Project' })).toBe(true);
+      expect(shouldQueueWhenOffline('delete', { queueWhenOffline: true }, undefined)).toBe(true);
+      expect(shouldQueueWhenOffline('PUT', {}, { name: 'Project' })).toBe(false);
+      expect(shouldQueueWhenOffline('GET', { queueWhenOffline: true }, undefined)).toBe(false);
+      expect(shouldQueueWhenOffline('POST', { queueWhenOffline: true }, new Blob(['file']))).toBe(false);
+      expect(shouldQueueWhenOffline('POST', { queueWhenOffline: true }, { name: 'Project', image: new Blob(['file']) })).toBe(false);
+    });
+  });
+
+  describe('enqueueOfflineRequest', () => {
+    it('persists the request with its persistable metadata and notifies subscribers', () => {
+      const listener = jest.fn();
+      const unsubscribe = subscribeOfflineQueue(listener);
+
+      const entry = enqueue('/api/v1/projects/1');
+      unsubscribe();
+
+      expect(entry).toEqual(
+        expect.objectContaining({
+          path: '/api/v1/projects/1',
+          method: 'PUT',
+          body: { name: '/api/v1/projects/1' },
+          headers: { 'Idempotency-Key': 'key-/api/v1/projects/1' },
+          meta: expect.not.objectContaining({ signal: expect.anything() }),
+        })
+      );
+      expect(JSON.parse(localStorage.getItem(OFFLINE_QUEUE_STORAGE_KEY) ?? '[]')).toEqual([entry]);
+      expect(listener).toHaveBeenCalledWith({ type: 'queued', entry });
+    });
+
+    it('keeps requests in the order they were queued', () => {
+      enqueue('/first');
+      enqueue('/second');
+
+      expect(getOfflineQueue().map(entry => entry.path)).toEqual(['/first', '/second']);
+    });
+  });
+
+  describe('replayOfflineQueue', () => {
+    it('replays requests in order and reports their outcome', async () => {
+      const first = enqueue('/first');
+      const second = enqueue('/second');
+      const rejection = new AppError(ErrorCode.BAD_REQUEST, undefined, 400);
+      httpMock.mockResolvedValueOnce({ ok: true }).mockRejectedValueOnce(rejection);
+      const listener = jest.fn();
+      const unsubscribe = subscribeOfflineQueue(listener);
+
+      await replayOfflineQueue();
+      unsubscribe();
+
+      expect(httpMock.mock.calls.map(([path]) => path)).toEqual(['/first', '/second']);
+      expect(httpMock).toHaveBeenCalledWith('/first', {
+        method: 'PUT',
+        body: { name: '/first' },
+        params: undefined,
+        headers: { 'Idempotency-Key': 'key-/first' },
+        meta: expect.objectContaining({ idempotent: true, queueWhenOffline: false, showErrorNotification: false, showGlobalLoading: false }),
+      });
+      expect(listener.mock.calls).toEqual([
+        [{ type: 'synced', entry: first, data: { ok: true } }],
+        [{ type: 'failed', entry: second, error: rejection }],
+      ]);
+      expect(getOfflineQueue()).toEqual([]);
+      expect(localStorage.getItem(OFFLINE_QUEUE_STORAGE_KEY)).toBeNull();
+    });
+
+    it('drops cached responses once a replayed request is synced', async () => {
+      enqueue('/api/v1/projects/42');
+      storeCachedResponse(
+        { key: 'projects', url: 'http://localhost/api/v1/projects?page=1', ttlMs: 60_000, generation: getHttpCacheGeneration() },
+        { total: 1 }
+      );
+      httpMock.mockResolvedValueOnce({ ok: true });
+
+      await replayOfflineQueue();
+
+      expect(readCachedResponse('projects')).toBeUndefined();
+    });
+
+    it('stops and keeps the remaining requests when the backend is unreachable again', async () => {
+      enqueue('/first');
+      enqueue('/second');
+      httpMock.mockResolvedValueOnce(undefined).mockRejectedValueOnce(new NetworkError());
+
+      await replayOfflineQueue();
+
+      expect(httpMock).toHaveBeenCalledTimes(2);
+      expect(getOfflineQueue().map(entry => entry.path)).toEqual(['/second']);
+    });
+
+    it('keeps the request when the backend fails transiently during the replay', async () => {
+      enqueue('/first');
+      enqueue('/second');
+      const listener = jest.fn();
+      const unsubscribe = subscribeOfflineQueue(listener);
+
+      for (const error of [new AppError(ErrorCode.SERVICE_UNAVAILABLE, undefined, 503), new TimeoutError(), new CircuitOpenError('api', 1_000)]) {
+        httpMock.mockRejectedValueOnce(error);
+        await replayOfflineQueue();
+      }
+      unsubscribe();
+
+      expect(httpMock.mock.calls.map(([path]) => path)).toEqual(['/first', '/first', '/first']);
+      expect(getOfflineQueue().map(entry => entry.path)).toEqual(['/first', '/second']);
+      expect(listener).not.toHaveBeenCalled();
+    });
+
+    it('does not replay while the browser is offline', async () => {
+      enqueue('/first');
+      onLine.mockReturnValue(false);
+
+      await replayOfflineQueue();
+
+      expect(httpMock).not.toHaveBeenCalled();
+      expect(getOfflineQueue()).toHaveLength(1);
+    });
+
+    it('shares a running replay between concurrent calls', async () => {
+      enqueue('/first');
+      httpMock.mockResolvedValue(undefined);
+
+      await Promise.all([replayOfflineQueue(), replayOfflineQueue()]);
+
+      expect(httpMock).toHaveBeenCalledTimes(1);
+    });
+
+    it('leaves the replay to the tab holding the replay lease', async () => {
+      enqueue('/first');
+      localStorage.setItem('app:offline-replay-lease', JSON.stringify({ owner: 'other-tab', expiresAt: Date.now() + 10_000 }));
+
+      await replayOfflineQueue();
+
+      expect(httpMock).not.toHaveBeenCalled();
+      expect(getOfflineQueue()).toHaveLength(1);
+    });
+  });
+
+  describe('startOfflineQueueSync', () => {
+    it('replays queued requests on start and when the browser comes back online', async () => {
+      httpMock.mockResolvedValue(undefined);
+      enqueue('/queued-before-reload');
+
+      const stopSync = startOfflineQueueSync();
+      await replayOfflineQueue();
+      expect(httpMock).toHaveBeenCalledTimes(1);
+
+      enqueue('/queued-while-offline');
+      globalThis.window.dispatchEvent(new Event('online'));
+      await replayOfflineQueue();
+      expect(httpMock).toHaveBeenLastCalledWith('/queued-while-offline', expect.anything());
+
+      stopSync();
+      enqueue('/after-stop');
+      globalThis.window.dispatchEvent(new Event('online'));
+      await new Promise(resolve => setTimeout(resolve, 0));
+      expect(httpMock).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('clearOfflineQueue', () => {
+    it('drops every queued request and notifies subscribers', () => {
+      enqueue('/first');
+      const listener = jest.fn();
+      const unsubscribe = subscribeOfflineQueue(listener);
+
+      clearOfflineQueue();
+      unsubscribe();
+
+      expect(getOfflineQueue()).toEqual([]);
+      expect(listener).toHaveBeenCalledWith({ type: 'cleared' });
+    });
+  });
+});
@@ -0,0 +1,100 @@
+import {
+  getHttpInterceptors,
+  type HttpRequestContext,
+  registerHttpInterceptor,
+  runErrorInterceptors,
+  runRequestInterceptors,
+  runResponseInterceptors,
+  unregisterHttpInterceptor,
+} from '../http.pipeline';
+
+const createRequestContext = (): HttpRequestContext => ({
+  url: '/api/test',
+  method: 'GET',
+  headers: new Headers(),
+  options: {},
+  meta: {},
+  attempt: 0,
+});
+
+const responseContext = { url: '/api/test', method: 'GET', meta: {}, attempt: 0, durationMs: 5 };
+
+describe('http.pipeline', () => {
+  afterEach(() => {
+    for (const interceptor of getHttpInterceptors()) {
+      unregisterHttpInterceptor(interceptor.name);
+    }
+  });
+
+  it('runs request interceptors by ascending priority and keeps registration order for ties', async () => {
+    const calls: string[] = [];
+    registerHttpInterceptor({ name: 'late', priority: 20, onRequest: () => void calls.push('late') });
+    registerHttpInterceptor({ name: 'early', priority: 10, onRequest: () => void calls.push('early') });
+    registerHttpInterceptor({ name: 'tie', priority: 20, onRequest: () => void calls.push('tie') });
+
+    await runRequestInterceptors(createRequestContext());
+
+    expect(calls).toEqual(['early', 'late', 'tie']);
+  });
+
+  it('lets request interceptors mutate headers and rewrite the url', async () => {
+    registerHttpInterceptor({
+      name: 'tenant',
+      onRequest: context => {
+        context.headers.set('X-Tenant', 'acme');
+        context.url = `${context.url}?tenant=acme`;
+      },
+    });
+
+    const context = await runRequestInterceptors(createRequestContext());
+
+    expect(context.headers.get('X-Tenant')).toBe('acme');
+    expect(context.url).toBe('/api/test?tenant=acme');
+  });
+
+  it('runs response interceptors in reverse order and allows replacing the response', async () => {
+    const calls: string[] = [];
+    const replacement = { status: 299 } as Response;
+    registerHttpInterceptor({ name: 'first', priority: 1, onResponse: () => void calls.push('first') });
+    registerHttpInterceptor({
+      name: 'second',
+      priority: 2,
+      onResponse: () => {
+        calls.push('second');
+        return replacement;
+      },
+    });
+
+    const result = await runResponseInterceptors({ status: 200 } as Response, responseContext);
+
+    expect(calls).toEqual(['second', 'first']);
+    expect(result).toBe(replacement);
+  });
+
+  it('lets error interceptors replace the error', () => {
+    const replaced = new Error('replaced');
+    registerHttpInterceptor({ name: 'observer', priority: 1, onError: jest.fn() });
+    registerHttpInterceptor({ name: 'mapper', priority: 2, onError: () => replaced });
+
+    expect(runErrorInterceptors(new Error('original'), {})).toBe(replaced);
+  });
+
+  it('replaces interceptors with the same name and ignores stale disposers', () => {
+    const firstDispose = registerHttpInterceptor({ name: 'shared', onRequest: jest.fn() });
+    const second = { name: 'shared', onRequest: jest.fn() };
+    registerHttpInterceptor(second);
+
+    firstDispose();
+
+    expect(getHttpInterceptors()).toEqual([second]);
+  });
+
+  it('removes the interceptor through its disposer', () => {
+    const dispose = registerHttpInterceptor({ name: 'temporary', onRequest: jest.fn() });
+
+    dispose();
+
+    expect(getHttpInterceptors()).toHaveLength(0);
+    expect(unregisterHttpInterceptor('temporary')).toBe(false);
+  });
+});
@@ -0,0 +1,199 @@
+import { createProgressReporter, getProgressHandlers, sendWithProgress, shouldTrackProgress } from '../http.progress';
+
+type Listener = (event: ProgressEvent) => void;
+
+class FakeEventTarget {
+  private readonly listeners = new Map<string, Listener[]>();
+
+  addEventListener(type: string, listener: Listener): void {
+    this.listeners.set(type, [...(this.listeners.get(type) ?? []), listener]);
+  }
+
+  emit(type: string, event: Partial<ProgressEvent> = {}): void {
+    for (const listener of this.listeners.get(type) ?? []) listener(event as ProgressEvent);
+  }
+}
+
+class FakeXMLHttpRequest extends FakeEventTarget {
+  static instances: FakeXMLHttpRequest[] = [];
+
+  upload = new FakeEventTarget();
+  method?: string;
+  url?: string;
+  responseType = '';
+  withCredentials = false;
+  requestHeaders: Record<string, string> = {};
+  sentBody: unknown;
+  status = 0;
+  statusText = '';
+  response: unknown = null;
+  responseHeaders = '';
+  abort = jest.fn(() => this.emit('abort'));
+
+  constructor() {
+    super();
+    FakeXMLHttpRequest.instances.push(this);
+  }
+
+  open(method: string, url: string): void {
+    this.method = method;
+    this.url = url;
+  }
+
+  setRequestHeader(name: string, value: string): void {
+    this.requestHeaders[name] = value;
+  }
+
+  getAllResponseHeaders(): string {
+    return this.responseHeaders;
+  }
+
+  send(body: unknown): void {
+    this.sentBody = body;
+  }
+
+  respond(status: number, response: unknown, responseHeaders = ''): void {
+    this.status = status;
+    this.statusText = status === 200 ? 'OK' : 'Error';
+    this.response = response;
+    this.responseHeaders = responseHeaders;
+    this.emit('load');
+  }
+}
+
+// jsdom does not provide Response, so record what the transport builds
+class FakeResponse {
+  constructor(
+    readonly body: unknown,
+    readonly init: ResponseInit & { headers: Headers }
+  ) {}
+}
+
+const latestRequest = () => FakeXMLHttpRequest.instances.at(-1)!;
+
+describe('http.progress', () => {
+  const originalXMLHttpRequest = globalThis.XMLHttpRequest;
+  const originalResponse = globalThis.Response;
+
+  beforeEach(() => {
+    FakeXMLHttpRequest.instances = [];
+    globalThis.XMLHttpRequest = FakeXMLHttpRequest as unknown as typeof XMLHttpRequest;
+    globalThis.Response = FakeResponse as unknown as typeof Response;
+  });
+
+  afterEach(() => {
+    globalThis.XMLHttpRequest = originalXMLHttpRequest;
+    globalThis.Response = originalResponse;
+    jest.useRealTimers();
+  });
+
+  describe('createProgressReporter', () => {
+    it('reports percentage and average speed', () => {
+      jest.useFakeTimers({ now: 0 });
+      const handler = jest.fn();
+      const report = createProgressReporter(handler);
+
+      jest.advanceTimersByTime(2000);
+      report(500, 1000);
+
+      expect(handler).toHaveBeenCalledWith({ loaded: 500, total: 1000, percent: 50, bytesPerSecond: 250 });
+    });
+
+    it('omits total and percentage when the size is unknown', () => {
+      const handler = jest.fn();
+      createProgressReporter(handler)(10, 0);
+
+      expect(handler).toHaveBeenCalledWith({ loaded: 10, total: undefined, percent: undefined, bytesPerSecond: 0 });
+    });
+  });
+
+  describe('shouldTrackProgress', () => {
+    it('only tracks requests with a progress callback', () => {
+      expect(shouldTrackProgress({})).toBe(false);
+      expect(shouldTrackProgress({ onDownloadProgress: jest.fn() })).toBe(true);
+    });
+
+    it('falls back to fetch when XMLHttpRequest is unavailable', () => {
+      // Simulate a server environment
+      Reflect.deleteProperty(globalThis, 'XMLHttpRequest');
+
+      expect(shouldTrackProgress({ onUploadProgress: jest.fn() })).toBe(false);
+    });
+
+    it('picks the progress callbacks from the request metadata', () => {
+      const onUploadProgress = jest.fn();
+      expect(getProgressHandlers({ retry: 1, onUploadProgress })).toEqual({ onUploadProgress, onDownloadProgress: undefined });
+    });
+  });
+
+  describe('sendWithProgress', () => {
+    it('sends method, headers, body and credentials through XMLHttpRequest', () => {
+      void sendWithProgress('/api/upload', { method: 'PUT', headers: { 'Content-Type': 'image/png' }, body: 'data', credentials: 'include' }, {});
+      const request = latestRequest();
+
+      expect(request.method).toBe('PUT');
+      expect(request.url).toBe('/api/upload');
+      expect(request.responseType).toBe('blob');
+      expect(request.withCredentials).toBe(true);
+      expect(request.requestHeaders).toEqual({ 'content-type': 'image/png' });
+      expect(request.sentBody).toBe('data');
+    });
+
+    it('resolves with a Response carrying status, headers and body', async () => {
+      const pending = sendWithProgress('/api/data', {}, {});
+      latestRequest().respond(200, 'payload', 'Content-Type: application/json\r\nETag: "v1"\r\n');
+
+      const response = (await pending) as unknown as FakeResponse;
+
+      expect(response.body).toBe('payload');
+      expect(response.init.status).toBe(200);
+      expect(response.init.headers.get('content-type')).toBe('application/json');
+      expect(response.init.headers.get('etag')).toBe('"v1"');
+    });
+
+    it('drops the body of null-body statuses', async () => {
+      const pending = sendWithProgress('/api/data', {}, {});
+      latestRequest().respond(204, 'ignored');
+
+      expect(((await pending) as unknown as FakeResponse).body).toBeNull();
+    });
+
+    it('reports upload and download progress', () => {
+      const onUploadProgress = jest.fn();
+      const onDownloadProgress = jest.fn();
+      void sendWithProgress('/api/upload', { method: 'POST', body: 'data' }, { onUploadProgress, onDownloadProgress });
+      const request = latestRequest();
+
+      request.upload.emit('progress', { loaded: 25, total: 100, lengthComputable: true });
+      request.emit('progress', { loaded: 10, total: 0, lengthComputable: false });
+
+      expect(onUploadProgress).toHaveBeenCalledWith(expect.objectContaining({ loaded: 25, total: 100, percent: 25 }));
+      expect(onDownloadProgress).toHaveBeenCalledWith(expect.objectContaining({ loaded: 10, total: undefined, percent: undefined }));
+    });
+
+    it('rejects with a TypeError on network failure', async () => {
+      const pending = sendWithProgress('/api/data', {}, {});
+      latestRequest().emit('error');
+
+      await expect(pending).rejects.toThrow(new TypeError('Failed to fetch'));
+    });
+
+    it('aborts the request with the signal reason', async () => {
+      const controller = new AbortController();
+      const pending = sendWithProgress('/api/data', { signal: controller.signal }, {});
+
+      controller.abort(new Error('cancelled'));
+
+      await expect(pending).rejects.toThrow('cancelled');
+      expect(latestRequest().abort).toHaveBeenCalled();
+    });
+
+    it('rejects immediately for an already aborted signal', async () => {
+      const controller = new AbortController();
+      controller.abort(new Error('too late'));
+
+      await expect(sendWithProgress('/api/data', { signal: controller.signal }, {})).rejects.toThrow('too late');
+      expect(FakeXMLHttpRequest.instances).toHaveLength(0);
+    });
+  });
+});
@@ -0,0 +1,70 @@
+import { appendQueryParameters, serializeQueryParams } from '../http.query';
+
+describe('http.query', () => {
+  describe('serializeQueryParams', () => {
+    const params = { page: 1, active: true, status: ['draft', 'published'], skipped: undefined, empty: null };
+
+    it('repeats the key for each array item', () => {
+      expect(serializeQueryParams(params, 'repeat')).toEqual([
+        ['page', '1'],
+        ['active', 'true'],
+        ['status', 'draft'],
+        ['status', 'published'],
+      ]);
+    });
+
+    it('joins scalar arrays with commas', () => {
+      expect(serializeQueryParams(params, 'comma')).toContainEqual(['status', 'draft,published']);
+    });
+
+    it('suffixes array keys with brackets', () => {
+      expect(serializeQueryParams(params, 'brackets')).toContainEqual(['status[]', 'published']);
+    });
+
+    it('indexes array items with deepObject', () => {
+      expect(serializeQueryParams(params, 'deepObject')).toEqual(
+        expect.arrayContaining([
+          ['status[0]', 'draft'],
+          ['status[1]', 'published'],
+        ])
+      );
+    });
+
+    it('encodes nested objects with bracket keys in every format', () => {
+      const nested = { filter: { name: 'plan', price: { min: 5 }, tags: ['a', 'b'] } };
+
+      expect(serializeQueryParams(nested, 'repeat')).toEqual([
+        ['filter[name]', 'plan'],
+        ['filter[price][min]', '5'],
+        ['filter[tags]', 'a'],
+        ['filter[tags]', 'b'],
+      ]);
+      expect(serializeQueryParams(nested, 'comma')).toContainEqual(['filter[tags]', 'a,b']);
+    });
+
+    it('indexes object items so their keys stay unambiguous', () => {
+      const sort = { sort: [{ field: 'name', order: 'asc' }, 'createdAt'] };
+
+      expect(serializeQueryParams(sort, 'comma')).toEqual([
+        ['sort[0][field]', 'name'],
+        ['sort[0][order]', 'asc'],
+        ['sort', 'createdAt'],
+      ]);
+    });
+
+    it('skips empty arrays and missing items', () => {
+      expect(serializeQueryParams({ status: [], tags: [undefined, 'x', null] }, 'comma')).toEqual([['tags', 'x']]);
+    });
+  });
+
+  describe('appendQueryParameters', () => {
+    it('appends repeated keys and URL-encodes them', () => {
+      const url = new URL('http://localhost/api/products?locale=en');
+
+      appendQueryParameters(url, { status: ['draft', 'published'], filter: { name: 'a&b' } }, 'brackets');
+
+      expect(url.search).toBe('?locale=en&status%5B%5D=draft&status%5B%5D=published&filter%5Bname%5D=a%26b');
+      expect(url.searchParams.getAll('status[]')).toEqual(['draft', 'published']);
+    });
+  });
+});
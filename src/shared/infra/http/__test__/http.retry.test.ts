@@ -0,0 +1,182 @@
+import { AppError } from '@/shared/infra/errors/appError';
+import { ErrorCode } from '@/shared/infra/errors/error-codes';
+
+import {
+  applyIdempotencyKey,
+  captureRetryAfter,
+  getRetryAfterMs,
+  hasIdempotencyKey,
+  type HttpRetryState,
+  isRetrySafe,
+  parseRetryAfter,
+  resolveRetryDelay,
+  resolveRetryPolicy,
+  waitForRetry,
+} from '../http.retry';
+
+const createState = (overrides: Partial<HttpRetryState> = {}): HttpRetryState => ({
+  method: 'GET',
+  totalDelayMs: 0,
+  ...overrides,
+});
+
+const createResponse = (status: number, retryAfter?: string) =>
+  ({
+    status,
+    headers: new Headers(retryAfter ? { 'Retry-After': retryAfter } : {}),
+  }) as Response;
+
+describe('http.retry', () => {
+  describe('parseRetryAfter', () => {
+    it('parses delays in seconds', () => {
+      expect(parseRetryAfter('3')).toBe(3000);
+    });
+
+    it('parses HTTP dates relative to now', () => {
+      const now = Date.parse('Wed, 21 Oct 2026 07:28:00 GMT');
+      expect(parseRetryAfter('Wed, 21 Oct 2026 07:28:05 GMT', now)).toBe(5000);
+    });
+
+    it('clamps dates in the past to zero', () => {
+      const now = Date.parse('Wed, 21 Oct 2026 07:28:00 GMT');
+      expect(parseRetryAfter('Wed, 21 Oct 2026 07:00:00 GMT', now)).toBe(0);
+    });
+
+    it('ignores missing or invalid values', () => {
+      expect(parseRetryAfter(null)).toBeUndefined();
+      expect(parseRetryAfter('  ')).toBeUndefined();
+      expect(parseRetryAfter('soon')).toBeUndefined();
+    });
+  });
+
+  describe('captureRetryAfter', () => {
+    it('remembers Retry-After of 429 and 503 responses', () => {
+      const rateLimited = new AppError(ErrorCode.SERVICE_UNAVAILABLE, undefined, 429);
+      captureRetryAfter(rateLimited, createResponse(429, '2'));
+
+      expect(getRetryAfterMs(rateLimited)).toBe(2000);
+    });
+
+    it('ignores Retry-After on other statuses', () => {
+      const serverError = new AppError(ErrorCode.SERVER_ERROR, undefined, 500);
+      captureRetryAfter(serverError, createResponse(500, '2'));
+
+      expect(getRetryAfterMs(serverError)).toBeUndefined();
+      expect(getRetryAfterMs(new Error('plain'))).toBeUndefined();
+    });
+  });
+
+  describe('policy resolution', () => {
+    it('merges request overrides over the global default', () => {
+      const policy = resolveRetryPolicy({ retryPolicy: { maxTotalDelayMs: 1000 } });
+
+      expect(policy).toEqual({ retryMethods: ['GET', 'PUT', 'DELETE'], respectRetryAfter: true, maxTotalDelayMs: 1000 });
+    });
+
+    it('detects Idempotency-Key headers case-insensitively', () => {
+      expect(hasIdempotencyKey({ 'idempotency-key': 'abc' })).toBe(true);
+      expect(hasIdempotencyKey({ 'Idempotency-Key': '' })).toBe(false);
+      expect(hasIdempotencyKey(undefined)).toBe(false);
+    });
+
+    it('only treats idempotent methods or keyed mutations as safe', () => {
+      const policy = resolveRetryPolicy({});
+
+      expect(isRetrySafe('get', undefined, policy)).toBe(true);
+      expect(isRetrySafe('POST', undefined, policy)).toBe(false);
+      expect(isRetrySafe('POST', { 'Idempotency-Key': 'abc' }, policy)).toBe(true);
+    });
+  });
+
+  describe('applyIdempotencyKey', () => {
+    const generateKey = () => 'generated-key';
+
+    it('adds a generated key to idempotent mutations', () => {
+      expect(applyIdempotencyKey('POST', { 'X-Trace': '1' }, { idempotent: true }, generateKey)).toEqual({
+        'X-Trace': '1',
+        'Idempotency-Key': 'generated-key',
+      });
+    });
+
+    it('keeps a key supplied by the caller', () => {
+      const headers = { 'idempotency-key': 'caller-key' };
+      expect(applyIdempotencyKey('PUT', headers, { idempotent: true }, generateKey)).toBe(headers);
+    });
+
+    it('leaves GET requests and requests without meta.idempotent untouched', () => {
+      expect(applyIdempotencyKey('GET', undefined, { idempotent: true }, generateKey)).toBeUndefined();
+      expect(applyIdempotencyKey('POST', undefined, {}, generateKey)).toBeUndefined();
+    });
+  });
+
+  describe('resolveRetryDelay', () => {
+    const retryableError = () => new AppError(ErrorCode.SERVER_ERROR, undefined, 500);
+
+    it('uses exponential backoff with jitter', () => {
+      jest.spyOn(Math, 'random').mockReturnValue(0.5);
+
+      expect(resolveRetryDelay(retryableError(), 2, 3, { retryDelayMs: 100 }, createState())).toBe(450);
+
+      jest.restoreAllMocks();
+    });
+
+    it('prefers Retry-After over the backoff delay', () => {
+      const error = new AppError(ErrorCode.SERVICE_UNAVAILABLE, undefined, 503);
+      captureRetryAfter(error, createResponse(503, '4'));
+
+      expect(resolveRetryDelay(error, 0, 1, { retryDelayMs: 100 }, createState())).toBe(4000);
+      expect(resolveRetryDelay(error, 0, 1, { retryDelayMs: 0, retryPolicy: { respectRetryAfter: false } }, createState())).toBeLessThan(100);
+    });
+
+    it('does not retry non-retryable errors or exhausted attempts', () => {
+      expect(resolveRetryDelay(new AppError(ErrorCode.NOT_FOUND, undefined, 404), 0, 1, {}, createState())).toBeUndefined();
+      expect(resolveRetryDelay(new Error('plain'), 0, 1, {}, createState())).toBeUndefined();
+      expect(resolveRetryDelay(retryableError(), 1, 1, {}, createState())).toBeUndefined();
+    });
+
+    it('does not retry mutations without an Idempotency-Key', () => {
+      expect(resolveRetryDelay(retryableError(), 0, 1, { retryDelayMs: 0 }, createState({ method: 'POST' }))).toBeUndefined();
+      expect(
+        resolveRetryDelay(retryableError(), 0, 1, { retryDelayMs: 0 }, createState({ method: 'POST', headers: { 'Idempotency-Key': 'k' } }))
+      ).toBeDefined();
+      expect(
+        resolveRetryDelay(retryableError(), 0, 1, { retryDelayMs: 0, retryPolicy: { retryMethods: ['POST'] } }, createState({ method: 'POST' }))
+      ).toBeDefined();
+    });
+
+    it('gives up once the total wait budget would be exceeded', () => {
+      const error = new AppError(ErrorCode.SERVICE_UNAVAILABLE, undefined, 429);
+      captureRetryAfter(error, createResponse(429, '2'));
+
+      expect(resolveRetryDelay(error, 0, 3, { retryPolicy: { maxTotalDelayMs: 3000 } }, createState({ totalDelayMs: 500 }))).toBe(2000);
+      expect(resolveRetryDelay(error, 1, 3, { retryPolicy: { maxTotalDelayMs: 3000 } }, createState({ totalDelayMs: 2000 }))).toBeUndefined();
+    });
+  });
+
+  describe('waitForRetry', () => {
+    beforeEach(() => jest.useFakeTimers());
+    afterEach(() => jest.useRealTimers());
+
+    it('resolves after the delay', async () => {
+      const onResolved = jest.fn();
+      void waitForRetry(1000).then(onResolved);
+
+      await jest.advanceTimersByTimeAsync(999);
+      expect(onResolved).not.toHaveBeenCalled();
+
+      await jest.advanceTimersByTimeAsync(1);
+      expect(onResolved).toHaveBeenCalled();
+    });
+
+    it('resolves early when the request is aborted', async () => {
+      const controller = new AbortController();
+      const onResolved = jest.fn();
+      void waitForRetry(60_000, controller.signal).then(onResolved);
+
+      controller.abort();
+      await Promise.resolve();
+
+      expect(onResolved).toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,119 @@
+import { ErrorCode } from '@/shared/infra/errors/error-codes';
+
+import {
+  acquireRequestSlot,
+  getHttpSchedulerStats,
+  resetHttpScheduler,
+  resolveRequestPriority,
+  runWithRequestSlot,
+  setHttpConcurrencyLimit,
+} from '../http.scheduler';
+
+const flushPromises = () => new Promise(resolve => setTimeout(resolve, 0));
+
+describe('http.scheduler', () => {
+  afterEach(() => {
+    resetHttpScheduler();
+  });
+
+  it('defaults reads to normal and mutations to high priority', () => {
+    expect(resolveRequestPriority('get', {})).toBe('normal');
+    expect(resolveRequestPriority('POST', {})).toBe('high');
+    expect(resolveRequestPriority('DELETE', { priority: 'low' })).toBe('low');
+  });
+
+  it('queues requests over the limit and runs them by priority, oldest first', async () => {
+    setHttpConcurrencyLimit(1);
+    const started: string[] = [];
+    const release = await acquireRequestSlot('normal');
+
+    const queued = (['low', 'normal', 'high', 'normal'] as const).map((priority, index) =>
+      acquireRequestSlot(priority).then(releaseSlot => {
+        started.push(`${priority}-${index}`);
+        releaseSlot();
+      })
+    );
+    expect(getHttpSchedulerStats()).toEqual({ active: 1, queued: 4, limit: 1 });
+
+    release();
+    await Promise.all(queued);
+
+    expect(started).toEqual(['high-2', 'normal-1', 'normal-3', 'low-0']);
+    expect(getHttpSchedulerStats()).toEqual({ active: 0, queued: 0, limit: 1 });
+  });
+
+  it('keeps the last slot for user-triggered requests and never queues critical ones', async () => {
+    setHttpConcurrencyLimit(2);
+    const prefetch = await acquireRequestSlot('low');
+    let secondPrefetchStarted = false;
+    const secondPrefetch = acquireRequestSlot('low').then(release => {
+      secondPrefetchStarted = true;
+      return release;
+    });
+
+    const save = await acquireRequestSlot('high');
+    const session = await acquireRequestSlot('critical');
+    await flushPromises();
+
+    expect(secondPrefetchStarted).toBe(false);
+    expect(getHttpSchedulerStats().active).toBe(3);
+
+    save();
+    session();
+    prefetch();
+    (await secondPrefetch)();
+    expect(secondPrefetchStarted).toBe(true);
+  });
+
+  it('promotes requests that keep being overtaken', async () => {
+    setHttpConcurrencyLimit(1);
+    const started: string[] = [];
+    let release = await acquireRequestSlot('normal');
+
+    const background = acquireRequestSlot('low').then(releaseSlot => {
+      started.push('low');
+      releaseSlot();
+    });
+    // Each freed slot goes to a newer normal request until the low one has been overtaken enough
+    for (let index = 0; index < 6; index += 1) {
+      const next = acquireRequestSlot('normal').then(releaseSlot => {
+        started.push(`normal-${index}`);
+        return releaseSlot;
+      });
+      release();
+      release = await next;
+    }
+    release();
+    await background;
+
+    expect(started).toEqual(['normal-0', 'normal-1', 'normal-2', 'normal-3', 'low', 'normal-4', 'normal-5']);
+  });
+
+  it('drops queued requests aborted by their caller without running them', async () => {
+    setHttpConcurrencyLimit(1);
+    const controller = new AbortController();
+    const send = jest.fn(async () => 'sent');
+    const release = await acquireRequestSlot('normal');
+
+    const aborted = runWithRequestSlot('normal', controller.signal, send);
+    controller.abort('navigation');
+
+    await expect(aborted).rejects.toMatchObject({ code: ErrorCode.CANCELLED, details: { reason: 'navigation' } });
+    expect(getHttpSchedulerStats().queued).toBe(0);
+    release();
+    await expect(runWithRequestSlot('normal', controller.signal, send)).rejects.toMatchObject({ code: ErrorCode.CANCELLED });
+    expect(send).not.toHaveBeenCalled();
+  });
+
+  it('releases the slot when the attempt fails and ignores the limit when disabled', async () => {
+    setHttpConcurrencyLimit(1);
+    await expect(runWithRequestSlot('normal', undefined, async () => Promise.reject(new Error('boom')))).rejects.toThrow('boom');
+    expect(getHttpSchedulerStats().active).toBe(0);
+
+    const restore = setHttpConcurrencyLimit(0);
+    const releases = await Promise.all([acquireRequestSlot('low'), acquireRequestSlot('low'), acquireRequestSlot('low')]);
+    expect(getHttpSchedulerStats()).toMatchObject({ active: 3, queued: 0, limit: 0 });
+    releases.forEach(release => release());
+    restore();
+  });
+});
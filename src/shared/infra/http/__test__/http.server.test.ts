@@ -0,0 +1,168 @@
+import { cookies, headers } from 'next/headers';
+import { z } from 'zod';
+
+import { ErrorCode } from '@/shared/infra/errors/error-codes';
+
+import { assertServerApiOrigin, createServerHttpClient, resolveServerRequestContext, SERVER_ACCESS_TOKEN_COOKIE } from '../http.server';
+import { setHttpTransport } from '../http.transport';
+
+jest.mock('next/headers', () => ({
+  headers: jest.fn(),
+  cookies: jest.fn(),
+}));
+
+const headersMock = headers as jest.Mock;
+const cookiesMock = cookies as jest.Mock;
+
+const createCookies = (values: Record<string, string>) => ({
+  get: (name: string) => (name in values ? { value: values[name] } : undefined),
+});
+
+const createJsonResponse = (status: number, body: unknown) => {
+  const response = {
+    ok: status >= 200 && status < 300,
+    status,
+    headers: new Headers({ 'content-type': 'application/json' }),
+    json: async () => body,
+    clone: () => response,
+  };
+  return response as unknown as Response;
+};
+
+describe('http.server', () => {
+  const transport = jest.fn();
+  let restoreTransport: () => void;
+
+  beforeEach(() => {
+    transport.mockReset();
+    restoreTransport = setHttpTransport(transport);
+    process.env.API_ALLOWED_HOSTS = 'app.example.com, localhost';
+  });
+
+  afterEach(() => {
+    restoreTransport();
+    delete process.env.API_ALLOWED_HOSTS;
+  });
+
+  describe('resolveServerRequestContext', () => {
+    it('reads the origin, token, locale and correlation ID of the incoming request', () => {
+      const context = resolveServerRequestContext(
+        new Headers({
+          host: 'internal:3000',
+          'x-forwarded-host': 'app.example.com',
+          'x-forwarded-proto': 'https,http',
+          'x-next-intl-locale': 'fr',
+          'x-request-id': 'incoming-id',
+        }),
+        createCookies({ [SERVER_ACCESS_TOKEN_COOKIE]: 'cookie-token' })
+      );
+
+      expect(context).toEqual({ baseUrl: 'https://app.example.com', accessToken: 'cookie-token', locale: 'fr', correlationId: 'incoming-id' });
+    });
+
+    it('prefers a bearer Authorization header and falls back to Accept-Language', () => {
+      const context = resolveServerRequestContext(
+        new Headers({ host: 'localhost:3000', authorization: 'Bearer header-token', 'accept-language': 'fr-FR,fr;q=0.9' }),
+        createCookies({ [SERVER_ACCESS_TOKEN_COOKIE]: 'cookie-token' })
+      );
+
+      expect(context).toMatchObject({ baseUrl: 'http://localhost:3000', accessToken: 'header-token', locale: 'fr-FR' });
+      expect(context.correlationId).toEqual(expect.any(String));
+    });
+
+    it('throws without a host or an override', () => {
+      expect(() => resolveServerRequestContext(new Headers(), createCookies({}))).toThrow('Cannot resolve the API origin');
+      expect(resolveServerRequestContext(new Headers(), createCookies({}), { baseUrl: 'https://api.example.com' }).baseUrl).toBe(
+        'https://api.example.com'
+      );
+    });
+
+    it('refuses hosts outside the allow-list', () => {
+      const spoofedHeaders = new Headers({ host: 'app.example.com', 'x-forwarded-host': 'attacker.example.net' });
+
+      expect(() => resolveServerRequestContext(spoofedHeaders, createCookies({ [SERVER_ACCESS_TOKEN_COOKIE]: 'cookie-token' }))).toThrow(
+        'Untrusted request host "attacker.example.net"'
+      );
+    });
+
+    it('trusts only local hosts when no allow-list is configured', () => {
+      delete process.env.API_ALLOWED_HOSTS;
+
+      expect(resolveServerRequestContext(new Headers({ host: '127.0.0.1:3000' }), createCookies({})).baseUrl).toBe('http://127.0.0.1:3000');
+      expect(() => resolveServerRequestContext(new Headers({ host: 'app.example.com' }), createCookies({}))).toThrow('Untrusted request host');
+    });
+  });
+
+  describe('assertServerApiOrigin', () => {
+    const nodeEnv = process.env.NODE_ENV;
+
+    afterEach(() => {
+      Object.assign(process.env, { NODE_ENV: nodeEnv });
+    });
+
+    it('fails in production without an API base URL or allowed hosts', () => {
+      Object.assign(process.env, { NODE_ENV: 'production' });
+      delete process.env.API_ALLOWED_HOSTS;
+
+      expect(() => assertServerApiOrigin()).toThrow('Missing API configuration');
+
+      process.env.API_ALLOWED_HOSTS = 'app.example.com';
+      expect(() => assertServerApiOrigin()).not.toThrow();
+    });
+
+    it('keeps the local default outside production', () => {
+      delete process.env.API_ALLOWED_HOSTS;
+
+      expect(() => assertServerApiOrigin()).not.toThrow();
+    });
+  });
+
+  describe('createServerHttpClient', () => {
+    it('sends the request context and validates the response', async () => {
+      headersMock.mockReturnValue(new Headers({ host: 'app.example.com', 'x-next-intl-locale': 'fr', 'x-request-id': 'req-1' }));
+      cookiesMock.mockReturnValue(createCookies({ [SERVER_ACCESS_TOKEN_COOKIE]: 'token-1' }));
+      transport.mockResolvedValueOnce(createJsonResponse(200, [{ id: 'p1' }]));
+
+      const client = createServerHttpClient();
+      const products = await client('/api/v1/products', { params: { status: ['active', 'draft'] }, schema: z.array(z.object({ id: z.string() })) });
+
+      expect(products).toEqual([{ id: 'p1' }]);
+      const [url, init] = transport.mock.calls[0] as [string, RequestInit];
+      const sentHeaders = init.headers as Headers;
+      expect(url).toBe('http://app.example.com/api/v1/products?status=active&status=draft');
+      expect(init.cache).toBe('no-store');
+      expect(sentHeaders.get('Authorization')).toBe('Bearer token-1');
+      expect(sentHeaders.get('Accept-Language')).toBe('fr');
+      expect(sentHeaders.get('X-Request-Id')).toBe('req-1');
+    });
+
+    it('keeps each client bound to its own request', async () => {
+      headersMock.mockReturnValueOnce(new Headers({ host: 'app.example.com' })).mockReturnValueOnce(new Headers({ host: 'app.example.com' }));
+      cookiesMock
+        .mockReturnValueOnce(createCookies({ [SERVER_ACCESS_TOKEN_COOKIE]: 'alice' }))
+        .mockReturnValueOnce(createCookies({ [SERVER_ACCESS_TOKEN_COOKIE]: 'bob' }));
+      transport.mockImplementation(async () => createJsonResponse(200, {}));
+
+      const aliceClient = createServerHttpClient();
+      const bobClient = createServerHttpClient();
+      await Promise.all([bobClient('/api/v1/auth/me'), aliceClient('/api/v1/auth/me'), aliceClient('/public', { meta: { skipAuth: true } })]);
+
+      const sentTokens = transport.mock.calls.map(([, init]) => (init as RequestInit & { headers: Headers }).headers.get('Authorization'));
+      expect(sentTokens).toEqual(['Bearer bob', 'Bearer alice', null]);
+      expect(aliceClient.context.accessToken).toBe('alice');
+      expect(Object.isFrozen(aliceClient.context)).toBe(true);
+    });
+
+    it('maps failed responses to AppErrors', async () => {
+      headersMock.mockReturnValue(new Headers({ host: 'app.example.com' }));
+      cookiesMock.mockReturnValue(createCookies({}));
+      transport.mockResolvedValueOnce(createJsonResponse(404, { message: 'missing' }));
+
+      await expect(createServerHttpClient({ locale: 'en' })('/api/v1/products/unknown')).rejects.toMatchObject({
+        code: ErrorCode.NOT_FOUND,
+        statusCode: 404,
+        details: { message: 'missing' },
+      });
+    });
+  });
+});
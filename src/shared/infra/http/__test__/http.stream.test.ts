@@ -0,0 +1,145 @@
+import { TextDecoder, TextEncoder } from 'node:util';
+import { z } from 'zod';
+
+import { ValidationError } from '@/shared/infra/errors/appError';
+
+import { createNdjsonParser, createSseParser, readResponseStream } from '../http.stream';
+
+const encoder = new TextEncoder();
+
+const createStreamResponse = (chunks: string[]) => {
+  const queue = [...chunks];
+  const reader = {
+    read: jest.fn(async () => {
+      const next = queue.shift();
+      return next === undefined ? { done: true, value: undefined } : { done: false, value: encoder.encode(next) };
+    }),
+    cancel: jest.fn(async () => undefined),
+    releaseLock: jest.fn(),
+  };
+  return { response: { body: { getReader: () => reader } } as unknown as Response, reader };
+};
+
+const collect = async <T>(iterator: AsyncIterable<T>): Promise<T[]> => {
+  const items: T[] = [];
+  for await (const item of iterator) items.push(item);
+  return items;
+};
+
+describe('http.stream', () => {
+  const originalTextDecoder = globalThis.TextDecoder;
+
+  beforeAll(() => {
+    // jsdom does not provide TextDecoder
+    globalThis.TextDecoder = TextDecoder as unknown as typeof globalThis.TextDecoder;
+  });
+
+  afterAll(() => {
+    globalThis.TextDecoder = originalTextDecoder;
+  });
+
+  describe('createNdjsonParser', () => {
+    it('parses complete lines and buffers partial ones', () => {
+      const parse = createNdjsonParser();
+
+      expect(parse('{"a":1}\n{"a"')).toEqual([{ a: 1 }]);
+      expect(parse(':2}\r\n\n')).toEqual([{ a: 2 }]);
+    });
+
+    it('parses the trailing line without a newline on flush', () => {
+      const parse = createNdjsonParser();
+
+      expect(parse('{"done":true}')).toEqual([]);
+      expect(parse('', true)).toEqual([{ done: true }]);
+    });
+  });
+
+  describe('createSseParser', () => {
+    it('parses named events with JSON data, ids and retry hints', () => {
+      const parse = createSseParser();
+
+      expect(parse('event: progress\nid: 7\nretry: 3000\ndata: {"percent":40}\n\n')).toEqual([
+        { event: 'progress', id: '7', retry: 3000, data: { percent: 40 } },
+      ]);
+    });
+
+    it('joins multi-line data, keeps plain text and ignores comments', () => {
+      const parse = createSseParser();
+
+      expect(parse(': keep-alive\ndata: first\ndata: second\n\n')).toEqual([{ event: 'message', data: 'first\nsecond' }]);
+    });
+
+    it('keeps the last event id for following events', () => {
+      const parse = createSseParser();
+
+      expect(parse('id: 1\ndata: a\n\ndata: b\n\n')).toEqual([
+        { event: 'message', id: '1', data: 'a' },
+        { event: 'message', id: '1', data: 'b' },
+      ]);
+    });
+
+    it('buffers events split across chunks and dispatches the last one on flush', () => {
+      const parse = createSseParser();
+
+      expect(parse('data: {"a"')).toEqual([]);
+      expect(parse(':1}\n')).toEqual([]);
+      expect(parse('', true)).toEqual([{ event: 'message', data: { a: 1 } }]);
+    });
+
+    it('treats a CRLF split across chunks as a single line break', () => {
+      const parse = createSseParser();
+
+      expect(parse('data: first\r')).toEqual([]);
+      expect(parse('\ndata: second\r')).toEqual([]);
+      expect(parse('\n\r')).toEqual([]);
+      expect(parse('\n')).toEqual([{ event: 'message', data: 'first\nsecond' }]);
+    });
+
+    it('ends a line with a trailing CR at the end of the stream', () => {
+      const parse = createSseParser();
+
+      expect(parse('data: last\r')).toEqual([]);
+      expect(parse('', true)).toEqual([{ event: 'message', data: 'last' }]);
+    });
+  });
+
+  describe('readResponseStream', () => {
+    it('yields NDJSON lines split across network chunks', async () => {
+      const { response, reader } = createStreamResponse(['{"line":1}\n{"li', 'ne":2}\n']);
+
+      await expect(collect(readResponseStream(response, 'ndjson'))).resolves.toEqual([{ line: 1 }, { line: 2 }]);
+      expect(reader.cancel).not.toHaveBeenCalled();
+      expect(reader.releaseLock).toHaveBeenCalled();
+    });
+
+    it('validates SSE event data with the schema', async () => {
+      const { response } = createStreamResponse(['data: {"percent":10}\n\n']);
+
+      await expect(collect(readResponseStream(response, 'sse', z.object({ percent: z.number() })))).resolves.toEqual([
+        { event: 'message', data: { percent: 10 } },
+      ]);
+    });
+
+    it('throws a ValidationError for chunks that do not match the schema', async () => {
+      const { response } = createStreamResponse(['{"percent":"ten"}\n']);
+
+      await expect(collect(readResponseStream(response, 'ndjson', z.object({ percent: z.number() })))).rejects.toBeInstanceOf(ValidationError);
+    });
+
+    it('cancels the body when the consumer stops early', async () => {
+      const { response, reader } = createStreamResponse(['{"n":1}\n{"n":2}\n', '{"n":3}\n']);
+
+      for await (const item of readResponseStream(response, 'ndjson')) {
+        expect(item).toEqual({ n: 1 });
+        break;
+      }
+
+      expect(reader.cancel).toHaveBeenCalled();
+      expect(reader.releaseLock).toHaveBeenCalled();
+    });
+
+    it('yields nothing for responses without a body', async () => {
+      await expect(collect(readResponseStream({ body: null } as Response, 'ndjson'))).resolves.toEqual([]);
+    });
+  });
+});
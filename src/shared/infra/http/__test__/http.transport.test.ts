@@ -0,0 +1,125 @@
+import type { HttpTransport } from '../http.types';
+
+const sendWithProgressMock = jest.fn();
+const mockBackendMock = jest.fn();
+
+jest.mock('../http.progress', () => ({
+  ...jest.requireActual('../http.progress'),
+  sendWithProgress: sendWithProgressMock,
+}));
+
+jest.mock('../mocks', () => ({
+  mockBackend: mockBackendMock,
+}));
+
+describe('http.transport', () => {
+  const originalEnv = process.env;
+  const originalFetch = globalThis.fetch;
+
+  beforeEach(() => {
+    jest.resetModules();
+    process.env = { ...originalEnv };
+    globalThis.fetch = jest.fn(async () => ({ ok: true, status: 200 }) as Response);
+    sendWithProgressMock.mockReset();
+    mockBackendMock.mockReset();
+  });
+
+  afterAll(() => {
+    process.env = originalEnv;
+    globalThis.fetch = originalFetch;
+  });
+
+  describe('networkTransport', () => {
+    it('sends plain requests with fetch', async () => {
+      const { networkTransport } = await import('../http.transport');
+      const init = { method: 'GET' };
+
+      await networkTransport('/api/v1/projects', init, {});
+
+      expect(globalThis.fetch).toHaveBeenCalledWith('/api/v1/projects', init);
+      expect(sendWithProgressMock).not.toHaveBeenCalled();
+    });
+
+    it('switches to XMLHttpRequest when progress is tracked', async () => {
+      const { networkTransport } = await import('../http.transport');
+      const onUploadProgress = jest.fn();
+      const init = { method: 'PUT', body: 'file' };
+
+      await networkTransport('/upload', init, { onUploadProgress });
+
+      expect(sendWithProgressMock).toHaveBeenCalledWith('/upload', init, { onUploadProgress, onDownloadProgress: undefined });
+      expect(globalThis.fetch).not.toHaveBeenCalled();
+    });
+
+    it('sends the session route handlers of the app over the network while mocking', async () => {
+      process.env.NEXT_PUBLIC_API_MOCKING = 'enabled';
+      const { getHttpTransport } = await import('../http.transport');
+
+      await getHttpTransport()('http://localhost/api/session/login', { method: 'POST' }, {});
+
+      expect(globalThis.fetch).toHaveBeenCalledWith('http://localhost/api/session/login', { method: 'POST' });
+      expect(mockBackendMock).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getHttpTransport', () => {
+    it('uses the network by default', async () => {
+      delete process.env.NEXT_PUBLIC_API_MOCKING;
+      const { getHttpTransport, networkTransport } = await import('../http.transport');
+
+      expect(getHttpTransport()).toBe(networkTransport);
+    });
+
+    it('serves requests from the mock backend when mocking is enabled', async () => {
+      process.env.NEXT_PUBLIC_API_MOCKING = 'enabled';
+      const mockedResponse = { ok: true, status: 200 } as Response;
+      mockBackendMock.mockResolvedValue(mockedResponse);
+      const { getHttpTransport } = await import('../http.transport');
+
+      const response = await getHttpTransport()('/api/v1/products', { method: 'GET' }, {});
+
+      expect(response).toBe(mockedResponse);
+      expect(mockBackendMock).toHaveBeenCalledWith('/api/v1/products', { method: 'GET' }, {});
+      expect(globalThis.fetch).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('setHttpTransport', () => {
+    it('installs a transport and restores the previous one', async () => {
+      const { getHttpTransport, networkTransport, setHttpTransport } = await import('../http.transport');
+      const outerTransport: HttpTransport = jest.fn();
+      const innerTransport: HttpTransport = jest.fn();
+
+      const restoreOuter = setHttpTransport(outerTransport);
+      const restoreInner = setHttpTransport(innerTransport);
+      expect(getHttpTransport()).toBe(innerTransport);
+
+      restoreInner();
+      expect(getHttpTransport()).toBe(outerTransport);
+
+      restoreOuter();
+      expect(getHttpTransport()).toBe(networkTransport);
+    });
+
+    it('ignores a stale restore once another transport was installed', async () => {
+      const { getHttpTransport, setHttpTransport } = await import('../http.transport');
+      const firstTransport: HttpTransport = jest.fn();
+      const secondTransport: HttpTransport = jest.fn();
+
+      const restoreFirst = setHttpTransport(firstTransport);
+      setHttpTransport(secondTransport);
+      restoreFirst();
+
+      expect(getHttpTransport()).toBe(secondTransport);
+    });
+
+    it('resetHttpTransport goes back to the default transport', async () => {
+      const { getHttpTransport, networkTransport, resetHttpTransport, setHttpTransport } = await import('../http.transport');
+
+      setHttpTransport(jest.fn());
+      resetHttpTransport();
+
+      expect(getHttpTransport()).toBe(networkTransport);
+    });
+  });
+});
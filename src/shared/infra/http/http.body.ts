@@ -0,0 +1,281 @@
+/**
+ * HTTP Request Body Module
+ *
+ * Serializes request bodies for fetch():
+ * - BodyInit values (string, Blob, FormData, URLSearchParams, buffers, streams) pass through
+ * - Plain data is sent as JSON by default
+ * - Bodies containing a File or Blob become multipart FormData automatically
+ * - meta.bodyType forces json, multipart or urlencoded; meta.formKeyNotation picks the nested key style
+ */
+
+import { HTTP_CONFIG } from './http.config';
+import type { HttpBodyType, HttpFormKeyNotation, HttpMeta } from './http.types';
+
+// ================================================================================================
+// Type Definitions
+// ================================================================================================
+
+/** One flattened form field */
+export type HttpFormEntry = [key: string, value: string | Blob];
+
+/** Metadata fields that control body serialization */
+export type HttpBodyMeta = Pick<HttpMeta, 'bodyType' | 'formKeyNotation'>;
+
+// ================================================================================================
+// Type Guards
+// ================================================================================================
+
+/**
+ * Type guard to check whether a value is a valid BodyInit
+ *
+ * BodyInit is the union of types that can be passed as a fetch() body:
+ * string | Blob | ArrayBufferView | ArrayBuffer | FormData | URLSearchParams | ReadableStream
+ *
+ * @param value - Value to check
+ * @returns True if the value is a valid BodyInit type
+ */
+function isValidBodyInitType(value: unknown): value is BodyInit {
+  // Null/undefined check
+  if (value == null) return false;
+
+  // Primitive types
+  if (typeof value === 'string') return true;
+
+  // Browser-specific types (check existence before using instanceof)
+  if (typeof Blob !== 'undefined' && value instanceof Blob) return true;
+  if (typeof FormData !== 'undefined' && value instanceof FormData) return true;
+  if (typeof URLSearchParams !== 'undefined' && value instanceof URLSearchParams) return true;
+  if (typeof ReadableStream !== 'undefined' && value instanceof ReadableStream) return true;
+
+  // ArrayBuffer types
+  if (value instanceof ArrayBuffer) return true;
+  if (typeof ArrayBuffer !== 'undefined' && typeof ArrayBuffer.isView === 'function' && ArrayBuffer.isView(value)) {
+    return true;
+  }
+
+  return false;
+}
+
+/**
+ * Check whether a value is a File or Blob
+ *
+ * @param value - Value to check
+ * @returns True for Blob instances (File extends Blob)
+ */
+function isBinaryValue(value: unknown): value is Blob {
+  return typeof Blob !== 'undefined' && value instanceof Blob;
+}
+
+/**
+ * Check whether a value is a plain object or array that has to be flattened
+ *
+ * @param value - Value to check
+ * @returns True for arrays and non-Date, non-Blob objects
+ */
+function isNestedValue(value: unknown): value is Record<string, unknown> | unknown[] {
+  return typeof value === 'object' && value !== null && !isBinaryValue(value) && !(value instanceof Date);
+}
+
+// ================================================================================================
+// Form Flattening
+// ================================================================================================
+
+/**
+ * Build the key of a nested object field
+ *
+ * @param parentKey - Key of the parent object
+ * @param childKey - Field name
+ * @param notation - Key notation
+ * @returns `parent[child]` or `parent.child`
+ */
+function buildObjectKey(parentKey: string, childKey: string, notation: HttpFormKeyNotation): string {
+  return notation === 'dots' ? `${parentKey}.${childKey}` : `${parentKey}[${childKey}]`;
+}
+
+/**
+ * Flatten one value into form entries
+ *
+ * @param key - Field key (already nested)
+ * @param value - Field value
+ * @param notation - Key notation
+ * @param entries - Output entries
+ */
+function appendFormEntries(key: string, value: unknown, notation: HttpFormKeyNotation, entries: HttpFormEntry[]): void {
+  if (value === undefined || value === null) return;
+
+  if (isBinaryValue(value)) {
+    entries.push([key, value]);
+    return;
+  }
+
+  if (value instanceof Date) {
+    entries.push([key, value.toISOString()]);
+    return;
+  }
+
+  if (Array.isArray(value)) {
+    value.forEach((item, index) => {
+      // Nested items are always indexed so their fields stay grouped
+      const itemKey = notation === 'brackets' && !isNestedValue(item) ? `${key}[]` : `${key}[${index}]`;
+      appendFormEntries(itemKey, item, notation, entries);
+    });
+    return;
+  }
+
+  if (typeof value === 'object') {
+    for (const [childKey, childValue] of Object.entries(value)) {
+      appendFormEntries(buildObjectKey(key, childKey, notation), childValue, notation, entries);
+    }
+    return;
+  }
+
+  entries.push([key, String(value)]);
+}
+
+/**
+ * Flatten a body object into form entries
+ *
+ * @param body - Body object
+ * @param notation - Key notation of nested fields
+ * @returns Ordered entries (keys may repeat)
+ * @throws TypeError when the body is not an object
+ */
+export function flattenFormEntries(body: unknown, notation: HttpFormKeyNotation): HttpFormEntry[] {
+  if (!isNestedValue(body)) {
+    throw new TypeError('Multipart and urlencoded request bodies must be objects');
+  }
+
+  const entries: HttpFormEntry[] = [];
+  for (const [key, value] of Object.entries(body)) {
+    appendFormEntries(key, value, notation, entries);
+  }
+
+  return entries;
+}
+
+// ================================================================================================
+// Public API
+// ================================================================================================
+
+/**
+ * Check whether a body contains a File or Blob anywhere in its plain objects and arrays
+ *
+ * @param value - Body or nested value
+ * @returns True when the value has binary content
+ */
+export function containsBinaryData(value: unknown): boolean {
+  if (isBinaryValue(value)) return true;
+  if (!isNestedValue(value)) return false;
+
+  return Object.values(value).some(containsBinaryData);
+}
+
+/**
+ * Decide how a plain body is encoded
+ *
+ * @param body - Request body
+ * @param bodyType - Explicit encoding from meta.bodyType
+ * @returns The explicit encoding, multipart for bodies with files, otherwise json
+ */
+export function resolveBodyType(body: unknown, bodyType?: HttpBodyType): HttpBodyType {
+  if (bodyType) return bodyType;
+  return containsBinaryData(body) ? 'multipart' : 'json';
+}
+
+/**
+ * Convert a body object into FormData
+ *
+ * @param body - Body object (Files and Blobs keep their file names)
+ * @param notation - Key notation of nested fields
+ * @returns FormData ready for fetch()
+ *
+ * @example
+ * ```typescript
+ * toFormData({ name: 'Website', image: file, tags: ['a', 'b'] }, 'brackets');
+ * // name=Website, image=<file>, tags[]=a, tags[]=b
+ * ```
+ */
+export function toFormData(body: unknown, notation: HttpFormKeyNotation = HTTP_CONFIG.defaultFormKeyNotation): FormData {
+  const formData = new FormData();
+
+  for (const [key, value] of flattenFormEntries(body, notation)) {
+    formData.append(key, value);
+  }
+
+  return formData;
+}
+
+/**
+ * Convert a body object into URLSearchParams
+ *
+ * @param body - Body object without binary content
+ * @param notation - Key notation of nested fields
+ * @returns URLSearchParams ready for fetch()
+ * @throws TypeError when the body contains a File or Blob
+ */
+export function toUrlSearchParams(body: unknown, notation: HttpFormKeyNotation = HTTP_CONFIG.defaultFormKeyNotation): URLSearchParams {
+  const searchParams = new URLSearchParams();
+
+  for (const [key, value] of flattenFormEntries(body, notation)) {
+    if (typeof value !== 'string') {
+      throw new TypeError(`Field "${key}" contains a file; send it with bodyType 'multipart'`);
+    }
+    searchParams.append(key, value);
+  }
+
+  return searchParams;
+}
+
+/**
+ * Measure a serialized request body
+ *
+ * @param body - Body passed to fetch()
+ * @returns Size in bytes, or undefined for FormData, streams and missing bodies
+ */
+export function measureBodySize(body: BodyInit | null | undefined): number | undefined {
+  if (body === undefined || body === null) return undefined;
+  if (typeof body === 'string') return new Blob([body]).size;
+  if (typeof URLSearchParams !== 'undefined' && body instanceof URLSearchParams) return new Blob([body.toString()]).size;
+  if (isBinaryValue(body)) return body.size;
+  if (body instanceof ArrayBuffer || ArrayBuffer.isView(body)) return body.byteLength;
+
+  return undefined;
+}
+
+/**
+ * Serialize the request body into a format suitable for fetch()
+ *
+ * Handles different input types:
+ * - Already valid BodyInit -> pass through
+ * - Objects with files or meta.bodyType 'multipart' -> FormData
+ * - meta.bodyType 'urlencoded' -> URLSearchParams
+ * - Other objects/primitives -> JSON.stringify
+ * - null/undefined -> undefined
+ *
+ * @param requestBody - Body data to serialize
+ * @param meta - Request metadata (bodyType, formKeyNotation)
+ * @returns Serialized BodyInit or undefined
+ */
+export function serializeRequestBody(requestBody: unknown, meta: HttpBodyMeta = {}): BodyInit | undefined {
+  // Early return for null/undefined
+  if (requestBody === undefined || requestBody === null) {
+    return undefined;
+  }
+
+  // If it's already a valid BodyInit -> pass through
+  if (isValidBodyInitType(requestBody)) {
+    return requestBody;
+  }
+
+  const notation = meta.formKeyNotation ?? HTTP_CONFIG.defaultFormKeyNotation;
+
+  switch (resolveBodyType(requestBody, meta.bodyType)) {
+    case 'multipart':
+      return toFormData(requestBody, notation);
+    case 'urlencoded':
+      return toUrlSearchParams(requestBody, notation);
+    default:
+      // Serialize objects, booleans, numbers and everything else to JSON
+      return JSON.stringify(requestBody);
+  }
+}
@@ -0,0 +1,275 @@
+/**
+ * HTTP Response Cache Module
+ *
+ * In-memory cache for parsed GET responses:
+ * - Per-request TTL (fresh vs. stale entries)
+ * - Conditional revalidation with If-None-Match / If-Modified-Since
+ * - 304 Not Modified treated as a cache hit
+ * - Explicit invalidation by URL prefix
+ * - Responses of requests started before a matching invalidation are not stored
+ */
+
+import type { HttpCacheMode, HttpMeta } from './http.types';
+
+// ================================================================================================
+// Constants
+// ================================================================================================
+
+/** Maximum number of cached responses kept in memory (oldest entries are evicted first) */
+const MAX_CACHE_ENTRIES = 200;
+
+// ================================================================================================
+// Type Definitions - cache entries and request context
+// ================================================================================================
+
+/**
+ * Cached response entry
+ *
+ * Stores the raw JSON payload (before schema validation) so every caller
+ * can validate it with its own schema.
+ */
+export interface HttpCacheEntry {
+  /** Path + query string of the cached request (used for prefix invalidation) */
+  path: string;
+
+  /** Raw JSON payload returned by the server */
+  data: unknown;
+
+  /** ETag validator returned by the server */
+  etag?: string;
+
+  /** Last-Modified validator returned by the server */
+  lastModified?: string;
+
+  /** Timestamp (ms) after which the entry is stale */
+  expiresAt: number;
+}
+
+/**
+ * Context passed through the request pipeline for a cacheable request
+ */
+export interface HttpCacheContext {
+  /** Cache key (method, URL, auth identity and locale) */
+  key: string;
+
+  /** Absolute request URL */
+  url: string;
+
+  /** Time-to-live for the stored response (milliseconds) */
+  ttlMs: number;
+
+  /** Existing entry used for conditional revalidation */
+  entry?: HttpCacheEntry;
+
+  /** Cache generation when the request started (see getHttpCacheGeneration) */
+  generation: number;
+}
+
+// ================================================================================================
+// Global State - cached responses
+// ================================================================================================
+
+/** Cached responses keyed by request key */
+const responseCache = new Map<string, HttpCacheEntry>();
+
+/** Generation counter, bumped by every invalidation */
+let cacheGeneration = 0;
+
+/** Generation of the latest invalidation of each path prefix ('' after clearHttpCache) */
+const invalidatedPrefixes = new Map<string, number>();
+
+// ================================================================================================
+// Helper Functions
+// ================================================================================================
+
+/**
+ * Extract the path + query string from an absolute or relative URL
+ *
+ * @param url - Request URL
+ * @returns Path with query string (e.g., '/api/v1/projects?page=1')
+ */
+function extractPath(url: string): string {
+  try {
+    const parsedUrl = new URL(url, 'http://localhost');
+    return `${parsedUrl.pathname}${parsedUrl.search}`;
+  } catch {
+    return url;
+  }
+}
+
+/**
+ * Evict the oldest entries when the cache grows beyond its limit
+ */
+function evictOverflow(): void {
+  while (responseCache.size > MAX_CACHE_ENTRIES) {
+    const oldestKey = responseCache.keys().next().value;
+    if (oldestKey === undefined) return;
+    responseCache.delete(oldestKey);
+  }
+}
+
+/**
+ * Check whether a path was invalidated after a request started
+ *
+ * @param path - Path + query string of the request
+ * @param generation - Cache generation when the request started
+ * @returns True if the response of that request is already outdated
+ */
+function isInvalidatedSince(path: string, generation: number): boolean {
+  for (const [prefix, invalidatedAt] of invalidatedPrefixes) {
+    if (invalidatedAt > generation && path.startsWith(prefix)) return true;
+  }
+  return false;
+}
+
+// ================================================================================================
+// Public API
+// ================================================================================================
+
+/**
+ * Current cache generation, recorded in the cache context when a request starts
+ *
+ * @returns Generation number compared against later invalidations
+ */
+export function getHttpCacheGeneration(): number {
+  return cacheGeneration;
+}
+
+/**
+ * Resolve the cache mode for a request
+ *
+ * Only GET requests are cacheable; everything else is always 'no-store'
+ *
+ * @param method - HTTP method
+ * @param meta - Effective request metadata
+ * @returns Cache mode to apply
+ */
+export function resolveCacheMode(method: string, meta: HttpMeta): HttpCacheMode {
+  if (method.toUpperCase() !== 'GET') return 'no-store';
+  return meta.cache ?? 'no-store';
+}
+
+/**
+ * Read a cached response
+ *
+ * @param key - Cache key
+ * @returns Cached entry or undefined
+ */
+export function readCachedResponse(key: string): HttpCacheEntry | undefined {
+  return responseCache.get(key);
+}
+
+/**
+ * Check whether a cached entry is still within its TTL
+ *
+ * @param entry - Cached entry
+ * @returns True if the entry can be served without revalidation
+ */
+export function isCacheEntryFresh(entry: HttpCacheEntry): boolean {
+  return Date.now() < entry.expiresAt;
+}
+
+/**
+ * Add conditional request headers for revalidating a cached entry
+ *
+ * @param headers - Caller-provided headers
+ * @param entry - Cached entry (if any)
+ * @returns Headers including If-None-Match / If-Modified-Since when available
+ */
+export function applyConditionalHeaders(headers: Record<string, string> | undefined, entry?: HttpCacheEntry): Record<string, string> | undefined {
+  if (!entry?.etag && !entry?.lastModified) {
+    return headers;
+  }
+
+  const conditionalHeaders: Record<string, string> = { ...headers };
+  if (entry.etag) conditionalHeaders['If-None-Match'] = entry.etag;
+  if (entry.lastModified) conditionalHeaders['If-Modified-Since'] = entry.lastModified;
+  return conditionalHeaders;
+}
+
+/**
+ * Store a fresh response in the cache
+ *
+ * Skipped when a matching invalidation ran while the request was in flight,
+ * so a mutation's invalidation is not undone by an older response.
+ *
+ * @param context - Cache context of the request
+ * @param data - Raw JSON payload
+ * @param responseHeaders - Response headers (for ETag / Last-Modified)
+ */
+export function storeCachedResponse(context: HttpCacheContext, data: unknown, responseHeaders?: Headers): void {
+  const path = extractPath(context.url);
+  if (isInvalidatedSince(path, context.generation)) return;
+
+  responseCache.delete(context.key);
+  responseCache.set(context.key, {
+    path,
+    data,
+    etag: responseHeaders?.get('etag') ?? undefined,
+    lastModified: responseHeaders?.get('last-modified') ?? undefined,
+    expiresAt: Date.now() + context.ttlMs,
+  });
+  evictOverflow();
+}
+
+/**
+ * Handle a 304 Not Modified response by extending the cached entry
+ *
+ * An entry invalidated while the request was in flight is not restored.
+ *
+ * @param context - Cache context containing the revalidated entry
+ * @returns Cached payload
+ */
+export function refreshCachedResponse(context: HttpCacheContext & { entry: HttpCacheEntry }): unknown {
+  if (isInvalidatedSince(context.entry.path, context.generation)) {
+    return context.entry.data;
+  }
+
+  const refreshedEntry: HttpCacheEntry = {
+    ...context.entry,
+    expiresAt: Date.now() + context.ttlMs,
+  };
+  responseCache.set(context.key, refreshedEntry);
+  return refreshedEntry.data;
+}
+
+/**
+ * Invalidate cached responses whose path starts with the given prefix
+ *
+ * @param pathPrefix - Path prefix (e.g., API_ROUTES.projects.list)
+ * @returns Number of removed entries
+ *
+ * @example
+ * ```typescript
+ * await httpPost(API_ROUTES.projects.list, { body });
+ * invalidateHttpCache(API_ROUTES.projects.list);
+ * ```
+ */
+export function invalidateHttpCache(pathPrefix: string): number {
+  const normalizedPrefix = extractPath(pathPrefix);
+  let removedCount = 0;
+
+  cacheGeneration += 1;
+  invalidatedPrefixes.set(normalizedPrefix, cacheGeneration);
+
+  for (const [key, entry] of responseCache) {
+    if (entry.path.startsWith(normalizedPrefix)) {
+      responseCache.delete(key);
+      removedCount += 1;
+    }
+  }
+
+  return removedCount;
+}
+
+/**
+ * Remove every cached response (e.g., on logout)
+ */
+export function clearHttpCache(): void {
+  responseCache.clear();
+
+  // The empty prefix covers every path, so older prefixes are no longer needed
+  cacheGeneration += 1;
+  invalidatedPrefixes.clear();
+  invalidatedPrefixes.set('', cacheGeneration);
+}
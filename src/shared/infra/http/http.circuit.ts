@@ -0,0 +1,309 @@
+/**
+ * HTTP Circuit Breaker Module
+ *
+ * Fails fast while an endpoint keeps failing:
+ * - One circuit per route template (e.g. /api/v1/projects/:id), derived from API_ROUTES
+ * - closed -> open after consecutive 5xx, network or timeout failures
+ * - open -> half-open once the cool-down ends; a single probe request closes or re-opens it
+ * - Requests hitting an open circuit throw a CircuitOpenError (SERVICE_UNAVAILABLE) without being sent
+ * - State changes are reported through logHttpEvent
+ */
+
+import { API_ROUTES } from '@/shared/config/api';
+import { AppError, CircuitOpenError } from '@/shared/infra/errors/appError';
+import { ErrorCode } from '@/shared/infra/errors/error-codes';
+import { HTTP_CONFIG } from '@/shared/infra/http/http.config';
+import { logHttpEvent } from '@/shared/infra/http/http.interceptors';
+import type { HttpCircuitBreakerPolicy, HttpCircuitState, HttpMeta } from '@/shared/infra/http/http.types';
+
+// ================================================================================================
+// Type Definitions
+// ================================================================================================
+
+/** Bookkeeping of one endpoint circuit */
+interface CircuitRecord {
+  /** Current state */
+  state: HttpCircuitState;
+
+  /** Consecutive failures recorded */
+  failureCount: number;
+
+  /** When the circuit last opened (milliseconds) */
+  openedAt: number;
+
+  /** Whether the half-open probe request is still running */
+  isProbing: boolean;
+}
+
+/** Route template compiled into a matcher */
+interface RouteTemplate {
+  template: string;
+  pattern: RegExp;
+}
+
+/** How a request ended, from the circuit's point of view */
+type CircuitOutcome = 'success' | 'failure' | 'cancelled';
+
+// ================================================================================================
+// Constants
+// ================================================================================================
+
+/** Value passed to API_ROUTES builders to obtain their template */
+const ROUTE_PARAM_PLACEHOLDER = ':id';
+
+/** Path segments that look like record IDs (numbers, Mongo ObjectIds, UUIDs) */
+const ID_LIKE_SEGMENT = /^(\d+|[\da-f]{24}|[\da-f]{8}-[\da-f]{4}-[\da-f]{4}-[\da-f]{4}-[\da-f]{12})$/i;
+
+// ================================================================================================
+// Global State - circuits and route templates
+// ================================================================================================
+
+/** Circuits keyed by route template (closed circuits without failures are dropped) */
+const circuits = new Map<string, CircuitRecord>();
+
+/** Route templates compiled from API_ROUTES on first use */
+let routeTemplates: RouteTemplate[] | null = null;
+
+// ================================================================================================
+// Route Templates
+// ================================================================================================
+
+/**
+ * Collect the path templates of a (nested) route table
+ *
+ * @param routes - Route table or one of its entries
+ * @param templates - Accumulator
+ * @returns Every route template, builders called with a placeholder
+ */
+function collectRouteTemplates(routes: unknown, templates: string[] = []): string[] {
+  if (typeof routes === 'string') {
+    templates.push(routes);
+  } else if (typeof routes === 'function') {
+    templates.push(String((routes as (id: string) => unknown)(ROUTE_PARAM_PLACEHOLDER)));
+  } else if (routes && typeof routes === 'object') {
+    for (const entry of Object.values(routes)) collectRouteTemplates(entry, templates);
+  }
+
+  return templates;
+}
+
+/**
+ * Compile the API_ROUTES templates, static paths first so they win over `:id` patterns
+ *
+ * @returns Compiled route templates
+ */
+function getRouteTemplates(): RouteTemplate[] {
+  routeTemplates ??= [...new Set(collectRouteTemplates(API_ROUTES))]
+    .sort((first, second) => Number(first.includes(':')) - Number(second.includes(':')))
+    .map(template => ({
+      template,
+      pattern: new RegExp(`^${template.replace(/[.+?^${}()|[\]\\]/g, String.raw`\$&`).replace(/:[^/]+/g, '[^/]+')}/?$`),
+    }));
+
+  return routeTemplates;
+}
+
+/**
+ * Resolve the circuit key (route template) of a request URL
+ *
+ * Paths outside API_ROUTES fall back to replacing ID-like segments with `:id`.
+ *
+ * @param url - Request URL
+ * @returns Route template, e.g. '/api/v1/projects/:id'
+ *
+ * @example
+ * ```typescript
+ * resolveCircuitKey('https://app.example.com/api/v1/projects/42?page=1'); // '/api/v1/projects/:id'
+ * ```
+ */
+export function resolveCircuitKey(url: string): string {
+  const { pathname } = new URL(url, 'http://localhost');
+  const matchingRoute = getRouteTemplates().find(({ pattern }) => pattern.test(pathname));
+  if (matchingRoute) return matchingRoute.template;
+
+  return pathname
+    .split('/')
+    .map(segment => (ID_LIKE_SEGMENT.test(segment) ? ROUTE_PARAM_PLACEHOLDER : segment))
+    .join('/');
+}
+
+// ================================================================================================
+// Policy & Outcome Classification
+// ================================================================================================
+
+/**
+ * Merge the per-request circuit breaker settings over the global default
+ *
+ * @param meta - Effective request metadata
+ * @returns Complete policy, or undefined when the request bypasses the breaker
+ */
+export function resolveCircuitPolicy(meta: HttpMeta): HttpCircuitBreakerPolicy | undefined {
+  if (meta.circuitBreaker === false) return undefined;
+  return { ...HTTP_CONFIG.defaultCircuitBreaker, ...meta.circuitBreaker };
+}
+
+/**
+ * Classify how a failed attempt reflects on the endpoint health
+ *
+ * Only 5xx, network errors and timeouts count against the endpoint;
+ * any other answer proves the backend is reachable.
+ *
+ * @param error - Error thrown by the attempt
+ * @param meta - Effective request metadata
+ * @returns Outcome of the attempt
+ */
+function classifyError(error: unknown, meta: HttpMeta): CircuitOutcome {
+  // Cancelled by the caller (or dropped from the concurrency queue): says nothing about the endpoint
+  if (meta.signal?.aborted || (error instanceof AppError && error.code === ErrorCode.CANCELLED)) return 'cancelled';
+
+  if (error instanceof AppError) {
+    const isFailure = error.code === ErrorCode.NETWORK_ERROR || error.code === ErrorCode.TIMEOUT_ERROR || (error.statusCode ?? 0) >= 500;
+    return isFailure ? 'failure' : 'success';
+  }
+
+  // fetch() network failure or AbortSignal.timeout()
+  if (error instanceof TypeError || (error instanceof Error && error.name === 'TimeoutError')) {
+    return 'failure';
+  }
+
+  return 'success';
+}
+
+// ================================================================================================
+// State Transitions
+// ================================================================================================
+
+/**
+ * Move a circuit to a new state and report the change
+ *
+ * @param circuit - Circuit key
+ * @param record - Circuit bookkeeping
+ * @param nextState - New state
+ */
+function transitionCircuit(circuit: string, record: CircuitRecord, nextState: HttpCircuitState): void {
+  const previousState = record.state;
+  record.state = nextState;
+  logHttpEvent({ type: 'circuit', circuit, state: nextState, previousState, failureCount: record.failureCount });
+}
+
+/**
+ * Let a request through, or throw while the circuit is open
+ *
+ * @param circuit - Circuit key
+ * @param policy - Circuit breaker policy
+ * @param now - Current timestamp (milliseconds)
+ * @returns Whether the request is the probe of a half-open circuit
+ * @throws CircuitOpenError while the circuit is open or its probe is running
+ */
+function acquireCircuit(circuit: string, policy: HttpCircuitBreakerPolicy, now: number): boolean {
+  const record = circuits.get(circuit);
+  if (!record) return false;
+
+  if (record.state === 'open') {
+    const remainingMs = record.openedAt + policy.cooldownMs - now;
+    if (remainingMs > 0) {
+      throw new CircuitOpenError(circuit, remainingMs);
+    }
+    transitionCircuit(circuit, record, 'half-open');
+  }
+
+  if (record.state === 'half-open') {
+    // Only one probe at a time; everyone else keeps failing fast
+    if (record.isProbing) {
+      throw new CircuitOpenError(circuit, 0);
+    }
+    record.isProbing = true;
+    return true;
+  }
+
+  return false;
+}
+
+/**
+ * Record how a request ended
+ *
+ * @param circuit - Circuit key
+ * @param outcome - Outcome of the request
+ * @param policy - Circuit breaker policy
+ * @param now - Current timestamp (milliseconds)
+ * @param isProbe - Whether the request was the half-open probe; requests sent before the circuit opened leave the probe running
+ */
+function releaseCircuit(circuit: string, outcome: CircuitOutcome, policy: HttpCircuitBreakerPolicy, now: number, isProbe: boolean): void {
+  const record = circuits.get(circuit);
+
+  if (outcome === 'cancelled') {
+    if (record && isProbe) record.isProbing = false;
+    return;
+  }
+
+  if (outcome === 'success') {
+    if (!record) return;
+    record.failureCount = 0;
+    if (record.state !== 'closed') transitionCircuit(circuit, record, 'closed');
+    circuits.delete(circuit);
+    return;
+  }
+
+  const failedRecord = record ?? { state: 'closed', failureCount: 0, openedAt: 0, isProbing: false };
+  circuits.set(circuit, failedRecord);
+  failedRecord.failureCount += 1;
+  if (isProbe) failedRecord.isProbing = false;
+
+  const shouldOpen = failedRecord.state === 'half-open' || (failedRecord.state === 'closed' && failedRecord.failureCount >= policy.failureThreshold);
+  if (shouldOpen) {
+    failedRecord.openedAt = now;
+    transitionCircuit(circuit, failedRecord, 'open');
+  }
+}
+
+// ================================================================================================
+// Public API
+// ================================================================================================
+
+/**
+ * Run one request attempt through the circuit of its endpoint
+ *
+ * @param url - Request URL
+ * @param meta - Effective request metadata
+ * @param send - Function sending the attempt
+ * @returns Result of the attempt
+ * @throws CircuitOpenError (SERVICE_UNAVAILABLE) without sending while the circuit is open
+ *
+ * @example
+ * ```typescript
+ * const data = await runWithCircuitBreaker(url, meta, () => executeRequest(url, init, meta));
+ * ```
+ */
+export async function runWithCircuitBreaker<T>(url: string, meta: HttpMeta, send: () => Promise<T>): Promise<T> {
+  const policy = resolveCircuitPolicy(meta);
+  if (!policy) return send();
+
+  const circuit = resolveCircuitKey(url);
+  const isProbe = acquireCircuit(circuit, policy, Date.now());
+
+  try {
+    const result = await send();
+    releaseCircuit(circuit, 'success', policy, Date.now(), isProbe);
+    return result;
+  } catch (error) {
+    releaseCircuit(circuit, classifyError(error, meta), policy, Date.now(), isProbe);
+    throw error;
+  }
+}
+
+/**
+ * Get the current state of an endpoint circuit
+ *
+ * @param circuit - Circuit key (route template)
+ * @returns Circuit state ('closed' when the endpoint has no recorded failures)
+ */
+export function getHttpCircuitState(circuit: string): HttpCircuitState {
+  return circuits.get(circuit)?.state ?? 'closed';
+}
+
+/**
+ * Close every circuit and forget recorded failures
+ */
+export function resetHttpCircuits(): void {
+  circuits.clear();
+}
@@ -2,29 +2,65 @@
  * HTTP Client Module
  *
  * Main HTTP client with features:
- * - Automatic retry with exponential backoff
+ * - Automatic retry with exponential backoff, Retry-After and idempotency-aware policy
+ * - Per-endpoint circuit breaker failing fast while a backend is down
+ * - Concurrency limit with request priorities (critical, high, normal, low)
  * - Token refresh when unauthorized
+ * - In-flight GET request deduplication
+ * - Array and nested-object query parameters (repeat, comma, brackets, deepObject)
+ * - JSON, multipart (automatic for File/Blob fields) and urlencoded bodies
+ * - Stale-while-revalidate response cache with ETag support
+ * - Upload/download progress reporting
+ * - Offline mutation queue replayed on reconnect
+ * - Swappable transport (network or in-memory mock backend)
+ * - NDJSON / Server-Sent Events streaming (httpStream)
+ * - Non-JSON response types and file downloads (httpDownload)
+ * - Backend envelope unwrapping (`success: false` becomes an AppError)
  * - Global loading state management
  * - Request/response interceptors
  * - Type-safe response validation
  * - Error handling and logging
  */
 
-import { AppError } from '@/shared/infra/errors/appError';
+import { AppError, CircuitOpenError, isForbiddenError, OfflineQueuedError } from '@/shared/infra/errors/appError';
 import { ErrorCode } from '@/shared/infra/errors/error-codes';
-import { isRetryableError } from '@/shared/infra/errors/error-handler';
+import { handleError, normalizeAbortError } from '@/shared/infra/errors/error-handler';
+import { serializeRequestBody } from '@/shared/infra/http/http.body';
+import type { HttpCacheContext } from '@/shared/infra/http/http.cache';
+import {
+  applyConditionalHeaders,
+  getHttpCacheGeneration,
+  isCacheEntryFresh,
+  readCachedResponse,
+  resolveCacheMode,
+} from '@/shared/infra/http/http.cache';
+import { runWithCircuitBreaker } from '@/shared/infra/http/http.circuit';
 import { HTTP_CONFIG } from '@/shared/infra/http/http.config';
+import { buildDedupeKey, shareInFlightRequest, shouldDedupeRequest, withDedupePolicy } from '@/shared/infra/http/http.dedupe';
+import type { HttpDownloadOptions, HttpDownloadResult } from '@/shared/infra/http/http.download';
+import { DEFAULT_DOWNLOAD_FILENAME, parseContentDispositionFilename, saveBlob } from '@/shared/infra/http/http.download';
 import {
   applyRequestInterceptors,
   applyResponseInterceptors,
   attemptTokenRefresh,
   generateCorrelationId,
   interceptHttpError,
-  logHttpEvent,
+  notifyForbidden,
   notifyUnauthorized,
+  resolveAuthIdentity,
+  resolveLocale,
 } from '@/shared/infra/http/http.interceptors';
-import type { HttpMeta, HttpOptions, HttpRequestOptions } from '@/shared/infra/http/http.types';
-import { parseApiResponse } from '@/shared/infra/validation/schemas';
+import { enqueueOfflineRequest, isBrowserOffline, isOfflineFailure, shouldQueueWhenOffline } from '@/shared/infra/http/http.offline';
+import { appendQueryParameters } from '@/shared/infra/http/http.query';
+import type { ResponseReader } from '@/shared/infra/http/http.response';
+import { createJsonResponseReader, createResponseReader, readJsonPayload, throwResponseError } from '@/shared/infra/http/http.response';
+import type { HttpRetryState } from '@/shared/infra/http/http.retry';
+import { applyIdempotencyKey, resolveRetryDelay, waitForRetry } from '@/shared/infra/http/http.retry';
+import { resolveRequestPriority, runWithRequestSlot } from '@/shared/infra/http/http.scheduler';
+import type { HttpStreamChunk, HttpStreamFormat, HttpStreamOptions } from '@/shared/infra/http/http.stream';
+import { HTTP_STREAM_ACCEPT, readResponseStream } from '@/shared/infra/http/http.stream';
+import { getHttpTransport } from '@/shared/infra/http/http.transport';
+import type { HttpMeta, HttpOptions, HttpParams, HttpQueryFormat, HttpRequestOptions } from '@/shared/infra/http/http.types';
 import { startGlobalLoading, stopGlobalLoading } from '@/shared/state/controllers/loading.controller';
 
 // ================================================================================================
@@ -34,92 +70,10 @@ import { startGlobalLoading, stopGlobalLoading } from '@/shared/state/controller
 /** Base URL for API calls - taken from environment variable */
 const API_BASE_URL: string = process.env.NEXT_PUBLIC_API_BASE_URL ?? '';
 
-/**
- * Mapping from HTTP status codes to application error codes
- *
- * Enables consistent error handling across the entire app
- */
-const HTTP_STATUS_TO_ERROR_CODE: Record<number, ErrorCode> = {
-  400: ErrorCode.BAD_REQUEST, // Bad Request
-  401: ErrorCode.UNAUTHORIZED, // Unauthorized
-  403: ErrorCode.FORBIDDEN, // Forbidden
-  404: ErrorCode.NOT_FOUND, // Not Found
-  408: ErrorCode.TIMEOUT_ERROR, // Request Timeout
-  409: ErrorCode.BAD_REQUEST, // Conflict (treat as bad request)
-  422: ErrorCode.VALIDATION_ERROR, // Unprocessable Entity
-  429: ErrorCode.SERVICE_UNAVAILABLE, // Too Many Requests
-};
-
-// ================================================================================================
-// Helper Functions - utility functions for HTTP operations
-// ================================================================================================
-
-/**
- * Resolve HTTP status code to an application error code
- *
- * @param httpStatusCode - HTTP status code from the response
- * @returns Corresponding application error code
- */
-function resolveApplicationErrorCode(httpStatusCode: number): ErrorCode {
-  // 5xx errors -> server error
-  if (httpStatusCode >= 500) {
-    return ErrorCode.SERVER_ERROR;
-  }
-
-  // Other codes -> lookup in the mapping table
-  return HTTP_STATUS_TO_ERROR_CODE[httpStatusCode] ?? ErrorCode.UNKNOWN_ERROR;
-}
-
-/**
- * Extract error details from the HTTP response
- *
- * Attempts to parse the response body as JSON, falling back to text.
- * Safe operation - does not throw if parsing fails.
- *
- * @param httpResponse - Response object from fetch()
- * @returns Parsed error details or undefined if parsing fails
- */
-async function extractHttpErrorDetails(httpResponse: Response): Promise<unknown> {
-  // Clone the response to avoid consuming the stream
-  const responseClone = httpResponse.clone();
-  const responseContentType = responseClone.headers.get('content-type') ?? '';
-
-  try {
-    // Prefer JSON parsing if the content-type indicates JSON
-    if (responseContentType.includes('application/json')) {
-      return await responseClone.json();
-    }
-
-    // Fallback to text parsing
-    return await responseClone.text();
-  } catch {
-    // Safe fallback - return undefined if parsing fails
-    return undefined;
-  }
-}
-
 // ================================================================================================
 // URL Building Functions - building URLs with parameters
 // ================================================================================================
 
-/**
- * Helper function to append query parameters to the URL
- *
- * Skips undefined/null values to avoid ?key=undefined in the URL
- *
- * @param targetUrl - URL object to append parameters to
- * @param queryParams - Object containing key-value parameters
- */
-function appendQueryParameters(targetUrl: URL, queryParams: Record<string, string | number | boolean | undefined>): void {
-  for (const [paramKey, paramValue] of Object.entries(queryParams)) {
-    // Skip undefined/null values
-    if (paramValue === undefined || paramValue === null) continue;
-
-    // Convert to string and add to the URL
-    targetUrl.searchParams.set(paramKey, String(paramValue));
-  }
-}
-
 /**
  * Build a complete URL with optional query parameters
  *
@@ -129,16 +83,17 @@ function appendQueryParameters(targetUrl: URL, queryParams: Record<string, strin
  *
  * @param requestPath - API endpoint path (e.g., '/api/users')
  * @param queryParams - Optional query parameters
+ * @param queryFormat - Encoding of array and nested-object parameters
  * @returns Complete URL string ready for fetch()
  */
-function buildRequestUrl(requestPath: string, queryParams?: Record<string, string | number | boolean | undefined>): string {
+function buildRequestUrl(requestPath: string, queryParams: HttpParams | undefined, queryFormat: HttpQueryFormat): string {
   // Normalize path - ensure it starts with '/'
   const normalizedPath = requestPath.startsWith('/') ? requestPath : `/${requestPath}`;
 
   // CLIENT-SIDE: use a relative URL to leverage Next.js rewrites
   if (globalThis.window !== undefined) {
     const clientUrl = new URL(normalizedPath, globalThis.window.location.origin);
-    if (queryParams) appendQueryParameters(clientUrl, queryParams);
+    if (queryParams) appendQueryParameters(clientUrl, queryParams, queryFormat);
     return clientUrl.toString();
   }
 
@@ -146,76 +101,10 @@ function buildRequestUrl(requestPath: string, queryParams?: Record<string, strin
   const apiBaseUrl = API_BASE_URL || 'http://localhost:3000';
   const normalizedBaseUrl = apiBaseUrl.endsWith('/') ? apiBaseUrl.slice(0, -1) : apiBaseUrl;
   const serverUrl = new URL(normalizedPath, normalizedBaseUrl);
-  if (queryParams) appendQueryParameters(serverUrl, queryParams);
+  if (queryParams) appendQueryParameters(serverUrl, queryParams, queryFormat);
   return serverUrl.toString();
 }
 
-// ================================================================================================
-// Body Serialization Functions - handling the request body
-// ================================================================================================
-
-/**
- * Type guard to check whether a value is a valid BodyInit
- *
- * BodyInit is the union of types that can be passed as a fetch() body:
- * string | Blob | ArrayBufferView | ArrayBuffer | FormData | URLSearchParams | ReadableStream
- *
- * @param value - Value to check
- * @returns True if the value is a valid BodyInit type
- */
-function isValidBodyInitType(value: unknown): value is BodyInit {
-  // Null/undefined check
-  if (value == null) return false;
-
-  // Primitive types
-  if (typeof value === 'string') return true;
-
-  // Browser-specific types (check existence before using instanceof)
-  if (typeof Blob !== 'undefined' && value instanceof Blob) return true;
-  if (typeof FormData !== 'undefined' && value instanceof FormData) return true;
-  if (typeof URLSearchParams !== 'undefined' && value instanceof URLSearchParams) return true;
-  if (typeof ReadableStream !== 'undefined' && value instanceof ReadableStream) return true;
-
-  // ArrayBuffer types
-  if (value instanceof ArrayBuffer) return true;
-  if (typeof ArrayBuffer !== 'undefined' && typeof ArrayBuffer.isView === 'function' && ArrayBuffer.isView(value)) {
-    return true;
-  }
-
-  return false;
-}
-
-/**
- * Serialize the request body into a format suitable for fetch()
- *
- * Handles different input types:
- * - Already valid BodyInit -> pass through
- * - Objects/primitives -> JSON.stringify
- * - null/undefined -> undefined
- *
- * @param requestBody - Body data to serialize
- * @returns Serialized BodyInit or undefined
- */
-function serializeRequestBody(requestBody: unknown): BodyInit | undefined {
-  // Early return for null/undefined
-  if (requestBody === undefined || requestBody === null) {
-    return undefined;
-  }
-
-  // If it's already a valid BodyInit -> pass through
-  if (isValidBodyInitType(requestBody)) {
-    return requestBody;
-  }
-
-  // Serialize objects, booleans, and numbers to JSON
-  if (typeof requestBody === 'object' || typeof requestBody === 'boolean' || typeof requestBody === 'number') {
-    return JSON.stringify(requestBody);
-  }
-
-  // Fallback: serialize everything else as JSON
-  return JSON.stringify(requestBody);
-}
-
 // ================================================================================================
 // Timestamp Utilities - Performance timing functions
 // ================================================================================================
@@ -240,73 +129,55 @@ function getCurrentTimestamp(): number {
   return Date.now();
 }
 
+/**
+ * Reader handing the unread response to the caller (used for streaming)
+ *
+ * @param response - Response from the transport
+ * @returns The same response when it succeeded
+ */
+async function readStreamingResponse(response: Response): Promise<Response> {
+  if (!response.ok) {
+    return throwResponseError(response);
+  }
+
+  return response;
+}
+
+// ================================================================================================
+// Request Execution - single attempts and the retry/refresh loop
+// ================================================================================================
+
+/**
+ * Send one attempt through the interceptor pipeline
+ *
+ * @param url - Request URL
+ * @param requestInit - fetch options
+ * @param effectiveMeta - Request metadata with defaults applied
+ * @param attempt - Attempt number (0-based)
+ * @param method - HTTP method
+ * @param readResponse - Reader turning the response into data
+ * @returns Promise that resolves to the read payload
+ */
 async function executeRequest<T>(
   url: string,
   requestInit: RequestInit,
   effectiveMeta: HttpMeta,
   attempt: number,
   method: string,
-  schema: unknown
+  readResponse: ResponseReader<T>
 ): Promise<T> {
   const attemptStartedAt = getCurrentTimestamp();
-  const computeDuration = () => getCurrentTimestamp() - attemptStartedAt;
 
-  const [finalUrl, finalOptions] = await applyRequestInterceptors(url, requestInit, effectiveMeta);
+  const [finalUrl, finalOptions] = await applyRequestInterceptors(url, requestInit, effectiveMeta, attempt);
 
-  logHttpEvent({
-    type: 'request',
-    method,
+  const response = await getHttpTransport()(finalUrl, finalOptions, effectiveMeta);
+  const handledResponse = await applyResponseInterceptors(response, effectiveMeta, attempt, {
     url: finalUrl,
-    correlationId: effectiveMeta.correlationId,
-    attempt,
-  });
-
-  const response = await fetch(finalUrl, finalOptions);
-  const handledResponse = await applyResponseInterceptors(response, effectiveMeta, attempt);
-
-  if (!handledResponse.ok) {
-    const httpStatusCode = handledResponse.status;
-    const errorDetails = await extractHttpErrorDetails(handledResponse);
-    throw new AppError(resolveApplicationErrorCode(httpStatusCode), undefined, httpStatusCode, errorDetails);
-  }
-
-  if (handledResponse.status === 204) {
-    logHttpEvent({
-      type: 'response',
-      method,
-      url: finalUrl,
-      status: handledResponse.status,
-      correlationId: effectiveMeta.correlationId,
-      durationMs: computeDuration(),
-    });
-    return void 0 as T;
-  }
-
-  const data = await handledResponse.json();
-
-  if (schema) {
-    const parsed = parseApiResponse(schema as never, data);
-    logHttpEvent({
-      type: 'response',
-      method,
-      url: finalUrl,
-      status: handledResponse.status,
-      correlationId: effectiveMeta.correlationId,
-      durationMs: computeDuration(),
-    });
-    return parsed as T;
-  }
-
-  logHttpEvent({
-    type: 'response',
     method,
-    url: finalUrl,
-    status: handledResponse.status,
-    correlationId: effectiveMeta.correlationId,
-    durationMs: computeDuration(),
+    durationMs: getCurrentTimestamp() - attemptStartedAt,
   });
 
-  return data as T;
+  return readResponse(handledResponse);
 }
 
 async function handleTokenRefresh(error: unknown, effectiveMeta: HttpMeta, hasRefreshedToken: boolean): Promise<boolean> {
@@ -316,8 +187,8 @@ async function handleTokenRefresh(error: unknown, effectiveMeta: HttpMeta, hasRe
 
   if (!hasRefreshedToken) {
     try {
-      const refreshedToken = await attemptTokenRefresh();
-      if (refreshedToken) return true;
+      const isRefreshed = await attemptTokenRefresh();
+      if (isRefreshed) return true;
     } catch {
       // Fall through to unauthorized handling
     }
@@ -327,35 +198,232 @@ async function handleTokenRefresh(error: unknown, effectiveMeta: HttpMeta, hasRe
   return hasRefreshedToken;
 }
 
+/**
+ * Open the 403 page for a forbidden authenticated request
+ *
+ * Public requests (meta.skipAuth) and requests with meta.skipForbiddenRedirect keep the
+ * user on the page; the error is still thrown to the caller.
+ *
+ * @param error - Final error of the request
+ * @param effectiveMeta - Request metadata with defaults applied
+ */
+function handleForbidden(error: unknown, effectiveMeta: HttpMeta): void {
+  if (!isForbiddenError(error) || effectiveMeta.skipAuth || effectiveMeta.skipForbiddenRedirect) return;
+
+  notifyForbidden();
+}
+
 /**
  * Handle retry logic with exponential backoff + jitter
  *
+ * Honours Retry-After, skips non-idempotent requests and stops once the
+ * policy's total wait budget would be exceeded (see http.retry).
+ *
  * @param error - Error from the previous attempt
  * @param currentAttempt - Attempt number (0-based)
  * @param maxRetryAttempts - Maximum number of retries allowed
  * @param requestMeta - Request metadata containing retry config
+ * @param retryState - Retry bookkeeping of the request (updated with the time waited)
  * @returns True if it should retry, false otherwise
  */
-async function handleRetryLogic(error: unknown, currentAttempt: number, maxRetryAttempts: number, requestMeta: HttpMeta): Promise<boolean> {
-  // Check conditions to decide whether to retry
-  const isRetryableErr = error instanceof AppError && isRetryableError(error);
-  const hasRetriesLeft = currentAttempt < maxRetryAttempts;
-
-  if (!isRetryableErr || !hasRetriesLeft) {
+async function handleRetryLogic(
+  error: unknown,
+  currentAttempt: number,
+  maxRetryAttempts: number,
+  requestMeta: HttpMeta,
+  retryState: HttpRetryState
+): Promise<boolean> {
+  const retryDelayMs = resolveRetryDelay(error, currentAttempt, maxRetryAttempts, requestMeta, retryState);
+  if (retryDelayMs === undefined) {
     return false;
   }
 
-  // Calculate backoff delay with exponential backoff + jitter
-  const baseDelayMs = requestMeta.retryDelayMs ?? HTTP_CONFIG.defaultRetryDelayMs;
-  const exponentialBackoff = baseDelayMs * Math.pow(2, currentAttempt);
-  const jitterMs = Math.random() * 100; // Random jitter to avoid thundering herd
-  const totalDelayMs = exponentialBackoff + jitterMs;
-
   // Wait before retry
-  await new Promise<void>(resolve => setTimeout(resolve, totalDelayMs));
+  retryState.totalDelayMs += retryDelayMs;
+  await waitForRetry(retryDelayMs, requestMeta.signal);
   return true;
 }
 
+/**
+ * Send a request with retries, circuit breaking, concurrency limit, token refresh and global loading
+ *
+ * Each attempt holds a concurrency slot while it is sent and read; retry waits and
+ * token refreshes happen outside the slot.
+ *
+ * @param requestUrl - Fully built request URL
+ * @param requestOptions - HTTP request configuration
+ * @param effectiveMeta - Request metadata with defaults applied
+ * @param cacheContext - Cache context for cacheable GET requests
+ * @param readResponse - Reader turning the response into data (default: per responseType, JSON with schema validation)
+ * @returns Promise that resolves to typed response data
+ */
+async function performRequest<T>(
+  requestUrl: string,
+  requestOptions: HttpOptions<unknown>,
+  effectiveMeta: HttpMeta,
+  cacheContext?: HttpCacheContext,
+  readResponse: ResponseReader<T> = createResponseReader<T>(requestOptions, cacheContext)
+): Promise<T> {
+  const { method = 'GET', body } = requestOptions;
+
+  // Setup retry and loading state management
+  const maxRetryAttempts = effectiveMeta.retry ?? 0;
+  const priority = resolveRequestPriority(method, effectiveMeta);
+  const shouldShowGlobalLoading = effectiveMeta.showGlobalLoading ?? true;
+
+  if (shouldShowGlobalLoading) {
+    startGlobalLoading();
+  }
+
+  // Initialize attempt tracking
+  let currentAttempt = 0;
+  let hasAlreadyRefreshedToken = false;
+  const retryState: HttpRetryState = { method, headers: requestOptions.headers, totalDelayMs: 0 };
+
+  try {
+    while (currentAttempt <= maxRetryAttempts) {
+      const requestInit: RequestInit = {
+        method,
+        headers: applyConditionalHeaders(requestOptions.headers, cacheContext?.entry),
+        body: serializeRequestBody(body, effectiveMeta),
+      };
+      if (requestOptions.signal) {
+        requestInit.signal = requestOptions.signal;
+      }
+
+      try {
+        return await runWithCircuitBreaker(requestUrl, effectiveMeta, () =>
+          runWithRequestSlot(priority, effectiveMeta.signal ?? requestInit.signal ?? undefined, () =>
+            executeRequest<T>(requestUrl, requestInit, effectiveMeta, currentAttempt, method, readResponse)
+          )
+        );
+      } catch (error) {
+        // Open circuit: fail fast instead of refreshing or retrying
+        if (error instanceof CircuitOpenError) {
+          interceptHttpError(error, effectiveMeta, { url: requestUrl, method });
+        }
+
+        // Caller aborts become CANCELLED, timeouts a retryable TIMEOUT_ERROR
+        const attemptError = normalizeAbortError(error, effectiveMeta) ?? error;
+
+        hasAlreadyRefreshedToken = await handleTokenRefresh(attemptError, effectiveMeta, hasAlreadyRefreshedToken);
+        if (hasAlreadyRefreshedToken) {
+          continue;
+        }
+
+        const shouldRetry = await handleRetryLogic(attemptError, currentAttempt, maxRetryAttempts, effectiveMeta, retryState);
+        if (shouldRetry) {
+          currentAttempt += 1;
+          continue;
+        }
+
+        handleForbidden(attemptError, effectiveMeta);
+        interceptHttpError(attemptError, effectiveMeta, { url: requestUrl, method });
+      }
+    }
+    throw new AppError(ErrorCode.UNKNOWN_ERROR, 'Failed to execute HTTP request');
+  } finally {
+    if (shouldShowGlobalLoading) {
+      stopGlobalLoading();
+    }
+  }
+}
+
+/**
+ * Send a mutation, or queue it for replay when the backend cannot be reached
+ *
+ * The error notification is deferred until it is clear the request was not queued.
+ *
+ * @param requestPath - API endpoint path (replayed through http())
+ * @param requestUrl - Fully built request URL
+ * @param requestOptions - HTTP request configuration
+ * @param effectiveMeta - Request metadata with defaults applied
+ * @returns Promise that resolves to typed response data
+ * @throws OfflineQueuedError once the request is queued
+ */
+async function performQueueableRequest<T>(
+  requestPath: string,
+  requestUrl: string,
+  requestOptions: HttpOptions<unknown>,
+  effectiveMeta: HttpMeta
+): Promise<T> {
+  const queueRequest = () => new OfflineQueuedError(enqueueOfflineRequest(requestPath, requestOptions, effectiveMeta, generateCorrelationId).id);
+
+  if (isBrowserOffline()) {
+    throw queueRequest();
+  }
+
+  try {
+    return await performRequest<T>(requestUrl, requestOptions, { ...effectiveMeta, showErrorNotification: false });
+  } catch (error) {
+    if (isOfflineFailure(error)) {
+      throw queueRequest();
+    }
+    throw handleError(error, { meta: effectiveMeta });
+  }
+}
+
+/**
+ * Apply default values from HTTP_CONFIG to the request metadata
+ *
+ * @param providedMeta - Metadata passed by the caller
+ * @returns New metadata object with defaults filled in
+ */
+function resolveEffectiveMeta(providedMeta: HttpMeta): HttpMeta {
+  const effectiveMeta: HttpMeta = {
+    ...providedMeta,
+  };
+
+  // Apply default values from HTTP_CONFIG if not specified
+  effectiveMeta.retry ??= HTTP_CONFIG.defaultRetryAttempts;
+  effectiveMeta.retryDelayMs ??= HTTP_CONFIG.defaultRetryDelayMs;
+  effectiveMeta.timeout ??= HTTP_CONFIG.defaultTimeoutMs;
+  effectiveMeta.correlationId ??= generateCorrelationId();
+  effectiveMeta.skipAuthRefresh ??= false;
+  effectiveMeta.showErrorNotification ??= true;
+
+  return effectiveMeta;
+}
+
+/**
+ * Fetch the raw (unvalidated) payload of a shareable or cacheable GET request
+ *
+ * Identical in-flight requests with the same policy are joined unless meta.dedupe is false.
+ *
+ * @param requestUrl - Fully built request URL
+ * @param requestOptions - HTTP request configuration
+ * @param effectiveMeta - Request metadata with defaults applied
+ * @param requestKey - Key identifying identical requests
+ * @param callerSignal - Caller's AbortSignal
+ * @param cacheContext - Cache context for cacheable GET requests
+ * @returns Promise that resolves to the raw response payload
+ */
+function fetchRawResponse(
+  requestUrl: string,
+  requestOptions: HttpOptions<unknown>,
+  effectiveMeta: HttpMeta,
+  requestKey: string,
+  callerSignal?: AbortSignal,
+  cacheContext?: HttpCacheContext
+): Promise<unknown> {
+  // Envelopes are shared and cached whole; each caller unwraps its own copy of the body
+  const readResponse = createJsonResponseReader<unknown>(undefined, cacheContext, requestOptions.unwrapEnvelope ? 'verify' : 'none');
+  const send = (signal?: AbortSignal) =>
+    performRequest<unknown>(
+      requestUrl,
+      { ...requestOptions, schema: undefined, signal: undefined },
+      { ...effectiveMeta, signal },
+      cacheContext,
+      readResponse
+    );
+
+  if (!shouldDedupeRequest(requestOptions.method ?? 'GET', effectiveMeta)) {
+    return send(callerSignal);
+  }
+
+  return shareInFlightRequest(withDedupePolicy(requestKey, effectiveMeta), callerSignal, send);
+}
+
 // ================================================================================================
 // Main HTTP Function - Core HTTP client implementation
 // ================================================================================================
@@ -364,16 +432,24 @@ async function handleRetryLogic(error: unknown, currentAttempt: number, maxRetry
  * Main HTTP client function with comprehensive features
  *
  * Features:
- * - Automatic retry with exponential backoff
+ * - Automatic retry with exponential backoff (idempotent requests only, honours Retry-After)
+ * - Concurrency limit with priorities (meta.priority: 'critical' | 'high' | 'normal' | 'low')
+ * - Idempotency-Key generation for mutations marked with meta.idempotent
  * - Token refresh when unauthorized
+ * - Identical in-flight GET requests with the same policy share one network call (opt out with meta.dedupe = false)
+ * - Optional GET response cache (meta.cache: 'swr' | 'cache-first')
+ * - Upload/download progress (meta.onUploadProgress / meta.onDownloadProgress)
+ * - JSON, text, Blob, ArrayBuffer or stream bodies (responseType)
+ * - Offline queue for mutations marked with meta.queueWhenOffline (throws OfflineQueuedError once queued)
  * - Request/response interceptors
  * - Type-safe response validation with Zod
+ * - Backend envelope unwrapping (unwrapEnvelope; the message is read with getEnvelopeMessage)
  * - Global loading state management
  * - Comprehensive error handling and logging
  *
  * @template T - Expected response type
  * @param requestPath - API endpoint path
- * @param requestOptions - HTTP request configuration
+ * @param providedOptions - HTTP request configuration
  * @returns Promise that resolves to typed response data
  *
  * @example
@@ -388,81 +464,213 @@ async function handleRetryLogic(error: unknown, currentAttempt: number, maxRetry
  *   schema: userSchema,
  *   meta: { showGlobalLoading: true }
  * });
+ *
+ * // Backend envelope: resolves with the validated body, rejects when success is false
+ * const project = await http('/api/v1/projects', { method: 'POST', body, schema: projectSchema, unwrapEnvelope: true });
  * ```
  */
-export async function http<T = unknown>(requestPath: string, requestOptions: HttpOptions<T> = {}): Promise<T> {
+export async function http<T = unknown>(requestPath: string, providedOptions: HttpOptions<T> = {}): Promise<T> {
   // Step 1: Destructure and set up default values
-  const { method = 'GET', params, body, schema, meta: providedMeta = {} } = requestOptions;
+  const { method = 'GET', params, schema, responseType = 'json', unwrapEnvelope = false, meta: providedMeta = {} } = providedOptions;
 
   // Step 2: Setup effective metadata with defaults from config
-  const effectiveMeta: HttpMeta = {
-    ...providedMeta,
+  // (the interceptors and abort normalisation only read meta.signal)
+  const effectiveMeta = resolveEffectiveMeta(providedMeta);
+  effectiveMeta.signal ??= providedOptions.signal;
+  effectiveMeta.responseType = responseType;
+
+  // Streamed bodies stay open after the response arrives: only an explicit timeout applies
+  if (responseType === 'stream') {
+    effectiveMeta.timeout = providedMeta.timeout;
+  }
+
+  // Step 3: Build complete request URL with query params
+  const requestUrl = buildRequestUrl(requestPath, params, effectiveMeta.queryFormat ?? HTTP_CONFIG.defaultQueryFormat);
+
+  // One Idempotency-Key per logical call, reused by every retry and the replay after token refresh
+  const requestOptions: HttpOptions<T> = {
+    ...providedOptions,
+    headers: applyIdempotencyKey(method, providedOptions.headers, effectiveMeta, generateCorrelationId),
   };
 
-  // Apply default values from HTTP_CONFIG if not specified
-  effectiveMeta.retry ??= HTTP_CONFIG.defaultRetryAttempts;
-  effectiveMeta.retryDelayMs ??= HTTP_CONFIG.defaultRetryDelayMs;
-  effectiveMeta.timeout ??= HTTP_CONFIG.defaultTimeoutMs;
-  effectiveMeta.correlationId ??= generateCorrelationId();
-  effectiveMeta.skipAuthRefresh ??= false;
-  effectiveMeta.showErrorNotification ??= true;
+  // Mutations opting into the offline queue are stored instead of failing while offline
+  if (shouldQueueWhenOffline(method, effectiveMeta, requestOptions.body)) {
+    return performQueueableRequest<T>(requestPath, requestUrl, requestOptions, effectiveMeta);
+  }
 
-  // Step 3: Build complete request URL with query params
-  const requestUrl = buildRequestUrl(requestPath, params);
+  // Step 4: Send the request directly unless it can be shared or served from cache
+  // (non-JSON bodies are read once per caller, so they are never shared or cached)
+  const cacheMode = resolveCacheMode(method, effectiveMeta);
+  if (responseType !== 'json' || (cacheMode === 'no-store' && !shouldDedupeRequest(method, effectiveMeta))) {
+    return performRequest<T>(requestUrl, requestOptions, effectiveMeta);
+  }
 
-  // Step 4: Setup retry and loading state management
-  const maxRetryAttempts = effectiveMeta.retry ?? 0;
-  const shouldShowGlobalLoading = effectiveMeta.showGlobalLoading ?? true;
+  // Step 5: Identify the request - auth identity and locale change the response
+  const callerSignal = effectiveMeta.signal;
+  const authIdentity = effectiveMeta.skipAuth ? 'public' : (resolveAuthIdentity() ?? 'anonymous');
+  const requestKey = buildDedupeKey(method, requestUrl, authIdentity, resolveLocale());
+  const cachedEntry = cacheMode === 'no-store' ? undefined : readCachedResponse(requestKey);
+  const cacheContext: HttpCacheContext | undefined =
+    cacheMode === 'no-store'
+      ? undefined
+      : {
+          key: requestKey,
+          url: requestUrl,
+          ttlMs: effectiveMeta.cacheTtlMs ?? HTTP_CONFIG.defaultCacheTtlMs,
+          entry: cachedEntry,
+          generation: getHttpCacheGeneration(),
+        };
+
+  let sharedData: unknown;
+  if (cachedEntry && (cacheMode === 'swr' || isCacheEntryFresh(cachedEntry))) {
+    // Serve from cache; stale SWR entries are revalidated silently in the background
+    sharedData = cachedEntry.data;
+    if (!isCacheEntryFresh(cachedEntry)) {
+      const backgroundMeta: HttpMeta = { ...effectiveMeta, showGlobalLoading: false, showErrorNotification: false };
+      fetchRawResponse(requestUrl, requestOptions, backgroundMeta, requestKey, undefined, cacheContext).catch(() => undefined);
+    }
+  } else {
+    // Join (or start) the shared request, revalidating any cached entry
+    try {
+      sharedData = await fetchRawResponse(requestUrl, requestOptions, effectiveMeta, requestKey, callerSignal, cacheContext);
+    } catch (error) {
+      // The caller aborted its own subscription: normalise it like a direct abort
+      if (callerSignal?.aborted) {
+        interceptHttpError(error, effectiveMeta, { url: requestUrl, method });
+      }
+      throw error;
+    }
+  }
 
-  if (shouldShowGlobalLoading) {
-    startGlobalLoading();
+  // Step 6: Validate the shared payload with this caller's schema (unwrapping the envelope)
+  if (!schema && !unwrapEnvelope) {
+    return sharedData as T;
   }
 
-  // Step 5: Initialize attempt tracking
-  let currentAttempt = 0;
-  let hasAlreadyRefreshedToken = false;
+  try {
+    return readJsonPayload<T>(sharedData, schema, unwrapEnvelope);
+  } catch (error) {
+    interceptHttpError(error, effectiveMeta, { url: requestUrl, method });
+  }
+}
+
+// ================================================================================================
+// Streaming HTTP Function - NDJSON and Server-Sent Events
+// ================================================================================================
+
+/**
+ * Stream a response as NDJSON lines or Server-Sent Events
+ *
+ * Goes through the same interceptors, token refresh, correlation ID and
+ * retry policy as http(); retries and refresh only happen before the first
+ * chunk arrives. The default request timeout does not apply because streams
+ * stay open until the server closes them - pass meta.timeout to bound the
+ * whole stream, or abort it with meta.signal / signal. Breaking out of the
+ * loop cancels the response body.
+ *
+ * @template T - Type of each NDJSON line or SSE event data
+ * @template TFormat - Wire format ('ndjson' yields T, 'sse' yields HttpServerSentEvent<T>)
+ * @param requestPath - API endpoint path
+ * @param streamOptions - Request configuration plus format and per-chunk schema
+ * @returns Async generator of parsed lines (NDJSON) or events (SSE)
+ *
+ * @example
+ * ```typescript
+ * for await (const event of httpStream('/api/v1/jobs/42/progress', { format: 'sse', schema: progressSchema, signal })) {
+ *   setProgress(event.data.percent);
+ * }
+ *
+ * for await (const line of httpStream<LogLine>('/api/v1/jobs/42/logs', { schema: logLineSchema })) {
+ *   appendLog(line);
+ * }
+ * ```
+ */
+export async function* httpStream<T = unknown, TFormat extends HttpStreamFormat = 'ndjson'>(
+  requestPath: string,
+  streamOptions: HttpStreamOptions<T, TFormat> = {}
+): AsyncGenerator<HttpStreamChunk<T, TFormat>, void, undefined> {
+  const { method = 'GET', format = 'ndjson', schema, params, meta: providedMeta = {}, ...requestOptions } = streamOptions;
+
+  // Streams stay open until the server closes them: only an explicit timeout applies
+  const effectiveMeta = resolveEffectiveMeta(providedMeta);
+  effectiveMeta.timeout = providedMeta.timeout;
+  effectiveMeta.signal ??= requestOptions.signal;
+  effectiveMeta.responseType = 'stream';
+
+  const requestUrl = buildRequestUrl(requestPath, params, effectiveMeta.queryFormat ?? HTTP_CONFIG.defaultQueryFormat);
+  const streamRequestOptions: HttpOptions<unknown> = {
+    ...requestOptions,
+    method,
+    headers: applyIdempotencyKey(method, { Accept: HTTP_STREAM_ACCEPT[format], ...requestOptions.headers }, effectiveMeta, generateCorrelationId),
+  };
+
+  const response = await performRequest(requestUrl, streamRequestOptions, effectiveMeta, undefined, readStreamingResponse);
 
   try {
-    while (currentAttempt <= maxRetryAttempts) {
-      const requestInit: RequestInit = {
-        method,
-        headers: requestOptions.headers,
-        body: serializeRequestBody(body),
-      };
-      if (requestOptions.signal) {
-        requestInit.signal = requestOptions.signal;
-      }
+    yield* readResponseStream(response, format, schema) as AsyncGenerator<HttpStreamChunk<T, TFormat>>;
+  } catch (error) {
+    interceptHttpError(error, effectiveMeta, { url: requestUrl, method });
+  }
+}
 
-      try {
-        return await executeRequest<T>(requestUrl, requestInit, effectiveMeta, currentAttempt, method, schema);
-      } catch (error) {
-        hasAlreadyRefreshedToken = await handleTokenRefresh(error, effectiveMeta, hasAlreadyRefreshedToken);
-        if (hasAlreadyRefreshedToken) {
-          continue;
-        }
+// ================================================================================================
+// Download HTTP Function - files, exports and reports
+// ================================================================================================
 
-        const shouldRetry = await handleRetryLogic(error, currentAttempt, maxRetryAttempts, effectiveMeta);
-        if (shouldRetry) {
-          currentAttempt += 1;
-          continue;
-        }
+/**
+ * Download a file and (by default) save it in the browser
+ *
+ * Goes through the same interceptors, token refresh and retry policy as http().
+ * The filename comes from Content-Disposition, falling back to options.filename.
+ * Progress is reported through meta.onDownloadProgress. Exports can take longer
+ * than a JSON call, so only an explicit meta.timeout applies; cancel them with
+ * meta.signal / signal.
+ *
+ * @param requestPath - API endpoint path
+ * @param downloadOptions - Request configuration plus fallback filename and save flag
+ * @returns Downloaded Blob with its filename and content type
+ *
+ * @example
+ * ```typescript
+ * const { filename } = await httpDownload(API_ROUTES.projects.export, {
+ *   params: { format: 'csv' },
+ *   filename: 'projects.csv',
+ *   meta: { onDownloadProgress: ({ percent }) => setProgress(percent) },
+ * });
+ * ```
+ */
+export async function httpDownload(requestPath: string, downloadOptions: HttpDownloadOptions = {}): Promise<HttpDownloadResult> {
+  const { method = 'GET', params, filename: fallbackFilename, save = true, meta: providedMeta = {}, ...requestOptions } = downloadOptions;
 
-        logHttpEvent({
-          type: 'error',
-          method,
-          url: requestUrl,
-          correlationId: effectiveMeta.correlationId,
-          error,
-        });
-        interceptHttpError(error, effectiveMeta);
-      }
-    }
-    throw new AppError(ErrorCode.UNKNOWN_ERROR, 'Failed to execute HTTP request');
-  } finally {
-    if (shouldShowGlobalLoading) {
-      stopGlobalLoading();
+  const effectiveMeta = resolveEffectiveMeta(providedMeta);
+  effectiveMeta.timeout = providedMeta.timeout;
+  effectiveMeta.signal ??= requestOptions.signal;
+  effectiveMeta.responseType = 'blob';
+
+  const requestUrl = buildRequestUrl(requestPath, params, effectiveMeta.queryFormat ?? HTTP_CONFIG.defaultQueryFormat);
+  const downloadRequestOptions: HttpOptions<unknown> = {
+    ...requestOptions,
+    method,
+    headers: applyIdempotencyKey(method, { Accept: '*/*', ...requestOptions.headers }, effectiveMeta, generateCorrelationId),
+  };
+
+  const result = await performRequest<HttpDownloadResult>(requestUrl, downloadRequestOptions, effectiveMeta, undefined, async response => {
+    if (!response.ok) {
+      return throwResponseError(response);
     }
+
+    return {
+      blob: await response.blob(),
+      filename: parseContentDispositionFilename(response.headers.get('content-disposition')) ?? fallbackFilename ?? DEFAULT_DOWNLOAD_FILENAME,
+      contentType: response.headers.get('content-type') ?? undefined,
+    };
+  });
+
+  if (save) {
+    saveBlob(result.blob, result.filename);
   }
+
+  return result;
 }
 
 // ================================================================================================
@@ -5,6 +5,8 @@
  * Supports overrides via environment variables to easily configure different environments.
  */
 
+import type { HttpCircuitBreakerPolicy, HttpFormKeyNotation, HttpQueryFormat, HttpRetryPolicy } from './http.types';
+
 // ================================================================================================
 // Default Values - values used when no environment variables are provided
 // ================================================================================================
@@ -18,9 +20,39 @@ const DEFAULT_HTTP_RETRY_ATTEMPTS = 0;
 /** Delay between retries (milliseconds) */
 const DEFAULT_HTTP_RETRY_DELAY_MS = 500;
 
+/** Maximum total wait between retries of one request (milliseconds) */
+const DEFAULT_HTTP_RETRY_MAX_WAIT_MS = 30_000;
+
+/** Idempotent methods (RFC 9110) that may be retried without an Idempotency-Key */
+const DEFAULT_HTTP_RETRY_METHODS: HttpRetryPolicy['retryMethods'] = ['GET', 'PUT', 'DELETE'];
+
+/** Consecutive failures that open an endpoint circuit */
+const DEFAULT_HTTP_CIRCUIT_FAILURE_THRESHOLD = 5;
+
+/** Time an open circuit waits before letting a probe request through (milliseconds) */
+const DEFAULT_HTTP_CIRCUIT_COOLDOWN_MS = 30_000;
+
+/** Requests sent at the same time before new ones are queued (browsers open about 6 connections per origin) */
+const DEFAULT_HTTP_MAX_CONCURRENT_REQUESTS = 6;
+
 /** Default locale for the Accept-Language header */
 const DEFAULT_HTTP_LOCALE = 'en-US';
 
+/** Default time-to-live for cached GET responses (milliseconds) */
+const DEFAULT_HTTP_CACHE_TTL_MS = 30_000;
+
+/** Default encoding of array and nested-object query parameters */
+const DEFAULT_HTTP_QUERY_FORMAT: HttpQueryFormat = 'repeat';
+
+/** Default key notation of nested multipart/urlencoded fields */
+const DEFAULT_HTTP_FORM_KEY_NOTATION: HttpFormKeyNotation = 'brackets';
+
+/** Supported query parameter encodings */
+const HTTP_QUERY_FORMATS: readonly HttpQueryFormat[] = ['repeat', 'comma', 'brackets', 'deepObject'];
+
+/** Value of NEXT_PUBLIC_API_MOCKING that turns on the in-memory mock backend */
+const API_MOCKING_ENABLED = 'enabled';
+
 // ================================================================================================
 // Environment Variable Parsing - safely parse environment variables
 // ================================================================================================
@@ -38,6 +70,16 @@ const parseEnvironmentNumber = (envValue: string | undefined, fallbackValue: num
   return Number.isFinite(parsedValue) ? parsedValue : fallbackValue;
 };
 
+/**
+ * Safely parse an environment variable to a query parameter encoding
+ * @param envValue - Value from process.env
+ * @param fallbackValue - Default value if the encoding is unknown
+ * @returns Parsed encoding or the fallback value
+ */
+const parseEnvironmentQueryFormat = (envValue: string | undefined, fallbackValue: HttpQueryFormat): HttpQueryFormat => {
+  return HTTP_QUERY_FORMATS.find(format => format === envValue) ?? fallbackValue;
+};
+
 /** Timeout for HTTP requests from environment variable */
 const httpTimeoutFromEnv: number = parseEnvironmentNumber(process.env.NEXT_PUBLIC_HTTP_TIMEOUT_MS, DEFAULT_HTTP_TIMEOUT_MS);
 
@@ -47,6 +89,37 @@ const httpRetryAttemptsFromEnv: number = parseEnvironmentNumber(process.env.NEXT
 /** Delay between retries from environment variable */
 const httpRetryDelayFromEnv: number = parseEnvironmentNumber(process.env.NEXT_PUBLIC_HTTP_RETRY_DELAY_MS, DEFAULT_HTTP_RETRY_DELAY_MS);
 
+/** Maximum total retry wait from environment variable */
+const httpRetryMaxWaitFromEnv: number = parseEnvironmentNumber(process.env.NEXT_PUBLIC_HTTP_RETRY_MAX_WAIT_MS, DEFAULT_HTTP_RETRY_MAX_WAIT_MS);
+
+/** Retry policy built from defaults and environment variables */
+const httpRetryPolicy: HttpRetryPolicy = {
+  retryMethods: DEFAULT_HTTP_RETRY_METHODS,
+  respectRetryAfter: true,
+  maxTotalDelayMs: httpRetryMaxWaitFromEnv,
+};
+
+/** Circuit breaker policy built from defaults and environment variables */
+const httpCircuitBreakerPolicy: HttpCircuitBreakerPolicy = {
+  failureThreshold: parseEnvironmentNumber(process.env.NEXT_PUBLIC_HTTP_CIRCUIT_FAILURE_THRESHOLD, DEFAULT_HTTP_CIRCUIT_FAILURE_THRESHOLD),
+  cooldownMs: parseEnvironmentNumber(process.env.NEXT_PUBLIC_HTTP_CIRCUIT_COOLDOWN_MS, DEFAULT_HTTP_CIRCUIT_COOLDOWN_MS),
+};
+
+/** Concurrency limit from environment variable (0 or less disables the limit) */
+const httpMaxConcurrentRequestsFromEnv: number = parseEnvironmentNumber(
+  process.env.NEXT_PUBLIC_HTTP_MAX_CONCURRENCY,
+  DEFAULT_HTTP_MAX_CONCURRENT_REQUESTS
+);
+
+/** Cache time-to-live from environment variable */
+const httpCacheTtlFromEnv: number = parseEnvironmentNumber(process.env.NEXT_PUBLIC_HTTP_CACHE_TTL_MS, DEFAULT_HTTP_CACHE_TTL_MS);
+
+/** Query parameter encoding from environment variable */
+const httpQueryFormatFromEnv: HttpQueryFormat = parseEnvironmentQueryFormat(process.env.NEXT_PUBLIC_HTTP_QUERY_FORMAT, DEFAULT_HTTP_QUERY_FORMAT);
+
+/** Mock backend switch from environment variable */
+const apiMockingFromEnv: boolean = process.env.NEXT_PUBLIC_API_MOCKING === API_MOCKING_ENABLED;
+
 // ================================================================================================
 // Main Configuration Object - contains all HTTP configuration
 // ================================================================================================
@@ -56,7 +129,12 @@ const httpRetryDelayFromEnv: number = parseEnvironmentNumber(process.env.NEXT_PU
  *
  * Contains all settings for the HTTP client:
  * - Timeout settings
- * - Retry configuration
+ * - Retry configuration and retry policy
+ * - Circuit breaker policy
+ * - Concurrency limit
+ * - Response cache settings
+ * - Query parameter and form body encoding
+ * - Mock backend switch
  * - Default headers
  * - Locale settings
  */
@@ -70,6 +148,27 @@ export const HTTP_CONFIG = {
   /** Delay between retries (milliseconds) */
   defaultRetryDelayMs: httpRetryDelayFromEnv,
 
+  /** Retry policy - which requests are retried and how long to wait in total */
+  defaultRetryPolicy: httpRetryPolicy,
+
+  /** Circuit breaker policy - when an endpoint is considered down and for how long */
+  defaultCircuitBreaker: httpCircuitBreakerPolicy,
+
+  /** Requests sent at the same time before new ones wait in the priority queue (0 disables the limit) */
+  maxConcurrentRequests: httpMaxConcurrentRequestsFromEnv,
+
+  /** Time-to-live for cached GET responses (milliseconds) */
+  defaultCacheTtlMs: httpCacheTtlFromEnv,
+
+  /** Encoding of array and nested-object query parameters (repeat, comma, brackets, deepObject) */
+  defaultQueryFormat: httpQueryFormatFromEnv,
+
+  /** Key notation of nested multipart/urlencoded fields (brackets, indices, dots) */
+  defaultFormKeyNotation: DEFAULT_HTTP_FORM_KEY_NOTATION,
+
+  /** Serve every request from the in-memory mock backend instead of the network */
+  apiMocking: apiMockingFromEnv,
+
   /** Default locale for the Accept-Language header */
   defaultLocale: process.env.NEXT_PUBLIC_HTTP_LOCALE_FALLBACK ?? DEFAULT_HTTP_LOCALE,
 
@@ -0,0 +1,214 @@
+/**
+ * HTTP Request Deduplication Module
+ *
+ * Shares identical in-flight requests between callers:
+ * - One network request (and one retry loop) per key
+ * - Each caller keeps its own AbortSignal
+ * - The shared request is only aborted once every caller has aborted
+ * - Only callers with the same request policy (retry, timeout, circuit breaker, auth refresh,
+ *   loading and error notification) share a request; per-call values such as the correlation ID
+ *   and the priority come from the first caller
+ */
+
+import type { HttpMeta } from './http.types';
+
+// ================================================================================================
+// Type Definitions - types for the in-flight registry
+// ================================================================================================
+
+/** Executes the shared request with a signal owned by the registry */
+type SharedRequestExecutor<T> = (sharedSignal: AbortSignal) => Promise<T>;
+
+/**
+ * Entry tracking one in-flight request
+ *
+ * - promise: settles once for all subscribers
+ * - controller: aborts the underlying request when nobody is waiting anymore
+ * - subscribers: number of callers still waiting for the result
+ */
+interface InFlightEntry {
+  promise: Promise<unknown>;
+  controller: AbortController;
+  subscribers: number;
+}
+
+// ================================================================================================
+// Global State - registry of in-flight requests
+// ================================================================================================
+
+/** In-flight requests keyed by dedupe key */
+const inFlightRequests = new Map<string, InFlightEntry>();
+
+// ================================================================================================
+// Key Helpers - decide whether and how to share a request
+// ================================================================================================
+
+/**
+ * Check whether a request is eligible for deduplication
+ *
+ * Only GET requests are shared; callers can opt out with meta.dedupe = false.
+ * Requests reporting download progress are never shared (the callback belongs to one caller).
+ *
+ * @param method - HTTP method of the request
+ * @param meta - Effective request metadata
+ * @returns True if identical in-flight requests should be shared
+ */
+export function shouldDedupeRequest(method: string, meta: HttpMeta): boolean {
+  return method.toUpperCase() === 'GET' && meta.dedupe !== false && !meta.onDownloadProgress;
+}
+
+/**
+ * Build the key identifying identical requests
+ *
+ * @param method - HTTP method
+ * @param url - Final request URL (including query string)
+ * @param authIdentity - Identity the request is sent as (user or session ID, token, 'public' or 'anonymous')
+ * @param locale - Locale sent in Accept-Language
+ * @returns Key used to look up in-flight requests
+ */
+export function buildDedupeKey(method: string, url: string, authIdentity: string, locale: string): string {
+  return [method.toUpperCase(), url, authIdentity, locale].join(' ');
+}
+
+/**
+ * Append the policy-relevant meta to a dedupe key
+ *
+ * The shared request runs with a single meta, so callers asking for a different
+ * policy get their own request instead of silently inheriting the first caller's.
+ *
+ * @param key - Key built by buildDedupeKey
+ * @param meta - Effective request metadata
+ * @returns Key only shared by callers with the same request policy
+ */
+export function withDedupePolicy(key: string, meta: HttpMeta): string {
+  const policy = [
+    meta.retry,
+    meta.retryDelayMs,
+    meta.retryPolicy,
+    meta.timeout,
+    meta.circuitBreaker,
+    meta.skipAuthRefresh,
+    meta.skipForbiddenRedirect,
+    meta.withCredentials,
+    meta.showGlobalLoading,
+    meta.showErrorNotification,
+  ];
+
+  return `${key} ${JSON.stringify(policy)}`;
+}
+
+// ================================================================================================
+// Subscription Helpers - per-caller abort handling
+// ================================================================================================
+
+/**
+ * Release one subscriber and abort the shared request when none are left
+ *
+ * @param key - Dedupe key of the entry
+ * @param entry - Entry to release
+ */
+function releaseSubscriber(key: string, entry: InFlightEntry): void {
+  entry.subscribers -= 1;
+
+  if (entry.subscribers > 0) return;
+
+  entry.controller.abort();
+  if (inFlightRequests.get(key) === entry) {
+    inFlightRequests.delete(key);
+  }
+}
+
+/**
+ * Wait for the shared promise while honouring the caller's own signal
+ *
+ * @param key - Dedupe key of the entry
+ * @param entry - Entry to subscribe to
+ * @param signal - Caller's AbortSignal
+ * @returns Promise that settles with the shared result or the caller's abort reason
+ */
+function subscribe<T>(key: string, entry: InFlightEntry, signal?: AbortSignal): Promise<T> {
+  if (!signal) {
+    return entry.promise as Promise<T>;
+  }
+
+  if (signal.aborted) {
+    releaseSubscriber(key, entry);
+    return Promise.reject(signal.reason);
+  }
+
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => {
+      releaseSubscriber(key, entry);
+      reject(signal.reason);
+    };
+
+    signal.addEventListener('abort', onAbort, { once: true });
+
+    entry.promise.then(
+      value => {
+        signal.removeEventListener('abort', onAbort);
+        resolve(value as T);
+      },
+      (error: unknown) => {
+        signal.removeEventListener('abort', onAbort);
+        reject(error);
+      }
+    );
+  });
+}
+
+// ================================================================================================
+// Public API
+// ================================================================================================
+
+/**
+ * Run a request, or join an identical one that is already in flight
+ *
+ * The executor receives a signal owned by the registry, so aborting one caller
+ * never cancels the request for the others.
+ *
+ * @param key - Dedupe key (see buildDedupeKey)
+ * @param signal - Caller's AbortSignal
+ * @param execute - Function performing the actual request
+ * @returns Promise resolving to the shared result
+ *
+ * @example
+ * ```typescript
+ * const data = await shareInFlightRequest(key, signal, sharedSignal => fetchJson(url, sharedSignal));
+ * ```
+ */
+export function shareInFlightRequest<T>(key: string, signal: AbortSignal | undefined, execute: SharedRequestExecutor<T>): Promise<T> {
+  const existingEntry = inFlightRequests.get(key);
+
+  if (existingEntry) {
+    existingEntry.subscribers += 1;
+    return subscribe<T>(key, existingEntry, signal);
+  }
+
+  const controller = new AbortController();
+  const entry: InFlightEntry = {
+    controller,
+    subscribers: 1,
+    promise: Promise.resolve(),
+  };
+
+  entry.promise = execute(controller.signal).finally(() => {
+    if (inFlightRequests.get(key) === entry) {
+      inFlightRequests.delete(key);
+    }
+  });
+
+  // Avoid unhandled rejections when every subscriber has aborted
+  entry.promise.catch(() => undefined);
+
+  inFlightRequests.set(key, entry);
+
+  return subscribe<T>(key, entry, signal);
+}
+
+/**
+ * Number of requests currently shared in flight (for diagnostics and tests)
+ */
+export function getInFlightRequestCount(): number {
+  return inFlightRequests.size;
+}
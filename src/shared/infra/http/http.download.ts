@@ -0,0 +1,126 @@
+/**
+ * HTTP Download Module
+ *
+ * Helpers for file downloads (CSV/XLSX exports, PDF reports):
+ * - Filename taken from Content-Disposition (RFC 6266 / RFC 5987 `filename*`)
+ * - Saving a Blob through a temporary object URL
+ */
+
+import type { HttpMethod, HttpRequestOptions } from './http.types';
+
+// ================================================================================================
+// Type Definitions
+// ================================================================================================
+
+/**
+ * Options for httpDownload
+ *
+ * Progress is reported through meta.onDownloadProgress.
+ */
+export interface HttpDownloadOptions<TBody = unknown> extends Omit<HttpRequestOptions<never, TBody>, 'schema' | 'responseType' | 'unwrapEnvelope'> {
+  /** HTTP method (default: 'GET') */
+  method?: HttpMethod;
+
+  /** Filename used when the response has no Content-Disposition filename */
+  filename?: string;
+
+  /** Save the file in the browser once downloaded (default: true) */
+  save?: boolean;
+}
+
+/** Result of httpDownload */
+export interface HttpDownloadResult {
+  /** Downloaded file content */
+  blob: Blob;
+
+  /** Filename from Content-Disposition, the provided fallback, or 'download' */
+  filename: string;
+
+  /** Content-Type of the response, if any */
+  contentType?: string;
+}
+
+// ================================================================================================
+// Constants
+// ================================================================================================
+
+/** Filename used when neither the response nor the caller provides one */
+export const DEFAULT_DOWNLOAD_FILENAME = 'download';
+
+/** Extended `filename*=charset'lang'value` parameter (RFC 5987) */
+const EXTENDED_FILENAME_PATTERN = /filename\*\s*=\s*([^']*)'[^']*'([^;]+)/i;
+
+/** Plain `filename=value` or `filename="value"` parameter */
+const FILENAME_PATTERN = /filename\s*=\s*(?:"((?:\\.|[^"\\])*)"|([^;]+))/i;
+
+/** Characters that are not allowed in saved filenames */
+const UNSAFE_FILENAME_CHARACTERS = /[/\\?%*:|"<>]/g;
+
+// ================================================================================================
+// Public API
+// ================================================================================================
+
+/**
+ * Read the filename from a Content-Disposition header
+ *
+ * Prefers the UTF-8 `filename*` parameter over the plain `filename` one.
+ * Path separators and reserved characters are replaced so the name is safe to save.
+ * Cross-origin APIs must list Content-Disposition in Access-Control-Expose-Headers.
+ *
+ * @param contentDisposition - Header value
+ * @returns Filename, or undefined when the header has none
+ *
+ * @example
+ * ```typescript
+ * parseContentDispositionFilename(`attachment; filename="report.pdf"; filename*=UTF-8''r%C3%A9sum%C3%A9.pdf`);
+ * // 'résumé.pdf'
+ * ```
+ */
+export function parseContentDispositionFilename(contentDisposition: string | null | undefined): string | undefined {
+  if (!contentDisposition) return undefined;
+
+  let filename: string | undefined;
+
+  const extendedMatch = EXTENDED_FILENAME_PATTERN.exec(contentDisposition);
+  if (extendedMatch) {
+    try {
+      filename = decodeURIComponent(extendedMatch[2].trim());
+    } catch {
+      // Malformed encoding: fall back to the plain parameter
+    }
+  }
+
+  if (!filename) {
+    const plainMatch = FILENAME_PATTERN.exec(contentDisposition);
+    filename = plainMatch?.[1]?.replaceAll(/\\(.)/g, '$1') ?? plainMatch?.[2]?.trim();
+  }
+
+  const safeFilename = filename?.replaceAll(UNSAFE_FILENAME_CHARACTERS, '_').trim();
+  return safeFilename || undefined;
+}
+
+/**
+ * Save a Blob as a file through a temporary object URL
+ *
+ * Only works in the browser; the object URL is revoked once the download started.
+ *
+ * @param blob - File content
+ * @param filename - Suggested filename
+ */
+export function saveBlob(blob: Blob, filename: string): void {
+  if (globalThis.window === undefined || typeof URL.createObjectURL !== 'function') return;
+
+  const objectUrl = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = objectUrl;
+  link.download = filename;
+  link.rel = 'noopener';
+  link.style.display = 'none';
+
+  document.body.append(link);
+  link.click();
+  link.remove();
+
+  // Revoke on the next tick: some browsers read the URL after click() returns
+  setTimeout(() => URL.revokeObjectURL(objectUrl), 0);
+}
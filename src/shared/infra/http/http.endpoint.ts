@@ -0,0 +1,199 @@
+/**
+ * HTTP Endpoint Module
+ *
+ * Declarative, typed endpoint definitions on top of API_ROUTES:
+ * - One definition per backend route: method, path template, Zod schemas and default meta
+ * - `:name` segments of the path are filled from the validated params; other params become the query string
+ * - Params and body are validated (and transformed) before anything is sent
+ * - Caller input and result types are inferred from the Zod schemas
+ * - Routes answering with the backend envelope declare `unwrapEnvelope` and a body schema
+ */
+
+import type { z, ZodType } from 'zod';
+
+import { http } from '@/shared/infra/http/http.client';
+import type { HttpMeta, HttpMethod, HttpParams, HttpRequestFunction } from '@/shared/infra/http/http.types';
+
+// ================================================================================================
+// Type Definitions
+// ================================================================================================
+
+/** Zod schema of the path and query parameters */
+type HttpParamsSchema = ZodType<HttpParams>;
+
+/**
+ * Declaration of one backend route
+ *
+ * @template TParams - Schema of the path and query parameters
+ * @template TBody - Schema of the request body (its output is what gets sent)
+ * @template TResponse - Schema of the response payload (its output is what the caller receives)
+ */
+export interface EndpointDefinition<
+  TParams extends HttpParamsSchema | undefined = undefined,
+  TBody extends ZodType | undefined = undefined,
+  TResponse extends ZodType | undefined = undefined,
+> {
+  /** HTTP method */
+  method: HttpMethod;
+
+  /** Path template from API_ROUTES, e.g. API_ROUTES.projects.byId(':id') */
+  path: string;
+
+  /** Path and query parameters */
+  params?: TParams;
+
+  /** Request body */
+  body?: TBody;
+
+  /** Response payload (the envelope body with unwrapEnvelope) */
+  response?: TResponse;
+
+  /** The route answers with the backend envelope: validate it and resolve with its body */
+  unwrapEnvelope?: boolean;
+
+  /** Default request metadata (merged under the caller's meta) */
+  meta?: HttpMeta;
+}
+
+/** Input field for a schema: required unless every field of the schema is optional */
+type SchemaInput<TSchema, TKey extends string> = TSchema extends ZodType
+  ? Partial<Record<string, never>> extends z.input<TSchema>
+    ? { [K in TKey]?: z.input<TSchema> }
+    : { [K in TKey]: z.input<TSchema> }
+  : { [K in TKey]?: never };
+
+/**
+ * Input of an endpoint caller
+ *
+ * @template TParams - Schema of the path and query parameters
+ * @template TBody - Schema of the request body
+ */
+export type EndpointInput<TParams, TBody> = SchemaInput<TParams, 'params'> &
+  SchemaInput<TBody, 'body'> & {
+    /** Additional headers */
+    headers?: Record<string, string>;
+
+    /** Request metadata overrides */
+    meta?: HttpMeta;
+
+    /** AbortSignal to cancel the request */
+    signal?: AbortSignal;
+
+    /** Client sending the request (default: http(); pass createServerHttpClient() on the server) */
+    client?: HttpRequestFunction;
+  };
+
+/** Result of an endpoint caller: the response schema output, or void without a schema */
+export type EndpointResult<TResponse> = TResponse extends ZodType ? z.output<TResponse> : void;
+
+/**
+ * Typed caller of one endpoint
+ *
+ * The input argument may be omitted when the endpoint has no required params or body.
+ */
+export type Endpoint<
+  TParams extends HttpParamsSchema | undefined,
+  TBody extends ZodType | undefined,
+  TResponse extends ZodType | undefined,
+> = (Partial<Record<string, never>> extends EndpointInput<TParams, TBody>
+  ? (input?: EndpointInput<TParams, TBody>) => Promise<EndpointResult<TResponse>>
+  : (input: EndpointInput<TParams, TBody>) => Promise<EndpointResult<TResponse>>) & {
+  /** The definition the caller was created from */
+  readonly definition: EndpointDefinition<TParams, TBody, TResponse>;
+};
+
+// ================================================================================================
+// Constants
+// ================================================================================================
+
+/** `:name` placeholder of a path template */
+const PATH_PARAM_PATTERN = /:([A-Za-z_]\w*)/g;
+
+// ================================================================================================
+// Path Building
+// ================================================================================================
+
+/**
+ * Fill the path template and collect the remaining query parameters
+ *
+ * @param template - Path template with `:name` placeholders
+ * @param params - Validated params
+ * @returns Request path and query parameters
+ * @throws Error when a placeholder has no value, TypeError when its value is an array or object
+ */
+export function resolveEndpointPath(template: string, params: HttpParams = {}): { path: string; query?: HttpParams } {
+  const query: HttpParams = { ...params };
+
+  const path = template.replace(PATH_PARAM_PATTERN, (_placeholder, name: string) => {
+    const value = params[name];
+    if (value === undefined || value === null || value === '') {
+      throw new Error(`Missing path parameter "${name}" for ${template}`);
+    }
+    if (typeof value === 'object') {
+      throw new TypeError(`Path parameter "${name}" of ${template} must be a string, number or boolean`);
+    }
+    delete query[name];
+    return encodeURIComponent(String(value));
+  });
+
+  return { path, query: Object.keys(query).length > 0 ? query : undefined };
+}
+
+// ================================================================================================
+// Public API
+// ================================================================================================
+
+/**
+ * Declare a backend route and get a typed caller for it
+ *
+ * Params and body are parsed with their schemas before the request is sent,
+ * so invalid input throws a ZodError without hitting the network.
+ *
+ * @param definition - Method, path template, schemas, envelope handling and default meta
+ * @returns Caller sending the request through http(), or through input.client when given
+ *
+ * @example
+ * ```typescript
+ * const projectEndpoints = {
+ *   update: defineEndpoint({
+ *     method: 'PUT',
+ *     path: API_ROUTES.projects.byId(':id'),
+ *     params: z.object({ id: z.string() }),
+ *     body: updateProjectRequestBodySchema,
+ *     response: projectSchema,
+ *     unwrapEnvelope: true,
+ *     meta: { idempotent: true },
+ *   }),
+ * };
+ *
+ * const project = await projectEndpoints.update({ params: { id }, body: { name } });
+ * ```
+ */
+export function defineEndpoint<
+  TParams extends HttpParamsSchema | undefined = undefined,
+  TBody extends ZodType | undefined = undefined,
+  TResponse extends ZodType | undefined = undefined,
+>(definition: EndpointDefinition<TParams, TBody, TResponse>): Endpoint<TParams, TBody, TResponse> {
+  const { method, path: template, params: paramsSchema, body: bodySchema, response: responseSchema, unwrapEnvelope, meta: defaultMeta } = definition;
+
+  const callEndpoint = async (input: EndpointInput<TParams, TBody> = {} as EndpointInput<TParams, TBody>) => {
+    const params = paramsSchema ? paramsSchema.parse(input.params ?? {}) : undefined;
+    const body = bodySchema ? bodySchema.parse(input.body) : undefined;
+    const { path, query } = resolveEndpointPath(template, params);
+
+    const client = input.client ?? http;
+
+    return client<EndpointResult<TResponse>>(path, {
+      method,
+      params: query,
+      body,
+      headers: input.headers,
+      signal: input.signal,
+      schema: responseSchema as ZodType<EndpointResult<TResponse>> | undefined,
+      unwrapEnvelope,
+      meta: { ...defaultMeta, ...input.meta },
+    });
+  };
+
+  return Object.assign(callEndpoint, { definition }) as Endpoint<TParams, TBody, TResponse>;
+}
@@ -0,0 +1,123 @@
+/**
+ * HTTP Envelope Module
+ *
+ * Standard backend envelope `{ status_code, message, success, body }`:
+ * - envelope(schema) builds the Zod schema of an envelope around a body schema
+ * - readEnvelope() validates the wrapper of a response payload
+ * - The server message of an unwrapped body is kept aside and read with getEnvelopeMessage()
+ *
+ * http() unwraps envelopes with `unwrapEnvelope: true`; `success: false` becomes an AppError there.
+ */
+
+import { z, type ZodType } from 'zod';
+
+import { parseApiResponse } from '@/shared/infra/validation/schemas';
+
+// ================================================================================================
+// Type Definitions
+// ================================================================================================
+
+/**
+ * Backend envelope around a response body
+ *
+ * @template TBody - Type of the body
+ */
+export interface HttpEnvelope<TBody = unknown> {
+  /** Status reported by the backend (may differ from the HTTP status) */
+  status_code: number;
+
+  /** Human-readable server message */
+  message: string;
+
+  /** False when the backend rejected the request */
+  success: boolean;
+
+  /** Response payload (usually null when success is false) */
+  body: TBody;
+}
+
+// ================================================================================================
+// Schemas
+// ================================================================================================
+
+/**
+ * Build the schema of an envelope around a body schema
+ *
+ * @param bodySchema - Schema of the `body` field
+ * @returns Schema of the whole envelope
+ *
+ * @example
+ * ```typescript
+ * const projectResponseSchema = envelope(projectSchema);
+ * type TProjectResponse = z.infer<typeof projectResponseSchema>; // { status_code, message, success, body: TProject }
+ * ```
+ */
+export function envelope<TBody extends ZodType>(bodySchema: TBody) {
+  return z.object({
+    status_code: z.number(),
+    message: z.string(),
+    success: z.boolean(),
+    body: bodySchema,
+  });
+}
+
+/** Envelope wrapper with an unchecked body */
+const envelopeWrapperSchema = envelope(z.unknown());
+
+// ================================================================================================
+// Global State - server messages of unwrapped bodies
+// ================================================================================================
+
+/** Server message of each unwrapped body (objects and arrays only) */
+const messageByBody = new WeakMap<object, string>();
+
+// ================================================================================================
+// Public API
+// ================================================================================================
+
+/**
+ * Validate the wrapper of an envelope payload
+ *
+ * The body is not validated: failed envelopes usually carry a null body.
+ *
+ * @param data - Parsed JSON payload
+ * @returns The envelope
+ * @throws ValidationError when the payload is not an envelope
+ */
+export function readEnvelope(data: unknown): HttpEnvelope {
+  return parseApiResponse(envelopeWrapperSchema, data) as HttpEnvelope;
+}
+
+/**
+ * Validate the body of a successful envelope and remember its server message
+ *
+ * @param successfulEnvelope - Envelope returned by readEnvelope() with success true
+ * @param bodySchema - Schema of the body (optional)
+ * @returns The (validated) body
+ * @throws ValidationError when the body does not match the schema
+ */
+export function readEnvelopeBody<T>(successfulEnvelope: HttpEnvelope, bodySchema?: ZodType<T>): T {
+  const body = bodySchema ? parseApiResponse(bodySchema, successfulEnvelope.body) : (successfulEnvelope.body as T);
+
+  if (body !== null && typeof body === 'object') {
+    messageByBody.set(body, successfulEnvelope.message);
+  }
+
+  return body;
+}
+
+/**
+ * Read the server message of a body unwrapped by http()
+ *
+ * @param body - Result of a request sent with `unwrapEnvelope: true`
+ * @returns The envelope message, or undefined for other values (and for primitive or null bodies)
+ *
+ * @example
+ * ```typescript
+ * const project = await projectEndpoints.create({ body });
+ * notify(getEnvelopeMessage(project) ?? t('created'));
+ * ```
+ */
+export function getEnvelopeMessage(body: unknown): string | undefined {
+  return body !== null && typeof body === 'object' ? messageByBody.get(body) : undefined;
+}
@@ -0,0 +1,292 @@
+/**
+ * HTTP Inspector Module
+ *
+ * Development aid recording the most recent requests for the network inspector drawer:
+ * - One entry per correlation ID with status, duration and attempt count
+ * - Request and response bodies, passed through the redaction rules (redact())
+ * - Subscribable snapshot for React (useSyncExternalStore)
+ *
+ * Entries come from the HttpLogEvent stream; bodies from an 'inspector' interceptor.
+ */
+
+import type { AppError } from '@/shared/infra/errors/appError';
+import { ErrorCode } from '@/shared/infra/errors/error-codes';
+import { redact, redactText } from '@/shared/infra/monitoring/redaction';
+
+import { resolveCircuitKey } from './http.circuit';
+import type { HttpLogEvent } from './http.interceptors';
+import { HTTP_INTERCEPTOR_PRIORITY, subscribeHttpEvents } from './http.interceptors';
+import { registerHttpInterceptor } from './http.pipeline';
+import type { HttpMeta, HttpResponseType } from './http.types';
+
+// ================================================================================================
+// Type Definitions
+// ================================================================================================
+
+/** Lifecycle of an inspected request */
+export type HttpInspectorState = 'pending' | 'success' | 'error' | 'cancelled';
+
+/** One request shown in the inspector */
+export interface HttpInspectorEntry {
+  /** Correlation ID sent as X-Request-Id */
+  correlationId: string;
+
+  /** HTTP method */
+  method: string;
+
+  /** Full request URL */
+  url: string;
+
+  /** Route template, e.g. '/api/v1/projects/:id' */
+  route: string;
+
+  /** Time the first attempt started (epoch milliseconds) */
+  startedAt: number;
+
+  /** Current lifecycle state */
+  state: HttpInspectorState;
+
+  /** Attempts sent, including retries */
+  attempts: number;
+
+  /** Status of the last response */
+  status?: number;
+
+  /** Duration of the last attempt (milliseconds) */
+  durationMs?: number;
+
+  /** AppError code when the request failed */
+  errorCode?: string;
+
+  /** Redacted request body */
+  requestBody?: unknown;
+
+  /** Redacted response body (text responses only, truncated) */
+  responseBody?: unknown;
+}
+
+/** Options of createHttpInspector */
+export interface HttpInspectorOptions {
+  /** Entries kept, newest first (default: 100) */
+  maxEntries?: number;
+}
+
+/** Recorder of recent requests */
+export interface HttpInspector {
+  /** Start recording; returns the function stopping it */
+  start: () => () => void;
+
+  /** Recorded entries, newest first (same array until something changes) */
+  getEntries: () => readonly HttpInspectorEntry[];
+
+  /** Be notified when the entries change; returns the unsubscribe function */
+  subscribe: (listener: () => void) => () => void;
+
+  /** Drop every entry */
+  clear: () => void;
+
+  /** Add one event to the entries (used by start()) */
+  record: (event: HttpLogEvent) => void;
+}
+
+// ================================================================================================
+// Constants
+// ================================================================================================
+
+/** Default number of entries kept */
+const DEFAULT_MAX_ENTRIES = 100;
+
+/** Longest response text kept per entry (characters) */
+const MAX_BODY_PREVIEW_LENGTH = 10_000;
+
+/** Content types whose bodies are previewed */
+const PREVIEWABLE_CONTENT_TYPE = /json|text\/(?!event-stream)|xml|urlencoded/i;
+
+/** Streamed content types: a copy would buffer the whole (possibly endless) stream */
+const STREAMED_CONTENT_TYPE = /ndjson|event-stream/i;
+
+/** Response types read as streams or files (httpStream, httpDownload), never previewed */
+const UNPREVIEWED_RESPONSE_TYPES: ReadonlySet<HttpResponseType> = new Set(['stream', 'blob', 'arrayBuffer']);
+
+// ================================================================================================
+// Body Preview
+// ================================================================================================
+
+/**
+ * Turn body text into a redacted preview
+ *
+ * @param text - Body text
+ * @returns Redacted JSON value, or the (truncated) text when it is not JSON
+ */
+function previewText(text: string): unknown {
+  if (text === '') return undefined;
+
+  try {
+    return redact(JSON.parse(text));
+  } catch {
+    const preview = redactText(text);
+    return preview.length > MAX_BODY_PREVIEW_LENGTH ? `${preview.slice(0, MAX_BODY_PREVIEW_LENGTH)}…` : preview;
+  }
+}
+
+/**
+ * Describe a request body for the inspector
+ *
+ * @param body - Body passed to fetch()
+ * @returns Redacted preview; files and binary bodies are summarised
+ */
+export function previewRequestBody(body: BodyInit | null | undefined): unknown {
+  if (body === undefined || body === null) return undefined;
+  if (typeof body === 'string') return previewText(body);
+
+  if (typeof URLSearchParams !== 'undefined' && body instanceof URLSearchParams) {
+    return redact(Object.fromEntries(body.entries()));
+  }
+
+  if (typeof FormData !== 'undefined' && body instanceof FormData) {
+    const fields = [...body.entries()].map(([key, value]) => [key, typeof value === 'string' ? value : `[File ${value.name} · ${value.size} B]`]);
+    return redact(Object.fromEntries(fields));
+  }
+
+  if (typeof Blob !== 'undefined' && body instanceof Blob) return `[Blob · ${body.size} B]`;
+
+  return '[Binary body]';
+}
+
+/**
+ * Read a preview of a response body without consuming it
+ *
+ * @param response - Response from the transport
+ * @param meta - Effective request metadata
+ * @returns Redacted preview, or undefined for binary, streamed and downloaded bodies
+ */
+async function previewResponseBody(response: Response, meta: HttpMeta): Promise<unknown> {
+  if (meta.responseType && UNPREVIEWED_RESPONSE_TYPES.has(meta.responseType)) return undefined;
+
+  const contentType = response.headers?.get('content-type') ?? '';
+  if (typeof response.clone !== 'function' || !PREVIEWABLE_CONTENT_TYPE.test(contentType) || STREAMED_CONTENT_TYPE.test(contentType)) {
+    return undefined;
+  }
+
+  try {
+    return previewText(await response.clone().text());
+  } catch {
+    return undefined;
+  }
+}
+
+// ================================================================================================
+// Public API
+// ================================================================================================
+
+/**
+ * Create a recorder of recent HTTP requests
+ *
+ * Meant for development: it keeps redacted bodies in memory.
+ *
+ * @param options - Number of entries kept
+ * @returns Inspector; call start() to record the HTTP client traffic
+ *
+ * @example
+ * ```typescript
+ * const inspector = createHttpInspector({ maxEntries: 50 });
+ * const stop = inspector.start();
+ * const entries = useSyncExternalStore(inspector.subscribe, inspector.getEntries, inspector.getEntries);
+ * ```
+ */
+export function createHttpInspector(options: HttpInspectorOptions = {}): HttpInspector {
+  const maxEntries = options.maxEntries ?? DEFAULT_MAX_ENTRIES;
+  const listeners = new Set<() => void>();
+  let entries: readonly HttpInspectorEntry[] = [];
+
+  const notify = () => {
+    for (const listener of listeners) listener();
+  };
+
+  /** Replace the entry of a correlation ID (creating it when needed) */
+  const updateEntry = (
+    correlationId: string,
+    seed: Pick<HttpInspectorEntry, 'method' | 'url'>,
+    update: (entry: HttpInspectorEntry) => Partial<HttpInspectorEntry>
+  ) => {
+    const existing = entries.find(entry => entry.correlationId === correlationId);
+    const base: HttpInspectorEntry = existing ?? {
+      correlationId,
+      method: seed.method,
+      url: seed.url,
+      route: resolveCircuitKey(seed.url),
+      startedAt: Date.now(),
+      state: 'pending',
+      attempts: 0,
+    };
+    const next = { ...base, ...update(base) };
+
+    entries = existing ? entries.map(entry => (entry === existing ? next : entry)) : [next, ...entries].slice(0, maxEntries);
+    notify();
+  };
+
+  const record = (event: HttpLogEvent): void => {
+    if (event.type === 'circuit' || !event.correlationId) return;
+
+    switch (event.type) {
+      case 'request':
+        updateEntry(event.correlationId, event, () => ({ state: 'pending', attempts: event.attempt + 1 }));
+        break;
+      case 'response':
+        updateEntry(event.correlationId, event, () => ({
+          status: event.status,
+          durationMs: event.durationMs,
+          state: event.status >= 400 ? 'error' : 'success',
+        }));
+        break;
+      case 'error': {
+        const code = (event.error as AppError | undefined)?.code ?? ErrorCode.UNKNOWN_ERROR;
+        updateEntry(event.correlationId, event, () => ({ errorCode: code, state: code === ErrorCode.CANCELLED ? 'cancelled' : 'error' }));
+        break;
+      }
+      default:
+        break;
+    }
+  };
+
+  const start = () => {
+    const unsubscribe = subscribeHttpEvents(record);
+    const unregister = registerHttpInterceptor({
+      name: 'inspector',
+      priority: HTTP_INTERCEPTOR_PRIORITY.logging,
+      onRequest: ({ url, method, meta, options: requestOptions }) => {
+        if (!meta.correlationId) return;
+        updateEntry(meta.correlationId, { url, method }, () => ({ requestBody: previewRequestBody(requestOptions.body) }));
+      },
+      onResponse: (response, { url, method, meta }) => {
+        const { correlationId } = meta;
+        if (!correlationId) return;
+        // Read the copy in the background: the caller must not wait for the preview
+        void previewResponseBody(response, meta).then(responseBody => {
+          if (responseBody !== undefined) updateEntry(correlationId, { url, method }, () => ({ responseBody }));
+        });
+      },
+    });
+
+    return () => {
+      unsubscribe();
+      unregister();
+    };
+  };
+
+  return {
+    start,
+    getEntries: () => entries,
+    subscribe: listener => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+    clear: () => {
+      entries = [];
+      notify();
+    },
+    record,
+  };
+}
@@ -7,16 +7,26 @@
  * - Add default headers (Content-Type, Accept, etc.)
  * - Logging and monitoring
  * - Error handling
+ *
+ * Cross-cutting concerns are built-in interceptors on the pipeline (see http.pipeline.ts);
+ * feature modules add their own with registerHttpInterceptor().
  */
 
+import { ROUTES } from '@/shared/config/routes';
 import { AppError } from '@/shared/infra/errors/appError';
 import { ErrorCode } from '@/shared/infra/errors/error-codes';
 import { handleError } from '@/shared/infra/errors/error-handler';
 import { trackPerformance } from '@/shared/infra/monitoring/logger';
+import { redact } from '@/shared/infra/monitoring/redaction';
 import { getRouter } from '@/shared/providers/bridges/RouterBridge';
 
+import { measureBodySize } from './http.body';
 import { HTTP_CONFIG } from './http.config';
-import type { HttpMeta } from './http.types';
+import type { HttpErrorContext, HttpInterceptor, HttpInterceptorDisposer } from './http.pipeline';
+import { registerHttpInterceptor, runErrorInterceptors, runRequestInterceptors, runResponseInterceptors } from './http.pipeline';
+import { captureRetryAfter } from './http.retry';
+import { mergeSignals } from './http.signal';
+import type { HttpCircuitState, HttpMeta } from './http.types';
 
 // ================================================================================================
 // Type Definitions - types for the interceptor system
@@ -25,18 +35,27 @@ import type { HttpMeta } from './http.types';
 /** Function to get the current access token (usually from a memory store) */
 type AccessTokenGetter = () => string | null;
 
-/** Function to refresh the access token when it expires */
-type RefreshTokenHandler = () => Promise<string | null>;
+/** Function to get a stable ID of the signed-in user or session (keys shared and cached requests) */
+type AuthIdentityResolver = () => string | null;
+
+/** Function to refresh the access token when it expires (resolves to whether the session was refreshed) */
+type RefreshTokenHandler = () => Promise<boolean>;
 
 /** Function to handle when the user is unauthorized (redirect to login, etc.) */
 type UnauthorizedHandler = () => void;
 
+/** Function to handle when the backend forbids a request (open the 403 page, etc.) */
+type ForbiddenHandler = () => void;
+
 /** Function to get the user's current locale */
 type LocaleResolver = () => string | null;
 
 /** Function to generate a unique ID for each request */
 type RequestIdGenerator = () => string;
 
+/** Function receiving every HTTP log event (see subscribeHttpEvents) */
+export type HttpEventListener = (event: HttpLogEvent) => void;
+
 /**
  * Union type for HTTP log events
  *
@@ -44,6 +63,7 @@ type RequestIdGenerator = () => string;
  * - request: Log when a request starts
  * - response: Log when a successful response is received
  * - error: Log when an error occurs
+ * - circuit: Log when an endpoint circuit changes state (see http.circuit)
  */
 export type HttpLogEvent =
   | {
@@ -52,6 +72,7 @@ export type HttpLogEvent =
       url: string;
       correlationId?: string;
       attempt: number; // Attempt number (for retry logic)
+      size?: number; // Request body size in bytes (when known)
     }
   | {
       type: 'response';
@@ -60,6 +81,8 @@ export type HttpLogEvent =
       status: number;
       correlationId?: string;
       durationMs: number; // Request processing time
+      attempt?: number; // Attempt that received the response
+      size?: number; // Response body size in bytes from Content-Length (when known)
     }
   | {
       type: 'error';
@@ -67,6 +90,13 @@ export type HttpLogEvent =
       url: string;
       correlationId?: string;
       error: unknown; // Error object or message
+    }
+  | {
+      type: 'circuit';
+      circuit: string; // Route template the circuit guards
+      state: HttpCircuitState;
+      previousState: HttpCircuitState;
+      failureCount: number; // Consecutive failures recorded
     };
 
 /**
@@ -81,12 +111,18 @@ interface HttpInterceptorConfig {
   /** Function to get the current access token */
   getAccessToken?: AccessTokenGetter;
 
+  /** Function to get the ID of the signed-in user or session */
+  getAuthIdentity?: AuthIdentityResolver;
+
   /** Function to refresh the token when it expires */
   refreshAccessToken?: RefreshTokenHandler;
 
   /** Function to handle when the user is unauthorized */
   onUnauthorized?: UnauthorizedHandler;
 
+  /** Function to handle when the user may not access a resource */
+  onForbidden?: ForbiddenHandler;
+
   /** Function to get the current locale */
   getLocale?: LocaleResolver;
 
@@ -95,7 +131,9 @@ interface HttpInterceptorConfig {
 
   /** Function to log HTTP events */
   logger?: (event: HttpLogEvent) => void;
-} // ================================================================================================
+}
+
+// ================================================================================================
 // Default Implementations - default implementations for interceptor functions
 // ================================================================================================
 
@@ -124,12 +162,15 @@ const generateDefaultRequestId: RequestIdGenerator = (): string => {
  * Contains default implementations for all interceptor functions.
  * Can be overridden via configureHttpInterceptors()
  */
-let interceptorConfig: Required<HttpInterceptorConfig> = {
+const defaultInterceptorConfig: Required<HttpInterceptorConfig> = {
   /** By default, no token (return null) */
   getAccessToken: () => null,
 
+  /** By default, no identity (the access token identifies the user) */
+  getAuthIdentity: () => null,
+
   /** By default, no refresh mechanism */
-  refreshAccessToken: async () => null,
+  refreshAccessToken: async () => false,
 
   /** By default, redirect to the signin page when unauthorized */
   onUnauthorized: () => {
@@ -137,6 +178,12 @@ let interceptorConfig: Required<HttpInterceptorConfig> = {
     router?.replace('/auth/signin');
   },
 
+  /** By default, open the 403 page when forbidden */
+  onForbidden: () => {
+    const router = getRouter();
+    router?.push(ROUTES.protected.forbidden);
+  },
+
   /** Use locale from config */
   getLocale: () => HTTP_CONFIG.defaultLocale,
 
@@ -147,6 +194,17 @@ let interceptorConfig: Required<HttpInterceptorConfig> = {
   logger: () => undefined,
 };
 
+/**
+ * Configuration layers registered via configureHttpInterceptors()
+ *
+ * Later layers override earlier ones; disposing a layer restores whatever the
+ * remaining layers provide instead of leaving a stale configuration behind.
+ */
+let configLayers: HttpInterceptorConfig[] = [];
+
+/** Effective configuration (defaults merged with every layer) */
+let interceptorConfig: Required<HttpInterceptorConfig> = defaultInterceptorConfig;
+
 // ================================================================================================
 // Global State - state tracking the refresh token process
 // ================================================================================================
@@ -158,12 +216,25 @@ let interceptorConfig: Required<HttpInterceptorConfig> = {
  * - If a refresh is in progress -> wait for the existing promise
  * - If not refreshing yet -> create a new promise and cache it
  */
-let currentRefreshPromise: Promise<string | null> | null = null;
+let currentRefreshPromise: Promise<boolean> | null = null;
+
+/** Listeners receiving every HTTP log event (metrics, network inspector) */
+const httpEventListeners = new Set<HttpEventListener>();
 
 // ================================================================================================
 // Configuration Functions - functions to configure the interceptor system
 // ================================================================================================
 
+/**
+ * Recompute the effective configuration from the defaults and all layers
+ */
+function rebuildInterceptorConfig(): void {
+  interceptorConfig = configLayers.reduce<Required<HttpInterceptorConfig>>(
+    (mergedConfig, layer) => ({ ...mergedConfig, ...layer }),
+    defaultInterceptorConfig
+  );
+}
+
 /**
  * Configure the interceptor system with custom implementations
  *
@@ -171,19 +242,24 @@ let currentRefreshPromise: Promise<string | null> | null = null;
  * Merges with the existing config instead of replacing entirely.
  *
  * @param partialConfig - Partial config object with functions to override
+ * @returns Disposer removing this configuration layer again
  *
  * @example
  * ```typescript
- * configureHttpInterceptors({
- *   getAccessToken: () => localStorage.getItem('token'),
+ * const dispose = configureHttpInterceptors({
+ *   refreshAccessToken: async () => (await refreshSession()) !== null,
  *   logger: (event) => console.log('HTTP Event:', event)
  * });
  * ```
  */
-export function configureHttpInterceptors(partialConfig: HttpInterceptorConfig): void {
-  interceptorConfig = {
-    ...interceptorConfig,
-    ...partialConfig,
+export function configureHttpInterceptors(partialConfig: HttpInterceptorConfig): HttpInterceptorDisposer {
+  const layer: HttpInterceptorConfig = { ...partialConfig };
+  configLayers.push(layer);
+  rebuildInterceptorConfig();
+
+  return () => {
+    configLayers = configLayers.filter(existingLayer => existingLayer !== layer);
+    rebuildInterceptorConfig();
   };
 }
 
@@ -199,8 +275,8 @@ export function configureHttpInterceptors(partialConfig: HttpInterceptorConfig):
  * registerTokenGetter(() => memoryStore.getToken());
  * ```
  */
-export function registerTokenGetter(tokenGetter: AccessTokenGetter): void {
-  configureHttpInterceptors({ getAccessToken: tokenGetter });
+export function registerTokenGetter(tokenGetter: AccessTokenGetter): HttpInterceptorDisposer {
+  return configureHttpInterceptors({ getAccessToken: tokenGetter });
 }
 
 // ================================================================================================
@@ -208,36 +284,27 @@ export function registerTokenGetter(tokenGetter: AccessTokenGetter): void {
 // ================================================================================================
 
 /**
- * Resolve the access token from multiple sources in priority order
+ * Resolve the access token of the signed-in user
  *
- * Priority:
- * 1. Memory store (via the configured getter)
- * 2. SessionStorage (fallback for page refresh)
+ * The app's own session never configures a getter: its tokens live in httpOnly cookies
+ * (see the /api/session route handlers) and the middleware adds the Bearer header.
  *
  * @returns Access token string or null if not found
  */
 export function resolveAccessToken(): string | null {
-  // Step 1: Try to get the token from the memory store (fastest)
-  const tokenFromMemory = interceptorConfig.getAccessToken();
-
-  // Step 2: If there is a token in memory -> return immediately
-  if (tokenFromMemory) {
-    return tokenFromMemory;
-  }
-
-  // Step 3: Fallback - try to get it from sessionStorage (for page refresh)
-  if (globalThis.window !== undefined) {
-    try {
-      const tokenFromStorage = globalThis.sessionStorage?.getItem('authToken') ?? null;
-      return tokenFromStorage;
-    } catch {
-      // Ignore errors when accessing sessionStorage (SSR, private browsing, etc.)
-      return null;
-    }
-  }
+  return interceptorConfig.getAccessToken() ?? null;
+}
 
-  // Step 4: No token found from any source
-  return null;
+/**
+ * Resolve who requests are sent as, for the dedupe and response cache keys
+ *
+ * The cookie session has no token getter, so the configured user or session ID keys
+ * the requests; without one, the access token does.
+ *
+ * @returns User or session ID, access token, or null when signed out
+ */
+export function resolveAuthIdentity(): string | null {
+  return interceptorConfig.getAuthIdentity() ?? resolveAccessToken();
 }
 
 /**
@@ -261,38 +328,68 @@ export function generateCorrelationId(): string {
 /**
  * Log HTTP events and track performance metrics
  *
+ * The logger and listeners receive the event after redaction (see redact()).
+ *
  * @param event - HTTP event to log
  */
 export function logHttpEvent(event: HttpLogEvent): void {
+  const safeEvent = redact(event);
+
   // Delegate to configured logger
-  interceptorConfig.logger(event);
+  interceptorConfig.logger(safeEvent);
+
+  // Observers must never break the request they observe
+  for (const listener of httpEventListeners) {
+    try {
+      listener(safeEvent);
+    } catch {
+      // Ignore listener failures
+    }
+  }
 
   // Track performance for response events
-  if (event.type === 'response') {
-    trackPerformance(`http:${event.method}:${event.url}`, event.durationMs);
+  if (safeEvent.type === 'response') {
+    trackPerformance(`http:${safeEvent.method}:${safeEvent.url}`, safeEvent.durationMs);
   }
 }
 
+/**
+ * Receive every HTTP log event, next to the configured logger
+ *
+ * @param listener - Called with each request, response, error and circuit event
+ * @returns Function removing the listener
+ *
+ * @example
+ * ```typescript
+ * const unsubscribe = subscribeHttpEvents(event => {
+ *   if (event.type === 'response' && event.durationMs > 1000) console.warn('Slow request', event.url);
+ * });
+ * ```
+ */
+export function subscribeHttpEvents(listener: HttpEventListener): () => void {
+  httpEventListeners.add(listener);
+  return () => {
+    httpEventListeners.delete(listener);
+  };
+}
+
 /**
  * Attempt to refresh access token
  *
  * Implements promise deduplication to avoid multiple concurrent refresh calls.
  *
- * @returns Promise that resolves to a new token or null if the refresh fails
+ * @returns Promise that resolves to true once the session is refreshed, false when there is none to refresh
  */
-export async function attemptTokenRefresh(): Promise<string | null> {
+export async function attemptTokenRefresh(): Promise<boolean> {
   // Check whether a refresh function is configured
   if (!interceptorConfig.refreshAccessToken) {
-    return null;
+    return false;
   }
 
   // Deduplication: if refresh is in progress -> wait for the existing promise
-  currentRefreshPromise ??= interceptorConfig
-    .refreshAccessToken()
-    .then((newToken: string | null) => newToken)
-    .finally(() => {
-      currentRefreshPromise = null;
-    });
+  currentRefreshPromise ??= interceptorConfig.refreshAccessToken().finally(() => {
+    currentRefreshPromise = null;
+  });
 
   return currentRefreshPromise;
 }
@@ -304,89 +401,218 @@ export function notifyUnauthorized(): void {
   interceptorConfig.onUnauthorized();
 }
 
-function mergeSignals(meta: HttpMeta): AbortSignal | undefined {
-  const hasTimeoutFn = typeof AbortSignal !== 'undefined' && typeof (AbortSignal as { timeout?: unknown }).timeout === 'function';
-  const timeoutSignal =
-    hasTimeoutFn && typeof meta.timeout === 'number'
-      ? (AbortSignal as unknown as { timeout: (ms: number) => AbortSignal }).timeout(meta.timeout)
-      : undefined;
-  const { signal } = meta;
-
-  if (signal && timeoutSignal) {
-    if (typeof AbortSignal !== 'undefined' && 'any' in AbortSignal) {
-      return AbortSignal.any([signal, timeoutSignal]);
+/**
+ * Notify about a forbidden request (usually open the 403 page)
+ */
+export function notifyForbidden(): void {
+  interceptorConfig.onForbidden();
+}
+
+// ================================================================================================
+// Built-in Interceptors - cross-cutting concerns registered on the pipeline
+// ================================================================================================
+
+/**
+ * Priorities of the built-in interceptors
+ *
+ * Feature interceptors can use these to run before or after a built-in step
+ */
+export const HTTP_INTERCEPTOR_PRIORITY = {
+  defaults: 0,
+  status: 50,
+  locale: 100,
+  auth: 200,
+  correlationId: 300,
+  logging: 1000,
+} as const;
+
+/** Default headers (Content-Type, Accept, X-Client) and credentials */
+const defaultsInterceptor: HttpInterceptor = {
+  name: 'defaults',
+  priority: HTTP_INTERCEPTOR_PRIORITY.defaults,
+  onRequest: ({ headers, options, meta }) => {
+    const body = options.body;
+    const hasFormData = typeof FormData !== 'undefined' && body instanceof FormData;
+    const hasUrlSearchParams = typeof URLSearchParams !== 'undefined' && body instanceof URLSearchParams;
+    const hasBlob = typeof Blob !== 'undefined' && body instanceof Blob;
+
+    if (!headers.has('Content-Type') && !hasFormData && !hasUrlSearchParams && !hasBlob) {
+      headers.set('Content-Type', 'application/json');
     }
-    const controller = new AbortController();
-    const abort = () => controller.abort();
-    signal.addEventListener('abort', abort);
-    timeoutSignal.addEventListener('abort', abort);
-    return controller.signal;
-  }
 
-  return signal ?? timeoutSignal;
-}
+    if (!headers.has('Accept')) {
+      headers.set('Accept', 'application/json');
+    }
 
-export async function applyRequestInterceptors(url: string, options: RequestInit, meta: HttpMeta): Promise<[string, RequestInit]> {
-  const headers = new Headers(options.headers);
-  const body = options.body;
-  const hasFormData = typeof FormData !== 'undefined' && body instanceof FormData;
-  const hasUrlSearchParams = typeof URLSearchParams !== 'undefined' && body instanceof URLSearchParams;
-  const hasBlob = typeof Blob !== 'undefined' && body instanceof Blob;
+    if (!headers.has('X-Client')) {
+      headers.set('X-Client', HTTP_CONFIG.clientHeader);
+    }
 
-  if (!headers.has('Content-Type') && !hasFormData && !hasUrlSearchParams && !hasBlob) {
-    headers.set('Content-Type', 'application/json');
-  }
+    if (meta.withCredentials) {
+      options.credentials = 'include';
+    }
+  },
+};
 
-  if (!headers.has('Accept')) {
-    headers.set('Accept', 'application/json');
-  }
+/** Turn auth and server failures into AppErrors */
+const statusInterceptor: HttpInterceptor = {
+  name: 'status',
+  priority: HTTP_INTERCEPTOR_PRIORITY.status,
+  onResponse: response => {
+    if (response.status === 401) {
+      throw new AppError(ErrorCode.UNAUTHORIZED, undefined, 401);
+    }
 
-  if (!headers.has('X-Client')) {
-    headers.set('X-Client', HTTP_CONFIG.clientHeader);
-  }
+    if (response.status === 403) {
+      throw new AppError(ErrorCode.FORBIDDEN, undefined, 403);
+    }
 
-  if (!headers.has('Accept-Language')) {
-    headers.set('Accept-Language', resolveLocale());
-  }
+    if (response.status >= 500) {
+      // Always surface server errors to caller; retry logic handled by caller (honoring Retry-After on 503)
+      const error = new AppError(ErrorCode.SERVER_ERROR, undefined, response.status);
+      captureRetryAfter(error, response);
+      throw error;
+    }
+  },
+};
+
+/** Accept-Language from the configured locale resolver */
+const localeInterceptor: HttpInterceptor = {
+  name: 'locale',
+  priority: HTTP_INTERCEPTOR_PRIORITY.locale,
+  onRequest: ({ headers }) => {
+    if (!headers.has('Accept-Language')) {
+      headers.set('Accept-Language', resolveLocale());
+    }
+  },
+};
+
+/** Bearer token unless the request opts out with meta.skipAuth */
+const authInterceptor: HttpInterceptor = {
+  name: 'auth',
+  priority: HTTP_INTERCEPTOR_PRIORITY.auth,
+  onRequest: ({ headers, meta }) => {
+    if (meta.skipAuth) return;
 
-  if (!meta.skipAuth) {
     const token = resolveAccessToken();
     if (token && !headers.has('Authorization')) {
       headers.set('Authorization', `Bearer ${token}`);
     }
-  }
+  },
+};
 
-  if (meta.correlationId && !headers.has('X-Request-Id')) {
-    headers.set('X-Request-Id', meta.correlationId);
-  }
+/** X-Request-Id from the request correlation ID */
+const correlationIdInterceptor: HttpInterceptor = {
+  name: 'correlation-id',
+  priority: HTTP_INTERCEPTOR_PRIORITY.correlationId,
+  onRequest: ({ headers, meta }) => {
+    if (meta.correlationId && !headers.has('X-Request-Id')) {
+      headers.set('X-Request-Id', meta.correlationId);
+    }
+  },
+};
+
+/** Request/response/error events forwarded to logHttpEvent */
+const loggingInterceptor: HttpInterceptor = {
+  name: 'logging',
+  priority: HTTP_INTERCEPTOR_PRIORITY.logging,
+  onRequest: ({ url, method, meta, attempt, options }) => {
+    logHttpEvent({ type: 'request', method, url, correlationId: meta.correlationId, attempt, size: measureBodySize(options.body) });
+  },
+  onResponse: (response, { url, method, meta, durationMs, attempt }) => {
+    const contentLength = Number(response.headers?.get('content-length') ?? Number.NaN);
+    logHttpEvent({
+      type: 'response',
+      method,
+      url,
+      status: response.status,
+      correlationId: meta.correlationId,
+      durationMs,
+      attempt,
+      size: Number.isFinite(contentLength) ? contentLength : undefined,
+    });
+  },
+  onError: (error, { url, method, meta }) => {
+    if (url === undefined || method === undefined) return undefined;
+    logHttpEvent({ type: 'error', method, url, correlationId: meta?.correlationId, error });
+    return undefined;
+  },
+};
 
-  if (meta.withCredentials) {
-    options.credentials = 'include';
+/**
+ * Register (or restore) the built-in interceptors
+ *
+ * Called once when the module loads; call again after unregistering a built-in to restore it
+ */
+export function registerBuiltInHttpInterceptors(): void {
+  for (const interceptor of [
+    defaultsInterceptor,
+    statusInterceptor,
+    localeInterceptor,
+    authInterceptor,
+    correlationIdInterceptor,
+    loggingInterceptor,
+  ]) {
+    registerHttpInterceptor(interceptor);
   }
+}
 
-  const signal = mergeSignals(meta);
+registerBuiltInHttpInterceptors();
 
-  return [url, { ...options, headers, signal }];
-}
+// ================================================================================================
+// Pipeline Entry Points - used by the HTTP client
+// ================================================================================================
 
-export async function applyResponseInterceptors(response: Response, _meta: HttpMeta, _attempt: number): Promise<Response> {
-  if (response.status === 401) {
-    throw new AppError(ErrorCode.UNAUTHORIZED, undefined, 401);
-  }
+/**
+ * Run the request pipeline and attach the timeout/abort signal
+ *
+ * @param url - Request URL
+ * @param options - fetch options built by the client
+ * @param meta - Effective request metadata
+ * @param attempt - Attempt number (0-based)
+ * @returns Final URL and fetch options
+ */
+export async function applyRequestInterceptors(url: string, options: RequestInit, meta: HttpMeta, attempt = 0): Promise<[string, RequestInit]> {
+  const context = await runRequestInterceptors({
+    url,
+    method: options.method ?? 'GET',
+    headers: new Headers(options.headers),
+    options: { ...options },
+    meta,
+    attempt,
+  });
 
-  if (response.status === 403) {
-    throw new AppError(ErrorCode.FORBIDDEN, undefined, 403);
-  }
+  const signal = mergeSignals(meta);
 
-  if (response.status >= 500) {
-    const appError = new AppError(ErrorCode.SERVER_ERROR, undefined, response.status);
-    // Always surface server errors to caller; retry logic handled by caller
-    throw appError;
-  }
+  return [context.url, { ...context.options, headers: context.headers, signal }];
+}
 
-  return response;
+/**
+ * Run the response pipeline
+ *
+ * @param response - Response from fetch()
+ * @param meta - Effective request metadata
+ * @param attempt - Attempt number (0-based)
+ * @param request - Final URL, method and duration of the attempt
+ * @returns Response after every interceptor ran
+ */
+export async function applyResponseInterceptors(
+  response: Response,
+  meta: HttpMeta,
+  attempt: number,
+  request: { url: string; method: string; durationMs: number } = { url: response.url ?? '', method: 'GET', durationMs: 0 }
+): Promise<Response> {
+  return runResponseInterceptors(response, { ...request, meta, attempt });
 }
 
-export function interceptHttpError(error: unknown, meta?: HttpMeta): never {
-  throw handleError(error, { meta });
+/**
+ * Run the error pipeline, normalise the error and rethrow it
+ *
+ * @param error - Error that ended the request
+ * @param meta - Effective request metadata
+ * @param request - URL and method of the failed request (when known)
+ */
+export function interceptHttpError(error: unknown, meta?: HttpMeta, request?: Omit<HttpErrorContext, 'meta'>): never {
+  const interceptedError = runErrorInterceptors(error, { ...request, meta });
+  throw handleError(interceptedError, { meta });
 }
@@ -0,0 +1,253 @@
+/**
+ * HTTP Metrics Module
+ *
+ * Aggregates the HttpLogEvent stream per route (method + API_ROUTES template):
+ * - Latency percentiles over a sliding window of recent responses
+ * - Request, retry and error counts (cancelled requests are not errors)
+ * - Request and response payload sizes
+ *
+ * Collectors are created on demand; start() subscribes one to subscribeHttpEvents().
+ */
+
+import type { AppError } from '@/shared/infra/errors/appError';
+import { ErrorCode } from '@/shared/infra/errors/error-codes';
+
+import { resolveCircuitKey } from './http.circuit';
+import type { HttpLogEvent } from './http.interceptors';
+import { subscribeHttpEvents } from './http.interceptors';
+
+// ================================================================================================
+// Type Definitions
+// ================================================================================================
+
+/** Latency percentiles of a route (milliseconds) */
+export interface HttpLatencyPercentiles {
+  p50: number;
+  p90: number;
+  p95: number;
+  p99: number;
+  max: number;
+}
+
+/** Aggregated metrics of one route */
+export interface HttpRouteMetrics {
+  /** `METHOD /route/template`, e.g. 'GET /api/v1/projects/:id' */
+  route: string;
+
+  /** Logical requests (first attempts) */
+  requests: number;
+
+  /** Attempts sent, including retries */
+  attempts: number;
+
+  /** Attempts that were retries */
+  retries: number;
+
+  /** Requests that ended with an error (cancellations excluded) */
+  errors: number;
+
+  /** errors / requests (0 when nothing was sent) */
+  errorRate: number;
+
+  /** Latency over the sample window, undefined before the first response */
+  latency?: HttpLatencyPercentiles;
+
+  /** Average request body size in bytes (requests with a measurable body) */
+  averageRequestBytes?: number;
+
+  /** Average response body size in bytes (responses with Content-Length) */
+  averageResponseBytes?: number;
+}
+
+/** Options of createHttpMetricsCollector */
+export interface HttpMetricsCollectorOptions {
+  /** Latency samples kept per route (default: 200) */
+  maxSamples?: number;
+}
+
+/** Per-route metrics collector */
+export interface HttpMetricsCollector {
+  /** Add one event to the aggregates */
+  record: (event: HttpLogEvent) => void;
+
+  /** Subscribe to the HTTP event stream; returns the unsubscribe function */
+  start: () => () => void;
+
+  /** Current metrics, slowest p95 first */
+  getSnapshot: () => HttpRouteMetrics[];
+
+  /** Drop every aggregate */
+  reset: () => void;
+}
+
+/** Running totals of one route */
+interface RouteAccumulator {
+  requests: number;
+  attempts: number;
+  retries: number;
+  errors: number;
+  latencySamples: number[];
+  requestBytes: number;
+  requestSamples: number;
+  responseBytes: number;
+  responseSamples: number;
+}
+
+// ================================================================================================
+// Constants
+// ================================================================================================
+
+/** Default number of latency samples kept per route */
+const DEFAULT_MAX_LATENCY_SAMPLES = 200;
+
+// ================================================================================================
+// Helper Functions
+// ================================================================================================
+
+/**
+ * Nearest-rank percentile of a set of samples
+ *
+ * @param samples - Samples (any order)
+ * @param percentile - Percentile between 0 and 100
+ * @returns The percentile, or 0 without samples
+ *
+ * @example
+ * ```typescript
+ * computePercentile([120, 80, 300, 95], 50); // 95
+ * ```
+ */
+export function computePercentile(samples: readonly number[], percentile: number): number {
+  if (samples.length === 0) return 0;
+
+  const sorted = [...samples].sort((a, b) => a - b);
+  const rank = Math.ceil((percentile / 100) * sorted.length);
+  return sorted[Math.min(Math.max(rank, 1), sorted.length) - 1];
+}
+
+/**
+ * Build the route key of a request
+ *
+ * @param method - HTTP method
+ * @param url - Request URL
+ * @returns `METHOD /route/template`
+ */
+function resolveRouteKey(method: string, url: string): string {
+  return `${method.toUpperCase()} ${resolveCircuitKey(url)}`;
+}
+
+/**
+ * Check whether an error event reports a cancellation
+ *
+ * @param error - Error of the event
+ * @returns True for CANCELLED AppErrors
+ */
+function isCancellation(error: unknown): boolean {
+  return (error as AppError | undefined)?.code === ErrorCode.CANCELLED;
+}
+
+// ================================================================================================
+// Public API
+// ================================================================================================
+
+/**
+ * Create a collector aggregating HTTP log events per route
+ *
+ * @param options - Sample window size
+ * @returns Collector; call start() to feed it from the HTTP client
+ *
+ * @example
+ * ```typescript
+ * const metrics = createHttpMetricsCollector();
+ * const stop = metrics.start();
+ * // ... later
+ * console.table(metrics.getSnapshot());
+ * stop();
+ * ```
+ */
+export function createHttpMetricsCollector(options: HttpMetricsCollectorOptions = {}): HttpMetricsCollector {
+  const maxSamples = options.maxSamples ?? DEFAULT_MAX_LATENCY_SAMPLES;
+  const routes = new Map<string, RouteAccumulator>();
+
+  const getRoute = (method: string, url: string): RouteAccumulator => {
+    const key = resolveRouteKey(method, url);
+    let accumulator = routes.get(key);
+    if (!accumulator) {
+      accumulator = {
+        requests: 0,
+        attempts: 0,
+        retries: 0,
+        errors: 0,
+        latencySamples: [],
+        requestBytes: 0,
+        requestSamples: 0,
+        responseBytes: 0,
+        responseSamples: 0,
+      };
+      routes.set(key, accumulator);
+    }
+    return accumulator;
+  };
+
+  const record = (event: HttpLogEvent): void => {
+    switch (event.type) {
+      case 'request': {
+        const route = getRoute(event.method, event.url);
+        route.attempts += 1;
+        if (event.attempt === 0) route.requests += 1;
+        else route.retries += 1;
+        if (event.size !== undefined) {
+          route.requestBytes += event.size;
+          route.requestSamples += 1;
+        }
+        break;
+      }
+      case 'response': {
+        const route = getRoute(event.method, event.url);
+        route.latencySamples.push(event.durationMs);
+        if (route.latencySamples.length > maxSamples) route.latencySamples.shift();
+        if (event.size !== undefined) {
+          route.responseBytes += event.size;
+          route.responseSamples += 1;
+        }
+        break;
+      }
+      case 'error': {
+        if (!isCancellation(event.error)) getRoute(event.method, event.url).errors += 1;
+        break;
+      }
+      default:
+        break;
+    }
+  };
+
+  const getSnapshot = (): HttpRouteMetrics[] =>
+    [...routes.entries()]
+      .map(([route, accumulator]) => ({
+        route,
+        requests: accumulator.requests,
+        attempts: accumulator.attempts,
+        retries: accumulator.retries,
+        errors: accumulator.errors,
+        errorRate: accumulator.requests > 0 ? accumulator.errors / accumulator.requests : 0,
+        latency:
+          accumulator.latencySamples.length > 0
+            ? {
+                p50: computePercentile(accumulator.latencySamples, 50),
+                p90: computePercentile(accumulator.latencySamples, 90),
+                p95: computePercentile(accumulator.latencySamples, 95),
+                p99: computePercentile(accumulator.latencySamples, 99),
+                max: Math.max(...accumulator.latencySamples),
+              }
+            : undefined,
+        averageRequestBytes: accumulator.requestSamples > 0 ? accumulator.requestBytes / accumulator.requestSamples : undefined,
+        averageResponseBytes: accumulator.responseSamples > 0 ? accumulator.responseBytes / accumulator.responseSamples : undefined,
+      }))
+      .sort((a, b) => (b.latency?.p95 ?? 0) - (a.latency?.p95 ?? 0));
+
+  return {
+    record,
+    start: () => subscribeHttpEvents(record),
+    getSnapshot,
+    reset: () => routes.clear(),
+  };
+}
@@ -0,0 +1,385 @@
+/**
+ * HTTP Offline Queue Module
+ *
+ * Keeps mutations made while offline instead of losing them:
+ * - Opt-in per request with meta.queueWhenOffline (mutations with a JSON body only)
+ * - Queued requests are persisted in localStorage and survive a reload
+ * - The queue is replayed in order through http() once the browser is back online, by one tab at a time
+ * - Subscribers are told when a request is queued, synced or rejected by the server
+ * - Transient failures (network, timeout, rate limit, 5xx, open circuit) keep the request for the next replay
+ * - Cached GET responses are dropped after each synced request
+ */
+
+import { AppError } from '@/shared/infra/errors/appError';
+import { ErrorCode } from '@/shared/infra/errors/error-codes';
+import { isRetryableError } from '@/shared/infra/errors/error-handler';
+import { containsBinaryData } from '@/shared/infra/http/http.body';
+import { clearHttpCache } from '@/shared/infra/http/http.cache';
+import type { HttpMeta, HttpMethod, HttpOptions, HttpParams, HttpResponseType } from '@/shared/infra/http/http.types';
+import { runInSingleTab } from '@/shared/infra/session/session.bus';
+import { local } from '@/shared/utils/storage';
+
+// ================================================================================================
+// Type Definitions
+// ================================================================================================
+
+/** Request metadata that survives persistence (callbacks and signals cannot) */
+export type OfflineQueueMeta = Pick<
+  HttpMeta,
+  | 'skipAuth'
+  | 'skipAuthRefresh'
+  | 'withCredentials'
+  | 'idempotent'
+  | 'timeout'
+  | 'retry'
+  | 'retryDelayMs'
+  | 'queryFormat'
+  | 'bodyType'
+  | 'formKeyNotation'
+>;
+
+/**
+ * Mutation waiting for connectivity
+ *
+ * Headers include the Idempotency-Key of idempotent requests, so a request
+ * that reached the server before the connection dropped is not applied twice.
+ */
+export interface OfflineQueueEntry {
+  /** Unique ID of the queued request */
+  id: string;
+
+  /** API endpoint path passed to http() */
+  path: string;
+
+  /** HTTP method */
+  method: HttpMethod;
+
+  /** JSON request body */
+  body?: unknown;
+
+  /** URL query parameters */
+  params?: HttpParams;
+
+  /** Headers of the original call */
+  headers?: Record<string, string>;
+
+  /** Response body type of the original call */
+  responseType?: HttpResponseType;
+
+  /** Whether the original call read the response as a backend envelope */
+  unwrapEnvelope?: boolean;
+
+  /** Persistable request metadata */
+  meta: OfflineQueueMeta;
+
+  /** When the request was queued (milliseconds) */
+  queuedAt: number;
+}
+
+/**
+ * Change of the offline queue reported to subscribers
+ *
+ * - queued: a request was stored while offline
+ * - synced: a replayed request succeeded (data is the response payload)
+ * - failed: the server rejected a replayed request; it is dropped from the queue
+ * - cleared: every queued request was dropped
+ */
+export type OfflineQueueEvent =
+  | { type: 'queued'; entry: OfflineQueueEntry }
+  | { type: 'synced'; entry: OfflineQueueEntry; data: unknown }
+  | { type: 'failed'; entry: OfflineQueueEntry; error: unknown }
+  | { type: 'cleared' };
+
+/** Callback receiving offline queue events */
+export type OfflineQueueListener = (event: OfflineQueueEvent) => void;
+
+// ================================================================================================
+// Constants
+// ================================================================================================
+
+/** localStorage key of the persisted queue */
+export const OFFLINE_QUEUE_STORAGE_KEY = 'httpOfflineQueue';
+
+/** Tab lock held while replaying (the queue is shared by every tab) */
+const OFFLINE_REPLAY_LOCK_NAME = 'app:offline-replay';
+
+/** Lifetime of the replay lease when the Web Locks API is not available */
+const OFFLINE_REPLAY_LEASE_MS = 60_000;
+
+// ================================================================================================
+// Global State - subscribers and running replay
+// ================================================================================================
+
+/** Subscribers notified of queue events */
+const listeners = new Set<OfflineQueueListener>();
+
+/** Replay in progress in this tab (shared so reconnect events do not replay twice) */
+let activeReplay: Promise<void> | null = null;
+
+// ================================================================================================
+// Persistence
+// ================================================================================================
+
+/**
+ * Read the persisted queue
+ *
+ * @returns Queued requests, oldest first
+ */
+function readQueue(): OfflineQueueEntry[] {
+  return local.get<OfflineQueueEntry[]>(OFFLINE_QUEUE_STORAGE_KEY) ?? [];
+}
+
+/**
+ * Persist the queue (the key is removed once the queue is empty)
+ *
+ * @param entries - Queued requests, oldest first
+ */
+function writeQueue(entries: OfflineQueueEntry[]): void {
+  if (entries.length === 0) {
+    local.remove(OFFLINE_QUEUE_STORAGE_KEY);
+    return;
+  }
+
+  local.set(OFFLINE_QUEUE_STORAGE_KEY, entries);
+}
+
+/**
+ * Drop one request from the queue
+ *
+ * @param id - ID of the queued request
+ */
+function removeEntry(id: string): void {
+  writeQueue(readQueue().filter(entry => entry.id !== id));
+}
+
+/**
+ * Notify every subscriber; a failing subscriber does not stop the others
+ *
+ * @param event - Queue event
+ */
+function emit(event: OfflineQueueEvent): void {
+  for (const listener of listeners) {
+    try {
+      listener(event);
+    } catch {
+      // Subscribers must not break the queue
+    }
+  }
+}
+
+// ================================================================================================
+// Queue Decisions
+// ================================================================================================
+
+/**
+ * Check whether a body can be persisted as JSON
+ *
+ * FormData, Blob, ArrayBuffer, streams and objects holding files cannot be stored,
+ * so such requests fail as usual.
+ *
+ * @param body - Request body
+ * @returns True for primitives, arrays and plain objects without files
+ */
+function isPersistableBody(body: unknown): boolean {
+  if (body === undefined || body === null || typeof body !== 'object') return true;
+  if (containsBinaryData(body)) return false;
+  if (Array.isArray(body)) return true;
+
+  const prototype = Object.getPrototypeOf(body);
+  return prototype === Object.prototype || prototype === null;
+}
+
+/**
+ * Check whether a request may be queued while offline
+ *
+ * @param method - HTTP method
+ * @param meta - Effective request metadata
+ * @param body - Request body
+ * @returns True for mutations opting in with meta.queueWhenOffline and a JSON body
+ */
+export function shouldQueueWhenOffline(method: string, meta: HttpMeta, body: unknown): boolean {
+  return Boolean(meta.queueWhenOffline) && method.toUpperCase() !== 'GET' && isPersistableBody(body);
+}
+
+/**
+ * Check whether the browser reports being offline
+ *
+ * @returns True when navigator.onLine is false (always false on the server)
+ */
+export function isBrowserOffline(): boolean {
+  return typeof navigator !== 'undefined' && navigator.onLine === false;
+}
+
+/**
+ * Check whether an error means the backend could not be reached
+ *
+ * @param error - Error thrown by http()
+ * @returns True for network errors
+ */
+export function isOfflineFailure(error: unknown): error is AppError {
+  return (error as AppError | undefined)?.code === ErrorCode.NETWORK_ERROR;
+}
+
+/**
+ * Check whether a replayed request failed for a reason that may go away on a later replay
+ *
+ * @param error - Error thrown by http()
+ * @returns True for network, timeout, rate limit and server errors (including an open circuit)
+ */
+function isTransientFailure(error: unknown): boolean {
+  return error instanceof AppError && isRetryableError(error);
+}
+
+// ================================================================================================
+// Public API
+// ================================================================================================
+
+/**
+ * Store a request until connectivity returns
+ *
+ * @param path - API endpoint path passed to http()
+ * @param options - Request options (body, params, headers, responseType and unwrapEnvelope are kept)
+ * @param meta - Effective request metadata (only persistable fields are kept)
+ * @param generateId - Generates the queue entry ID
+ * @returns The queued entry
+ */
+export function enqueueOfflineRequest(path: string, options: HttpOptions<unknown>, meta: HttpMeta, generateId: () => string): OfflineQueueEntry {
+  const { skipAuth, skipAuthRefresh, withCredentials, idempotent, timeout, retry, retryDelayMs, queryFormat, bodyType, formKeyNotation } = meta;
+  const entry: OfflineQueueEntry = {
+    id: generateId(),
+    path,
+    method: options.method ?? 'POST',
+    body: options.body,
+    params: options.params,
+    headers: options.headers,
+    responseType: options.responseType,
+    unwrapEnvelope: options.unwrapEnvelope,
+    meta: { skipAuth, skipAuthRefresh, withCredentials, idempotent, timeout, retry, retryDelayMs, queryFormat, bodyType, formKeyNotation },
+    queuedAt: Date.now(),
+  };
+
+  writeQueue([...readQueue(), entry]);
+  emit({ type: 'queued', entry });
+
+  return entry;
+}
+
+/**
+ * Get the requests waiting for connectivity
+ *
+ * @returns Queued requests, oldest first
+ */
+export function getOfflineQueue(): readonly OfflineQueueEntry[] {
+  return readQueue();
+}
+
+/**
+ * Subscribe to queue events
+ *
+ * @param listener - Callback receiving queue events
+ * @returns Function to unsubscribe
+ *
+ * @example
+ * ```typescript
+ * const unsubscribe = subscribeOfflineQueue(event => {
+ *   if (event.type === 'failed') notification.error({ message: `Could not sync ${event.entry.path}` });
+ * });
+ * ```
+ */
+export function subscribeOfflineQueue(listener: OfflineQueueListener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * Send the queued requests in order
+ *
+ * Stops (keeping the remaining requests) as soon as a request fails transiently: the backend
+ * is unreachable again, times out, rate-limits or answers with a server error.
+ * Requests definitively rejected by the server (4xx) are dropped and reported as 'failed'.
+ * Every synced request clears the response cache.
+ * Concurrent calls share the running replay, and a tab lock keeps the other tabs
+ * from sending the same requests while this one replays (they skip the replay).
+ *
+ * @returns Promise resolving once the replay stopped
+ */
+export function replayOfflineQueue(): Promise<void> {
+  activeReplay ??= runInSingleTab(OFFLINE_REPLAY_LOCK_NAME, drainQueue, OFFLINE_REPLAY_LEASE_MS)
+    .then(() => undefined)
+    .finally(() => {
+      activeReplay = null;
+    });
+
+  return activeReplay;
+}
+
+/**
+ * Send queued requests until the queue is empty or a request fails transiently
+ */
+async function drainQueue(): Promise<void> {
+  // Imported lazily: the client depends on this module
+  const { http } = await import('@/shared/infra/http/http.client');
+
+  for (let [entry] = readQueue(); entry && !isBrowserOffline(); [entry] = readQueue()) {
+    try {
+      // A rejected replay is reported as 'failed' instead of leaving the page for the 403 page
+      const data = await http(entry.path, {
+        method: entry.method,
+        body: entry.body,
+        params: entry.params,
+        headers: entry.headers,
+        responseType: entry.responseType,
+        unwrapEnvelope: entry.unwrapEnvelope,
+        meta: { ...entry.meta, queueWhenOffline: false, showGlobalLoading: false, showErrorNotification: false, skipForbiddenRedirect: true },
+      });
+      removeEntry(entry.id);
+      // The replayed change may touch any cached list or detail, so the next reads go to the server
+      clearHttpCache();
+      emit({ type: 'synced', entry, data });
+    } catch (error) {
+      if (isTransientFailure(error)) return;
+      removeEntry(entry.id);
+      emit({ type: 'failed', entry, error });
+    }
+  }
+}
+
+/**
+ * Replay the queue now and whenever the browser comes back online
+ *
+ * Start it once the session is known: a replay before the session is restored
+ * would fail with 401 and sign the user out, dropping the queue.
+ *
+ * @returns Function removing the online listener
+ *
+ * @example
+ * ```typescript
+ * useEffect(() => startOfflineQueueSync(), []);
+ * ```
+ */
+export function startOfflineQueueSync(): () => void {
+  if (globalThis.window === undefined) {
+    return () => undefined;
+  }
+
+  const handleOnline = () => {
+    replayOfflineQueue().catch(() => undefined);
+  };
+
+  globalThis.window.addEventListener('online', handleOnline);
+  if (!isBrowserOffline() && readQueue().length > 0) {
+    handleOnline();
+  }
+
+  return () => globalThis.window.removeEventListener('online', handleOnline);
+}
+
+/**
+ * Drop every queued request (e.g. when the user signs out)
+ */
+export function clearOfflineQueue(): void {
+  writeQueue([]);
+  emit({ type: 'cleared' });
+}
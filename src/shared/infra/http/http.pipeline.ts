@@ -0,0 +1,220 @@
+/**
+ * HTTP Interceptor Pipeline Module
+ *
+ * Ordered middleware pipeline for the HTTP client:
+ * - Feature modules register named request/response/error interceptors
+ * - Interceptors run by priority (onion model: requests ascending, responses/errors descending)
+ * - Registration returns a disposer so interceptors can be removed on unmount
+ */
+
+import type { HttpMeta } from './http.types';
+
+// ================================================================================================
+// Type Definitions - interceptor contexts and hooks
+// ================================================================================================
+
+/**
+ * Mutable context passed to request interceptors
+ *
+ * Interceptors mutate the headers/options in place or replace the URL.
+ */
+export interface HttpRequestContext {
+  /** Request URL (interceptors may rewrite it) */
+  url: string;
+
+  /** HTTP method */
+  method: string;
+
+  /** Request headers */
+  headers: Headers;
+
+  /** Remaining fetch options (body, credentials, ...) */
+  options: RequestInit;
+
+  /** Effective request metadata */
+  meta: HttpMeta;
+
+  /** Attempt number (0-based, increases on retry) */
+  attempt: number;
+}
+
+/**
+ * Context passed to response interceptors
+ */
+export interface HttpResponseContext {
+  /** Final request URL */
+  url: string;
+
+  /** HTTP method */
+  method: string;
+
+  /** Effective request metadata */
+  meta: HttpMeta;
+
+  /** Attempt number (0-based) */
+  attempt: number;
+
+  /** Time until the response headers were received (milliseconds) */
+  durationMs: number;
+}
+
+/**
+ * Context passed to error interceptors
+ */
+export interface HttpErrorContext {
+  /** Request URL (when known) */
+  url?: string;
+
+  /** HTTP method (when known) */
+  method?: string;
+
+  /** Effective request metadata */
+  meta?: HttpMeta;
+}
+
+/**
+ * Named interceptor registered on the pipeline
+ *
+ * @example
+ * ```typescript
+ * const dispose = registerHttpInterceptor({
+ *   name: 'tenant',
+ *   priority: 250,
+ *   onRequest: ({ headers }) => headers.set('X-Tenant', tenantId),
+ * });
+ * ```
+ */
+export interface HttpInterceptor {
+  /** Unique name; registering the same name again replaces the previous interceptor */
+  name: string;
+
+  /** Execution order - lower runs first for requests, last for responses and errors (default: 500) */
+  priority?: number;
+
+  /** Inspect or mutate the outgoing request */
+  onRequest?: (context: HttpRequestContext) => void | Promise<void>;
+
+  /** Inspect the response; return a Response to replace it or throw to fail the attempt */
+  onResponse?: (response: Response, context: HttpResponseContext) => Response | void | Promise<Response | void>;
+
+  /** Observe the final error; return a value to replace the error passed on */
+  onError?: (error: unknown, context: HttpErrorContext) => unknown;
+}
+
+/** Function removing a registered interceptor */
+export type HttpInterceptorDisposer = () => void;
+
+// ================================================================================================
+// Constants
+// ================================================================================================
+
+/** Priority used when an interceptor does not specify one */
+const DEFAULT_INTERCEPTOR_PRIORITY = 500;
+
+// ================================================================================================
+// Global State - registered interceptors
+// ================================================================================================
+
+/** Registered interceptors keyed by name */
+const registeredInterceptors = new Map<string, HttpInterceptor>();
+
+/** Monotonic counter so equal priorities keep registration order */
+let registrationSequence = 0;
+
+/** Registration sequence number of each interceptor name */
+const registrationOrder = new Map<string, number>();
+
+// ================================================================================================
+// Registry Functions
+// ================================================================================================
+
+/**
+ * Register an interceptor on the pipeline
+ *
+ * @param interceptor - Interceptor definition
+ * @returns Disposer removing this interceptor (no-op if it was replaced since)
+ */
+export function registerHttpInterceptor(interceptor: HttpInterceptor): HttpInterceptorDisposer {
+  registeredInterceptors.set(interceptor.name, interceptor);
+  registrationSequence += 1;
+  registrationOrder.set(interceptor.name, registrationSequence);
+
+  return () => {
+    if (registeredInterceptors.get(interceptor.name) === interceptor) {
+      unregisterHttpInterceptor(interceptor.name);
+    }
+  };
+}
+
+/**
+ * Remove an interceptor by name
+ *
+ * @param name - Interceptor name
+ * @returns True if an interceptor was removed
+ */
+export function unregisterHttpInterceptor(name: string): boolean {
+  registrationOrder.delete(name);
+  return registeredInterceptors.delete(name);
+}
+
+/**
+ * List registered interceptors in request order
+ *
+ * @returns Interceptors sorted by priority, then registration order
+ */
+export function getHttpInterceptors(): HttpInterceptor[] {
+  return [...registeredInterceptors.values()].sort((left, right) => {
+    const priorityDelta = (left.priority ?? DEFAULT_INTERCEPTOR_PRIORITY) - (right.priority ?? DEFAULT_INTERCEPTOR_PRIORITY);
+    if (priorityDelta !== 0) return priorityDelta;
+    return (registrationOrder.get(left.name) ?? 0) - (registrationOrder.get(right.name) ?? 0);
+  });
+}
+
+// ================================================================================================
+// Pipeline Runners
+// ================================================================================================
+
+/**
+ * Run request interceptors in ascending priority
+ *
+ * @param context - Mutable request context
+ * @returns The same context after every interceptor ran
+ */
+export async function runRequestInterceptors(context: HttpRequestContext): Promise<HttpRequestContext> {
+  for (const interceptor of getHttpInterceptors()) {
+    await interceptor.onRequest?.(context);
+  }
+  return context;
+}
+
+/**
+ * Run response interceptors in descending priority
+ *
+ * @param response - Response from the transport
+ * @param context - Response context
+ * @returns Response after every interceptor ran
+ */
+export async function runResponseInterceptors(response: Response, context: HttpResponseContext): Promise<Response> {
+  let currentResponse = response;
+  for (const interceptor of getHttpInterceptors().reverse()) {
+    const replacement = await interceptor.onResponse?.(currentResponse, context);
+    if (replacement) currentResponse = replacement;
+  }
+  return currentResponse;
+}
+
+/**
+ * Run error interceptors in descending priority
+ *
+ * @param error - Error that ended the request
+ * @param context - Error context
+ * @returns Error after every interceptor ran (possibly replaced)
+ */
+export function runErrorInterceptors(error: unknown, context: HttpErrorContext): unknown {
+  let currentError = error;
+  for (const interceptor of getHttpInterceptors().reverse()) {
+    const replacement = interceptor.onError?.(currentError, context);
+    if (replacement !== undefined) currentError = replacement;
+  }
+  return currentError;
+}
@@ -0,0 +1,180 @@
+/**
+ * HTTP Progress Module
+ *
+ * Upload/download progress reporting for the HTTP client:
+ * - fetch() cannot report upload progress, so tracked requests go through XMLHttpRequest
+ * - The XHR result is converted back into a standard Response
+ * - Progress events carry loaded/total bytes, percentage and average speed
+ */
+
+import type { HttpMeta, HttpProgressHandler } from './http.types';
+
+// ================================================================================================
+// Type Definitions
+// ================================================================================================
+
+/**
+ * Progress callbacks for one request
+ */
+export interface HttpProgressHandlers {
+  /** Called while the request body is uploaded */
+  onUploadProgress?: HttpProgressHandler;
+
+  /** Called while the response body is downloaded */
+  onDownloadProgress?: HttpProgressHandler;
+}
+
+/** Reports the bytes transferred so far */
+type ProgressReporter = (loaded: number, total?: number) => void;
+
+// ================================================================================================
+// Constants
+// ================================================================================================
+
+/** Statuses whose Response must not carry a body */
+const NULL_BODY_STATUSES: readonly number[] = [101, 204, 205, 304];
+
+// ================================================================================================
+// Helper Functions
+// ================================================================================================
+
+/**
+ * Create a reporter that turns byte counts into progress events
+ *
+ * @param handler - Progress callback
+ * @returns Reporter accepting loaded/total bytes
+ */
+export function createProgressReporter(handler: HttpProgressHandler): ProgressReporter {
+  const startedAt = Date.now();
+
+  return (loaded, total) => {
+    const elapsedSeconds = (Date.now() - startedAt) / 1000;
+    const hasTotal = total !== undefined && total > 0;
+
+    handler({
+      loaded,
+      total: hasTotal ? total : undefined,
+      percent: hasTotal ? Math.min(100, Math.round((loaded / total) * 100)) : undefined,
+      bytesPerSecond: elapsedSeconds > 0 ? Math.round(loaded / elapsedSeconds) : 0,
+    });
+  };
+}
+
+/**
+ * Parse the raw header block returned by XMLHttpRequest
+ *
+ * @param rawHeaders - Result of getAllResponseHeaders()
+ * @returns Headers object
+ */
+function parseResponseHeaders(rawHeaders: string): Headers {
+  const headers = new Headers();
+
+  for (const line of rawHeaders.trim().split(/[\r\n]+/)) {
+    const separatorIndex = line.indexOf(':');
+    if (separatorIndex <= 0) continue;
+    headers.append(line.slice(0, separatorIndex).trim(), line.slice(separatorIndex + 1).trim());
+  }
+
+  return headers;
+}
+
+/**
+ * Bind a progress handler to an XHR progress event target
+ *
+ * @param target - XMLHttpRequest or its upload object
+ * @param handler - Progress callback
+ */
+function trackProgress(target: XMLHttpRequestEventTarget, handler: HttpProgressHandler): void {
+  const report = createProgressReporter(handler);
+  target.addEventListener('progress', event => {
+    report(event.loaded, event.lengthComputable ? event.total : undefined);
+  });
+}
+
+// ================================================================================================
+// Public API
+// ================================================================================================
+
+/**
+ * Check whether a request asks for progress reporting
+ *
+ * @param meta - Effective request metadata
+ * @returns True if the request must be sent through XMLHttpRequest
+ */
+export function shouldTrackProgress(meta: HttpProgressHandlers): boolean {
+  return Boolean(meta.onUploadProgress || meta.onDownloadProgress) && typeof XMLHttpRequest !== 'undefined';
+}
+
+/**
+ * Pick the progress callbacks out of the request metadata
+ *
+ * @param meta - Effective request metadata
+ * @returns Progress callbacks
+ */
+export function getProgressHandlers(meta: HttpMeta): HttpProgressHandlers {
+  return { onUploadProgress: meta.onUploadProgress, onDownloadProgress: meta.onDownloadProgress };
+}
+
+/**
+ * Send a request through XMLHttpRequest while reporting progress
+ *
+ * Behaves like fetch(): resolves with a Response for every HTTP status,
+ * rejects with a TypeError on network failure and with the abort reason
+ * when the signal aborts.
+ *
+ * @param url - Request URL
+ * @param init - fetch() options (method, headers, body, signal, credentials)
+ * @param handlers - Progress callbacks
+ * @returns Promise resolving to the Response
+ *
+ * @example
+ * ```typescript
+ * const response = await sendWithProgress(presignedUrl, { method: 'PUT', body: file }, {
+ *   onUploadProgress: ({ percent }) => setPercent(percent ?? 0),
+ * });
+ * ```
+ */
+export function sendWithProgress(url: string, init: RequestInit, handlers: HttpProgressHandlers): Promise<Response> {
+  return new Promise<Response>((resolve, reject) => {
+    const signal = init.signal ?? undefined;
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+
+    const xhr = new XMLHttpRequest();
+    xhr.open(init.method ?? 'GET', url);
+    xhr.responseType = 'blob';
+    xhr.withCredentials = init.credentials === 'include';
+    new Headers(init.headers).forEach((value, name) => xhr.setRequestHeader(name, value));
+
+    if (handlers.onUploadProgress) trackProgress(xhr.upload, handlers.onUploadProgress);
+    if (handlers.onDownloadProgress) trackProgress(xhr, handlers.onDownloadProgress);
+
+    const abortRequest = () => xhr.abort();
+    signal?.addEventListener('abort', abortRequest, { once: true });
+    const settle = () => signal?.removeEventListener('abort', abortRequest);
+
+    xhr.addEventListener('load', () => {
+      settle();
+      const body = NULL_BODY_STATUSES.includes(xhr.status) ? null : (xhr.response as Blob | null);
+      resolve(
+        new Response(body, {
+          status: xhr.status,
+          statusText: xhr.statusText,
+          headers: parseResponseHeaders(xhr.getAllResponseHeaders()),
+        })
+      );
+    });
+    xhr.addEventListener('error', () => {
+      settle();
+      reject(new TypeError('Failed to fetch'));
+    });
+    xhr.addEventListener('abort', () => {
+      settle();
+      reject(signal?.reason ?? new DOMException('The operation was aborted.', 'AbortError'));
+    });
+
+    xhr.send((init.body ?? null) as XMLHttpRequestBodyInit | null);
+  });
+}
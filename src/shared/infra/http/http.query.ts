@@ -0,0 +1,128 @@
+/**
+ * HTTP Query String Module
+ *
+ * Serializes query parameters into URL search params:
+ * - Scalars are sent as strings; undefined, null and empty arrays are skipped
+ * - Arrays use the selected encoding (repeat, comma, brackets or deepObject)
+ * - Nested objects use bracket keys, e.g. filter[name]=x
+ */
+
+import type { HttpParams, HttpQueryFormat, HttpQueryScalar, HttpQueryValue } from './http.types';
+
+// ================================================================================================
+// Type Definitions
+// ================================================================================================
+
+/** One serialized `key=value` pair (not yet URL-encoded) */
+export type HttpQueryPair = [key: string, value: string];
+
+// ================================================================================================
+// Helpers
+// ================================================================================================
+
+/**
+ * Check whether a query value is a scalar
+ *
+ * @param value - Query value
+ * @returns True for strings, numbers and booleans
+ */
+function isQueryScalar(value: HttpQueryValue): value is HttpQueryScalar {
+  return typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean';
+}
+
+/**
+ * Serialize an array value
+ *
+ * Scalar items follow the encoding; object and nested array items are always indexed
+ * so their keys stay unambiguous.
+ *
+ * @param key - Parameter key
+ * @param items - Array items
+ * @param format - Array encoding
+ * @param pairs - Output pairs
+ */
+function serializeArray(key: string, items: HttpQueryValue[], format: HttpQueryFormat, pairs: HttpQueryPair[]): void {
+  const presentItems = items.filter(item => item !== undefined && item !== null);
+
+  if (format === 'comma' && presentItems.every(isQueryScalar)) {
+    if (presentItems.length > 0) pairs.push([key, presentItems.map(String).join(',')]);
+    return;
+  }
+
+  presentItems.forEach((item, index) => {
+    if (!isQueryScalar(item) || format === 'deepObject') {
+      serializeValue(`${key}[${index}]`, item, format, pairs);
+      return;
+    }
+
+    pairs.push([format === 'brackets' ? `${key}[]` : key, String(item)]);
+  });
+}
+
+/**
+ * Serialize one query value under its key
+ *
+ * @param key - Parameter key (already bracketed for nested values)
+ * @param value - Query value
+ * @param format - Array encoding
+ * @param pairs - Output pairs
+ */
+function serializeValue(key: string, value: HttpQueryValue, format: HttpQueryFormat, pairs: HttpQueryPair[]): void {
+  if (value === undefined || value === null) return;
+
+  if (isQueryScalar(value)) {
+    pairs.push([key, String(value)]);
+    return;
+  }
+
+  if (Array.isArray(value)) {
+    serializeArray(key, value, format, pairs);
+    return;
+  }
+
+  for (const [childKey, childValue] of Object.entries(value)) {
+    serializeValue(`${key}[${childKey}]`, childValue, format, pairs);
+  }
+}
+
+// ================================================================================================
+// Public API
+// ================================================================================================
+
+/**
+ * Serialize query parameters into ordered key/value pairs
+ *
+ * @param queryParams - Query parameters
+ * @param format - Encoding of array values
+ * @returns Pairs to append to URLSearchParams (keys may repeat)
+ *
+ * @example
+ * ```typescript
+ * serializeQueryParams({ status: ['draft', 'published'], filter: { name: 'plan' } }, 'comma');
+ * // [['status', 'draft,published'], ['filter[name]', 'plan']]
+ * ```
+ */
+export function serializeQueryParams(queryParams: HttpParams, format: HttpQueryFormat): HttpQueryPair[] {
+  const pairs: HttpQueryPair[] = [];
+
+  for (const [paramKey, paramValue] of Object.entries(queryParams)) {
+    serializeValue(paramKey, paramValue, format, pairs);
+  }
+
+  return pairs;
+}
+
+/**
+ * Append query parameters to a URL
+ *
+ * Uses searchParams.append so array values can repeat their key.
+ *
+ * @param targetUrl - URL object to append parameters to
+ * @param queryParams - Query parameters
+ * @param format - Encoding of array values
+ */
+export function appendQueryParameters(targetUrl: URL, queryParams: HttpParams, format: HttpQueryFormat): void {
+  for (const [paramKey, paramValue] of serializeQueryParams(queryParams, format)) {
+    targetUrl.searchParams.append(paramKey, paramValue);
+  }
+}
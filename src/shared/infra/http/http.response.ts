@@ -0,0 +1,227 @@
+/**
+ * HTTP Response Module
+ *
+ * Turns transport responses into data, shared by the browser client (http()) and the server client:
+ * - HTTP status codes are mapped to AppError codes; failed responses carry their parsed body as details
+ * - JSON payloads are validated with the caller's Zod schema, or read as a backend envelope
+ * - Non-JSON bodies are read as text, Blob, ArrayBuffer or a stream
+ * - Cacheable GET payloads are stored in (or refreshed from) the response cache
+ *
+ * Keeps no browser state of its own, so route handlers and Server Components can import it.
+ */
+
+import type { ZodType } from 'zod';
+
+import { AppError } from '@/shared/infra/errors/appError';
+import { ErrorCode } from '@/shared/infra/errors/error-codes';
+import type { HttpCacheContext } from '@/shared/infra/http/http.cache';
+import { refreshCachedResponse, storeCachedResponse } from '@/shared/infra/http/http.cache';
+import type { HttpEnvelope } from '@/shared/infra/http/http.envelope';
+import { readEnvelope, readEnvelopeBody } from '@/shared/infra/http/http.envelope';
+import { captureRetryAfter } from '@/shared/infra/http/http.retry';
+import type { HttpOptions, HttpResponseType } from '@/shared/infra/http/http.types';
+import { parseApiResponse } from '@/shared/infra/validation/schemas';
+
+// ================================================================================================
+// Constants - status code mapping
+// ================================================================================================
+
+/**
+ * Mapping from HTTP status codes to application error codes
+ *
+ * Enables consistent error handling across the entire app
+ */
+const HTTP_STATUS_TO_ERROR_CODE: Record<number, ErrorCode> = {
+  400: ErrorCode.BAD_REQUEST, // Bad Request
+  401: ErrorCode.UNAUTHORIZED, // Unauthorized
+  403: ErrorCode.FORBIDDEN, // Forbidden
+  404: ErrorCode.NOT_FOUND, // Not Found
+  408: ErrorCode.TIMEOUT_ERROR, // Request Timeout
+  409: ErrorCode.CONFLICT, // Conflict
+  413: ErrorCode.PAYLOAD_TOO_LARGE, // Content Too Large
+  422: ErrorCode.VALIDATION_ERROR, // Unprocessable Entity
+  429: ErrorCode.RATE_LIMITED, // Too Many Requests
+};
+
+// ================================================================================================
+// Helper Functions - status codes and error details
+// ================================================================================================
+
+/**
+ * Resolve HTTP status code to an application error code
+ *
+ * @param httpStatusCode - HTTP status code from the response
+ * @returns Corresponding application error code
+ */
+function resolveApplicationErrorCode(httpStatusCode: number): ErrorCode {
+  // 5xx errors -> server error
+  if (httpStatusCode >= 500) {
+    return ErrorCode.SERVER_ERROR;
+  }
+
+  // Other codes -> lookup in the mapping table
+  return HTTP_STATUS_TO_ERROR_CODE[httpStatusCode] ?? ErrorCode.UNKNOWN_ERROR;
+}
+
+/**
+ * Extract error details from the HTTP response
+ *
+ * Attempts to parse the response body as JSON, falling back to text.
+ * Safe operation - does not throw if parsing fails.
+ *
+ * @param httpResponse - Response object from fetch()
+ * @returns Parsed error details or undefined if parsing fails
+ */
+async function extractHttpErrorDetails(httpResponse: Response): Promise<unknown> {
+  // Clone the response to avoid consuming the stream
+  const responseClone = httpResponse.clone();
+  const responseContentType = responseClone.headers.get('content-type') ?? '';
+
+  try {
+    // Prefer JSON parsing if the content-type indicates JSON
+    if (responseContentType.includes('application/json')) {
+      return await responseClone.json();
+    }
+
+    // Fallback to text parsing
+    return await responseClone.text();
+  } catch {
+    // Safe fallback - return undefined if parsing fails
+    return undefined;
+  }
+}
+
+// ================================================================================================
+// Response Readers - turning a successful response into data
+// ================================================================================================
+
+/** Reads the payload of a response once the response interceptors have run */
+export type ResponseReader<T> = (response: Response) => Promise<T>;
+
+/** How a JSON reader treats backend envelopes: ignore, reject failures only, or resolve with the body */
+type EnvelopeHandling = 'none' | 'verify' | 'unwrap';
+
+/**
+ * Throw an AppError for a failed (non-2xx) response
+ *
+ * @param response - Failed response
+ */
+export async function throwResponseError(response: Response): Promise<never> {
+  const httpStatusCode = response.status;
+  const errorDetails = await extractHttpErrorDetails(response);
+  const httpError = new AppError(resolveApplicationErrorCode(httpStatusCode), undefined, httpStatusCode, errorDetails);
+  captureRetryAfter(httpError, response);
+  throw httpError;
+}
+
+/**
+ * Check that an envelope payload reports a success
+ *
+ * @param data - Parsed JSON payload
+ * @returns The envelope
+ * @throws AppError carrying the backend message when `success` is false (code from `status_code`)
+ * @throws ValidationError when the payload is not an envelope
+ */
+function readSuccessfulEnvelope(data: unknown): HttpEnvelope {
+  const responseEnvelope = readEnvelope(data);
+
+  if (!responseEnvelope.success) {
+    const { status_code: backendStatusCode, message } = responseEnvelope;
+    const errorCode = backendStatusCode >= 400 ? resolveApplicationErrorCode(backendStatusCode) : ErrorCode.BAD_REQUEST;
+    throw new AppError(errorCode, message || undefined, backendStatusCode, data);
+  }
+
+  return responseEnvelope;
+}
+
+/**
+ * Turn a JSON payload into the caller's data
+ *
+ * @param data - Parsed JSON payload
+ * @param schema - Zod schema to validate the payload (the body with unwrapEnvelope)
+ * @param unwrapEnvelope - Read the payload as a backend envelope
+ * @returns Validated payload, or the envelope body
+ */
+export function readJsonPayload<T>(data: unknown, schema: unknown, unwrapEnvelope: boolean): T {
+  if (unwrapEnvelope) {
+    return readEnvelopeBody(readSuccessfulEnvelope(data), schema as ZodType<T> | undefined);
+  }
+
+  return schema ? (parseApiResponse(schema as never, data) as T) : (data as T);
+}
+
+/**
+ * Create a reader parsing JSON payloads (with cache, envelope and schema support)
+ *
+ * @param schema - Zod schema to validate the payload
+ * @param cacheContext - Cache context for cacheable GET requests
+ * @param envelopeHandling - 'unwrap' resolves with the envelope body, 'verify' only rejects failed envelopes
+ * @returns Response reader
+ */
+export function createJsonResponseReader<T>(
+  schema: unknown,
+  cacheContext?: HttpCacheContext,
+  envelopeHandling: EnvelopeHandling = 'none'
+): ResponseReader<T> {
+  return async response => {
+    // 304 Not Modified: the cached payload is still valid
+    if (response.status === 304 && cacheContext?.entry) {
+      return refreshCachedResponse({ ...cacheContext, entry: cacheContext.entry }) as T;
+    }
+
+    if (!response.ok) {
+      return throwResponseError(response);
+    }
+
+    if (response.status === 204) {
+      return void 0 as T;
+    }
+
+    const data = await response.json();
+
+    // Failed envelopes are errors: they throw before reaching the cache
+    if (envelopeHandling === 'verify') {
+      readSuccessfulEnvelope(data);
+    }
+
+    if (cacheContext) {
+      storeCachedResponse(cacheContext, data, response.headers);
+    }
+
+    return readJsonPayload<T>(data, schema, envelopeHandling === 'unwrap');
+  };
+}
+
+/** Body readers of the non-JSON response types */
+const BODY_READERS: Record<Exclude<HttpResponseType, 'json'>, (response: Response) => unknown> = {
+  text: response => response.text(),
+  blob: response => response.blob(),
+  arrayBuffer: response => response.arrayBuffer(),
+  stream: response => response.body,
+};
+
+/**
+ * Create the reader matching the requested response type
+ *
+ * @param requestOptions - HTTP request configuration (responseType, schema and unwrapEnvelope)
+ * @param cacheContext - Cache context for cacheable GET requests (JSON only)
+ * @returns Response reader
+ */
+export function createResponseReader<T>(requestOptions: HttpOptions<unknown>, cacheContext?: HttpCacheContext): ResponseReader<T> {
+  const { responseType = 'json', schema, unwrapEnvelope } = requestOptions;
+  if (responseType === 'json') {
+    return createJsonResponseReader<T>(schema, cacheContext, unwrapEnvelope ? 'unwrap' : 'none');
+  }
+
+  return async response => {
+    if (!response.ok) {
+      return throwResponseError(response);
+    }
+
+    if (response.status === 204) {
+      return void 0 as T;
+    }
+
+    return (await BODY_READERS[responseType](response)) as T;
+  };
+}
@@ -0,0 +1,243 @@
+/**
+ * HTTP Retry Policy Module
+ *
+ * Decides whether and when a failed request is retried:
+ * - Only idempotent methods, or mutations carrying an Idempotency-Key, are retried
+ * - Retry-After (seconds or HTTP date) on 429/503 replaces the exponential backoff
+ * - The total wait across attempts is capped by the policy
+ */
+
+import { AppError } from '@/shared/infra/errors/appError';
+import { isRetryableError } from '@/shared/infra/errors/error-handler';
+import { HTTP_CONFIG } from '@/shared/infra/http/http.config';
+import type { HttpMeta, HttpMethod, HttpRetryPolicy } from '@/shared/infra/http/http.types';
+
+// ================================================================================================
+// Constants
+// ================================================================================================
+
+/** Header marking a mutation as safe to replay */
+export const IDEMPOTENCY_KEY_HEADER = 'Idempotency-Key';
+
+/** Statuses whose Retry-After header is honoured */
+const RETRY_AFTER_STATUSES: readonly number[] = [429, 503];
+
+/** Upper bound of the random jitter added to backoff delays (milliseconds) */
+const MAX_JITTER_MS = 100;
+
+// ================================================================================================
+// Type Definitions
+// ================================================================================================
+
+/**
+ * Retry bookkeeping for one logical request
+ */
+export interface HttpRetryState {
+  /** HTTP method of the request */
+  method: string;
+
+  /** Caller-provided request headers (checked for an Idempotency-Key) */
+  headers?: Record<string, string>;
+
+  /** Time already spent waiting between attempts (milliseconds) */
+  totalDelayMs: number;
+}
+
+// ================================================================================================
+// Global State - Retry-After hints attached to errors
+// ================================================================================================
+
+/** Retry-After delays captured from failed responses */
+const retryAfterByError = new WeakMap<AppError, number>();
+
+// ================================================================================================
+// Retry-After Parsing
+// ================================================================================================
+
+/**
+ * Parse a Retry-After header value
+ *
+ * @param headerValue - Header value (delay in seconds or an HTTP date)
+ * @param now - Current timestamp (milliseconds)
+ * @returns Delay in milliseconds, or undefined if the value is missing or invalid
+ *
+ * @example
+ * ```typescript
+ * parseRetryAfter('120'); // 120000
+ * parseRetryAfter('Wed, 21 Oct 2026 07:28:00 GMT'); // ms until that date
+ * ```
+ */
+export function parseRetryAfter(headerValue: string | null | undefined, now: number = Date.now()): number | undefined {
+  const trimmedValue = headerValue?.trim();
+  if (!trimmedValue) return undefined;
+
+  if (/^\d+$/.test(trimmedValue)) {
+    return Number.parseInt(trimmedValue, 10) * 1000;
+  }
+
+  const retryAt = Date.parse(trimmedValue);
+  if (Number.isNaN(retryAt)) return undefined;
+
+  return Math.max(0, retryAt - now);
+}
+
+/**
+ * Remember the Retry-After delay of a failed response on its error
+ *
+ * @param error - Error created for the response
+ * @param response - Failed response
+ */
+export function captureRetryAfter(error: AppError, response: Response): void {
+  if (!RETRY_AFTER_STATUSES.includes(response.status)) return;
+
+  const retryAfterMs = parseRetryAfter(response.headers?.get('retry-after'));
+  if (retryAfterMs !== undefined) {
+    retryAfterByError.set(error, retryAfterMs);
+  }
+}
+
+/**
+ * Read the Retry-After delay captured for an error
+ *
+ * @param error - Error from a failed attempt
+ * @returns Delay in milliseconds, or undefined if the server sent none
+ */
+export function getRetryAfterMs(error: unknown): number | undefined {
+  return error instanceof AppError ? retryAfterByError.get(error) : undefined;
+}
+
+// ================================================================================================
+// Policy Resolution
+// ================================================================================================
+
+/**
+ * Merge the per-request retry policy over the global default
+ *
+ * @param meta - Effective request metadata
+ * @returns Complete retry policy
+ */
+export function resolveRetryPolicy(meta: HttpMeta): HttpRetryPolicy {
+  return { ...HTTP_CONFIG.defaultRetryPolicy, ...meta.retryPolicy };
+}
+
+/**
+ * Check whether the request headers carry an Idempotency-Key
+ *
+ * @param headers - Caller-provided request headers
+ * @returns True if a non-empty Idempotency-Key header is present
+ */
+export function hasIdempotencyKey(headers?: Record<string, string>): boolean {
+  const expectedName = IDEMPOTENCY_KEY_HEADER.toLowerCase();
+  return Object.entries(headers ?? {}).some(([name, value]) => name.toLowerCase() === expectedName && Boolean(value));
+}
+
+/**
+ * Check whether replaying a request is safe under the policy
+ *
+ * @param method - HTTP method
+ * @param headers - Caller-provided request headers
+ * @param policy - Retry policy
+ * @returns True if the request may be sent again
+ */
+export function isRetrySafe(method: string, headers: Record<string, string> | undefined, policy: HttpRetryPolicy): boolean {
+  return policy.retryMethods.includes(method.toUpperCase() as HttpMethod) || hasIdempotencyKey(headers);
+}
+
+/**
+ * Attach an Idempotency-Key to a mutating request marked with meta.idempotent
+ *
+ * Called once per logical call, so retries and the replay after a token
+ * refresh reuse the same key. A key supplied by the caller is kept.
+ *
+ * @param method - HTTP method
+ * @param headers - Caller-provided request headers
+ * @param meta - Effective request metadata
+ * @param generateKey - Function generating a unique key
+ * @returns Headers including the Idempotency-Key when one applies
+ *
+ * @example
+ * ```typescript
+ * const headers = applyIdempotencyKey('POST', undefined, { idempotent: true }, () => crypto.randomUUID());
+ * // { 'Idempotency-Key': '3b241101-e2bb-4255-8caf-4136c566a962' }
+ * ```
+ */
+export function applyIdempotencyKey(
+  method: string,
+  headers: Record<string, string> | undefined,
+  meta: HttpMeta,
+  generateKey: () => string
+): Record<string, string> | undefined {
+  if (!meta.idempotent || method.toUpperCase() === 'GET' || hasIdempotencyKey(headers)) {
+    return headers;
+  }
+
+  return { ...headers, [IDEMPOTENCY_KEY_HEADER]: generateKey() };
+}
+
+// ================================================================================================
+// Retry Decision
+// ================================================================================================
+
+/**
+ * Decide how long to wait before the next attempt
+ *
+ * @param error - Error from the previous attempt
+ * @param currentAttempt - Attempt number (0-based)
+ * @param maxRetryAttempts - Maximum number of retries allowed
+ * @param meta - Effective request metadata
+ * @param state - Retry bookkeeping of the request
+ * @returns Delay in milliseconds, or undefined if the request must not be retried
+ */
+export function resolveRetryDelay(
+  error: unknown,
+  currentAttempt: number,
+  maxRetryAttempts: number,
+  meta: HttpMeta,
+  state: HttpRetryState
+): number | undefined {
+  if (!(error instanceof AppError) || !isRetryableError(error) || currentAttempt >= maxRetryAttempts) {
+    return undefined;
+  }
+
+  const policy = resolveRetryPolicy(meta);
+  if (!isRetrySafe(state.method, state.headers, policy)) {
+    return undefined;
+  }
+
+  const retryAfterMs = policy.respectRetryAfter ? getRetryAfterMs(error) : undefined;
+  const baseDelayMs = meta.retryDelayMs ?? HTTP_CONFIG.defaultRetryDelayMs;
+  const delayMs = retryAfterMs ?? baseDelayMs * Math.pow(2, currentAttempt) + Math.random() * MAX_JITTER_MS;
+
+  // Give up instead of waiting past the total budget
+  if (state.totalDelayMs + delayMs > policy.maxTotalDelayMs) {
+    return undefined;
+  }
+
+  return delayMs;
+}
+
+/**
+ * Wait before the next attempt, resolving early if the request is aborted
+ *
+ * @param delayMs - Delay in milliseconds
+ * @param signal - AbortSignal of the request
+ */
+export function waitForRetry(delayMs: number, signal?: AbortSignal): Promise<void> {
+  return new Promise<void>(resolve => {
+    if (signal?.aborted) {
+      resolve();
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      resolve();
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, delayMs);
+
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
@@ -0,0 +1,293 @@
+/**
+ * HTTP Scheduler Module
+ *
+ * Limits how many requests run at the same time:
+ * - At most HTTP_CONFIG.maxConcurrentRequests attempts in flight; the others wait in a priority queue
+ * - Priorities: critical (never queued), high (mutations), normal (GET), low (background work)
+ * - Low-priority requests never take the last free slot, so prefetches cannot delay a save
+ * - Fair scheduling: a request overtaken too often moves up one priority level
+ * - Queued requests aborted by their caller are dropped without being sent (CancelledError)
+ */
+
+import { CancelledError } from '@/shared/infra/errors/appError';
+import { HTTP_CONFIG } from '@/shared/infra/http/http.config';
+import type { HttpMeta, HttpRequestPriority } from '@/shared/infra/http/http.types';
+
+// ================================================================================================
+// Type Definitions
+// ================================================================================================
+
+/** Releases a slot; calling it more than once has no effect */
+export type HttpSlotRelease = () => void;
+
+/** Current load of the scheduler */
+export interface HttpSchedulerStats {
+  /** Attempts holding a slot */
+  active: number;
+
+  /** Requests waiting for a slot */
+  queued: number;
+
+  /** Concurrency limit in use (0 = unlimited) */
+  limit: number;
+}
+
+/** Request waiting for a slot */
+interface QueuedRequest {
+  priority: HttpRequestPriority;
+  sequence: number;
+  overtakenCount: number;
+  grant: () => void;
+}
+
+// ================================================================================================
+// Constants
+// ================================================================================================
+
+/** Rank of each priority (lower runs first) */
+const PRIORITY_RANK: Record<HttpRequestPriority, number> = {
+  critical: 0,
+  high: 1,
+  normal: 2,
+  low: 3,
+};
+
+/** Times a queued request can be overtaken before it moves up one priority level */
+const OVERTAKES_PER_PROMOTION = 4;
+
+/** Methods scheduled as 'normal' by default; every other method is 'high' */
+const READ_METHODS = new Set(['GET', 'HEAD', 'OPTIONS']);
+
+// ================================================================================================
+// Global State - slots and queue
+// ================================================================================================
+
+/** Attempts currently holding a slot */
+let activeCount = 0;
+
+/** Requests waiting for a slot, in arrival order */
+let queue: QueuedRequest[] = [];
+
+/** Arrival counter used to keep FIFO order within a priority */
+let queueSequence = 0;
+
+/** Limit set through setHttpConcurrencyLimit (undefined = HTTP_CONFIG) */
+let limitOverride: number | undefined;
+
+// ================================================================================================
+// Scheduling
+// ================================================================================================
+
+/**
+ * Read the concurrency limit in use
+ *
+ * @returns Maximum concurrent attempts (0 or less = unlimited)
+ */
+function getConcurrencyLimit(): number {
+  return limitOverride ?? HTTP_CONFIG.maxConcurrentRequests;
+}
+
+/**
+ * Check whether a request of this priority may take a slot now
+ *
+ * @param priority - Priority of the request
+ * @returns True when a slot is free for it
+ */
+function hasFreeSlot(priority: HttpRequestPriority): boolean {
+  const limit = getConcurrencyLimit();
+  if (limit <= 0 || priority === 'critical') return true;
+
+  // Background work leaves the last slot to user-triggered requests
+  const usableSlots = priority === 'low' && limit > 1 ? limit - 1 : limit;
+  return activeCount < usableSlots;
+}
+
+/**
+ * Rank of a queued request, improved by one level per OVERTAKES_PER_PROMOTION overtakes
+ *
+ * @param request - Queued request
+ * @returns Effective rank (lower runs first, never below 'high')
+ */
+function resolveEffectiveRank(request: QueuedRequest): number {
+  const promotions = Math.floor(request.overtakenCount / OVERTAKES_PER_PROMOTION);
+  return Math.max(PRIORITY_RANK.high, PRIORITY_RANK[request.priority] - promotions);
+}
+
+/**
+ * Pick the next queued request allowed to run
+ *
+ * @returns Best-ranked request with a free slot (oldest first), or undefined
+ */
+function pickNextRequest(): QueuedRequest | undefined {
+  let next: QueuedRequest | undefined;
+
+  for (const request of queue) {
+    if (!hasFreeSlot(request.priority)) continue;
+    if (!next || resolveEffectiveRank(request) < resolveEffectiveRank(next)) next = request;
+  }
+
+  return next;
+}
+
+/**
+ * Grant free slots to queued requests
+ */
+function drainQueue(): void {
+  let next = pickNextRequest();
+
+  while (next) {
+    const granted = next;
+    queue = queue.filter(request => request !== granted);
+    // Everyone who arrived earlier was overtaken once more
+    for (const request of queue) {
+      if (request.sequence < granted.sequence) request.overtakenCount += 1;
+    }
+
+    granted.grant();
+    next = pickNextRequest();
+  }
+}
+
+/**
+ * Take a slot and return the function releasing it
+ *
+ * @returns Slot release (idempotent)
+ */
+function takeSlot(): HttpSlotRelease {
+  activeCount += 1;
+  let isReleased = false;
+
+  return () => {
+    if (isReleased) return;
+    isReleased = true;
+    activeCount -= 1;
+    drainQueue();
+  };
+}
+
+/**
+ * Take a slot right away when nobody of the same or a better rank is waiting
+ *
+ * @param priority - Priority of the request
+ * @returns Slot release, or undefined when the request has to queue
+ */
+function tryTakeSlot(priority: HttpRequestPriority): HttpSlotRelease | undefined {
+  const hasWaitingPeer = queue.some(request => resolveEffectiveRank(request) <= PRIORITY_RANK[priority]);
+  if (!hasFreeSlot(priority) || (priority !== 'critical' && hasWaitingPeer)) return undefined;
+
+  return takeSlot();
+}
+
+// ================================================================================================
+// Public API
+// ================================================================================================
+
+/**
+ * Resolve the scheduling priority of a request
+ *
+ * @param method - HTTP method
+ * @param meta - Request metadata
+ * @returns meta.priority, else 'normal' for reads and 'high' for mutations
+ */
+export function resolveRequestPriority(method: string, meta: Pick<HttpMeta, 'priority'>): HttpRequestPriority {
+  return meta.priority ?? (READ_METHODS.has(method.toUpperCase()) ? 'normal' : 'high');
+}
+
+/**
+ * Wait for a free slot
+ *
+ * @param priority - Priority of the request
+ * @param signal - Caller's AbortSignal; aborting it while queued drops the request
+ * @returns Function releasing the slot once the attempt is over
+ * @throws CancelledError when the signal is aborted before a slot is granted
+ */
+export function acquireRequestSlot(priority: HttpRequestPriority, signal?: AbortSignal): Promise<HttpSlotRelease> {
+  if (signal?.aborted) {
+    return Promise.reject(new CancelledError(signal.reason));
+  }
+
+  const release = tryTakeSlot(priority);
+  if (release) {
+    return Promise.resolve(release);
+  }
+
+  return new Promise<HttpSlotRelease>((resolve, reject) => {
+    const onAbort = () => {
+      queue = queue.filter(request => request !== queuedRequest);
+      reject(new CancelledError(signal?.reason));
+    };
+
+    queueSequence += 1;
+    const queuedRequest: QueuedRequest = {
+      priority,
+      sequence: queueSequence,
+      overtakenCount: 0,
+      grant: () => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve(takeSlot());
+      },
+    };
+
+    queue.push(queuedRequest);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * Run one attempt inside a concurrency slot
+ *
+ * @param priority - Priority of the request
+ * @param signal - Caller's AbortSignal
+ * @param send - Function sending the attempt and reading its response
+ * @returns Result of the attempt
+ *
+ * @example
+ * ```typescript
+ * const data = await runWithRequestSlot('low', signal, () => executeRequest(url, init, meta));
+ * ```
+ */
+export function runWithRequestSlot<T>(priority: HttpRequestPriority, signal: AbortSignal | undefined, send: () => Promise<T>): Promise<T> {
+  // A free slot sends in the same tick, like a request without a limit
+  const release = signal?.aborted ? undefined : tryTakeSlot(priority);
+  if (release) {
+    return send().finally(release);
+  }
+
+  return acquireRequestSlot(priority, signal).then(queuedRelease => send().finally(queuedRelease));
+}
+
+/**
+ * Override the concurrency limit of HTTP_CONFIG
+ *
+ * @param limit - Maximum concurrent attempts (0 or less = unlimited)
+ * @returns Function restoring the previous limit
+ */
+export function setHttpConcurrencyLimit(limit: number): () => void {
+  const previousOverride = limitOverride;
+  limitOverride = limit;
+  drainQueue();
+
+  return () => {
+    limitOverride = previousOverride;
+    drainQueue();
+  };
+}
+
+/**
+ * Read the current scheduler load
+ *
+ * @returns Active and queued counts with the limit in use
+ */
+export function getHttpSchedulerStats(): HttpSchedulerStats {
+  return { active: activeCount, queued: queue.length, limit: Math.max(getConcurrencyLimit(), 0) };
+}
+
+/**
+ * Forget active slots and queued requests (tests only; queued callers never settle)
+ */
+export function resetHttpScheduler(): void {
+  activeCount = 0;
+  queue = [];
+  queueSequence = 0;
+  limitOverride = undefined;
+}
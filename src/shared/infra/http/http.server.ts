@@ -0,0 +1,325 @@
+/**
+ * HTTP Server Client Module
+ *
+ * Request-scoped HTTP client for React Server Components and route handlers:
+ * - Base URL, access token, locale and correlation ID come from the incoming request (next/headers)
+ * - The API origin is NEXT_PUBLIC_API_BASE_URL or API_BASE_URL (as for the /api/v1 rewrite); without them,
+ *   only allow-listed hosts (API_ALLOWED_HOSTS) are used, so a spoofed Host header cannot receive the access token
+ * - assertServerApiOrigin() fails at server startup when production has no way to resolve the origin
+ * - Each client owns its context: nothing is shared between concurrent server requests
+ * - No browser state (sessionStorage, global loading, notifications, cache, dedupe, offline queue)
+ * - Same body/query serialization, transport, status mapping and Zod validation as http()
+ *
+ * Pass the client to endpoints or service factories to reuse the service layer on the server.
+ */
+
+import { cookies, headers } from 'next/headers';
+
+import { handleError } from '@/shared/infra/errors/error-handler';
+import { serializeRequestBody } from '@/shared/infra/http/http.body';
+import { HTTP_CONFIG } from '@/shared/infra/http/http.config';
+import { appendQueryParameters } from '@/shared/infra/http/http.query';
+import { createResponseReader } from '@/shared/infra/http/http.response';
+import { mergeSignals } from '@/shared/infra/http/http.signal';
+import { getHttpTransport } from '@/shared/infra/http/http.transport';
+import type { HttpMeta, HttpOptions, HttpRequestFunction } from '@/shared/infra/http/http.types';
+import { SESSION_ACCESS_TOKEN_COOKIE } from '@/shared/infra/session/session.cookies';
+
+// ================================================================================================
+// Type Definitions
+// ================================================================================================
+
+/**
+ * Values taken from the incoming request
+ */
+export interface ServerRequestContext {
+  /** Origin the API paths are resolved against */
+  baseUrl: string;
+
+  /** Access token of the signed-in user, if any */
+  accessToken?: string;
+
+  /** Locale sent as Accept-Language */
+  locale: string;
+
+  /** Correlation ID sent as X-Request-Id on every request of this client */
+  correlationId: string;
+}
+
+/** Overrides of the values read from the incoming request */
+export type ServerHttpClientOptions = Partial<ServerRequestContext>;
+
+/** Incoming request headers (ReadonlyHeaders from next/headers or a Request's headers) */
+type RequestHeaders = Pick<Headers, 'get'>;
+
+/** Incoming request cookies (ReadonlyRequestCookies from next/headers) */
+type RequestCookies = { get: (name: string) => { value: string } | undefined };
+
+/**
+ * Request-scoped HTTP client
+ *
+ * Call it like http(); the context it was created with is exposed read-only.
+ */
+export type ServerHttpClient = HttpRequestFunction & {
+  /** Values the client sends with every request */
+  readonly context: Readonly<ServerRequestContext>;
+};
+
+// ================================================================================================
+// Constants
+// ================================================================================================
+
+/** Cookie holding the access token for server-side requests (set by the /api/session route handlers) */
+export const SERVER_ACCESS_TOKEN_COOKIE = SESSION_ACCESS_TOKEN_COOKIE;
+
+/** Cookie next-intl stores the chosen locale in */
+const LOCALE_COOKIE = 'NEXT_LOCALE';
+
+/** Header the next-intl middleware sets to the locale of the route */
+const NEXT_INTL_LOCALE_HEADER = 'x-next-intl-locale';
+
+/** Header carrying the correlation ID between services */
+const REQUEST_ID_HEADER = 'x-request-id';
+
+/** Absolute API origin, read like the /api/v1 rewrite in next.config.mjs; empty means the API is served from the app origin */
+const API_BASE_URL: string = process.env.NEXT_PUBLIC_API_BASE_URL || process.env.API_BASE_URL || '';
+
+/** Hosts trusted as app origin when API_ALLOWED_HOSTS is not set (local development) */
+const DEFAULT_ALLOWED_HOSTS: readonly string[] = ['localhost', '127.0.0.1'];
+
+// ================================================================================================
+// Context Resolution
+// ================================================================================================
+
+/**
+ * Check a request host against the allow-list
+ *
+ * API_ALLOWED_HOSTS (comma-separated, read per call) lists hosts with or without port;
+ * an entry without port matches every port of that host.
+ *
+ * @param host - Host of the incoming request (`name[:port]`)
+ * @returns Whether the host may serve as API origin
+ */
+function isAllowedHost(host: string): boolean {
+  const allowedHosts = process.env.API_ALLOWED_HOSTS?.split(',')
+    .map(entry => entry.trim().toLowerCase())
+    .filter(Boolean);
+  const normalizedHost = host.toLowerCase();
+  const hostname = normalizedHost.replace(/:\d+$/, '');
+
+  return (allowedHosts?.length ? allowedHosts : DEFAULT_ALLOWED_HOSTS).some(entry => entry === normalizedHost || entry === hostname);
+}
+
+/**
+ * Resolve the origin API paths are sent to
+ *
+ * The Host and X-Forwarded-Host headers are set by the client, so they are only used
+ * when the host is allow-listed; the access token is never sent to any other origin.
+ *
+ * @param requestHeaders - Incoming request headers
+ * @returns The configured API origin, or the allow-listed origin the incoming request was sent to
+ * @throws Error when neither is available
+ */
+function resolveBaseUrl(requestHeaders: RequestHeaders): string {
+  if (API_BASE_URL) return API_BASE_URL;
+
+  const host = (requestHeaders.get('x-forwarded-host') ?? requestHeaders.get('host'))?.split(',')[0].trim();
+  if (!host) {
+    throw new Error('Cannot resolve the API origin: set NEXT_PUBLIC_API_BASE_URL or API_BASE_URL, or call the client while handling a request');
+  }
+  if (!isAllowedHost(host)) {
+    throw new Error(`Untrusted request host "${host}": set NEXT_PUBLIC_API_BASE_URL or API_BASE_URL, or add the host to API_ALLOWED_HOSTS`);
+  }
+
+  const protocol = requestHeaders.get('x-forwarded-proto')?.split(',')[0]?.trim() || 'http';
+  return `${protocol}://${host}`;
+}
+
+/**
+ * Resolve the access token of the incoming request
+ *
+ * @param requestHeaders - Incoming request headers
+ * @param requestCookies - Incoming request cookies
+ * @returns Bearer token of the Authorization header, else the access token cookie
+ */
+function resolveAccessToken(requestHeaders: RequestHeaders, requestCookies: RequestCookies): string | undefined {
+  const authorization = requestHeaders.get('authorization');
+  if (authorization?.toLowerCase().startsWith('bearer ')) {
+    return authorization.slice('bearer '.length).trim() || undefined;
+  }
+
+  return requestCookies.get(SERVER_ACCESS_TOKEN_COOKIE)?.value || undefined;
+}
+
+/**
+ * Resolve the locale of the incoming request
+ *
+ * @param requestHeaders - Incoming request headers
+ * @param requestCookies - Incoming request cookies
+ * @returns Route locale, locale cookie, first Accept-Language entry or the configured default
+ */
+function resolveRequestLocale(requestHeaders: RequestHeaders, requestCookies: RequestCookies): string {
+  const acceptedLocale = requestHeaders.get('accept-language')?.split(',')[0]?.split(';')[0]?.trim();
+
+  return requestHeaders.get(NEXT_INTL_LOCALE_HEADER) || requestCookies.get(LOCALE_COOKIE)?.value || acceptedLocale || HTTP_CONFIG.defaultLocale;
+}
+
+/**
+ * Read the request context from incoming headers and cookies
+ *
+ * @param requestHeaders - Incoming request headers
+ * @param requestCookies - Incoming request cookies
+ * @param overrides - Values replacing the ones read from the request
+ * @returns Base URL, access token, locale and correlation ID of the request
+ *
+ * @example
+ * ```typescript
+ * // Route handler receiving a NextRequest
+ * const context = resolveServerRequestContext(request.headers, request.cookies);
+ * ```
+ */
+export function resolveServerRequestContext(
+  requestHeaders: RequestHeaders,
+  requestCookies: RequestCookies,
+  overrides: ServerHttpClientOptions = {}
+): ServerRequestContext {
+  return {
+    baseUrl: overrides.baseUrl ?? resolveBaseUrl(requestHeaders),
+    accessToken: overrides.accessToken ?? resolveAccessToken(requestHeaders, requestCookies),
+    locale: overrides.locale ?? resolveRequestLocale(requestHeaders, requestCookies),
+    correlationId: overrides.correlationId ?? (requestHeaders.get(REQUEST_ID_HEADER) || globalThis.crypto.randomUUID()),
+  };
+}
+
+/**
+ * Check that server requests can resolve the API origin (called once at server startup)
+ *
+ * Fails fast in production instead of answering every server request with a 500:
+ * without an API base URL, only the hosts in API_ALLOWED_HOSTS can serve as origin.
+ *
+ * @throws Error in production when neither an API base URL nor API_ALLOWED_HOSTS is configured
+ *
+ * @example
+ * ```typescript
+ * // src/instrumentation.ts
+ * export async function register() {
+ *   const { assertServerApiOrigin } = await import('@/shared/infra/http/http.server');
+ *   assertServerApiOrigin();
+ * }
+ * ```
+ */
+export function assertServerApiOrigin(): void {
+  if (API_BASE_URL || process.env.API_ALLOWED_HOSTS?.trim() || process.env.NODE_ENV !== 'production') return;
+
+  throw new Error(
+    'Missing API configuration: set NEXT_PUBLIC_API_BASE_URL or API_BASE_URL to the backend origin, or API_ALLOWED_HOSTS to the hosts the app is served from'
+  );
+}
+
+// ================================================================================================
+// Request Execution
+// ================================================================================================
+
+/**
+ * Build the headers of a server request
+ *
+ * @param context - Request context of the client
+ * @param options - HTTP request configuration
+ * @param body - Serialized body
+ * @param meta - Request metadata
+ * @returns Headers with defaults, locale, auth and correlation ID
+ */
+function buildServerHeaders(context: ServerRequestContext, options: HttpOptions<unknown>, body: BodyInit | undefined, meta: HttpMeta): Headers {
+  const requestHeaders = new Headers(options.headers);
+
+  if (!requestHeaders.has('Content-Type') && (body === undefined || typeof body === 'string')) {
+    requestHeaders.set('Content-Type', 'application/json');
+  }
+  if (!requestHeaders.has('Accept')) requestHeaders.set('Accept', 'application/json');
+  if (!requestHeaders.has('X-Client')) requestHeaders.set('X-Client', HTTP_CONFIG.clientHeader);
+  if (!requestHeaders.has('Accept-Language')) requestHeaders.set('Accept-Language', context.locale);
+  if (!requestHeaders.has('X-Request-Id')) requestHeaders.set('X-Request-Id', meta.correlationId ?? context.correlationId);
+
+  if (context.accessToken && !meta.skipAuth && !requestHeaders.has('Authorization')) {
+    requestHeaders.set('Authorization', `Bearer ${context.accessToken}`);
+  }
+
+  return requestHeaders;
+}
+
+/**
+ * Send one request with the client's context
+ *
+ * Server requests are sent once: no retry, token refresh, cache or deduplication.
+ *
+ * @param context - Request context of the client
+ * @param requestPath - API endpoint path
+ * @param options - HTTP request configuration
+ * @returns Promise that resolves to typed response data
+ */
+async function sendServerRequest<T>(context: ServerRequestContext, requestPath: string, options: HttpOptions<T> = {}): Promise<T> {
+  const { method = 'GET', params, body: requestBody, responseType = 'json' } = options;
+  const meta: HttpMeta = {
+    ...options.meta,
+    signal: options.meta?.signal ?? options.signal,
+    // Streamed bodies stay open after the response arrives: only an explicit timeout applies
+    timeout: responseType === 'stream' ? options.meta?.timeout : (options.meta?.timeout ?? HTTP_CONFIG.defaultTimeoutMs),
+  };
+
+  const normalizedPath = requestPath.startsWith('/') ? requestPath : `/${requestPath}`;
+  const requestUrl = new URL(normalizedPath, context.baseUrl);
+  if (params) appendQueryParameters(requestUrl, params, meta.queryFormat ?? HTTP_CONFIG.defaultQueryFormat);
+
+  const body = serializeRequestBody(requestBody, meta);
+
+  try {
+    const response = await getHttpTransport()(
+      requestUrl.toString(),
+      {
+        method,
+        headers: buildServerHeaders(context, options, body, meta),
+        body,
+        signal: mergeSignals(meta),
+        // Responses are per user: keep them out of the Next.js data cache
+        cache: 'no-store',
+      },
+      meta
+    );
+
+    return await createResponseReader<T>(options as HttpOptions<unknown>)(response);
+  } catch (error) {
+    throw handleError(error, { meta: { ...meta, showErrorNotification: false } });
+  }
+}
+
+// ================================================================================================
+// Public API
+// ================================================================================================
+
+/**
+ * Create an HTTP client bound to the request being rendered or handled
+ *
+ * Reads cookies and headers through next/headers, so it only works inside a
+ * Server Component, route handler or server action. Create one per request;
+ * options override the values read from the request.
+ *
+ * @param options - Overrides of the base URL, access token, locale or correlation ID
+ * @returns Client with the http() signature
+ *
+ * @example
+ * ```typescript
+ * // app/[locale]/(protected)/products/page.tsx (Server Component)
+ * const client = createServerHttpClient();
+ * const products = await createProductService(client).list();
+ *
+ * // Typed endpoint
+ * const project = await projectEndpoints.update({ params: { id }, body, client });
+ * ```
+ */
+export function createServerHttpClient(options: ServerHttpClientOptions = {}): ServerHttpClient {
+  const context = Object.freeze(resolveServerRequestContext(headers(), cookies(), options));
+
+  const request = <T = unknown>(requestPath: string, requestOptions?: HttpOptions<T>) => sendServerRequest<T>(context, requestPath, requestOptions);
+
+  return Object.assign(request, { context });
+}
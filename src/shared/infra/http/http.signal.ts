@@ -0,0 +1,36 @@
+/**
+ * HTTP Abort Signal Module
+ *
+ * Combines the caller's AbortSignal with the request timeout.
+ * Shared by the browser client (through the interceptors) and the server client.
+ */
+
+import type { HttpMeta } from './http.types';
+
+/**
+ * Combine the caller's AbortSignal with the request timeout
+ *
+ * @param meta - Request metadata (signal and timeout)
+ * @returns Signal aborted by whichever fires first, or undefined when there is neither
+ */
+export function mergeSignals(meta: Pick<HttpMeta, 'signal' | 'timeout'>): AbortSignal | undefined {
+  const hasTimeoutFn = typeof AbortSignal !== 'undefined' && typeof (AbortSignal as { timeout?: unknown }).timeout === 'function';
+  const timeoutSignal =
+    hasTimeoutFn && typeof meta.timeout === 'number'
+      ? (AbortSignal as unknown as { timeout: (ms: number) => AbortSignal }).timeout(meta.timeout)
+      : undefined;
+  const { signal } = meta;
+
+  if (signal && timeoutSignal) {
+    if (typeof AbortSignal !== 'undefined' && 'any' in AbortSignal) {
+      return AbortSignal.any([signal, timeoutSignal]);
+    }
+    // Forward the reason so a timeout stays distinguishable from a caller abort
+    const controller = new AbortController();
+    signal.addEventListener('abort', () => controller.abort(signal.reason));
+    timeoutSignal.addEventListener('abort', () => controller.abort(timeoutSignal.reason));
+    return controller.signal;
+  }
+
+  return signal ?? timeoutSignal;
+}
@@ -0,0 +1,271 @@
+/**
+ * HTTP Streaming Module
+ *
+ * Incremental parsing of streamed response bodies:
+ * - NDJSON: one JSON value per line
+ * - Server-Sent Events: `event:` / `data:` / `id:` / `retry:` blocks separated by blank lines
+ * - Optional Zod validation of every chunk
+ */
+
+import type { ZodType } from 'zod';
+
+import { parseApiResponse } from '@/shared/infra/validation/schemas';
+
+import type { HttpRequestOptions } from './http.types';
+
+// ================================================================================================
+// Type Definitions
+// ================================================================================================
+
+/** Wire format of a streamed response */
+export type HttpStreamFormat = 'ndjson' | 'sse';
+
+/**
+ * One Server-Sent Event
+ *
+ * @template TData - Type of the (validated) event data
+ */
+export interface HttpServerSentEvent<TData = unknown> {
+  /** Event name (defaults to 'message') */
+  event: string;
+
+  /** Event data - parsed as JSON when possible, otherwise the raw string */
+  data: TData;
+
+  /** Last event ID, if the server sent one */
+  id?: string;
+
+  /** Reconnection delay requested by the server (milliseconds) */
+  retry?: number;
+}
+
+/**
+ * Item yielded by httpStream: the line itself for NDJSON, the event for SSE
+ *
+ * @template TChunk - Type of each NDJSON line or SSE event data
+ * @template TFormat - Wire format
+ */
+export type HttpStreamChunk<TChunk, TFormat extends HttpStreamFormat> = TFormat extends 'sse' ? HttpServerSentEvent<TChunk> : TChunk;
+
+/**
+ * Options for httpStream
+ *
+ * @template TChunk - Type of each NDJSON line or SSE event data
+ * @template TFormat - Wire format
+ */
+export interface HttpStreamOptions<TChunk = unknown, TFormat extends HttpStreamFormat = HttpStreamFormat> extends HttpRequestOptions<TChunk> {
+  /** HTTP method (default: 'GET') */
+  method?: 'GET' | 'POST';
+
+  /** Wire format of the response (default: 'ndjson') */
+  format?: TFormat;
+
+  /** Zod schema validating each NDJSON line or SSE event data */
+  schema?: ZodType<TChunk>;
+}
+
+// ================================================================================================
+// Constants
+// ================================================================================================
+
+/** Accept header sent for each stream format */
+export const HTTP_STREAM_ACCEPT: Record<HttpStreamFormat, string> = {
+  ndjson: 'application/x-ndjson',
+  sse: 'text/event-stream',
+};
+
+/** Line break used by both formats (CRLF, LF or CR) */
+const LINE_BREAK = /\r\n|\r|\n/;
+
+// ================================================================================================
+// Parsers - turn text chunks into complete items
+// ================================================================================================
+
+/**
+ * Split buffered text into complete lines
+ *
+ * A trailing CR may be the first half of a CRLF split across chunks, so it stays in the
+ * remainder until the next chunk (or the end of the stream) shows which line break it is.
+ *
+ * @param buffer - Text received so far
+ * @param flush - Whether the stream ended
+ * @returns Complete lines and the unfinished remainder
+ */
+function splitLines(buffer: string, flush: boolean): { lines: string[]; rest: string } {
+  const hasPendingCr = !flush && buffer.endsWith('\r');
+  const lines = (hasPendingCr ? buffer.slice(0, -1) : buffer).split(LINE_BREAK);
+  const rest = lines.pop() ?? '';
+  return { lines, rest: hasPendingCr ? `${rest}\r` : rest };
+}
+
+/**
+ * Create an incremental NDJSON parser
+ *
+ * @returns Function accepting text chunks (call with `flush = true` at the end) and returning parsed values
+ *
+ * @example
+ * ```typescript
+ * const parse = createNdjsonParser();
+ * parse('{"a":1}\n{"a"'); // [{ a: 1 }]
+ * parse(':2}\n'); // [{ a: 2 }]
+ * ```
+ */
+export function createNdjsonParser(): (chunk: string, flush?: boolean) => unknown[] {
+  let buffer = '';
+
+  return (chunk, flush = false) => {
+    buffer += chunk;
+    const { lines, rest } = splitLines(buffer, flush);
+    buffer = rest;
+
+    if (flush) {
+      lines.push(buffer);
+      buffer = '';
+    }
+
+    return lines.filter(line => line.trim() !== '').map(line => JSON.parse(line) as unknown);
+  };
+}
+
+/**
+ * Parse SSE data as JSON, keeping plain strings as they are
+ *
+ * @param data - Joined `data:` lines of an event
+ * @returns Parsed value or the raw string
+ */
+function parseEventData(data: string): unknown {
+  try {
+    return JSON.parse(data) as unknown;
+  } catch {
+    return data;
+  }
+}
+
+/**
+ * Create an incremental Server-Sent Events parser
+ *
+ * @returns Function accepting text chunks (call with `flush = true` at the end) and returning complete events
+ *
+ * @example
+ * ```typescript
+ * const parse = createSseParser();
+ * parse('event: progress\ndata: {"percent":40}\n\n'); // [{ event: 'progress', data: { percent: 40 } }]
+ * ```
+ */
+export function createSseParser(): (chunk: string, flush?: boolean) => HttpServerSentEvent[] {
+  let buffer = '';
+  let eventName = '';
+  let dataLines: string[] = [];
+  let lastEventId: string | undefined;
+  let retry: number | undefined;
+
+  const dispatch = (events: HttpServerSentEvent[]) => {
+    if (dataLines.length > 0) {
+      events.push({
+        event: eventName || 'message',
+        data: parseEventData(dataLines.join('\n')),
+        ...(lastEventId === undefined ? {} : { id: lastEventId }),
+        ...(retry === undefined ? {} : { retry }),
+      });
+    }
+    eventName = '';
+    dataLines = [];
+    retry = undefined;
+  };
+
+  const processLine = (line: string, events: HttpServerSentEvent[]) => {
+    if (line === '') {
+      dispatch(events);
+      return;
+    }
+
+    // Comment line (often used as keep-alive)
+    if (line.startsWith(':')) return;
+
+    const separatorIndex = line.indexOf(':');
+    const field = separatorIndex === -1 ? line : line.slice(0, separatorIndex);
+    const rawValue = separatorIndex === -1 ? '' : line.slice(separatorIndex + 1);
+    const value = rawValue.startsWith(' ') ? rawValue.slice(1) : rawValue;
+
+    if (field === 'event') eventName = value;
+    if (field === 'data') dataLines.push(value);
+    if (field === 'id') lastEventId = value;
+    if (field === 'retry' && /^\d+$/.test(value)) retry = Number.parseInt(value, 10);
+  };
+
+  return (chunk, flush = false) => {
+    const events: HttpServerSentEvent[] = [];
+    buffer += chunk;
+    const { lines, rest } = splitLines(buffer, flush);
+    buffer = rest;
+
+    for (const line of lines) processLine(line, events);
+
+    if (flush) {
+      if (buffer) processLine(buffer, events);
+      buffer = '';
+      dispatch(events);
+    }
+
+    return events;
+  };
+}
+
+// ================================================================================================
+// Stream Reader
+// ================================================================================================
+
+/**
+ * Validate one streamed chunk against the optional schema
+ *
+ * @param chunk - Parsed NDJSON line or SSE event
+ * @param format - Wire format
+ * @param schema - Zod schema for the line / event data
+ * @returns Validated chunk
+ */
+function validateChunk(chunk: unknown, format: HttpStreamFormat, schema?: ZodType<unknown>): unknown {
+  if (!schema) return chunk;
+
+  if (format === 'sse') {
+    const event = chunk as HttpServerSentEvent;
+    return { ...event, data: parseApiResponse(schema, event.data) };
+  }
+
+  return parseApiResponse(schema, chunk);
+}
+
+/**
+ * Read a streamed response body item by item
+ *
+ * Stops reading (and cancels the body) when the consumer breaks out of the loop.
+ *
+ * @param response - Successful response with a readable body
+ * @param format - Wire format
+ * @param schema - Optional Zod schema validating every chunk
+ * @returns Async generator of parsed (and validated) chunks
+ */
+export async function* readResponseStream(response: Response, format: HttpStreamFormat, schema?: ZodType<unknown>): AsyncGenerator<unknown> {
+  if (!response.body) return;
+
+  const parse = format === 'sse' ? createSseParser() : createNdjsonParser();
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let isDone = false;
+
+  try {
+    while (!isDone) {
+      const { done, value } = await reader.read();
+      isDone = done;
+      const text = done ? decoder.decode() : decoder.decode(value, { stream: true });
+
+      for (const chunk of parse(text, done)) {
+        yield validateChunk(chunk, format, schema);
+      }
+    }
+  } finally {
+    if (!isDone) {
+      await reader.cancel().catch(() => undefined);
+    }
+    reader.releaseLock();
+  }
+}
@@ -0,0 +1,106 @@
+/**
+ * HTTP Transport Module
+ *
+ * Swappable layer that sends a prepared request:
+ * - The network transport uses fetch(), or XMLHttpRequest when progress is tracked
+ * - NEXT_PUBLIC_API_MOCKING=enabled serves requests from the in-memory mock backend (except the app's /api/session routes)
+ * - Tests and tools can install their own transport with setHttpTransport()
+ */
+
+import { API_ROUTES } from '@/shared/config/api';
+import { HTTP_CONFIG } from '@/shared/infra/http/http.config';
+import { getProgressHandlers, sendWithProgress, shouldTrackProgress } from '@/shared/infra/http/http.progress';
+import type { HttpTransport } from '@/shared/infra/http/http.types';
+
+// ================================================================================================
+// Global State - installed transport
+// ================================================================================================
+
+/** Transport installed with setHttpTransport() (null = built-in default) */
+let installedTransport: HttpTransport | null = null;
+
+// ================================================================================================
+// Built-in Transports
+// ================================================================================================
+
+/**
+ * Send the request over the network
+ *
+ * fetch() cannot report upload progress, so tracked requests go through XMLHttpRequest.
+ *
+ * @param url - Final request URL
+ * @param init - Final fetch() options
+ * @param meta - Effective request metadata
+ * @returns Promise resolving to the Response
+ */
+export const networkTransport: HttpTransport = (url, init, meta) =>
+  shouldTrackProgress(meta) ? sendWithProgress(url, init, getProgressHandlers(meta)) : fetch(url, init);
+
+/**
+ * Serve the request from the in-memory mock backend
+ *
+ * The mock backend is imported on first use, so builds without
+ * NEXT_PUBLIC_API_MOCKING never load it. The app's own session routes still go over the network.
+ *
+ * @param url - Final request URL
+ * @param init - Final fetch() options
+ * @param meta - Effective request metadata
+ * @returns Promise resolving to the mocked Response
+ */
+const mockBackendTransport: HttpTransport = async (url, init, meta) => {
+  // Session route handlers run in this app and reach the mock backend from the server
+  if (new URL(url, 'http://localhost').pathname.startsWith(API_ROUTES.session.current)) {
+    return networkTransport(url, init, meta);
+  }
+
+  const { mockBackend } = await import('@/shared/infra/http/mocks');
+  return mockBackend(url, init, meta);
+};
+
+// ================================================================================================
+// Public API
+// ================================================================================================
+
+/**
+ * Get the transport used for the next request
+ *
+ * @returns Installed transport, the mock backend when mocking is enabled, otherwise the network transport
+ */
+export function getHttpTransport(): HttpTransport {
+  if (installedTransport) return installedTransport;
+  return HTTP_CONFIG.apiMocking ? mockBackendTransport : networkTransport;
+}
+
+/**
+ * Install a transport for all subsequent requests
+ *
+ * @param transport - Transport to install
+ * @returns Function restoring the previous transport
+ *
+ * @example
+ * ```typescript
+ * const restore = setHttpTransport(createMockTransport({
+ *   [`GET ${API_ROUTES.products.list}`]: () => ({ body: [] }),
+ * }));
+ * // ... requests now hit the mock routes
+ * restore();
+ * ```
+ */
+export function setHttpTransport(transport: HttpTransport): () => void {
+  const previousTransport = installedTransport;
+  installedTransport = transport;
+
+  return () => {
+    // Only restore if nothing else was installed in the meantime
+    if (installedTransport === transport) {
+      installedTransport = previousTransport;
+    }
+  };
+}
+
+/**
+ * Remove any installed transport and go back to the built-in default
+ */
+export function resetHttpTransport(): void {
+  installedTransport = null;
+}
@@ -26,11 +26,33 @@ export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
 // HTTP Parameters - parameters for the URL query string
 // ================================================================================================
 
+/** Single query parameter value */
+export type HttpQueryScalar = string | number | boolean;
+
+/**
+ * Query parameter value: a scalar, an array or a nested object
+ *
+ * Undefined and null values (and empty arrays) are skipped when building the URL.
+ */
+export type HttpQueryValue = HttpQueryScalar | null | undefined | HttpQueryValue[] | { [key: string]: HttpQueryValue };
+
+/**
+ * Encoding of array and nested-object query parameters
+ *
+ * - repeat: `status=draft&status=published`
+ * - comma: `status=draft,published`
+ * - brackets: `status[]=draft&status[]=published`
+ * - deepObject: `status[0]=draft&status[1]=published`
+ *
+ * Nested objects always use bracket keys (`filter[name]=x`); array items that are objects are indexed.
+ */
+export type HttpQueryFormat = 'repeat' | 'comma' | 'brackets' | 'deepObject';
+
 /**
  * Object containing query parameters for the URL
  *
- * Keys are parameter names; values can be string, number, boolean, or undefined.
- * Undefined values are skipped when building the URL.
+ * Keys are parameter names; values can be scalars, arrays or nested objects.
+ * Undefined and null values are skipped when building the URL.
  *
  * @example
  * ```typescript
@@ -39,11 +61,174 @@ export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
  *   limit: 10,
  *   search: 'keyword',
  *   active: true,
+ *   status: ['draft', 'published'], // encoded with meta.queryFormat
+ *   filter: { name: 'plan' }, // filter[name]=plan
  *   optional: undefined // will be skipped
  * };
  * ```
  */
-export type HttpParams = Record<string, string | number | boolean | undefined>;
+export type HttpParams = Record<string, HttpQueryValue>;
+
+// ================================================================================================
+// HTTP Body Encoding - how plain request bodies are serialized
+// ================================================================================================
+
+/**
+ * Encoding of a plain-object request body
+ *
+ * - json: JSON.stringify (default for plain data)
+ * - multipart: FormData (default when the body contains a File or Blob)
+ * - urlencoded: URLSearchParams
+ */
+export type HttpBodyType = 'json' | 'multipart' | 'urlencoded';
+
+/**
+ * Key notation of nested fields in multipart and urlencoded bodies
+ *
+ * - brackets: `project[owner][name]`, `tags[]`
+ * - indices: `project[owner][name]`, `tags[0]`
+ * - dots: `project.owner.name`, `tags[0]`
+ *
+ * Array items that are objects or arrays are always indexed.
+ */
+export type HttpFormKeyNotation = 'brackets' | 'indices' | 'dots';
+
+// ================================================================================================
+// HTTP Response Types - how the response body is read
+// ================================================================================================
+
+/**
+ * How a successful response body is read
+ *
+ * - json: parsed JSON, validated with the schema (default)
+ * - text: string
+ * - blob: Blob (files, images, exports)
+ * - arrayBuffer: ArrayBuffer
+ * - stream: the unread ReadableStream body (no default timeout)
+ */
+export type HttpResponseType = 'json' | 'text' | 'blob' | 'arrayBuffer' | 'stream';
+
+// ================================================================================================
+// HTTP Cache Modes - response caching strategies
+// ================================================================================================
+
+/**
+ * Response caching strategy for GET requests
+ *
+ * - no-store: always hit the network (default)
+ * - swr: serve cached data immediately and revalidate in the background once stale
+ * - cache-first: serve fresh cached data, otherwise revalidate before returning
+ */
+export type HttpCacheMode = 'no-store' | 'swr' | 'cache-first';
+
+// ================================================================================================
+// HTTP Retry Policy - when and how long to retry failed requests
+// ================================================================================================
+
+/**
+ * Retry policy applied to retryable failures (network, timeout, 429, 5xx)
+ *
+ * Mutating requests are only retried when they carry an Idempotency-Key header,
+ * unless their method is listed in retryMethods.
+ *
+ * @example
+ * ```typescript
+ * const policy: Partial<HttpRetryPolicy> = {
+ *   retryMethods: ['GET'],
+ *   maxTotalDelayMs: 5_000,
+ * };
+ * ```
+ */
+export interface HttpRetryPolicy {
+  /** Methods that are safe to retry without an Idempotency-Key header */
+  retryMethods: readonly HttpMethod[];
+
+  /** Wait for the Retry-After header of 429/503 responses instead of the backoff delay */
+  respectRetryAfter: boolean;
+
+  /** Maximum total time spent waiting between attempts (milliseconds) */
+  maxTotalDelayMs: number;
+}
+
+// ================================================================================================
+// HTTP Circuit Breaker - failing fast while an endpoint is down
+// ================================================================================================
+
+/**
+ * State of an endpoint circuit
+ *
+ * - closed: requests flow normally
+ * - open: requests fail immediately until the cool-down ends
+ * - half-open: one probe request decides whether to close or re-open
+ */
+export type HttpCircuitState = 'closed' | 'open' | 'half-open';
+
+/**
+ * Circuit breaker settings applied per route template
+ *
+ * @example
+ * ```typescript
+ * const policy: Partial<HttpCircuitBreakerPolicy> = {
+ *   failureThreshold: 3,
+ *   cooldownMs: 10_000,
+ * };
+ * ```
+ */
+export interface HttpCircuitBreakerPolicy {
+  /** Consecutive failures (5xx, network errors, timeouts) that open the circuit */
+  failureThreshold: number;
+
+  /** Time the circuit stays open before a probe request is let through (milliseconds) */
+  cooldownMs: number;
+}
+
+// ================================================================================================
+// HTTP Scheduling - concurrency limit and request priorities
+// ================================================================================================
+
+/**
+ * Scheduling priority of a request while the concurrency limit is reached
+ *
+ * - `critical`: never queued (auth, session checks)
+ * - `high`: user-triggered actions; default for mutations
+ * - `normal`: default for GET requests
+ * - `low`: background work (prefetches, avatars); never takes the last free slot
+ *
+ * @example
+ * ```typescript
+ * await httpGet(API_ROUTES.users.byId(id), { meta: { priority: 'low' } });
+ * ```
+ */
+export type HttpRequestPriority = 'critical' | 'high' | 'normal' | 'low';
+
+// ================================================================================================
+// HTTP Progress - upload/download progress reporting
+// ================================================================================================
+
+/**
+ * Progress of an upload or download
+ *
+ * @example
+ * ```typescript
+ * const onUploadProgress: HttpProgressHandler = ({ percent }) => setPercent(percent ?? 0);
+ * ```
+ */
+export interface HttpProgressEvent {
+  /** Bytes transferred so far */
+  loaded: number;
+
+  /** Total bytes (undefined when the size is unknown) */
+  total?: number;
+
+  /** Completion percentage 0-100 (undefined when the size is unknown) */
+  percent?: number;
+
+  /** Average transfer speed since the transfer started (bytes per second) */
+  bytesPerSecond: number;
+}
+
+/** Callback receiving progress updates */
+export type HttpProgressHandler = (event: HttpProgressEvent) => void;
 
 // ================================================================================================
 // HTTP Metadata - additional configuration for the request
@@ -61,6 +246,9 @@ export interface HttpMeta {
   /** Skip auto-refreshing the token on 401 errors */
   skipAuthRefresh?: boolean;
 
+  /** Stay on the page on 403 errors instead of opening the 403 page */
+  skipForbiddenRedirect?: boolean;
+
   /** Show the global loading indicator */
   showGlobalLoading?: boolean;
 
@@ -73,19 +261,81 @@ export interface HttpMeta {
   /** Delay between retries (milliseconds) */
   retryDelayMs?: number;
 
+  /** Retry policy overrides for this request (merged over HTTP_CONFIG.defaultRetryPolicy) */
+  retryPolicy?: Partial<HttpRetryPolicy>;
+
+  /** Send an Idempotency-Key header (generated once per call) so a mutation can be retried safely */
+  idempotent?: boolean;
+
+  /** Circuit breaker overrides for this request (merged over HTTP_CONFIG.defaultCircuitBreaker), or false to bypass it */
+  circuitBreaker?: Partial<HttpCircuitBreakerPolicy> | false;
+
+  /** Scheduling priority while the concurrency limit is reached (default: 'high' for mutations, 'normal' for GET) */
+  priority?: HttpRequestPriority;
+
+  /** Encoding of array and nested-object query parameters (overrides HTTP_CONFIG.defaultQueryFormat) */
+  queryFormat?: HttpQueryFormat;
+
+  /** Encoding of a plain-object body (default: multipart when it contains a File or Blob, otherwise json) */
+  bodyType?: HttpBodyType;
+
+  /** Key notation of nested multipart/urlencoded fields (overrides HTTP_CONFIG.defaultFormKeyNotation) */
+  formKeyNotation?: HttpFormKeyNotation;
+
+  /** Queue this mutation while offline and replay it on reconnect (JSON bodies only, see http.offline) */
+  queueWhenOffline?: boolean;
+
   /** Timeout for this request (milliseconds) */
   timeout?: number;
 
   /** Unique ID to track the request across logs */
   correlationId?: string;
 
+  /** How the response body is read (set by http(), httpStream() and httpDownload() for the interceptors) */
+  responseType?: HttpResponseType;
+
   /** Send cookies with the request (for CORS) */
   withCredentials?: boolean;
 
   /** AbortSignal to cancel the request */
   signal?: AbortSignal;
+
+  /** Share an identical in-flight GET request with the same retry, timeout and notification policy instead of sending a new one (default: true) */
+  dedupe?: boolean;
+
+  /** Response caching strategy for GET requests (default: 'no-store') */
+  cache?: HttpCacheMode;
+
+  /** Time-to-live for cached responses (milliseconds, overrides global config) */
+  cacheTtlMs?: number;
+
+  /** Report request body upload progress (sends the request through XMLHttpRequest) */
+  onUploadProgress?: HttpProgressHandler;
+
+  /** Report response body download progress (sends the request through XMLHttpRequest) */
+  onDownloadProgress?: HttpProgressHandler;
 }
 
+// ================================================================================================
+// HTTP Transport - sends one prepared request
+// ================================================================================================
+
+/**
+ * Function sending one prepared request and resolving with the raw Response
+ *
+ * Receives the final URL and fetch() options after the request interceptors ran.
+ * Must behave like fetch(): resolve for every HTTP status, reject on network failure or abort.
+ *
+ * @example
+ * ```typescript
+ * const loggingTransport: HttpTransport = async (url, init) => {
+ *   console.debug(init.method, url);
+ *   return fetch(url, init);
+ * };
+ * ```
+ */
+export type HttpTransport = (url: string, init: RequestInit, meta: HttpMeta) => Promise<Response>;
+
 // ================================================================================================
 // HTTP Options - main configuration for an HTTP request
 // ================================================================================================
@@ -125,13 +375,37 @@ export interface HttpOptions<TResponse = unknown, TBody = unknown> {
   /** Additional request configuration */
   meta?: HttpMeta;
 
-  /** Zod schema to validate the response data */
+  /** Zod schema to validate the response data (JSON responses only) */
   schema?: ZodType<TResponse>;
 
+  /**
+   * Read the response as a backend envelope `{ status_code, message, success, body }` (JSON responses only)
+   *
+   * The schema then describes the body, which is what the call resolves with; the server
+   * message is available through getEnvelopeMessage(). `success: false` rejects with an AppError
+   * carrying the backend message.
+   */
+  unwrapEnvelope?: boolean;
+
+  /** How the response body is read (default: 'json') */
+  responseType?: HttpResponseType;
+
   /** AbortSignal to cancel the request */
   signal?: AbortSignal;
 }
 
+/**
+ * Function sending one request: http() in the browser, or a request-scoped server client
+ *
+ * Endpoints and services accept one so the same calls run in the browser and on the server.
+ *
+ * @example
+ * ```typescript
+ * const loadProducts = (client: HttpRequestFunction = http) => client('/api/v1/products', { schema: productListSchema });
+ * ```
+ */
+export type HttpRequestFunction = <TResponse = unknown>(requestPath: string, options?: HttpOptions<TResponse>) => Promise<TResponse>;
+
 // ================================================================================================
 // HTTP Response - response structure
 // ================================================================================================
@@ -0,0 +1,17 @@
+/**
+ * Mock Backend
+ *
+ * In-memory backend served when NEXT_PUBLIC_API_MOCKING=enabled.
+ * Sign in with one of the seeded accounts (password: MOCK_PASSWORD).
+ */
+
+import { mockHandlers } from './mock.handlers';
+import { createMockTransport } from './mock.router';
+
+export { MOCK_OTP_CODE, MOCK_PASSWORD, mockDb, resetMockDb } from './mock.db';
+export { mockHandlers } from './mock.handlers';
+export type { MockHandler, MockRequest, MockResponse, MockRoutes, MockTransportOptions } from './mock.router';
+export { createMockTransport, envelope, errorEnvelope } from './mock.router';
+
+/** Transport serving every request from the seeded mock backend */
+export const mockBackend = createMockTransport(mockHandlers);
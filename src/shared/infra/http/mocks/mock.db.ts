@@ -0,0 +1,248 @@
+/**
+ * Mock Database Module
+ *
+ * Seeded in-memory data behind the mock backend:
+ * - Accounts (sign-in, profile), users, products and projects
+ * - JWT-shaped access/refresh tokens carrying `sub` and `exp`
+ * - resetMockDb() restores the seed (data lives until the page reloads)
+ */
+
+// ================================================================================================
+// Type Definitions
+// ================================================================================================
+
+/** Account able to sign in */
+export interface MockAccount {
+  id: string;
+  email: string;
+  password: string;
+  fullName: string;
+  phone: string;
+  role: 'admin' | 'user';
+  avatarUrl?: string;
+  createdAt: string;
+}
+
+/** Row of the users table */
+export interface MockUser {
+  id: string;
+  name: string;
+  email: string;
+  status: 'active' | 'inactive';
+  createdAt: string;
+}
+
+/** Catalogue product */
+export interface MockProduct {
+  id: string;
+  name: string;
+  price: number;
+  inventory: number;
+  status: 'draft' | 'published' | 'archived';
+}
+
+/** Dashboard project */
+export interface MockProject {
+  id: string;
+  name: string;
+  avatar?: string;
+  creatorId: string;
+  participantIds: string[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+/** Kind of token issued by the mock backend */
+export type MockTokenType = 'access' | 'refresh';
+
+/** Claims carried by a mock token */
+export interface MockTokenClaims {
+  sub: string;
+  typ: MockTokenType;
+  iat: number;
+  exp: number;
+}
+
+/** Whole in-memory dataset */
+interface MockDb {
+  accounts: MockAccount[];
+  users: MockUser[];
+  products: MockProduct[];
+  projects: MockProject[];
+  nextId: number;
+}
+
+// ================================================================================================
+// Constants
+// ================================================================================================
+
+/** Password of every seeded account */
+export const MOCK_PASSWORD = 'Password123!';
+
+/** OTP code accepted by the mock backend */
+export const MOCK_OTP_CODE = '123456';
+
+/** Lifetime of mock tokens (seconds) */
+const TOKEN_TTL_SECONDS: Record<MockTokenType, number> = {
+  access: 15 * 60,
+  refresh: 7 * 24 * 60 * 60,
+};
+
+/** Header of every mock token (unsigned) */
+const TOKEN_HEADER = { alg: 'none', typ: 'JWT' };
+
+/** Creation date of the seed data */
+const SEED_DATE = '2025-01-15T09:00:00.000Z';
+
+// ================================================================================================
+// Seed Data
+// ================================================================================================
+
+/**
+ * Build a fresh copy of the seed data
+ *
+ * @returns Seeded dataset
+ */
+function createSeed(): MockDb {
+  const accounts: MockAccount[] = [
+    {
+      id: 'account-1',
+      email: 'admin@grow-ps.com',
+      password: MOCK_PASSWORD,
+      fullName: 'Alex Admin',
+      phone: '0123456789',
+      role: 'admin',
+      createdAt: SEED_DATE,
+    },
+    {
+      id: 'account-2',
+      email: 'user@grow-ps.com',
+      password: MOCK_PASSWORD,
+      fullName: 'Uma User',
+      phone: '0987654321',
+      role: 'user',
+      createdAt: SEED_DATE,
+    },
+  ];
+
+  const users: MockUser[] = ['Alice Martin', 'Bruno Petit', 'Chloé Durand', 'David Leroy', 'Emma Moreau', 'Félix Simon'].map((name, index) => ({
+    id: `user-${index + 1}`,
+    name,
+    email: `${name
+      .split(' ')[0]
+      .normalize('NFD')
+      .replace(/\p{Diacritic}/gu, '')
+      .toLowerCase()}@yopmail.com`,
+    status: index % 4 === 3 ? 'inactive' : 'active',
+    createdAt: SEED_DATE,
+  }));
+
+  const products: MockProduct[] = [
+    { id: 'product-1', name: 'Starter plan', price: 9.99, inventory: 120, status: 'published' },
+    { id: 'product-2', name: 'Team plan', price: 29.99, inventory: 80, status: 'published' },
+    { id: 'product-3', name: 'Enterprise plan', price: 99, inventory: 15, status: 'draft' },
+    { id: 'product-4', name: 'Legacy plan', price: 4.99, inventory: 0, status: 'archived' },
+  ];
+
+  const projects: MockProject[] = ['Website redesign', 'Mobile app', 'Price monitoring', 'Market research'].map((name, index) => ({
+    id: `project-${index + 1}`,
+    name,
+    creatorId: accounts[index % accounts.length].id,
+    participantIds: accounts.map(account => account.id),
+    createdAt: SEED_DATE,
+    updatedAt: SEED_DATE,
+  }));
+
+  return { accounts, users, products, projects, nextId: 100 };
+}
+
+// ================================================================================================
+// Global State - in-memory dataset
+// ================================================================================================
+
+/** Current dataset (mutated by the mock handlers) */
+export const mockDb: MockDb = createSeed();
+
+/**
+ * Restore the seed data
+ */
+export function resetMockDb(): void {
+  Object.assign(mockDb, createSeed());
+}
+
+/**
+ * Generate an ID for a new record
+ *
+ * @param prefix - Record type prefix
+ * @returns Unique ID
+ */
+export function nextMockId(prefix: string): string {
+  mockDb.nextId += 1;
+  return `${prefix}-${mockDb.nextId}`;
+}
+
+// ================================================================================================
+// Tokens
+// ================================================================================================
+
+/**
+ * Base64url-encode a JSON value
+ *
+ * @param value - Value to encode
+ * @returns Base64url string
+ */
+function encodeSegment(value: unknown): string {
+  const bytes = new TextEncoder().encode(JSON.stringify(value));
+  return globalThis
+    .btoa(String.fromCodePoint(...bytes))
+    .replaceAll('+', '-')
+    .replaceAll('/', '_')
+    .replace(/=+$/, '');
+}
+
+/**
+ * Decode a base64url JSON segment
+ *
+ * @param segment - Base64url string
+ * @returns Decoded value
+ */
+function decodeSegment(segment: string): unknown {
+  const binary = globalThis.atob(segment.replaceAll('-', '+').replaceAll('_', '/'));
+  const bytes = Uint8Array.from(binary, character => character.codePointAt(0) ?? 0);
+  return JSON.parse(new TextDecoder().decode(bytes)) as unknown;
+}
+
+/**
+ * Issue a JWT-shaped token for an account
+ *
+ * @param accountId - Account ID (the `sub` claim)
+ * @param type - Access or refresh token
+ * @param now - Current timestamp (milliseconds)
+ * @returns Unsigned token
+ */
+export function issueMockToken(accountId: string, type: MockTokenType, now: number = Date.now()): string {
+  const issuedAt = Math.floor(now / 1000);
+  const claims: MockTokenClaims = { sub: accountId, typ: type, iat: issuedAt, exp: issuedAt + TOKEN_TTL_SECONDS[type] };
+  return `${encodeSegment(TOKEN_HEADER)}.${encodeSegment(claims)}.mock`;
+}
+
+/**
+ * Verify a mock token and find its account
+ *
+ * @param token - Token to verify
+ * @param type - Expected token type
+ * @param now - Current timestamp (milliseconds)
+ * @returns Account of a valid, unexpired token, otherwise undefined
+ */
+export function verifyMockToken(token: string | null | undefined, type: MockTokenType, now: number = Date.now()): MockAccount | undefined {
+  const payload = token?.split('.')[1];
+  if (!payload) return undefined;
+
+  try {
+    const claims = decodeSegment(payload) as Partial<MockTokenClaims>;
+    if (claims.typ !== type || typeof claims.exp !== 'number' || claims.exp * 1000 <= now) return undefined;
+    return mockDb.accounts.find(account => account.id === claims.sub);
+  } catch {
+    return undefined;
+  }
+}
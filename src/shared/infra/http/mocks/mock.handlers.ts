@@ -0,0 +1,490 @@
+/**
+ * Mock Handlers Module
+ *
+ * Mock backend routes keyed on API_ROUTES:
+ * - Auth: sign-in, registration + OTP, password flows, refresh, current user
+ * - Users, profile, products and projects backed by the seeded mock database
+ * - CSV exports of users and projects
+ * - S3 presigned URLs with an upload endpoint that accepts (and discards) files
+ *
+ * Auth and project endpoints answer with the backend envelope; users, products,
+ * profile and the current user answer with the bare payload their service schemas expect.
+ */
+
+import { API_ROUTES } from '@/shared/config/api';
+
+import type { MockAccount, MockProject } from './mock.db';
+import { issueMockToken, MOCK_OTP_CODE, mockDb, nextMockId, verifyMockToken } from './mock.db';
+import type { MockRequest, MockResponse, MockRoutes } from './mock.router';
+import { envelope, errorEnvelope } from './mock.router';
+
+// ================================================================================================
+// Constants
+// ================================================================================================
+
+/** Path of the fake S3 bucket served by the mock backend */
+const MOCK_S3_PATH = '/mock-s3';
+
+/** Lifetime announced for OTP codes (seconds) */
+const OTP_EXPIRES_IN_SECONDS = 300;
+
+/** Default page size of the projects list */
+const DEFAULT_PROJECT_LIMIT = 100;
+
+/** Export format the mock backend can produce */
+const MOCK_EXPORT_FORMAT = 'csv';
+
+// ================================================================================================
+// Helper Functions
+// ================================================================================================
+
+/**
+ * Read a JSON request body as a record
+ *
+ * @param request - Mock request
+ * @returns Body fields (empty when the body is not an object)
+ */
+function readBody(request: MockRequest): Record<string, unknown> {
+  return typeof request.body === 'object' && request.body !== null ? (request.body as Record<string, unknown>) : {};
+}
+
+/**
+ * Read a positive integer query parameter
+ *
+ * @param request - Mock request
+ * @param name - Parameter name
+ * @param fallbackValue - Value used when the parameter is missing or invalid
+ * @returns Parsed value
+ */
+function readPositiveInt(request: MockRequest, name: string, fallbackValue: number): number {
+  const value = Number.parseInt(request.query.get(name) ?? '', 10);
+  return Number.isFinite(value) && value > 0 ? value : fallbackValue;
+}
+
+/**
+ * Read a multi-value query parameter sent repeated (`status=a&status=b`) or comma-separated (`status=a,b`)
+ *
+ * @param request - Mock request
+ * @param name - Parameter name
+ * @returns Values (empty when the parameter is missing)
+ */
+function readListParam(request: MockRequest, name: string): string[] {
+  return request.query
+    .getAll(name)
+    .flatMap(value => value.split(','))
+    .filter(Boolean);
+}
+
+/**
+ * Find the account of the Bearer token
+ *
+ * @param request - Mock request
+ * @returns Signed-in account, or undefined for a missing/expired token
+ */
+function findSignedInAccount(request: MockRequest): MockAccount | undefined {
+  const token = request.headers.get('authorization')?.replace(/^Bearer\s+/i, '');
+  return verifyMockToken(token, 'access');
+}
+
+/**
+ * Wrap a handler so it answers 401 without a valid access token
+ *
+ * @param handler - Handler receiving the signed-in account
+ * @returns Route handler
+ */
+function withAccount(handler: (request: MockRequest, account: MockAccount) => MockResponse): (request: MockRequest) => MockResponse {
+  return request => {
+    const account = findSignedInAccount(request);
+    return account ? handler(request, account) : errorEnvelope(401, 'Unauthorized');
+  };
+}
+
+/**
+ * Public view of an account (no password)
+ *
+ * @param account - Account
+ * @returns Account without its password
+ */
+function toAuthUser({ password: _, ...user }: MockAccount): Omit<MockAccount, 'password'> {
+  return user;
+}
+
+/**
+ * Build the sign-in / refresh response body
+ *
+ * @param account - Signed-in account
+ * @returns User and fresh tokens
+ */
+function createSession(account: MockAccount) {
+  return {
+    user: toAuthUser(account),
+    accessToken: issueMockToken(account.id, 'access'),
+    refreshToken: issueMockToken(account.id, 'refresh'),
+  };
+}
+
+/**
+ * Find an account by email (case-insensitive)
+ *
+ * @param email - Email address
+ * @returns Matching account
+ */
+function findAccountByEmail(email: unknown): MockAccount | undefined {
+  return typeof email === 'string' ? mockDb.accounts.find(account => account.email.toLowerCase() === email.toLowerCase()) : undefined;
+}
+
+/**
+ * Answer an export request with a CSV attachment
+ *
+ * @param request - Mock request (`format` query parameter)
+ * @param filename - Base name of the exported file
+ * @param rows - Header row followed by the data rows
+ * @returns CSV file response, or 400 for formats the mock cannot produce
+ */
+function csvExport(request: MockRequest, filename: string, rows: unknown[][]): MockResponse {
+  const format = request.query.get('format') ?? MOCK_EXPORT_FORMAT;
+  if (format !== MOCK_EXPORT_FORMAT) {
+    return errorEnvelope(400, `The mock backend only exports ${MOCK_EXPORT_FORMAT.toUpperCase()}`);
+  }
+
+  const escapeCell = (cell: unknown) => `"${String(cell ?? '').replaceAll('"', '""')}"`;
+  const csv = rows.map(row => row.map(escapeCell).join(',')).join('\r\n');
+
+  return {
+    body: csv,
+    headers: {
+      'Content-Type': 'text/csv; charset=utf-8',
+      'Content-Disposition': `attachment; filename="${filename}.csv"`,
+    },
+  };
+}
+
+/**
+ * Expand a project with its creator, as the backend does
+ *
+ * @param project - Stored project
+ * @returns Project with the creator object
+ */
+function toProjectResponse(project: MockProject) {
+  const creator = mockDb.accounts.find(account => account.id === project.creatorId);
+
+  return {
+    ...project,
+    ...(creator
+      ? { creator: { id: creator.id, email: creator.email, fullName: creator.fullName, role: creator.role, createdAt: creator.createdAt } }
+      : {}),
+  };
+}
+
+// ================================================================================================
+// Auth Handlers
+// ================================================================================================
+
+/** Accounts registered but not yet confirmed with an OTP */
+const pendingRegistrations = new Map<string, MockAccount>();
+
+const authHandlers: MockRoutes = {
+  [`POST ${API_ROUTES.auth.login}`]: request => {
+    const { email, password } = readBody(request);
+    const account = findAccountByEmail(email);
+
+    if (!account || account.password !== password) {
+      return errorEnvelope(401, 'Invalid email or password');
+    }
+
+    return envelope(createSession(account), 'Login successful');
+  },
+
+  [`POST ${API_ROUTES.auth.register}`]: request => {
+    const { fullName, email, password } = readBody(request);
+
+    if (findAccountByEmail(email)) {
+      return errorEnvelope(409, 'Email already registered');
+    }
+
+    const normalizedEmail = String(email).toLowerCase();
+    pendingRegistrations.set(normalizedEmail, {
+      id: nextMockId('account'),
+      email: normalizedEmail,
+      password: String(password),
+      fullName: String(fullName),
+      phone: '',
+      role: 'user',
+      createdAt: new Date().toISOString(),
+    });
+
+    return envelope({ email: normalizedEmail, expiresIn: OTP_EXPIRES_IN_SECONDS }, 'Verification code sent', 201);
+  },
+
+  [`POST ${API_ROUTES.auth.verifyOtp}`]: request => {
+    const { email, code } = readBody(request);
+
+    if (code !== MOCK_OTP_CODE) {
+      return errorEnvelope(400, 'Invalid verification code');
+    }
+
+    const normalizedEmail = String(email).toLowerCase();
+    const pendingAccount = pendingRegistrations.get(normalizedEmail);
+    if (pendingAccount) {
+      pendingRegistrations.delete(normalizedEmail);
+      mockDb.accounts.push(pendingAccount);
+    }
+
+    const now = new Date();
+    return envelope(
+      {
+        id: nextMockId('otp'),
+        code: MOCK_OTP_CODE,
+        email: normalizedEmail,
+        isUsed: true,
+        sentCount: 1,
+        expiresAt: new Date(now.getTime() + OTP_EXPIRES_IN_SECONDS * 1000).toISOString(),
+        createdAt: now.toISOString(),
+      },
+      'Verification successful'
+    );
+  },
+
+  [`POST ${API_ROUTES.auth.resendOtp}`]: request => {
+    const { email } = readBody(request);
+    return envelope({ email: String(email).toLowerCase(), expiresIn: OTP_EXPIRES_IN_SECONDS }, 'Verification code sent');
+  },
+
+  // Never reveals whether the email exists
+  [`POST ${API_ROUTES.auth.forgotPassword}`]: () => envelope(null, 'If the email exists, a verification code has been sent'),
+
+  [`POST ${API_ROUTES.auth.resetPassword}`]: request => {
+    const { email, password } = readBody(request);
+    const account = findAccountByEmail(email);
+
+    if (account) {
+      account.password = String(password);
+    }
+
+    return envelope(null, 'Password updated');
+  },
+
+  [`POST ${API_ROUTES.auth.changePassword}`]: withAccount((request, account) => {
+    const { currentPassword, password } = readBody(request);
+
+    if (account.password !== currentPassword) {
+      return errorEnvelope(400, 'Current password is incorrect');
+    }
+
+    account.password = String(password);
+    return envelope(null, 'Password changed');
+  }),
+
+  [`POST ${API_ROUTES.auth.refresh}`]: request => {
+    const { refreshToken } = readBody(request);
+    const account = verifyMockToken(typeof refreshToken === 'string' ? refreshToken : undefined, 'refresh');
+
+    return account ? envelope(createSession(account), 'Token refreshed') : errorEnvelope(401, 'Invalid refresh token');
+  },
+
+  [`GET ${API_ROUTES.auth.me}`]: withAccount((_request, account) => ({ body: toAuthUser(account) })),
+
+  // Mock tokens are stateless: there is nothing to revoke
+  [`POST ${API_ROUTES.auth.logout}`]: () => envelope(null, 'Logged out'),
+};
+
+// ================================================================================================
+// User & Profile Handlers
+// ================================================================================================
+
+const userHandlers: MockRoutes = {
+  [`GET ${API_ROUTES.users.list}`]: withAccount(request => {
+    const page = readPositiveInt(request, 'page', 1);
+    const pageSize = readPositiveInt(request, 'pageSize', 10);
+    const keyword = request.query.get('keyword')?.toLowerCase() ?? '';
+    const statuses = readListParam(request, 'status');
+
+    const matchingUsers = mockDb.users.filter(
+      user => `${user.name} ${user.email}`.toLowerCase().includes(keyword) && (statuses.length === 0 || statuses.includes(user.status))
+    );
+
+    return {
+      body: {
+        items: matchingUsers.slice((page - 1) * pageSize, page * pageSize),
+        total: matchingUsers.length,
+        page,
+        pageSize,
+      },
+    };
+  }),
+
+  [`GET ${API_ROUTES.users.export}`]: withAccount(request =>
+    csvExport(request, 'users', [
+      ['id', 'name', 'email', 'status', 'createdAt'],
+      ...mockDb.users.map(user => [user.id, user.name, user.email, user.status, user.createdAt]),
+    ])
+  ),
+
+  [`POST ${API_ROUTES.users.list}`]: withAccount(request => {
+    const { name, email, status = 'active' } = readBody(request);
+    const user = {
+      id: nextMockId('user'),
+      name: String(name),
+      email: String(email),
+      status: status === 'inactive' ? ('inactive' as const) : ('active' as const),
+      createdAt: new Date().toISOString(),
+    };
+
+    mockDb.users.push(user);
+    return { status: 201, body: user };
+  }),
+
+  [`PUT ${API_ROUTES.users.profile}`]: withAccount((request, account) => {
+    const { fullName, phone, avatarUrl } = readBody(request);
+
+    if (typeof fullName === 'string') account.fullName = fullName;
+    if (typeof phone === 'string') account.phone = phone;
+    if (typeof avatarUrl === 'string') account.avatarUrl = avatarUrl;
+
+    return { body: toAuthUser(account) };
+  }),
+
+  [`GET ${API_ROUTES.users.byId(':id')}`]: withAccount(({ params }) => {
+    const user = mockDb.users.find(candidate => candidate.id === params.id);
+    return user ? { body: user } : errorEnvelope(404, 'User not found');
+  }),
+
+  [`PUT ${API_ROUTES.users.byId(':id')}`]: withAccount(request => {
+    const user = mockDb.users.find(candidate => candidate.id === request.params.id);
+    if (!user) return errorEnvelope(404, 'User not found');
+
+    const { name, email, status } = readBody(request);
+    if (typeof name === 'string') user.name = name;
+    if (typeof email === 'string') user.email = email;
+    if (status === 'active' || status === 'inactive') user.status = status;
+
+    return { body: user };
+  }),
+
+  [`DELETE ${API_ROUTES.users.byId(':id')}`]: withAccount(({ params }) => {
+    mockDb.users = mockDb.users.filter(user => user.id !== params.id);
+    return { status: 204 };
+  }),
+};
+
+// ================================================================================================
+// Product Handlers
+// ================================================================================================
+
+const productHandlers: MockRoutes = {
+  [`GET ${API_ROUTES.products.list}`]: withAccount(request => {
+    const statuses = readListParam(request, 'status');
+    return { body: statuses.length > 0 ? mockDb.products.filter(product => statuses.includes(product.status)) : mockDb.products };
+  }),
+
+  [`GET ${API_ROUTES.products.byId(':id')}`]: withAccount(({ params }) => {
+    const product = mockDb.products.find(candidate => candidate.id === params.id);
+    return product ? { body: product } : errorEnvelope(404, 'Product not found');
+  }),
+};
+
+// ================================================================================================
+// Project Handlers
+// ================================================================================================
+
+const projectHandlers: MockRoutes = {
+  [`GET ${API_ROUTES.projects.export}`]: withAccount(request =>
+    csvExport(request, 'projects', [
+      ['id', 'name', 'createdAt', 'updatedAt'],
+      ...mockDb.projects.map(project => [project.id, project.name, project.createdAt, project.updatedAt]),
+    ])
+  ),
+
+  [`GET ${API_ROUTES.projects.list}`]: withAccount(request => {
+    const page = readPositiveInt(request, 'page', 1);
+    const limit = readPositiveInt(request, 'limit', DEFAULT_PROJECT_LIMIT);
+    const name = request.query.get('name')?.toLowerCase() ?? '';
+
+    const matchingProjects = mockDb.projects.filter(project => project.name.toLowerCase().includes(name));
+    const totalPages = Math.ceil(matchingProjects.length / limit);
+
+    return envelope({
+      docs: matchingProjects.slice((page - 1) * limit, page * limit).map(toProjectResponse),
+      totalDocs: matchingProjects.length,
+      limit,
+      totalPages,
+      page,
+      pagingCounter: (page - 1) * limit + 1,
+      hasPrevPage: page > 1,
+      hasNextPage: page < totalPages,
+      prevPage: page > 1 ? page - 1 : null,
+      nextPage: page < totalPages ? page + 1 : null,
+    });
+  }),
+
+  [`POST ${API_ROUTES.projects.list}`]: withAccount((request, account) => {
+    const { name, avatar } = readBody(request);
+    const now = new Date().toISOString();
+    const project: MockProject = {
+      id: nextMockId('project'),
+      name: String(name),
+      ...(typeof avatar === 'string' ? { avatar } : {}),
+      creatorId: account.id,
+      participantIds: [account.id],
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    // Newest first, like the backend
+    mockDb.projects.unshift(project);
+    return envelope(toProjectResponse(project), 'Project created', 201);
+  }),
+
+  [`GET ${API_ROUTES.projects.byId(':id')}`]: withAccount(({ params }) => {
+    const project = mockDb.projects.find(candidate => candidate.id === params.id);
+    return project ? envelope(toProjectResponse(project)) : errorEnvelope(404, 'Project not found');
+  }),
+
+  [`PUT ${API_ROUTES.projects.byId(':id')}`]: withAccount(request => {
+    const project = mockDb.projects.find(candidate => candidate.id === request.params.id);
+    if (!project) return errorEnvelope(404, 'Project not found');
+
+    const { name, avatar } = readBody(request);
+    if (typeof name === 'string') project.name = name;
+    if (typeof avatar === 'string') project.avatar = avatar;
+    project.updatedAt = new Date().toISOString();
+
+    return envelope(toProjectResponse(project), 'Project updated');
+  }),
+};
+
+// ================================================================================================
+// S3 Handlers
+// ================================================================================================
+
+const s3Handlers: MockRoutes = {
+  [`GET ${API_ROUTES.s3.presignedUrl}`]: withAccount(request => {
+    const prefix = request.query.get('prefix') ?? 'uploads';
+    const fileType = request.query.get('file_type') ?? 'bin';
+    const fileKey = `${prefix}/${nextMockId('file')}.${fileType}`;
+
+    return {
+      body: {
+        success: true,
+        data: { presigned_url: `${request.url.origin}${MOCK_S3_PATH}/${fileKey}?X-Amz-Signature=mock`, file_key: fileKey },
+        message: 'Presigned URL generated',
+      },
+    };
+  }),
+
+  // Accepts the upload without storing it
+  [`PUT ${MOCK_S3_PATH}/*`]: () => ({ status: 200 }),
+};
+
+// ================================================================================================
+// Public API
+// ================================================================================================
+
+/** Every mocked backend route */
+export const mockHandlers: MockRoutes = {
+  ...authHandlers,
+  ...userHandlers,
+  ...productHandlers,
+  ...projectHandlers,
+  ...s3Handlers,
+};
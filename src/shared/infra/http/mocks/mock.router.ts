@@ -0,0 +1,302 @@
+/**
+ * Mock Router Module
+ *
+ * Route-matching transport serving requests from in-memory handlers:
+ * - Routes are keyed as `METHOD /path`, with `:param` segments and a trailing `*` wildcard
+ * - Handlers receive the parsed request and return status, body and headers
+ * - envelope() / errorEnvelope() build the backend `{ status_code, message, success, body }` shape
+ * - Simulated latency honours the request AbortSignal
+ */
+
+import type { HttpTransport } from '@/shared/infra/http/http.types';
+
+// ================================================================================================
+// Type Definitions
+// ================================================================================================
+
+/**
+ * Request as seen by a mock handler
+ */
+export interface MockRequest {
+  /** Upper-case HTTP method */
+  method: string;
+
+  /** Full request URL */
+  url: URL;
+
+  /** Values of the `:param` segments (the wildcard is stored under '*') */
+  params: Record<string, string>;
+
+  /** Query string parameters */
+  query: URLSearchParams;
+
+  /** Request headers */
+  headers: Headers;
+
+  /** Request body - parsed JSON when possible, otherwise the raw body */
+  body: unknown;
+}
+
+/**
+ * Response returned by a mock handler
+ */
+export interface MockResponse {
+  /** HTTP status (default: 200) */
+  status?: number;
+
+  /** JSON body; strings and Blobs are sent as they are (omit for an empty response) */
+  body?: unknown;
+
+  /** Extra response headers */
+  headers?: Record<string, string>;
+}
+
+/** Handler serving one mocked route */
+export type MockHandler = (request: MockRequest) => MockResponse | Promise<MockResponse>;
+
+/**
+ * Mocked routes keyed as `METHOD /path`
+ *
+ * @example
+ * ```typescript
+ * const routes: MockRoutes = {
+ *   [`GET ${API_ROUTES.products.byId(':id')}`]: ({ params }) => ({ body: findProduct(params.id) }),
+ * };
+ * ```
+ */
+export type MockRoutes = Record<string, MockHandler>;
+
+/**
+ * Options for createMockTransport
+ */
+export interface MockTransportOptions {
+  /** Simulated network latency per request (milliseconds, default: 200) */
+  latencyMs?: number;
+}
+
+/** Route key compiled into a matcher */
+interface CompiledRoute {
+  method: string;
+  pattern: RegExp;
+  paramNames: string[];
+  handler: MockHandler;
+}
+
+// ================================================================================================
+// Constants
+// ================================================================================================
+
+/** Default simulated latency (milliseconds) */
+const DEFAULT_MOCK_LATENCY_MS = 200;
+
+/** Characters with a special meaning in regular expressions */
+const REGEXP_SPECIAL_CHARACTERS = /[.*+?^${}()|[\]\\]/g;
+
+// ================================================================================================
+// Response Helpers
+// ================================================================================================
+
+/**
+ * Build a successful backend envelope
+ *
+ * @param body - Payload placed in `body`
+ * @param message - Human-readable message
+ * @param status - HTTP status (default: 200)
+ * @returns Mock response
+ *
+ * @example
+ * ```typescript
+ * return envelope(project, 'Project created', 201);
+ * // { status: 201, body: { status_code: 201, message: 'Project created', success: true, body: project } }
+ * ```
+ */
+export function envelope<T>(body: T, message = 'Success', status = 200): MockResponse {
+  return { status, body: { status_code: status, message, success: true, body } };
+}
+
+/**
+ * Build a failed backend envelope
+ *
+ * @param status - HTTP status
+ * @param message - Error message
+ * @returns Mock response with `success: false`
+ */
+export function errorEnvelope(status: number, message: string): MockResponse {
+  return { status, body: { status_code: status, message, success: false, body: null } };
+}
+
+// ================================================================================================
+// Route Matching
+// ================================================================================================
+
+/**
+ * Compile a `METHOD /path` route key
+ *
+ * @param routeKey - Route key
+ * @param handler - Handler of the route
+ * @returns Compiled route
+ */
+function compileRoute(routeKey: string, handler: MockHandler): CompiledRoute {
+  const [method, path = ''] = routeKey.trim().split(/\s+/, 2);
+  const paramNames: string[] = [];
+
+  const source = path
+    .split('/')
+    .map((segment, index, segments) => {
+      if (segment.startsWith(':')) {
+        paramNames.push(segment.slice(1));
+        return '([^/]+)';
+      }
+      if (segment === '*' && index === segments.length - 1) {
+        paramNames.push('*');
+        return '(.*)';
+      }
+      return segment.replace(REGEXP_SPECIAL_CHARACTERS, String.raw`\$&`);
+    })
+    .join('/');
+
+  return { method: method.toUpperCase(), pattern: new RegExp(`^${source}/?$`), paramNames, handler };
+}
+
+/**
+ * Find the route serving a request
+ *
+ * @param routes - Compiled routes
+ * @param method - HTTP method
+ * @param pathname - URL path
+ * @returns Matching handler with its path params, or undefined
+ */
+function matchRoute(routes: CompiledRoute[], method: string, pathname: string): { handler: MockHandler; params: Record<string, string> } | undefined {
+  for (const route of routes) {
+    if (route.method !== method) continue;
+
+    const match = route.pattern.exec(pathname);
+    if (!match) continue;
+
+    const params = Object.fromEntries(route.paramNames.map((name, index) => [name, decodeURIComponent(match[index + 1])]));
+    return { handler: route.handler, params };
+  }
+
+  return undefined;
+}
+
+// ================================================================================================
+// Request / Response Conversion
+// ================================================================================================
+
+/**
+ * Read the request body the way a JSON API would
+ *
+ * @param body - fetch() body
+ * @returns Parsed JSON for string bodies, otherwise the body itself
+ */
+function readRequestBody(body: RequestInit['body']): unknown {
+  if (typeof body !== 'string') return body ?? undefined;
+
+  try {
+    return JSON.parse(body) as unknown;
+  } catch {
+    return body;
+  }
+}
+
+/**
+ * Convert a handler result into a standard Response
+ *
+ * @param mockResponse - Handler result
+ * @returns Response
+ */
+function toResponse({ status = 200, body, headers }: MockResponse): Response {
+  if (body === undefined) {
+    return new Response(null, { status, headers });
+  }
+
+  // Files and text (exports, reports) keep the handler's own Content-Type
+  if (typeof body === 'string' || body instanceof Blob) {
+    return new Response(body, { status, headers });
+  }
+
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json', ...headers },
+  });
+}
+
+/**
+ * Wait for the simulated latency
+ *
+ * @param delayMs - Delay in milliseconds
+ * @param signal - AbortSignal of the request
+ * @returns Promise rejecting with the abort reason when the request is cancelled
+ */
+function simulateLatency(delayMs: number, signal?: AbortSignal | null): Promise<void> {
+  return new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, delayMs);
+
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+// ================================================================================================
+// Public API
+// ================================================================================================
+
+/**
+ * Create a transport serving requests from mock routes
+ *
+ * Unmatched routes answer 404 and handler exceptions answer 500,
+ * both as failed backend envelopes.
+ *
+ * @param routes - Mocked routes keyed as `METHOD /path`
+ * @param options - Transport options
+ * @returns HTTP transport
+ *
+ * @example
+ * ```typescript
+ * const restore = setHttpTransport(
+ *   createMockTransport({ [`GET ${API_ROUTES.products.list}`]: () => ({ body: [] }) }, { latencyMs: 0 })
+ * );
+ * ```
+ */
+export function createMockTransport(routes: MockRoutes, options: MockTransportOptions = {}): HttpTransport {
+  const compiledRoutes = Object.entries(routes).map(([routeKey, handler]) => compileRoute(routeKey, handler));
+  const latencyMs = options.latencyMs ?? DEFAULT_MOCK_LATENCY_MS;
+
+  return async (url, init) => {
+    await simulateLatency(latencyMs, init.signal);
+
+    const method = (init.method ?? 'GET').toUpperCase();
+    const requestUrl = new URL(url, globalThis.location?.origin ?? 'http://localhost');
+    const route = matchRoute(compiledRoutes, method, requestUrl.pathname);
+
+    if (!route) {
+      return toResponse(errorEnvelope(404, `No mock handler for ${method} ${requestUrl.pathname}`));
+    }
+
+    try {
+      const mockResponse = await route.handler({
+        method,
+        url: requestUrl,
+        params: route.params,
+        query: requestUrl.searchParams,
+        headers: new Headers(init.headers),
+        body: readRequestBody(init.body),
+      });
+      return toResponse(mockResponse);
+    } catch (error) {
+      return toResponse(errorEnvelope(500, error instanceof Error ? error.message : 'Mock handler failed'));
+    }
+  };
+}
@@ -0,0 +1,59 @@
+/**
+ * @jest-environment node
+ */
+import { NextRequest, NextResponse } from 'next/server';
+
+import { createAuthMiddleware } from '@/shared/infra/middleware/middleware.auth';
+import { SESSION_PRESENCE_COOKIE } from '@/shared/infra/session/session.cookies';
+
+const authMiddleware = createAuthMiddleware({ locales: ['en', 'fr'], defaultLocale: 'en' });
+
+const createRequest = (path: string, signedIn = false) =>
+  new NextRequest(`http://localhost${path}`, { headers: signedIn ? { cookie: `${SESSION_PRESENCE_COOKIE}=1` } : {} });
+
+describe('auth middleware', () => {
+  it('redirects signed-out requests for protected routes to signin with returnTo', async () => {
+    const response = await authMiddleware(createRequest('/fr/products/42?tab=specs'), NextResponse.next());
+
+    expect(response.status).toBe(307);
+    expect(response.headers.get('location')).toBe('http://localhost/fr/auth/signin?returnTo=%2Ffr%2Fproducts%2F42%3Ftab%3Dspecs');
+  });
+
+  it('keeps the cookies of previous steps on redirects', async () => {
+    const intlResponse = NextResponse.next();
+    intlResponse.cookies.set('NEXT_LOCALE', 'fr');
+
+    const response = await authMiddleware(createRequest('/fr/dashboard'), intlResponse);
+
+    expect(response.cookies.get('NEXT_LOCALE')?.value).toBe('fr');
+  });
+
+  it('redirects signed-in requests for auth pages to returnTo, else the dashboard', async () => {
+    const toReturnTo = await authMiddleware(createRequest('/en/auth/signin?returnTo=%2Fen%2Fprofile', true), NextResponse.next());
+    const toDashboard = await authMiddleware(createRequest('/fr/auth/signup', true), NextResponse.next());
+    const ignoresForeign = await authMiddleware(createRequest('/en/auth/signin?returnTo=%2F%2Fevil.example', true), NextResponse.next());
+
+    expect(toReturnTo.headers.get('location')).toBe('http://localhost/en/profile');
+    expect(toDashboard.headers.get('location')).toBe('http://localhost/fr/dashboard');
+    expect(ignoresForeign.headers.get('location')).toBe('http://localhost/en/dashboard');
+  });
+
+  it('ignores returnTo values that URL parsing turns into other origins', async () => {
+    for (const returnTo of ['%2F%09%2Fevil.example%2Fx', '%2F%0A%2Fevil.example', '%2F%5C%09evil.example']) {
+      const response = await authMiddleware(createRequest(`/en/auth/signin?returnTo=${returnTo}`, true), NextResponse.next());
+
+      expect(response.headers.get('location')).toBe('http://localhost/en/dashboard');
+    }
+  });
+
+  it('lets other requests and locale redirects through', async () => {
+    const next = NextResponse.next();
+    const localeRedirect = NextResponse.redirect(new URL('http://localhost/en'));
+
+    expect(await authMiddleware(createRequest('/en/dashboard', true), next)).toBe(next);
+    expect(await authMiddleware(createRequest('/en/auth/signin'), next)).toBe(next);
+    expect(await authMiddleware(createRequest('/en'), next)).toBe(next);
+    expect(await authMiddleware(createRequest('/en/dashboards'), next)).toBe(next);
+    expect(await authMiddleware(createRequest('/'), localeRedirect)).toBe(localeRedirect);
+  });
+});
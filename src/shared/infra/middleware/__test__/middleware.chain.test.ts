@@ -0,0 +1,45 @@
+/**
+ * @jest-environment node
+ */
+import { NextRequest, NextResponse } from 'next/server';
+
+import { chainMiddleware, type MiddlewareStep } from '@/shared/infra/middleware/middleware.chain';
+import { SECURITY_HEADERS, securityHeadersMiddleware } from '@/shared/infra/middleware/middleware.security';
+
+const request = new NextRequest('http://localhost/en/dashboard');
+
+describe('middleware chain', () => {
+  it('passes the response of each step to the next one', async () => {
+    const calls: string[] = [];
+    const redirect: MiddlewareStep = () => {
+      calls.push('redirect');
+      return NextResponse.redirect(new URL('http://localhost/en/auth/signin'));
+    };
+    const decorate: MiddlewareStep = async (_request, response) => {
+      calls.push(`decorate ${response.status}`);
+      response.headers.set('x-step', 'decorated');
+      return response;
+    };
+
+    const response = await chainMiddleware(() => NextResponse.next(), redirect, decorate)(request);
+
+    expect(calls).toEqual(['redirect', 'decorate 307']);
+    expect(response.headers.get('location')).toBe('http://localhost/en/auth/signin');
+    expect(response.headers.get('x-step')).toBe('decorated');
+  });
+
+  it('adds the security headers, with HSTS in production only', async () => {
+    const response = await securityHeadersMiddleware(request, NextResponse.next());
+
+    for (const [name, value] of Object.entries(SECURITY_HEADERS)) {
+      expect(response.headers.get(name)).toBe(value);
+    }
+    expect(response.headers.has('strict-transport-security')).toBe(false);
+
+    jest.replaceProperty(process.env, 'NODE_ENV', 'production');
+    const production = await securityHeadersMiddleware(request, NextResponse.next());
+    jest.restoreAllMocks();
+
+    expect(production.headers.get('strict-transport-security')).toBe('max-age=63072000; includeSubDomains');
+  });
+});
@@ -0,0 +1,105 @@
+/**
+ * Auth Middleware
+ *
+ * Route protection based on the session cookie, before any page renders:
+ * - Signed-out requests to protected routes are redirected to signin with `returnTo`
+ * - Signed-in requests to auth pages are redirected to `returnTo`, or the dashboard
+ * - The session cookie only marks a signed-in browser; the backend still validates the tokens
+ */
+
+import { NextResponse } from 'next/server';
+
+import { AUTH_ROUTE_PREFIX, RETURN_TO_PARAM, ROUTES, sanitizeReturnTo } from '@/shared/config/routes';
+import { SESSION_PRESENCE_COOKIE } from '@/shared/infra/session/session.cookies';
+
+import { isRedirectResponse, type MiddlewareStep } from './middleware.chain';
+
+// ================================================================================================
+// Type Definitions
+// ================================================================================================
+
+/** Locales of the app (see src/i18n.ts) */
+export interface AuthMiddlewareOptions {
+  locales: readonly string[];
+  defaultLocale: string;
+}
+
+// ================================================================================================
+// Constants
+// ================================================================================================
+
+const PROTECTED_ROUTES: readonly string[] = Object.values(ROUTES.protected);
+
+// ================================================================================================
+// Path Helpers
+// ================================================================================================
+
+/**
+ * Split the locale segment off a pathname
+ *
+ * @param pathname - Request pathname (e.g. `/en/dashboard`)
+ * @param options - Locales of the app
+ * @returns Locale of the path (default locale when missing) and the path without it
+ */
+function splitLocale(pathname: string, { locales, defaultLocale }: AuthMiddlewareOptions): { locale: string; path: string } {
+  const [, segment = '', ...rest] = pathname.split('/');
+  if (!locales.includes(segment)) return { locale: defaultLocale, path: pathname };
+
+  return { locale: segment, path: `/${rest.join('/')}` };
+}
+
+/** Whether the path is a route or sub-route of the given routes */
+const matchesRoute = (path: string, routes: readonly string[]): boolean => routes.some(route => path === route || path.startsWith(`${route}/`));
+
+/**
+ * Redirect while keeping the cookies set by previous steps (e.g. the locale cookie)
+ *
+ * @param url - Redirect target
+ * @param response - Response of the previous step
+ * @returns Redirect response
+ */
+function redirectWithCookies(url: URL, response: NextResponse): NextResponse {
+  const redirect = NextResponse.redirect(url);
+  for (const cookie of response.cookies.getAll()) {
+    redirect.cookies.set(cookie);
+  }
+  return redirect;
+}
+
+// ================================================================================================
+// Public API
+// ================================================================================================
+
+/**
+ * Create the route protection step of the middleware chain
+ *
+ * @param options - Locales of the app
+ * @returns Step redirecting between protected routes and auth pages
+ *
+ * @example
+ * const middleware = chainMiddleware(intlMiddleware, createAuthMiddleware({ locales, defaultLocale }));
+ * // GET /en/products?page=2 without session -> 307 /en/auth/signin?returnTo=%2Fen%2Fproducts%3Fpage%3D2
+ */
+export function createAuthMiddleware(options: AuthMiddlewareOptions): MiddlewareStep {
+  return (request, response) => {
+    // Locale redirects of next-intl come first; the redirected request runs the chain again
+    if (isRedirectResponse(response)) return response;
+
+    const { pathname, search, searchParams } = request.nextUrl;
+    const { locale, path } = splitLocale(pathname, options);
+    const isSignedIn = request.cookies.has(SESSION_PRESENCE_COOKIE);
+
+    if (!isSignedIn && matchesRoute(path, PROTECTED_ROUTES)) {
+      const signInUrl = new URL(`/${locale}${ROUTES.public.signin}`, request.url);
+      signInUrl.searchParams.set(RETURN_TO_PARAM, `${pathname}${search}`);
+      return redirectWithCookies(signInUrl, response);
+    }
+
+    if (isSignedIn && matchesRoute(path, [AUTH_ROUTE_PREFIX])) {
+      const target = sanitizeReturnTo(searchParams.get(RETURN_TO_PARAM)) ?? `/${locale}${ROUTES.protected.dashboard}`;
+      return redirectWithCookies(new URL(target, request.url), response);
+    }
+
+    return response;
+  };
+}
@@ -0,0 +1,56 @@
+/**
+ * Middleware Chain Module
+ *
+ * Composes the Next.js middleware from small steps:
+ * - A handler creates the response (e.g. next-intl, or NextResponse.next())
+ * - Each step receives the request and the response so far and returns the response to continue with
+ * - Steps run in order, so a step may replace the response (redirect) or decorate it (headers)
+ */
+
+import type { NextRequest, NextResponse } from 'next/server';
+
+// ================================================================================================
+// Type Definitions
+// ================================================================================================
+
+/** Creates the initial response of a request */
+export type MiddlewareHandler = (request: NextRequest) => NextResponse | Promise<NextResponse>;
+
+/** Replaces or decorates the response of the previous step */
+export type MiddlewareStep = (request: NextRequest, response: NextResponse) => NextResponse | Promise<NextResponse>;
+
+// ================================================================================================
+// Public API
+// ================================================================================================
+
+/**
+ * Run a handler followed by middleware steps
+ *
+ * @param handler - Creates the initial response
+ * @param steps - Steps applied in order to the response
+ * @returns Middleware handling a request through the whole chain
+ *
+ * @example
+ * export default chainMiddleware(intlMiddleware, authMiddleware, securityHeadersMiddleware);
+ */
+export function chainMiddleware(handler: MiddlewareHandler, ...steps: MiddlewareStep[]): MiddlewareHandler {
+  return async request => {
+    let response = await handler(request);
+
+    for (const step of steps) {
+      response = await step(request, response);
+    }
+
+    return response;
+  };
+}
+
+/**
+ * Whether a response already redirects (e.g. the locale redirect of next-intl)
+ *
+ * @param response - Response of a previous step
+ * @returns True when the response carries a Location header
+ */
+export function isRedirectResponse(response: NextResponse): boolean {
+  return response.headers.has('location');
+}
@@ -0,0 +1,48 @@
+/**
+ * Security Headers Middleware
+ *
+ * Last step of the middleware chain, applied to every page and backend response:
+ * - Blocks MIME sniffing and framing by other origins
+ * - Limits the referrer sent to other origins and disables unused browser features
+ * - Enforces HTTPS (HSTS) in production only, so local HTTP keeps working
+ */
+
+import type { MiddlewareStep } from './middleware.chain';
+
+// ================================================================================================
+// Constants
+// ================================================================================================
+
+/** Headers added to every response */
+export const SECURITY_HEADERS: Readonly<Record<string, string>> = {
+  'X-Content-Type-Options': 'nosniff',
+  'X-Frame-Options': 'DENY',
+  'Referrer-Policy': 'strict-origin-when-cross-origin',
+  'Permissions-Policy': 'camera=(), microphone=(), geolocation=()',
+};
+
+/** HSTS header value (two years, subdomains included) */
+const STRICT_TRANSPORT_SECURITY = 'max-age=63072000; includeSubDomains';
+
+// ================================================================================================
+// Public API
+// ================================================================================================
+
+/**
+ * Add the security headers to the response
+ *
+ * @param _request - Incoming request
+ * @param response - Response of the previous step
+ * @returns The same response with the security headers set
+ */
+export const securityHeadersMiddleware: MiddlewareStep = (_request, response) => {
+  for (const [name, value] of Object.entries(SECURITY_HEADERS)) {
+    response.headers.set(name, value);
+  }
+
+  if (process.env.NODE_ENV === 'production') {
+    response.headers.set('Strict-Transport-Security', STRICT_TRANSPORT_SECURITY);
+  }
+
+  return response;
+};
@@ -0,0 +1,100 @@
+import { AppError, ValidationError } from '@/shared/infra/errors/appError';
+import { ErrorCode } from '@/shared/infra/errors/error-codes';
+
+import { configureRedaction, DEFAULT_REDACTION_RULES, getRedactionConfig, redact, REDACTED_VALUE, redactText } from '../redaction';
+
+describe('redaction', () => {
+  describe('redact', () => {
+    it('redacts the default credential fields at any depth', () => {
+      const body = {
+        email: 'user@example.com',
+        password: 'Password123!',
+        confirmPassword: 'Password123!',
+        profile: { currentPassword: 'old', newPassword: 'new' },
+        otp: { code: '123456' },
+        tokens: [{ accessToken: 'a', refreshToken: 'r', expiresIn: 3600 }],
+        headers: { Authorization: 'Bearer abc', 'X-Api-Key': 'k' },
+        clientSecret: 's',
+      };
+
+      expect(redact(body)).toEqual({
+        email: 'user@example.com',
+        password: REDACTED_VALUE,
+        confirmPassword: REDACTED_VALUE,
+        profile: { currentPassword: REDACTED_VALUE, newPassword: REDACTED_VALUE },
+        otp: REDACTED_VALUE,
+        tokens: [{ accessToken: REDACTED_VALUE, refreshToken: REDACTED_VALUE, expiresIn: 3600 }],
+        headers: { Authorization: REDACTED_VALUE, 'X-Api-Key': REDACTED_VALUE },
+        clientSecret: REDACTED_VALUE,
+      });
+      expect(body.password).toBe('Password123!');
+    });
+
+    it('replaces secrets inside strings and keeps unchanged values by reference', () => {
+      const unchanged = { user: { id: '1', roles: ['admin'] } };
+
+      expect(redact('Authorization: Bearer abc.def-123')).toBe(`Authorization: Bearer ${REDACTED_VALUE}`);
+      expect(redact('/callback?token=xyz&page=2')).toBe(`/callback?token=${REDACTED_VALUE}&page=2`);
+      expect(redactText('jwt eyJhbGciOi.eyJzdWIiOi.c2lnbmF0dXJl')).toBe(`jwt ${REDACTED_VALUE}`);
+      expect(redact(unchanged)).toBe(unchanged);
+    });
+
+    it('copies errors with redacted details but keeps their code and prototype', () => {
+      const error = new AppError(ErrorCode.BAD_REQUEST, 'Invalid code', 400, { code: '123456', message: 'Invalid code' });
+
+      const redacted = redact(error);
+
+      expect(redacted).not.toBe(error);
+      expect(redacted).toBeInstanceOf(AppError);
+      expect(redacted.code).toBe(ErrorCode.BAD_REQUEST);
+      expect(redacted.statusCode).toBe(400);
+      expect(redacted.details).toEqual({ code: REDACTED_VALUE, message: 'Invalid code' });
+      expect(error.details).toEqual({ code: '123456', message: 'Invalid code' });
+
+      const clean = new ValidationError('Validation failed', { field: 'email' });
+      expect(redact(clean)).toBe(clean);
+    });
+
+    it('converts Headers and survives circular references', () => {
+      const circular: Record<string, unknown> = { password: 'x' };
+      circular.self = circular;
+
+      expect(redact({ headers: new Headers({ authorization: 'Bearer t', accept: 'application/json' }) })).toEqual({
+        headers: { authorization: REDACTED_VALUE, accept: 'application/json' },
+      });
+      const redacted = redact(circular);
+      expect(redacted.password).toBe(REDACTED_VALUE);
+      expect(redacted.self).toBe(redacted);
+    });
+  });
+
+  describe('configureRedaction', () => {
+    it('adds key-path, key and pattern rules and restores the previous configuration', () => {
+      const restore = configureRedaction({
+        rules: [{ path: 'payment.*.number' }, { key: /^ssn$/i }, { pattern: /\b\d{4}-\d{4}\b/g, replacement: '####' }],
+      });
+
+      expect(redact({ payment: { card: { number: '4111', brand: 'visa' } }, number: '1', SSN: '123', note: 'ref 1234-5678', password: 'x' })).toEqual(
+        {
+          payment: { card: { number: REDACTED_VALUE, brand: 'visa' } },
+          number: '1',
+          SSN: REDACTED_VALUE,
+          note: 'ref ####',
+          password: REDACTED_VALUE,
+        }
+      );
+
+      restore();
+      expect(getRedactionConfig().rules).toBe(DEFAULT_REDACTION_RULES);
+      expect(redact({ SSN: '123' })).toEqual({ SSN: '123' });
+    });
+
+    it('replaces the default rules and the replacement value', () => {
+      const restore = configureRedaction({ rules: [{ path: 'pin' }], replaceRules: true, replacement: '***' });
+
+      expect(redact({ pin: '0000', password: 'visible' })).toEqual({ pin: '***', password: 'visible' });
+
+      restore();
+    });
+  });
+});
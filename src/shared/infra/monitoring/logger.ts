@@ -1,3 +1,5 @@
+import { redact } from './redaction';
+
 const env = process.env.NODE_ENV;
 const isProduction = env === 'production';
 const isTest = env === 'test';
@@ -7,10 +9,13 @@ export function logError(error: Error, context?: Record<string, unknown>) {
     return;
   }
 
+  // Secrets in error details or context never reach the console or a reporting service
+  const safeError = redact(error);
+
   if (isProduction) {
-    console.error(error.message);
+    console.error(safeError.message);
   } else {
-    console.error('Error captured:', error, context);
+    console.error('Error captured:', safeError, redact(context));
   }
 }
 
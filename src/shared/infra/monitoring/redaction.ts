@@ -0,0 +1,293 @@
+/**
+ * Redaction Module
+ *
+ * Strips secrets from anything leaving the app through logs, telemetry or notifications:
+ * - Key-path rules ('password', 'headers.authorization', 'user.*.token'), matched case-insensitively
+ * - Key rules (RegExp tested against every property name)
+ * - Pattern rules (RegExp replaced inside every string, e.g. Bearer tokens and JWTs)
+ *
+ * redact() returns a copy and never mutates its input; unchanged branches keep their reference.
+ */
+
+// ================================================================================================
+// Type Definitions
+// ================================================================================================
+
+/**
+ * Redaction rule
+ *
+ * - `path`: dot-separated key path; `*` matches any one key. A path matches the end of
+ *   the full path, so 'password' redacts `password` at any depth.
+ * - `key`: RegExp (without the `g` flag) tested against property names at any depth.
+ * - `pattern`: RegExp replaced in string values (use the `g` flag); `replacement`
+ *   defaults to the configured replacement and may use `$1`-style groups.
+ */
+export type RedactionRule = { path: string } | { key: RegExp } | { pattern: RegExp; replacement?: string };
+
+/** Redaction configuration */
+export interface RedactionConfig {
+  /** Active rules (defaults: DEFAULT_REDACTION_RULES) */
+  rules: readonly RedactionRule[];
+
+  /** Value replacing redacted data (default: '[REDACTED]') */
+  replacement: string;
+}
+
+/** Options of configureRedaction */
+export interface ConfigureRedactionOptions {
+  /** Rules added to the current ones */
+  rules?: readonly RedactionRule[];
+
+  /** Replace the current rules instead of extending them */
+  replaceRules?: boolean;
+
+  /** Value replacing redacted data */
+  replacement?: string;
+}
+
+/** Compiled form of the configuration */
+interface CompiledRedaction {
+  paths: string[][];
+  keys: RegExp[];
+  patterns: { pattern: RegExp; replacement: string }[];
+  replacement: string;
+}
+
+// ================================================================================================
+// Constants
+// ================================================================================================
+
+/** Default value replacing redacted data */
+export const REDACTED_VALUE = '[REDACTED]';
+
+/** Rules applied unless replaced through configureRedaction */
+export const DEFAULT_REDACTION_RULES: readonly RedactionRule[] = [
+  { path: 'password' },
+  { path: 'confirmPassword' },
+  { path: 'currentPassword' },
+  { path: 'newPassword' },
+  { path: 'code' },
+  { path: 'otp' },
+  { path: 'accessToken' },
+  { path: 'refreshToken' },
+  { path: 'idToken' },
+  { path: 'authorization' },
+  { path: 'cookie' },
+  { path: 'set-cookie' },
+  { key: /secret|api[-_]?key|token$/i },
+  { pattern: /\b(Bearer|Basic)\s+[\w.~+/-]+=*/gi, replacement: `$1 ${REDACTED_VALUE}` },
+  { pattern: /\beyJ[\w-]+\.[\w-]+\.[\w-]+/g },
+  { pattern: /([?&](?:access_token|refresh_token|token)=)[^&#\s]*/gi, replacement: `$1${REDACTED_VALUE}` },
+];
+
+/** Deepest level redact() walks into; deeper values are replaced */
+const MAX_DEPTH = 20;
+
+/** Error fields describing the error itself (AppError code, status...), never redacted */
+const ERROR_METADATA_KEYS = new Set(['name', 'code', 'statusCode', 'timestamp']);
+
+// ================================================================================================
+// Configuration
+// ================================================================================================
+
+let redactionConfig: RedactionConfig = { rules: DEFAULT_REDACTION_RULES, replacement: REDACTED_VALUE };
+
+let compiledRedaction: CompiledRedaction | null = null;
+
+/**
+ * Compile the configured rules (cached until the configuration changes)
+ *
+ * @returns Lower-cased paths, key and pattern rules
+ */
+function getCompiledRedaction(): CompiledRedaction {
+  if (compiledRedaction) return compiledRedaction;
+
+  const compiled: CompiledRedaction = { paths: [], keys: [], patterns: [], replacement: redactionConfig.replacement };
+  for (const rule of redactionConfig.rules) {
+    if ('path' in rule) compiled.paths.push(rule.path.toLowerCase().split('.'));
+    else if ('key' in rule) compiled.keys.push(rule.key);
+    else compiled.patterns.push({ pattern: rule.pattern, replacement: rule.replacement ?? redactionConfig.replacement });
+  }
+
+  compiledRedaction = compiled;
+  return compiled;
+}
+
+/**
+ * Extend or replace the redaction rules
+ *
+ * @param options - Rules to add (or use instead) and the replacement value
+ * @returns Function restoring the previous configuration
+ *
+ * @example
+ * ```typescript
+ * configureRedaction({ rules: [{ path: 'payment.cardNumber' }, { pattern: /\b\d{16}\b/g }] });
+ * ```
+ */
+export function configureRedaction(options: ConfigureRedactionOptions): () => void {
+  const previous = redactionConfig;
+  const rules = options.rules ?? [];
+
+  redactionConfig = {
+    rules: options.replaceRules ? rules : [...previous.rules, ...rules],
+    replacement: options.replacement ?? previous.replacement,
+  };
+  compiledRedaction = null;
+
+  return () => {
+    redactionConfig = previous;
+    compiledRedaction = null;
+  };
+}
+
+/**
+ * Read the active redaction configuration
+ *
+ * @returns Current rules and replacement
+ */
+export function getRedactionConfig(): RedactionConfig {
+  return redactionConfig;
+}
+
+// ================================================================================================
+// Matching
+// ================================================================================================
+
+/**
+ * Check whether a key path ends with a rule path
+ *
+ * @param path - Lower-cased keys from the root to the value
+ * @param rulePath - Lower-cased rule segments
+ * @returns True when the rule applies
+ */
+function matchesPath(path: readonly string[], rulePath: readonly string[]): boolean {
+  if (rulePath.length > path.length) return false;
+
+  const offset = path.length - rulePath.length;
+  return rulePath.every((segment, index) => segment === '*' || segment === path[offset + index]);
+}
+
+/**
+ * Check whether the value at a key path must be redacted
+ *
+ * @param path - Keys from the root to the value
+ * @param compiled - Compiled rules
+ * @returns True when a path or key rule applies
+ */
+function isRedactedPath(path: readonly string[], compiled: CompiledRedaction): boolean {
+  const key = path[path.length - 1];
+  if (key === undefined) return false;
+
+  const lowerPath = path.map(segment => segment.toLowerCase());
+  return compiled.paths.some(rulePath => matchesPath(lowerPath, rulePath)) || compiled.keys.some(rule => rule.test(key));
+}
+
+/**
+ * Apply the pattern rules to a string
+ *
+ * @param text - Text that may contain secrets
+ * @returns Text with every pattern replaced
+ *
+ * @example
+ * ```typescript
+ * redactText('Authorization: Bearer abc.def'); // 'Authorization: Bearer [REDACTED]'
+ * ```
+ */
+export function redactText(text: string): string {
+  return getCompiledRedaction().patterns.reduce((result, { pattern, replacement }) => {
+    pattern.lastIndex = 0;
+    return result.replace(pattern, replacement);
+  }, text);
+}
+
+// ================================================================================================
+// Redaction
+// ================================================================================================
+
+/**
+ * Copy an error with redacted message and own properties, keeping its prototype
+ *
+ * @param error - Error to copy
+ * @param visit - Redaction of nested values
+ * @returns The same error when nothing changed, else a copy
+ */
+function redactErrorInstance(error: Error, visit: (value: unknown, key: string) => unknown): Error {
+  let changed = false;
+  const properties: Record<string, unknown> = {};
+
+  for (const [key, value] of Object.entries(error)) {
+    properties[key] = ERROR_METADATA_KEYS.has(key) ? value : visit(value, key);
+    changed ||= properties[key] !== value;
+  }
+
+  const message = redactText(error.message);
+  const stack = error.stack === undefined ? undefined : redactText(error.stack);
+  if (!changed && message === error.message && stack === error.stack) return error;
+
+  const copy = Object.assign(Object.create(Object.getPrototypeOf(error) as object) as Error, properties);
+  Object.defineProperty(copy, 'message', { value: message, writable: true, configurable: true });
+  Object.defineProperty(copy, 'stack', { value: stack, writable: true, configurable: true });
+  return copy;
+}
+
+/**
+ * Remove secrets from a value before it is logged, reported or displayed
+ *
+ * Objects, arrays, Headers and errors are copied; matching keys get the replacement value
+ * and strings go through the pattern rules. Unchanged branches keep their reference.
+ * The name, code, status and timestamp of errors are kept as they are.
+ *
+ * @param value - Any value (log context, error, HTTP event, response body)
+ * @returns Redacted copy
+ *
+ * @example
+ * ```typescript
+ * redact({ email: 'a@b.c', password: 'secret' }); // { email: 'a@b.c', password: '[REDACTED]' }
+ * logger(redact(event));
+ * ```
+ */
+export function redact<T>(value: T): T {
+  const compiled = getCompiledRedaction();
+  const seen = new WeakMap<object, unknown>();
+
+  const visit = (current: unknown, path: string[]): unknown => {
+    if (isRedactedPath(path, compiled)) return current === undefined || current === null ? current : compiled.replacement;
+    if (typeof current === 'string') return redactText(current);
+    if (!current || typeof current !== 'object') return current;
+    if (path.length >= MAX_DEPTH) return compiled.replacement;
+    if (seen.has(current)) return seen.get(current);
+
+    const visitChild = (child: unknown, key: string) => visit(child, [...path, key]);
+
+    if (current instanceof Error) {
+      seen.set(current, current);
+      const result = redactErrorInstance(current, visitChild);
+      seen.set(current, result);
+      return result;
+    }
+
+    if (typeof Headers !== 'undefined' && current instanceof Headers) {
+      return visit(Object.fromEntries(current.entries()), path);
+    }
+
+    const prototype = Object.getPrototypeOf(current) as unknown;
+    if (!Array.isArray(current) && prototype !== Object.prototype && prototype !== null) return current;
+
+    // Register the copy first: references back to this object point to the copy, which also
+    // marks every object on the cycle as changed so none of them leaks its original
+    const copy: Record<string, unknown> = Array.isArray(current) ? ([] as unknown as Record<string, unknown>) : {};
+    seen.set(current, copy);
+
+    let changed = false;
+    for (const [key, child] of Object.entries(current)) {
+      copy[key] = visitChild(child, key);
+      changed ||= copy[key] !== child;
+    }
+
+    const result = changed ? copy : current;
+    seen.set(current, result);
+    return result;
+  };
+
+  return visit(value, []) as T;
+}
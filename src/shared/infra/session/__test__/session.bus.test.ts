@@ -0,0 +1,120 @@
+import {
+  publishSessionEvent,
+  resetSessionBus,
+  runAsRefreshLeader,
+  type SessionEvent,
+  subscribeSessionEvents,
+} from '@/shared/infra/session/session.bus';
+
+const EVENT_KEY = 'app:session-event';
+const LEASE_KEY = 'app:session-refresh-lease';
+
+// Event published by another tab, as it arrives through the storage fallback
+const receiveFromOtherTab = (event: SessionEvent, source = 'other-tab') => {
+  globalThis.window.dispatchEvent(new StorageEvent('storage', { key: EVENT_KEY, newValue: JSON.stringify({ source, event }) }));
+};
+
+describe('session bus', () => {
+  afterEach(() => {
+    resetSessionBus();
+    localStorage.clear();
+    jest.useRealTimers();
+  });
+
+  it('delivers events of other tabs until unsubscribed', () => {
+    const listener = jest.fn();
+    const unsubscribe = subscribeSessionEvents(listener);
+
+    receiveFromOtherTab({ type: 'logout' });
+    globalThis.window.dispatchEvent(new StorageEvent('storage', { key: EVENT_KEY, newValue: null }));
+    globalThis.window.dispatchEvent(new StorageEvent('storage', { key: 'unrelated', newValue: '{}' }));
+    unsubscribe();
+    receiveFromOtherTab({ type: 'logout' });
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener).toHaveBeenCalledWith({ type: 'logout' });
+  });
+
+  it('publishes through localStorage without BroadcastChannel and removes the entry again', () => {
+    const setItem = jest.spyOn(Storage.prototype, 'setItem');
+
+    publishSessionEvent({ type: 'token-refreshed', expiresAt: 1_000 });
+    publishSessionEvent({ type: 'login', user: { id: 'u1' } });
+
+    const [key, value] = setItem.mock.calls[0];
+    expect(key).toBe(EVENT_KEY);
+    expect(JSON.parse(value).event).toEqual({ type: 'token-refreshed', expiresAt: 1_000 });
+    expect(JSON.parse(setItem.mock.calls[1][1]).event).toEqual({ type: 'login', user: { id: 'u1' } });
+    expect(localStorage.getItem(EVENT_KEY)).toBeNull();
+    setItem.mockRestore();
+  });
+
+  it('uses BroadcastChannel when available and ignores its own messages', () => {
+    const posted: unknown[] = [];
+    let receive: ((event: MessageEvent) => void) | undefined;
+    class FakeChannel {
+      postMessage = (message: unknown) => posted.push(message);
+      addEventListener = (_type: string, handler: (event: MessageEvent) => void) => {
+        receive = handler;
+      };
+      close = jest.fn();
+    }
+    (globalThis as { BroadcastChannel?: unknown }).BroadcastChannel = FakeChannel;
+
+    const listener = jest.fn();
+    subscribeSessionEvents(listener);
+    publishSessionEvent({ type: 'logout' });
+
+    receive?.({ data: posted[0] } as MessageEvent);
+    receive?.({ data: { source: 'other-tab', event: { type: 'user-updated', user: { id: 'u1' } } } } as MessageEvent);
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener).toHaveBeenCalledWith({ type: 'user-updated', user: { id: 'u1' } });
+    delete (globalThis as { BroadcastChannel?: unknown }).BroadcastChannel;
+  });
+
+  describe('runAsRefreshLeader', () => {
+    it('refreshes in the tab that claims the lease and releases it afterwards', async () => {
+      const refresh = jest.fn(async () => true);
+
+      await expect(runAsRefreshLeader(refresh)).resolves.toBe(true);
+
+      expect(refresh).toHaveBeenCalledTimes(1);
+      expect(localStorage.getItem(LEASE_KEY)).toBeNull();
+    });
+
+    it('relies on the refresh announced by the leader instead of refreshing', async () => {
+      localStorage.setItem(LEASE_KEY, JSON.stringify({ owner: 'other-tab', expiresAt: Date.now() + 10_000 }));
+      const refresh = jest.fn(async () => true);
+
+      const isRefreshed = runAsRefreshLeader(refresh);
+      receiveFromOtherTab({ type: 'token-refreshed', expiresAt: Date.now() + 60_000 });
+
+      await expect(isRefreshed).resolves.toBe(true);
+      expect(refresh).not.toHaveBeenCalled();
+    });
+
+    it('reports the end of the session when the leader logs out', async () => {
+      localStorage.setItem(LEASE_KEY, JSON.stringify({ owner: 'other-tab', expiresAt: Date.now() + 10_000 }));
+      const refresh = jest.fn(async () => true);
+
+      const isRefreshed = runAsRefreshLeader(refresh);
+      receiveFromOtherTab({ type: 'logout' });
+
+      await expect(isRefreshed).resolves.toBe(false);
+      expect(refresh).not.toHaveBeenCalled();
+    });
+
+    it('refreshes itself when the leader never answers', async () => {
+      jest.useFakeTimers();
+      localStorage.setItem(LEASE_KEY, JSON.stringify({ owner: 'other-tab', expiresAt: Date.now() + 60_000 }));
+      const refresh = jest.fn(async () => true);
+
+      const isRefreshed = runAsRefreshLeader(refresh, { timeoutMs: 5_000 });
+      await jest.advanceTimersByTimeAsync(5_000);
+
+      await expect(isRefreshed).resolves.toBe(true);
+      expect(refresh).toHaveBeenCalledTimes(1);
+    });
+  });
+});
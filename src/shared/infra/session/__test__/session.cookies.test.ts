@@ -0,0 +1,75 @@
+import {
+  clearSessionCookies,
+  resolveSessionAuthorizationHeaders,
+  SESSION_ACCESS_TOKEN_COOKIE,
+  SESSION_PRESENCE_COOKIE,
+  SESSION_REFRESH_TOKEN_COOKIE,
+  setSessionCookies,
+} from '@/shared/infra/session/session.cookies';
+
+// Incoming request with the given cookies and headers
+const createRequest = (cookies: Record<string, string>, headers: Record<string, string> = {}) => ({
+  headers: new Headers(headers),
+  cookies: { get: (name: string) => (name in cookies ? { value: cookies[name] } : undefined) },
+});
+
+describe('session cookies', () => {
+  it('stores both tokens in httpOnly cookies, the access cookie expiring with the token', () => {
+    const cookies = { set: jest.fn() };
+    const now = Date.UTC(2025, 0, 1);
+
+    setSessionCookies(cookies, { accessToken: 'acc', refreshToken: 'ref', expiresAt: now + 900_000 }, { now });
+
+    expect(cookies.set).toHaveBeenCalledWith(SESSION_ACCESS_TOKEN_COOKIE, 'acc', {
+      httpOnly: true,
+      sameSite: 'lax',
+      secure: false,
+      path: '/',
+      maxAge: 900,
+    });
+    expect(cookies.set).toHaveBeenCalledWith(
+      SESSION_REFRESH_TOKEN_COOKIE,
+      'ref',
+      expect.objectContaining({ httpOnly: true, path: '/api/session', maxAge: 30 * 24 * 60 * 60 })
+    );
+    expect(cookies.set).toHaveBeenCalledWith(SESSION_PRESENCE_COOKIE, '1', expect.objectContaining({ path: '/', maxAge: 30 * 24 * 60 * 60 }));
+  });
+
+  it('keeps the refresh cookie when no new refresh token is issued', () => {
+    const cookies = { set: jest.fn() };
+
+    setSessionCookies(cookies, { accessToken: 'acc' });
+
+    expect(cookies.set).toHaveBeenCalledTimes(1);
+    expect(cookies.set).toHaveBeenCalledWith(SESSION_ACCESS_TOKEN_COOKIE, 'acc', expect.not.objectContaining({ maxAge: expect.anything() }));
+  });
+
+  it('marks a sign-in without refresh token as signed in for as long as the access cookie', () => {
+    const cookies = { set: jest.fn() };
+    const now = Date.UTC(2025, 0, 1);
+
+    setSessionCookies(cookies, { accessToken: 'acc', expiresAt: now + 900_000 }, { isSignIn: true, now });
+
+    expect(cookies.set).toHaveBeenCalledTimes(2);
+    expect(cookies.set).toHaveBeenCalledWith(SESSION_PRESENCE_COOKIE, '1', expect.objectContaining({ path: '/', maxAge: 900 }));
+  });
+
+  it('expires all session cookies on clear', () => {
+    const cookies = { set: jest.fn() };
+
+    clearSessionCookies(cookies);
+
+    expect(cookies.set).toHaveBeenCalledWith(SESSION_ACCESS_TOKEN_COOKIE, '', expect.objectContaining({ path: '/', maxAge: 0 }));
+    expect(cookies.set).toHaveBeenCalledWith(SESSION_REFRESH_TOKEN_COOKIE, '', expect.objectContaining({ path: '/api/session', maxAge: 0 }));
+    expect(cookies.set).toHaveBeenCalledWith(SESSION_PRESENCE_COOKIE, '', expect.objectContaining({ path: '/', maxAge: 0 }));
+  });
+
+  it('turns the access cookie into a Bearer header unless the request already sends one', () => {
+    const headers = resolveSessionAuthorizationHeaders(createRequest({ [SESSION_ACCESS_TOKEN_COOKIE]: 'acc' }, { accept: 'application/json' }));
+
+    expect(headers?.get('authorization')).toBe('Bearer acc');
+    expect(headers?.get('accept')).toBe('application/json');
+    expect(resolveSessionAuthorizationHeaders(createRequest({}))).toBeNull();
+    expect(resolveSessionAuthorizationHeaders(createRequest({ [SESSION_ACCESS_TOKEN_COOKIE]: 'acc' }, { authorization: 'Bearer mem' }))).toBeNull();
+  });
+});
@@ -0,0 +1,350 @@
+/**
+ * Session Bus Module
+ *
+ * Keeps the signed-in session in step across browser tabs:
+ * - Tabs announce login, logout, token refreshes and user updates to each other
+ * - BroadcastChannel when available, otherwise a localStorage write picked up through `storage` events
+ * - Events never carry a token: both tokens stay in httpOnly cookies, only their expiry is shared
+ * - Events are never delivered back to the tab that published them
+ * - runAsRefreshLeader() lets a single tab refresh the session; the other tabs wait for its outcome
+ * - runInSingleTab() runs any other shared task (e.g. the offline queue replay) in one tab at a time
+ */
+
+import { logError } from '@/shared/infra/monitoring/logger';
+import { local } from '@/shared/utils/storage';
+
+// ================================================================================================
+// Type Definitions
+// ================================================================================================
+
+/**
+ * Session change announced to the other tabs
+ *
+ * `expiresAt` is the access token expiry (epoch milliseconds), absent for opaque tokens.
+ */
+export type SessionEvent<TUser = unknown> =
+  | { type: 'login'; expiresAt?: number; user: TUser | null }
+  | { type: 'logout' }
+  | { type: 'token-refreshed'; expiresAt?: number }
+  | { type: 'user-updated'; user: TUser | null };
+
+/** Receives the session events of the other tabs */
+export type SessionEventListener<TUser = unknown> = (event: SessionEvent<TUser>) => void;
+
+/** Event as sent over the transport */
+interface SessionMessage {
+  /** Tab that published the event */
+  source: string;
+  event: SessionEvent;
+}
+
+/** Options of runAsRefreshLeader() */
+export interface RefreshLeaderOptions {
+  /** How long to wait for the leader */
+  timeoutMs?: number;
+}
+
+/** Tab lock lease used when the Web Locks API is not available */
+interface TabLease {
+  /** Tab holding the lease */
+  owner: string;
+
+  /** When the lease lapses (milliseconds) */
+  expiresAt: number;
+}
+
+// ================================================================================================
+// Constants
+// ================================================================================================
+
+const SESSION_CHANNEL_NAME = 'app:session';
+
+/** localStorage key carrying events when BroadcastChannel is not available */
+const SESSION_EVENT_STORAGE_KEY = 'app:session-event';
+
+const REFRESH_LOCK_NAME = 'app:session-refresh';
+
+/** How long other tabs wait for the leader's refresh before refreshing themselves */
+export const SESSION_REFRESH_TIMEOUT_MS = 15_000;
+
+// ================================================================================================
+// Global State - tab identity, listeners and transport
+// ================================================================================================
+
+/** Identifies this tab in published events and lock leases */
+const tabId: string =
+  typeof globalThis.crypto?.randomUUID === 'function' ? globalThis.crypto.randomUUID() : `${Date.now()}-${Math.random().toString(36).slice(2)}`;
+
+const listeners = new Set<SessionEventListener>();
+
+let channel: BroadcastChannel | null = null;
+let isStorageTransport = false;
+
+// ================================================================================================
+// Transport
+// ================================================================================================
+
+/**
+ * Check the shape of a received message
+ *
+ * @param value - Message data
+ * @returns Whether it is a session message
+ */
+function isSessionMessage(value: unknown): value is SessionMessage {
+  if (!value || typeof value !== 'object') return false;
+  const message = value as Partial<SessionMessage>;
+  return typeof message.source === 'string' && typeof message.event?.type === 'string';
+}
+
+/**
+ * Hand a received message to the listeners, unless this tab sent it
+ *
+ * @param value - Message data
+ */
+function deliver(value: unknown): void {
+  if (!isSessionMessage(value) || value.source === tabId) return;
+
+  for (const listener of [...listeners]) {
+    try {
+      listener(value.event);
+    } catch (error) {
+      logError(error instanceof Error ? error : new Error(String(error)), { source: 'session-bus', event: value.event.type });
+    }
+  }
+}
+
+function handleChannelMessage(event: MessageEvent): void {
+  deliver(event.data);
+}
+
+function handleStorageEvent(event: StorageEvent): void {
+  // The key is removed right after it is written; only the write carries an event
+  if (event.key !== SESSION_EVENT_STORAGE_KEY || !event.newValue) return;
+
+  try {
+    deliver(JSON.parse(event.newValue));
+  } catch {
+    // Ignore values this module did not write
+  }
+}
+
+/**
+ * Open the transport on first use (no-op during SSR)
+ *
+ * @returns Whether a transport is available
+ */
+function ensureTransport(): boolean {
+  if (globalThis.window === undefined) return false;
+  if (channel || isStorageTransport) return true;
+
+  if (typeof globalThis.BroadcastChannel === 'function') {
+    channel = new BroadcastChannel(SESSION_CHANNEL_NAME);
+    channel.addEventListener('message', handleChannelMessage);
+  } else {
+    globalThis.window.addEventListener('storage', handleStorageEvent);
+    isStorageTransport = true;
+  }
+
+  return true;
+}
+
+// ================================================================================================
+// Public API - events
+// ================================================================================================
+
+/**
+ * Announce a session change to the other tabs
+ *
+ * Without BroadcastChannel the event is written to localStorage and removed again at once,
+ * which still fires a `storage` event in every other tab.
+ *
+ * @param event - Session change
+ *
+ * @example
+ * publishSessionEvent({ type: 'logout' });
+ */
+export function publishSessionEvent<TUser>(event: SessionEvent<TUser>): void {
+  if (!ensureTransport()) return;
+
+  if (channel) {
+    channel.postMessage({ source: tabId, event } satisfies SessionMessage);
+    return;
+  }
+
+  local.set<SessionMessage>(SESSION_EVENT_STORAGE_KEY, { source: tabId, event });
+  local.remove(SESSION_EVENT_STORAGE_KEY);
+}
+
+/**
+ * Listen to the session changes of the other tabs
+ *
+ * @param listener - Called with every event published by another tab
+ * @returns Function removing the listener
+ *
+ * @example
+ * useEffect(() => subscribeSessionEvents(event => {
+ *   if (event.type === 'logout') clearLocalSession();
+ * }), []);
+ */
+export function subscribeSessionEvents<TUser = unknown>(listener: SessionEventListener<TUser>): () => void {
+  ensureTransport();
+  listeners.add(listener as SessionEventListener);
+
+  return () => {
+    listeners.delete(listener as SessionEventListener);
+  };
+}
+
+// ================================================================================================
+// Tab Locks
+// ================================================================================================
+
+/**
+ * Claim a localStorage lease
+ *
+ * Two tabs may claim at the same moment; reading the lease back lets the last write win.
+ *
+ * @param storageKey - localStorage key of the lease
+ * @param ttlMs - Lease lifetime
+ * @returns Whether this tab holds the lease
+ */
+function claimLease(storageKey: string, ttlMs: number): boolean {
+  const now = Date.now();
+  const lease = local.get<TabLease>(storageKey);
+  if (lease && lease.owner !== tabId && lease.expiresAt > now) return false;
+
+  local.set<TabLease>(storageKey, { owner: tabId, expiresAt: now + ttlMs });
+  return local.get<TabLease>(storageKey)?.owner === tabId;
+}
+
+function releaseLease(storageKey: string): void {
+  if (local.get<TabLease>(storageKey)?.owner === tabId) {
+    local.remove(storageKey);
+  }
+}
+
+/**
+ * Run a task unless another tab is running it
+ *
+ * Uses the Web Locks API, or a localStorage lease (`<lockName>-lease`) lapsing after
+ * `ttlMs` when a tab is closed while holding it. The task runs directly during SSR.
+ *
+ * @param lockName - Name of the lock shared by all tabs
+ * @param task - Task to run while holding the lock
+ * @param ttlMs - Lease lifetime (localStorage fallback)
+ * @returns The task result, or undefined when another tab holds the lock
+ *
+ * @example
+ * const outcome = await runInSingleTab('app:offline-replay', drainQueue, 60_000);
+ * if (!outcome) return; // another tab is replaying
+ */
+export async function runInSingleTab<T>(lockName: string, task: () => Promise<T>, ttlMs: number): Promise<{ result: T } | undefined> {
+  if (globalThis.window === undefined) return { result: await task() };
+
+  const locks = globalThis.navigator?.locks;
+
+  if (locks) {
+    return locks.request(lockName, { ifAvailable: true }, async lock => (lock ? { result: await task() } : undefined));
+  }
+
+  const leaseKey = `${lockName}-lease`;
+  if (!claimLease(leaseKey, ttlMs)) return undefined;
+
+  try {
+    return { result: await task() };
+  } finally {
+    releaseLease(leaseKey);
+  }
+}
+
+// ================================================================================================
+// Refresh Leader Election
+// ================================================================================================
+
+/**
+ * Wait for the leader tab to announce the outcome of its refresh
+ *
+ * @param timeoutMs - How long to wait
+ * @returns The outcome (true after a refresh, false after a logout; undefined on timeout) and a function to stop waiting
+ */
+function awaitLeaderRefresh(timeoutMs: number): { outcome: Promise<boolean | undefined>; stop: () => void } {
+  let stop: () => void = () => undefined;
+
+  const outcome = new Promise<boolean | undefined>(resolve => {
+    // Both are assigned before an event or the timeout can settle the wait
+    const settle = (value: boolean | undefined) => {
+      clearTimeout(timer);
+      unsubscribe();
+      resolve(value);
+    };
+
+    const unsubscribe = subscribeSessionEvents(event => {
+      if (event.type === 'token-refreshed') settle(true);
+      else if (event.type === 'logout') settle(false);
+    });
+    const timer = setTimeout(() => settle(undefined), timeoutMs);
+    stop = () => settle(undefined);
+  });
+
+  return { outcome, stop };
+}
+
+/**
+ * Refresh the session in a single tab
+ *
+ * The tab that takes the refresh lock (Web Locks API, or a localStorage lease) runs
+ * `refresh` and is expected to publish `token-refreshed`. Other tabs wait for that event
+ * instead of spending the same refresh cookie (the refreshed access cookie is shared by
+ * every tab); when no event arrives within `timeoutMs` (the leader was closed) they
+ * refresh themselves.
+ *
+ * @param refresh - Session refresh, publishing `token-refreshed` on success
+ * @param options - Leader timeout
+ * @returns Whether the session was refreshed (false when it ended)
+ *
+ * @example
+ * const isRefreshed = await runAsRefreshLeader(async () => {
+ *   const { expiresAt } = await authService.refreshSession();
+ *   publishSessionEvent({ type: 'token-refreshed', expiresAt });
+ *   return true;
+ * });
+ */
+export async function runAsRefreshLeader(
+  refresh: () => Promise<boolean>,
+  { timeoutMs = SESSION_REFRESH_TIMEOUT_MS }: RefreshLeaderOptions = {}
+): Promise<boolean> {
+  if (!ensureTransport()) return refresh();
+
+  // Listen before trying the lock, so a leader finishing in between is not missed
+  const leader = awaitLeaderRefresh(timeoutMs);
+
+  let outcomeAsLeader: { result: boolean } | undefined;
+  try {
+    outcomeAsLeader = await runInSingleTab(REFRESH_LOCK_NAME, refresh, timeoutMs);
+  } catch (error) {
+    leader.stop();
+    throw error;
+  }
+
+  if (outcomeAsLeader) {
+    leader.stop();
+    return outcomeAsLeader.result;
+  }
+
+  const outcome = await leader.outcome;
+  return outcome === undefined ? refresh() : outcome;
+}
+
+/**
+ * Close the transport and drop every listener
+ */
+export function resetSessionBus(): void {
+  listeners.clear();
+  channel?.close();
+  channel = null;
+
+  if (isStorageTransport) {
+    globalThis.window?.removeEventListener('storage', handleStorageEvent);
+    isStorageTransport = false;
+  }
+}
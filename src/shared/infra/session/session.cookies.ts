@@ -0,0 +1,155 @@
+/**
+ * Session Cookies Module
+ *
+ * Server-side storage of the session tokens (route handlers and middleware only):
+ * - Access and refresh tokens live in httpOnly, SameSite=Lax cookies that scripts cannot read
+ * - The access cookie expires with the token; the refresh cookie is only sent to /api/session
+ * - A session cookie without token marks signed-in browsers for the route protection of the middleware
+ * - Requests forwarded to the backend through the /api/v1 rewrite get the access cookie as Bearer token
+ */
+
+// ================================================================================================
+// Type Definitions
+// ================================================================================================
+
+/** Tokens issued by the backend for one session */
+export interface SessionTokens {
+  accessToken: string;
+  refreshToken?: string;
+
+  /** Access token expiry (epoch milliseconds), when known */
+  expiresAt?: number;
+}
+
+/** Options of setSessionCookies() */
+export interface SetSessionCookiesOptions {
+  /** Whether the tokens start a new session (sign-in) rather than refresh one */
+  isSignIn?: boolean;
+
+  /** Current time (epoch milliseconds) */
+  now?: number;
+}
+
+/** Cookie options understood by Next.js response cookies */
+interface SessionCookieOptions {
+  httpOnly: boolean;
+  sameSite: 'lax';
+  secure: boolean;
+  path: string;
+  maxAge?: number;
+}
+
+/** Writable response cookies (NextResponse.cookies) */
+type ResponseCookies = {
+  set: (name: string, value: string, options: SessionCookieOptions) => unknown;
+};
+
+/** Incoming request (NextRequest) */
+type SessionRequest = {
+  headers: Headers;
+  cookies: { get: (name: string) => { value: string } | undefined };
+};
+
+// ================================================================================================
+// Constants
+// ================================================================================================
+
+/** Cookie holding the access token (also read by the server HTTP client) */
+export const SESSION_ACCESS_TOKEN_COOKIE = 'access_token';
+
+/** Cookie holding the refresh token */
+export const SESSION_REFRESH_TOKEN_COOKIE = 'refresh_token';
+
+/** Cookie marking a signed-in browser (no token); lives as long as the refresh cookie, or the access cookie without one */
+export const SESSION_PRESENCE_COOKIE = 'session';
+
+/** Lifetime of the refresh cookie; the backend still decides whether the token is valid */
+const REFRESH_TOKEN_MAX_AGE_SECONDS = 30 * 24 * 60 * 60;
+
+/** Only the session route handlers need the refresh token */
+const REFRESH_TOKEN_COOKIE_PATH = '/api/session';
+
+// ================================================================================================
+// Cookie Helpers
+// ================================================================================================
+
+/**
+ * Build the options of a session cookie
+ *
+ * @param path - Cookie path
+ * @param maxAge - Lifetime in seconds (browser session when omitted)
+ * @returns httpOnly, SameSite=Lax cookie options, Secure in production
+ */
+function createCookieOptions(path: string, maxAge?: number): SessionCookieOptions {
+  return {
+    httpOnly: true,
+    sameSite: 'lax',
+    secure: process.env.NODE_ENV === 'production',
+    path,
+    ...(maxAge === undefined ? {} : { maxAge }),
+  };
+}
+
+// ================================================================================================
+// Public API
+// ================================================================================================
+
+/**
+ * Store the session tokens in httpOnly cookies
+ *
+ * @param cookies - Response cookies
+ * @param tokens - Tokens issued by the backend
+ * @param options - Whether the tokens come from a sign-in, and the current time
+ *
+ * @example
+ * const response = NextResponse.json(body);
+ * setSessionCookies(response.cookies, { accessToken, refreshToken, expiresAt }, { isSignIn: true });
+ */
+export function setSessionCookies(
+  cookies: ResponseCookies,
+  tokens: SessionTokens,
+  { isSignIn = false, now = Date.now() }: SetSessionCookiesOptions = {}
+): void {
+  const accessMaxAge = tokens.expiresAt === undefined ? undefined : Math.max(0, Math.floor((tokens.expiresAt - now) / 1000));
+  cookies.set(SESSION_ACCESS_TOKEN_COOKIE, tokens.accessToken, createCookieOptions('/', accessMaxAge));
+
+  if (tokens.refreshToken) {
+    cookies.set(SESSION_REFRESH_TOKEN_COOKIE, tokens.refreshToken, createCookieOptions(REFRESH_TOKEN_COOKIE_PATH, REFRESH_TOKEN_MAX_AGE_SECONDS));
+    cookies.set(SESSION_PRESENCE_COOKIE, '1', createCookieOptions('/', REFRESH_TOKEN_MAX_AGE_SECONDS));
+  } else if (isSignIn) {
+    // A session without refresh token ends with its access token
+    cookies.set(SESSION_PRESENCE_COOKIE, '1', createCookieOptions('/', accessMaxAge));
+  }
+  // A refresh without a new refresh token keeps the current refresh and session cookies
+}
+
+/**
+ * Expire all session cookies
+ *
+ * @param cookies - Response cookies
+ */
+export function clearSessionCookies(cookies: ResponseCookies): void {
+  cookies.set(SESSION_ACCESS_TOKEN_COOKIE, '', createCookieOptions('/', 0));
+  cookies.set(SESSION_REFRESH_TOKEN_COOKIE, '', createCookieOptions(REFRESH_TOKEN_COOKIE_PATH, 0));
+  cookies.set(SESSION_PRESENCE_COOKIE, '', createCookieOptions('/', 0));
+}
+
+/**
+ * Headers of a backend request with the access cookie turned into a Bearer token
+ *
+ * @param request - Incoming request
+ * @returns Headers to forward, or null when there is no cookie or the request already sends Authorization
+ *
+ * @example
+ * // middleware.ts, for requests sent through the /api/v1 rewrite
+ * const headers = resolveSessionAuthorizationHeaders(request);
+ * return headers ? NextResponse.next({ request: { headers } }) : NextResponse.next();
+ */
+export function resolveSessionAuthorizationHeaders(request: SessionRequest): Headers | null {
+  const accessToken = request.cookies.get(SESSION_ACCESS_TOKEN_COOKIE)?.value;
+  if (!accessToken || request.headers.has('authorization')) return null;
+
+  const headers = new Headers(request.headers);
+  headers.set('Authorization', `Bearer ${accessToken}`);
+  return headers;
+}
@@ -15,12 +15,21 @@ const ClientHttpLoadingBridge = dynamic(
   { ssr: false }
 );
 
+const ClientOfflineQueueBridge = dynamic(
+  async () => {
+    const mod = await import('@/shared/providers/bridges/OfflineQueueBridge');
+    return { default: mod.OfflineQueueBridge };
+  },
+  { ssr: false }
+);
+
 export function RecoilProvider({ children }: Readonly<{ children: ReactNode }>) {
   return (
     <ErrorBoundary>
       <AppRecoilRoot>
         <RouterBridge />
         <ClientHttpLoadingBridge />
+        <ClientOfflineQueueBridge />
         {children}
       </AppRecoilRoot>
     </ErrorBoundary>
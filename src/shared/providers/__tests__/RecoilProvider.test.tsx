@@ -15,10 +15,13 @@ jest.mock('@/shared/providers/bridges/RouterBridge', () => ({
   RouterBridge: () => <div data-testid="router-bridge" />,
 }));
 
-// Mock next/dynamic to return a fixed component marker for ClientHttpLoadingBridge
+// Mock next/dynamic to return a marker per client bridge, in declaration order
 jest.mock('next/dynamic', () => {
+  const markers = ['client-http-loading-bridge', 'client-offline-queue-bridge'];
+  let createdCount = 0;
   return () => {
-    const Client = () => <div data-testid="client-http-loading-bridge" />;
+    const testId = markers[createdCount++];
+    const Client = () => <div data-testid={testId} />;
     return Client as any;
   };
 });
@@ -57,7 +60,7 @@ describe('RecoilProvider (TDD)', () => {
     expect(container.innerHTML.indexOf('error-boundary')).toBeLessThan(container.innerHTML.length);
   });
 
-  it('includes RouterBridge and ClientHttpLoadingBridge markers', () => {
+  it('includes RouterBridge and the client bridge markers', () => {
     render(
       <RecoilProvider>
         <div>content</div>
@@ -66,6 +69,7 @@ describe('RecoilProvider (TDD)', () => {
 
     expect(screen.getByTestId('router-bridge')).toBeInTheDocument();
     expect(screen.getByTestId('client-http-loading-bridge')).toBeInTheDocument();
+    expect(screen.getByTestId('client-offline-queue-bridge')).toBeInTheDocument();
   });
 
   it('renders multiple children correctly', () => {
@@ -0,0 +1,44 @@
+'use client';
+
+import { useEffect } from 'react';
+import { useRecoilValue, useSetRecoilState } from 'recoil';
+
+import { authBootstrapState, authSessionState } from '@/app/[locale]/(public)/auth/(_lib)/model/auth.atoms';
+import { getOfflineQueue, OFFLINE_QUEUE_STORAGE_KEY, startOfflineQueueSync, subscribeOfflineQueue } from '@/shared/infra/http/http.offline';
+import { offlineQueueSizeState } from '@/shared/state/atoms/offline.atoms';
+
+export const OfflineQueueBridge = () => {
+  const setQueueSize = useSetRecoilState(offlineQueueSizeState);
+  const hasBootstrapped = useRecoilValue(authBootstrapState);
+  const hasSession = useRecoilValue(authSessionState);
+
+  // Replaying before the session is restored would end in a 401 and a logout that drops the queue
+  const canReplay = hasBootstrapped && hasSession;
+
+  useEffect(() => {
+    const syncQueueSize = () => setQueueSize(getOfflineQueue().length);
+
+    // Queue events only cover this tab; another tab queuing or replaying shows up as a storage event
+    // (a null key means the whole localStorage was cleared)
+    const handleStorage = (event: StorageEvent) => {
+      if (event.key === OFFLINE_QUEUE_STORAGE_KEY || event.key === null) syncQueueSize();
+    };
+
+    syncQueueSize();
+    globalThis.window.addEventListener('storage', handleStorage);
+    const unsubscribe = subscribeOfflineQueue(syncQueueSize);
+
+    return () => {
+      globalThis.window.removeEventListener('storage', handleStorage);
+      unsubscribe();
+    };
+  }, [setQueueSize]);
+
+  useEffect(() => {
+    if (!canReplay) return;
+
+    return startOfflineQueueSync();
+  }, [canReplay]);
+
+  return null;
+};
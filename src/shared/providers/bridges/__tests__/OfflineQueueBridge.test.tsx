@@ -0,0 +1,116 @@
+import { act, cleanup, render } from '@testing-library/react';
+import type { MutableSnapshot } from 'recoil';
+import { RecoilRoot, useRecoilValue } from 'recoil';
+
+import { authBootstrapState, authSessionState } from '@/app/[locale]/(public)/auth/(_lib)/model/auth.atoms';
+import { offlineQueueSizeState } from '@/shared/state/atoms/offline.atoms';
+
+// Mock the offline queue so we can drive queue events from the test
+const mockStopSync = jest.fn();
+const mockStartSync = jest.fn(() => mockStopSync);
+const mockQueue: unknown[] = [];
+let mockListener: (() => void) | null = null;
+const mockUnsubscribe = jest.fn(() => {
+  mockListener = null;
+});
+jest.mock('@/shared/infra/http/http.offline', () => ({
+  OFFLINE_QUEUE_STORAGE_KEY: 'httpOfflineQueue',
+  getOfflineQueue: () => mockQueue,
+  startOfflineQueueSync: () => mockStartSync(),
+  subscribeOfflineQueue: (listener: () => void) => {
+    mockListener = listener;
+    return mockUnsubscribe;
+  },
+}));
+
+import { OfflineQueueBridge } from '@/shared/providers/bridges/OfflineQueueBridge';
+
+afterEach(() => {
+  cleanup();
+  mockQueue.length = 0;
+  mockStopSync.mockClear();
+  mockStartSync.mockClear();
+  mockUnsubscribe.mockClear();
+});
+
+const withSession = ({ set }: MutableSnapshot) => {
+  set(authBootstrapState, true);
+  set(authSessionState, true);
+};
+
+const QueueSize = () => <span data-testid="queue-size">{useRecoilValue(offlineQueueSizeState)}</span>;
+
+describe('OfflineQueueBridge', () => {
+  it('mirrors the persisted queue size into Recoil', () => {
+    mockQueue.push({ id: 'queued-before-reload' });
+
+    const { getByTestId } = render(
+      <RecoilRoot>
+        <OfflineQueueBridge />
+        <QueueSize />
+      </RecoilRoot>
+    );
+    expect(getByTestId('queue-size')).toHaveTextContent('1');
+
+    mockQueue.push({ id: 'queued-1' }, { id: 'queued-2' });
+    act(() => mockListener?.());
+    expect(getByTestId('queue-size')).toHaveTextContent('3');
+  });
+
+  it('follows queue changes made by another tab', () => {
+    const { getByTestId } = render(
+      <RecoilRoot>
+        <OfflineQueueBridge />
+        <QueueSize />
+      </RecoilRoot>
+    );
+
+    mockQueue.push({ id: 'queued-in-other-tab' });
+    act(() => {
+      globalThis.window.dispatchEvent(new StorageEvent('storage', { key: 'unrelated' }));
+    });
+    expect(getByTestId('queue-size')).toHaveTextContent('0');
+
+    act(() => {
+      globalThis.window.dispatchEvent(new StorageEvent('storage', { key: 'httpOfflineQueue' }));
+    });
+    expect(getByTestId('queue-size')).toHaveTextContent('1');
+
+    mockQueue.length = 0;
+    act(() => {
+      globalThis.window.dispatchEvent(new StorageEvent('storage', { key: 'httpOfflineQueue' }));
+    });
+    expect(getByTestId('queue-size')).toHaveTextContent('0');
+  });
+
+  it('waits for a restored session before replaying the queue', () => {
+    const { unmount } = render(
+      <RecoilRoot>
+        <OfflineQueueBridge />
+      </RecoilRoot>
+    );
+    unmount();
+
+    render(
+      <RecoilRoot initializeState={({ set }) => set(authBootstrapState, true)}>
+        <OfflineQueueBridge />
+      </RecoilRoot>
+    );
+
+    expect(mockStartSync).not.toHaveBeenCalled();
+  });
+
+  it('unsubscribes and stops syncing on unmount', () => {
+    const { unmount } = render(
+      <RecoilRoot initializeState={withSession}>
+        <OfflineQueueBridge />
+      </RecoilRoot>
+    );
+    expect(mockStartSync).toHaveBeenCalledTimes(1);
+
+    unmount();
+
+    expect(mockUnsubscribe).toHaveBeenCalledTimes(1);
+    expect(mockStopSync).toHaveBeenCalledTimes(1);
+  });
+});
@@ -1,3 +1,4 @@
 export { AppRecoilRoot } from './AppRecoilRoot';
 export { HttpLoadingBridge } from './HttpLoadingBridge';
+export { OfflineQueueBridge } from './OfflineQueueBridge';
 export { getRouter, RouterBridge } from './RouterBridge';
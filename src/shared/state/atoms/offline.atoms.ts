@@ -0,0 +1,7 @@
+import { atom } from 'recoil';
+
+/** Number of mutations waiting in the offline queue of every tab (kept in sync by OfflineQueueBridge) */
+export const offlineQueueSizeState = atom<number>({
+  key: 'offline/queueSize',
+  default: 0,
+});
@@ -1,3 +1,4 @@
 export * from './atoms/loading.atoms';
+export * from './atoms/offline.atoms';
 export * from './atoms/ui.atoms';
 export * from './controllers/loading.controller';
@@ -0,0 +1,158 @@
+'use client';
+
+import { ApiOutlined } from '@ant-design/icons';
+import { Button, Drawer, FloatButton, Table, Tabs, Tag, Typography } from 'antd';
+import type { ColumnsType } from 'antd/es/table';
+import { useTranslations } from 'next-intl';
+import { useEffect, useState, useSyncExternalStore } from 'react';
+
+import type { HttpInspectorEntry, HttpInspectorState } from '@/shared/infra/http/http.inspector';
+import { createHttpInspector } from '@/shared/infra/http/http.inspector';
+import type { HttpRouteMetrics } from '@/shared/infra/http/http.metrics';
+import { createHttpMetricsCollector } from '@/shared/infra/http/http.metrics';
+
+const stateColors: Record<HttpInspectorState, string> = {
+  pending: 'processing',
+  success: 'success',
+  error: 'error',
+  cancelled: 'default',
+};
+
+const formatBytes = (bytes?: number) => (bytes === undefined ? '–' : `${Math.round(bytes)} B`);
+
+const formatMs = (durationMs?: number) => (durationMs === undefined ? '–' : `${Math.round(durationMs)} ms`);
+
+const BodyPreview = ({ label, body, emptyLabel }: { label: string; body: unknown; emptyLabel: string }) => (
+  <div className="min-w-0 flex-1">
+    <Typography.Text strong>{label}</Typography.Text>
+    <pre className="mt-1 max-h-64 overflow-auto rounded bg-gray-50 p-2 text-xs">
+      {body === undefined ? emptyLabel : typeof body === 'string' ? body : JSON.stringify(body, null, 2)}
+    </pre>
+  </div>
+);
+
+/**
+ * Development drawer listing recent HTTP requests and per-route metrics
+ *
+ * Bodies are redacted by the inspector before they reach this component.
+ */
+export const NetworkInspector = () => {
+  const t = useTranslations('devtools.networkInspector');
+  const [open, setOpen] = useState(false);
+  const [inspector] = useState(() => createHttpInspector());
+  const [metrics] = useState(() => createHttpMetricsCollector());
+
+  useEffect(() => {
+    const stopInspector = inspector.start();
+    const stopMetrics = metrics.start();
+
+    return () => {
+      stopInspector();
+      stopMetrics();
+    };
+  }, [inspector, metrics]);
+
+  const entries = useSyncExternalStore(inspector.subscribe, inspector.getEntries, inspector.getEntries);
+  // Every event the metrics record also updates an entry, so entry changes re-render the routes tab
+  const routeMetrics = open ? metrics.getSnapshot() : [];
+
+  const handleClear = () => {
+    inspector.clear();
+    metrics.reset();
+  };
+
+  const requestColumns: ColumnsType<HttpInspectorEntry> = [
+    { title: t('columns.method'), dataIndex: 'method', width: 80 },
+    { title: t('columns.url'), dataIndex: 'url', ellipsis: true },
+    {
+      title: t('columns.status'),
+      key: 'status',
+      width: 140,
+      render: (_, entry) => <Tag color={stateColors[entry.state]}>{entry.status ?? entry.errorCode ?? t(`states.${entry.state}`)}</Tag>,
+    },
+    { title: t('columns.duration'), dataIndex: 'durationMs', width: 100, render: (value?: number) => formatMs(value) },
+    { title: t('columns.attempts'), dataIndex: 'attempts', width: 90 },
+    {
+      title: t('columns.correlationId'),
+      dataIndex: 'correlationId',
+      width: 200,
+      render: (value: string) => (
+        <Typography.Text code copyable className="text-xs">
+          {value}
+        </Typography.Text>
+      ),
+    },
+  ];
+
+  const routeColumns: ColumnsType<HttpRouteMetrics> = [
+    { title: t('columns.route'), dataIndex: 'route', ellipsis: true },
+    { title: t('columns.requests'), dataIndex: 'requests', width: 90 },
+    { title: t('columns.retries'), dataIndex: 'retries', width: 90 },
+    { title: t('columns.errorRate'), dataIndex: 'errorRate', width: 100, render: (value: number) => `${Math.round(value * 100)} %` },
+    { title: t('columns.p50'), key: 'p50', width: 90, render: (_, route) => formatMs(route.latency?.p50) },
+    { title: t('columns.p95'), key: 'p95', width: 90, render: (_, route) => formatMs(route.latency?.p95) },
+    { title: t('columns.p99'), key: 'p99', width: 90, render: (_, route) => formatMs(route.latency?.p99) },
+    {
+      title: t('columns.payload'),
+      key: 'payload',
+      width: 160,
+      render: (_, route) => `${formatBytes(route.averageRequestBytes)} / ${formatBytes(route.averageResponseBytes)}`,
+    },
+  ];
+
+  return (
+    <>
+      <FloatButton icon={<ApiOutlined />} tooltip={t('open')} aria-label={t('open')} onClick={() => setOpen(true)} style={{ insetInlineStart: 24 }} />
+      <Drawer
+        title={t('title')}
+        placement="bottom"
+        height="60vh"
+        open={open}
+        onClose={() => setOpen(false)}
+        extra={<Button onClick={handleClear}>{t('clear')}</Button>}
+        destroyOnHidden
+      >
+        <Tabs
+          items={[
+            {
+              key: 'requests',
+              label: `${t('requests')} (${entries.length})`,
+              children: (
+                <Table<HttpInspectorEntry>
+                  rowKey="correlationId"
+                  size="small"
+                  columns={requestColumns}
+                  dataSource={[...entries]}
+                  pagination={false}
+                  locale={{ emptyText: t('empty') }}
+                  expandable={{
+                    expandedRowRender: entry => (
+                      <div className="flex gap-4">
+                        <BodyPreview label={t('requestBody')} body={entry.requestBody} emptyLabel={t('noBody')} />
+                        <BodyPreview label={t('responseBody')} body={entry.responseBody} emptyLabel={t('noBody')} />
+                      </div>
+                    ),
+                  }}
+                />
+              ),
+            },
+            {
+              key: 'routes',
+              label: t('routes'),
+              children: (
+                <Table<HttpRouteMetrics>
+                  rowKey="route"
+                  size="small"
+                  columns={routeColumns}
+                  dataSource={routeMetrics}
+                  pagination={false}
+                  locale={{ emptyText: t('empty') }}
+                />
+              ),
+            },
+          ]}
+        />
+      </Drawer>
+    </>
+  );
+};
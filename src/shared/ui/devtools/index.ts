@@ -0,0 +1 @@
+export { NetworkInspector } from './NetworkInspector';
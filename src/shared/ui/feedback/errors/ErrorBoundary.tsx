@@ -2,7 +2,9 @@
 
 import { Component, type ErrorInfo, type ReactNode } from 'react';
 
+import { isForbiddenError } from '@/shared/infra/errors/appError';
 import { logError } from '@/shared/infra/monitoring/logger';
+import { ForbiddenPage } from '@/shared/ui/feedback/errors/ForbiddenPage';
 import { Button } from '@/shared/ui/primitives/Button/Button';
 
 /**
@@ -33,6 +35,7 @@ interface ErrorBoundaryState {
  * This component provides:
  * - Error catching and logging for child components
  * - Customizable fallback UI or default error display
+ * - 403 page for AppErrors with code FORBIDDEN
  * - Reset functionality to recover from errors
  * - Development-mode error stack trace display
  *
@@ -104,6 +107,10 @@ export class ErrorBoundary extends Component<ErrorBoundaryProps, ErrorBoundarySt
       return this.props.fallback;
     }
 
+    if (isForbiddenError(this.state.error)) {
+      return <ForbiddenPage />;
+    }
+
     return (
       <div className="flex min-h-[200px] flex-col items-center justify-center gap-4 rounded-xl border border-slate-200 bg-white p-6 text-center">
         <h2 className="text-lg font-semibold text-slate-900">Something went wrong</h2>
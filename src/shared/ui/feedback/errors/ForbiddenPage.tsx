@@ -0,0 +1,48 @@
+'use client';
+
+import { useLocale, useTranslations } from 'next-intl';
+
+import { Button } from '@/shared/ui/primitives/Button/Button';
+
+/**
+ * Props for the ForbiddenPage component
+ */
+interface ForbiddenPageProps {
+  /** Optional message explaining what is not allowed */
+  message?: string;
+}
+
+/**
+ * ForbiddenPage - 403 view for users without the required permission
+ *
+ * Rendered by the /forbidden route (opened by the HTTP client on a backend 403), by
+ * requirePermission, and by the error boundaries when an AppError with code FORBIDDEN is thrown.
+ *
+ * @example
+ * ```tsx
+ * if (isForbiddenError(error)) return <ForbiddenPage />;
+ * ```
+ *
+ * @param props - The component props
+ * @param props.message - Optional message, defaults to the translated permission message
+ * @returns A styled 403 page
+ */
+export const ForbiddenPage = ({ message }: Readonly<ForbiddenPageProps>) => {
+  const t = useTranslations('forbidden');
+  const locale = useLocale();
+
+  const handleBackHome = (): void => {
+    globalThis.location.href = `/${locale}`;
+  };
+
+  return (
+    <div className="flex min-h-[200px] flex-col items-center justify-center gap-4 rounded-xl border border-slate-200 bg-white p-6 text-center">
+      <p className="text-4xl font-bold text-slate-300">403</p>
+      <h2 className="text-lg font-semibold text-slate-900">{t('title')}</h2>
+      <p className="text-sm text-slate-500">{message ?? t('description')}</p>
+      <Button variant="outline" onClick={handleBackHome}>
+        {t('backHome')}
+      </Button>
+    </div>
+  );
+};
@@ -16,6 +16,14 @@ jest.mock('@/shared/ui/primitives/Button/Button', () => ({
   ),
 }));
 
+// ForbiddenPage copy
+jest.mock('next-intl', () => ({
+  useLocale: () => 'en',
+  useTranslations: () => (key: string) =>
+    ({ title: 'Access denied', description: 'You do not have permission to perform this action.', backHome: 'Back home' })[key] ?? key,
+}));
+
+import { ForbiddenError } from '@/shared/infra/errors/appError';
 import { ErrorBoundary, ErrorBoundaryWrapper } from '@/shared/ui/feedback/errors/ErrorBoundary';
 
 // Component that throws an error
@@ -202,6 +210,21 @@ describe('ErrorBoundary (TDD)', () => {
     });
   });
 
+  describe('Forbidden Errors', () => {
+    it('renders the 403 page for forbidden AppErrors', () => {
+      render(
+        <ErrorBoundary>
+          <ThrowError shouldThrow={true} error={new ForbiddenError('users:manage')} />
+        </ErrorBoundary>
+      );
+
+      expect(screen.getByText('403')).toBeInTheDocument();
+      expect(screen.getByText('You do not have permission to perform this action.')).toBeInTheDocument();
+      expect(screen.queryByText('Something went wrong')).not.toBeInTheDocument();
+      expect(screen.getByText('Back home')).toBeInTheDocument();
+    });
+  });
+
   describe('Custom Fallback UI', () => {
     it('renders custom fallback when provided', () => {
       const customFallback = <div data-testid="custom-fallback">Custom Error UI</div>;
@@ -17,6 +17,14 @@ jest.mock('@/shared/ui/feedback/errors/ErrorBoundaryFallback', () => ({
   },
 }));
 
+// ForbiddenPage copy
+jest.mock('next-intl', () => ({
+  useLocale: () => 'en',
+  useTranslations: () => (key: string) =>
+    ({ title: 'Access denied', description: 'You do not have permission to perform this action.', backHome: 'Back home' })[key] ?? key,
+}));
+
+import { ForbiddenError } from '@/shared/infra/errors/appError';
 import { createRouteError } from '@/shared/ui/feedback/errors/createRouteError';
 
 describe('createRouteError (TDD)', () => {
@@ -74,6 +82,18 @@ describe('createRouteError (TDD)', () => {
     expect(reset).toHaveBeenCalledTimes(1);
   });
 
+  it('renders the 403 page instead of the fallback for forbidden errors', () => {
+    const onError = jest.fn();
+    const Component = createRouteError({ onError });
+    const error = new ForbiddenError();
+
+    render(<Component error={error} reset={jest.fn()} />);
+
+    expect(screen.getByText('403')).toBeInTheDocument();
+    expect(screen.queryByTestId('fallback')).not.toBeInTheDocument();
+    expect(onError).toHaveBeenCalledWith(error);
+  });
+
   it('renders without actions when actions prop is not provided', () => {
     const Component = createRouteError();
 
@@ -3,7 +3,9 @@
 import type { ReactNode } from 'react';
 import { useEffect } from 'react';
 
+import { isForbiddenError } from '@/shared/infra/errors/appError';
 import { ErrorBoundaryFallback } from '@/shared/ui/feedback/errors/ErrorBoundaryFallback';
+import { ForbiddenPage } from '@/shared/ui/feedback/errors/ForbiddenPage';
 
 /**
  * Options for configuring the route error handler
@@ -33,6 +35,7 @@ interface RouteErrorProps {
  * - Automatic error logging via onError callback
  * - Customizable error UI with additional actions
  * - Integration with ErrorBoundaryFallback component
+ * - 403 page for AppErrors with code FORBIDDEN
  * - Proper error boundary reset functionality
  *
  * The created component automatically calls the onError callback when an error occurs,
@@ -80,6 +83,10 @@ export const createRouteError = ({ onError, actions }: CreateRouteErrorOptions =
       onError?.(error);
     }, [error]);
 
+    if (isForbiddenError(error)) {
+      return <ForbiddenPage />;
+    }
+
     return <ErrorBoundaryFallback error={error} onRetry={reset} actions={actions} />;
   };
 
@@ -1,3 +1,4 @@
 export { createRouteError } from './createRouteError';
 export { ErrorBoundary, ErrorBoundaryWrapper } from './ErrorBoundary';
 export { ErrorBoundaryFallback } from './ErrorBoundaryFallback';
+export { ForbiddenPage } from './ForbiddenPage';
@@ -1,6 +1,6 @@
 'use client';
 
-import { LockOutlined, LogoutOutlined, SettingOutlined, UserOutlined } from '@ant-design/icons';
+import { CloudSyncOutlined, LockOutlined, LogoutOutlined, SettingOutlined, UserOutlined } from '@ant-design/icons';
 import type { MenuProps } from 'antd';
 import { Button, Dropdown } from 'antd';
 import Image from 'next/image';
@@ -10,8 +10,10 @@ import { useState } from 'react';
 import { useRecoilValue } from 'recoil';
 
 import { useAuth } from '@/app/[locale]/(public)/auth/(_lib)/hooks/useAuth';
+import { useCan } from '@/app/[locale]/(public)/auth/(_lib)/hooks/useCan';
 import { authUserState } from '@/app/[locale]/(public)/auth/(_lib)/model/auth.atoms';
 import { siteConfig } from '@/shared/config/site';
+import { offlineQueueSizeState } from '@/shared/state/atoms/offline.atoms';
 import { ChangePasswordModal } from '@/shared/ui/feedback/modals';
 import { LanguageSwitcher } from '@/shared/ui/navigation/LanguageSwitcher';
 
@@ -21,7 +23,9 @@ export const Header = () => {
   const sidebarTranslations = useTranslations('layout.sidebar');
   const router = useRouter();
   const user = useRecoilValue(authUserState);
+  const pendingSyncCount = useRecoilValue(offlineQueueSizeState);
   const { logout } = useAuth();
+  const can = useCan();
   const [isChangePasswordModalOpen, setIsChangePasswordModalOpen] = useState(false);
 
   const handleGoDashboard = () => {
@@ -40,7 +44,7 @@ export const Header = () => {
         router.push(`/${locale}/settings`);
         break;
       case 'signout':
-        logout();
+        void logout();
         break;
       default:
         break;
@@ -58,11 +62,16 @@ export const Header = () => {
       label: headerTranslations('changePassword'),
       icon: <LockOutlined />,
     },
-    {
-      key: 'settings',
-      label: headerTranslations('settings'),
-      icon: <SettingOutlined />,
-    },
+    // Settings are limited to roles that may change them
+    ...(can('settings:manage')
+      ? [
+          {
+            key: 'settings',
+            label: headerTranslations('settings'),
+            icon: <SettingOutlined />,
+          },
+        ]
+      : []),
     {
       type: 'divider',
     },
@@ -107,6 +116,19 @@ export const Header = () => {
 
       {/* Right Section */}
       <div className="flex items-center gap-4">
+        {/* Offline Changes Waiting For Sync */}
+        {pendingSyncCount > 0 && (
+          <div
+            className="flex items-center gap-2 rounded-lg border border-amber-200 bg-amber-50 px-3 py-1 text-xs font-medium text-amber-700"
+            role="status"
+            title={headerTranslations('pendingSync', { count: pendingSyncCount })}
+          >
+            <CloudSyncOutlined />
+            <span className="hidden sm:inline">{headerTranslations('pendingSync', { count: pendingSyncCount })}</span>
+            <span className="sm:hidden">{pendingSyncCount}</span>
+          </div>
+        )}
+
         {/* User Profile Section */}
         <div className="flex items-center gap-3">
           {/* User Info */}
@@ -6,11 +6,17 @@ jest.mock('@/shared/infra/http/http.client', () => ({
   httpGet: jest.fn(),
 }));
 
+jest.mock('@/shared/infra/http/http.progress', () => ({
+  ...jest.requireActual('@/shared/infra/http/http.progress'),
+  sendWithProgress: jest.fn(),
+}));
+
 jest.mock('@/shared/infra/validation/schemas', () => ({
   parseApiResponse: jest.fn(),
 }));
 
 import { httpGet } from '@/shared/infra/http/http.client';
+import { sendWithProgress } from '@/shared/infra/http/http.progress';
 import { parseApiResponse } from '@/shared/infra/validation/schemas';
 import { getPresignedUrl, type PresignedUrlResponse, uploadFileToS3, uploadToS3 } from '../s3-upload';
 
@@ -67,7 +73,7 @@ describe('s3-upload utilities', () => {
           file_type: 'jpeg',
           content_type: 'image/jpeg',
         },
-        meta: { showErrorNotification: true },
+        meta: { showErrorNotification: true, priority: 'high' },
       });
       expect(parseApiResponse).toHaveBeenCalledTimes(1);
       expect(result).toEqual(parsed);
@@ -110,6 +116,22 @@ describe('s3-upload utilities', () => {
       expect(result).toBe('https://bucket.s3.amazonaws.com/uploads/avatar/file.jpg');
     });
 
+    it('uploads through the progress transport when a progress callback is given', async () => {
+      const file = createTestFile('content');
+      const onUploadProgress = jest.fn();
+      (sendWithProgress as jest.Mock).mockResolvedValue({ ok: true, status: 200, statusText: 'OK' });
+
+      const result = await uploadToS3(file, 'https://bucket/file.jpg?signature=abc', { onUploadProgress });
+
+      expect(sendWithProgress).toHaveBeenCalledWith(
+        'https://bucket/file.jpg?signature=abc',
+        { method: 'PUT', body: file, headers: { 'Content-Type': file.type } },
+        { onUploadProgress }
+      );
+      expect(global.fetch).not.toHaveBeenCalled();
+      expect(result).toBe('https://bucket/file.jpg');
+    });
+
     it('throws when upload response is not ok', async () => {
       const file = createTestFile('nope');
       (global.fetch as jest.Mock).mockResolvedValue({
@@ -118,9 +140,7 @@ describe('s3-upload utilities', () => {
         statusText: 'Forbidden',
       });
 
-      await expect(uploadToS3(file, 'https://bucket/file?signature=abc')).rejects.toThrow(
-        'Failed to upload file to S3: Forbidden (403)'
-      );
+      await expect(uploadToS3(file, 'https://bucket/file?signature=abc')).rejects.toThrow('Failed to upload file to S3: Forbidden (403)');
     });
   });
 
@@ -151,11 +171,31 @@ describe('s3-upload utilities', () => {
           file_type: 'jpeg',
           content_type: 'image/jpeg',
         },
-        meta: { showErrorNotification: true },
+        meta: { showErrorNotification: true, priority: 'high' },
       });
       expect(result).toBe('https://bucket.s3.amazonaws.com/uploads/avatar/avatar.jpg');
     });
 
+    it('forwards the upload progress callback', async () => {
+      const file = createTestFile('image data', 'avatar.jpg', 'image/jpeg');
+      const onUploadProgress = jest.fn();
+
+      (httpGet as jest.Mock).mockResolvedValue({ raw: true });
+      (parseApiResponse as jest.Mock).mockReturnValue({
+        success: true,
+        data: {
+          presigned_url: 'https://bucket.s3.amazonaws.com/uploads/avatar/avatar.jpg?signature=xyz',
+          file_key: 'uploads/avatar/avatar.jpg',
+        },
+        message: 'ok',
+      });
+      (sendWithProgress as jest.Mock).mockResolvedValue({ ok: true, status: 200, statusText: 'OK' });
+
+      await uploadFileToS3({ file, onUploadProgress });
+
+      expect(sendWithProgress).toHaveBeenCalledWith(expect.any(String), expect.objectContaining({ method: 'PUT' }), { onUploadProgress });
+    });
+
     it('respects custom prefix and handles missing MIME type', async () => {
       const file = createTestFile('binary', 'avatar.bin', '');
       Object.defineProperty(file, 'type', { value: '' });
@@ -183,7 +223,7 @@ describe('s3-upload utilities', () => {
           file_type: 'jpg',
           content_type: '',
         },
-        meta: { showErrorNotification: true },
+        meta: { showErrorNotification: true, priority: 'high' },
       });
       expect(result).toBe('https://bucket.s3.amazonaws.com/uploads/custom/avatar.bin');
     });
@@ -206,9 +246,7 @@ describe('s3-upload utilities', () => {
         statusText: 'Internal Server Error',
       });
 
-      await expect(uploadFileToS3({ file })).rejects.toThrow(
-        'Failed to upload file to S3: Internal Server Error (500)'
-      );
+      await expect(uploadFileToS3({ file })).rejects.toThrow('Failed to upload file to S3: Internal Server Error (500)');
     });
   });
 });
@@ -2,6 +2,8 @@ import { z } from 'zod';
 
 import { API_ROUTES } from '@/shared/config/api';
 import { httpGet } from '@/shared/infra/http/http.client';
+import { getHttpTransport } from '@/shared/infra/http/http.transport';
+import type { HttpProgressHandler } from '@/shared/infra/http/http.types';
 import { parseApiResponse } from '@/shared/infra/validation/schemas';
 
 export interface PresignedUrlParams {
@@ -22,7 +24,12 @@ const presignedUrlResponseSchema = z.object({
 
 export type PresignedUrlResponse = z.infer<typeof presignedUrlResponseSchema>;
 
-export interface S3UploadOptions {
+export interface S3TransferOptions {
+  /** Called while the file is uploaded (loaded/total bytes, percent, speed) */
+  onUploadProgress?: HttpProgressHandler;
+}
+
+export interface S3UploadOptions extends S3TransferOptions {
   prefix?: string;
   file: File;
 }
@@ -37,7 +44,8 @@ export async function getPresignedUrl(params: PresignedUrlParams): Promise<Presi
       file_type: params.file_type,
       content_type: params.content_type,
     },
-    meta: { showErrorNotification: true },
+    // Part of a user-triggered save: ahead of background reads
+    meta: { showErrorNotification: true, priority: 'high' },
   });
 
   // Parse and validate the response with the schema
@@ -48,17 +56,21 @@ export async function getPresignedUrl(params: PresignedUrlParams): Promise<Presi
  * Upload a file to S3 using a presigned PUT URL
  * @param file File to upload
  * @param presignedUrl Presigned PUT URL from the backend (includes all query params)
+ * @param options Transfer options (upload progress callback)
  * @returns URL of the uploaded file on S3 (base URL without query params)
  */
-export async function uploadToS3(file: File, presignedUrl: string): Promise<string> {
-  // Upload the file to S3 using the PUT method (presigned PUT URL)
-  const response = await fetch(presignedUrl, {
+export async function uploadToS3(file: File, presignedUrl: string, options: S3TransferOptions = {}): Promise<string> {
+  const uploadInit: RequestInit = {
     method: 'PUT',
     body: file,
     headers: {
       'Content-Type': file.type,
     },
-  });
+  };
+
+  // Upload the file to S3 using the PUT method (presigned PUT URL)
+  // The HTTP transport switches to XMLHttpRequest when upload progress is tracked
+  const response = await getHttpTransport()(presignedUrl, uploadInit, { onUploadProgress: options.onUploadProgress });
 
   if (!response.ok) {
     throw new Error(`Failed to upload file to S3: ${response.statusText} (${response.status})`);
@@ -77,11 +89,11 @@ export async function uploadToS3(file: File, presignedUrl: string): Promise<stri
  * 2. Upload the file to S3 using the PUT method
  * 3. Return the URL of the uploaded file
  *
- * @param options Upload options: file and prefix (optional)
+ * @param options Upload options: file, prefix (optional) and upload progress callback (optional)
  * @returns URL of the uploaded file on S3
  */
 export async function uploadFileToS3(options: S3UploadOptions): Promise<string> {
-  const { file, prefix = 'uploads/avatar' } = options;
+  const { file, prefix = 'uploads/avatar', onUploadProgress } = options;
 
   // Step 1: Get a presigned URL from the backend
   const presignedResponse = await getPresignedUrl({
@@ -93,7 +105,7 @@ export async function uploadFileToS3(options: S3UploadOptions): Promise<string>
   const { presigned_url } = presignedResponse.data;
 
   // Step 2: Upload the file to S3 using the presigned PUT URL
-  const fileUrl = await uploadToS3(file, presigned_url);
+  const fileUrl = await uploadToS3(file, presigned_url, { onUploadProgress });
 
   // Step 3: Return the file URL (after a successful upload)
   // The URL will be the presigned_url without query params